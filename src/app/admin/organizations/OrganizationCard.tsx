@@ -0,0 +1,198 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { useRouter } from "next/navigation";
+import type { Branding } from "@/lib/branding";
+import OrganizationForm from "./OrganizationForm";
+
+interface Member {
+  user_id: string;
+  email: string;
+}
+
+/**
+ * One organization: a preview of its proposal header, its branding
+ * (editable), logo upload and members.
+ */
+export default function OrganizationCard({ branding, members }: { branding: Branding; members: Member[] }) {
+  const [editing, setEditing] = useState(false);
+  const [email, setEmail] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const router = useRouter();
+  const base = `/api/organizations/${branding.organization_id}`;
+
+  const send = async (url: string, init: RequestInit, fallback: string) => {
+    setError("");
+    setBusy(true);
+    try {
+      const res = await fetch(url, init);
+      const json = await res.json();
+      if (!json.ok) {
+        setError(json.error || fallback);
+        return false;
+      }
+      router.refresh();
+      return true;
+    } catch {
+      setError("Network error. Please try again.");
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const uploadLogo = async (file: File) => {
+    const form = new FormData();
+    form.append("logo", file);
+    await send(`${base}/logo`, { method: "POST", body: form }, "Failed to upload logo.");
+  };
+
+  const removeLogo = () => send(`${base}/logo`, { method: "DELETE" }, "Failed to remove logo.");
+
+  const addMember = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+    const added = await send(
+      `${base}/members`,
+      { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ email: email.trim() }) },
+      "Failed to add member."
+    );
+    if (added) setEmail("");
+  };
+
+  const removeMember = (userId: string) =>
+    send(
+      `${base}/members`,
+      { method: "DELETE", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ user_id: userId }) },
+      "Failed to remove member."
+    );
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg border border-gray-100 overflow-hidden">
+      {/* Header preview */}
+      <div
+        className="px-6 py-5"
+        style={{
+          background: `linear-gradient(135deg, ${branding.primary_color} 0%, ${branding.accent_color} 60%, ${branding.accent_color} 100%)`,
+        }}
+      >
+        {branding.logo_url ? (
+          <Image
+            src={branding.logo_url}
+            alt={branding.company_name}
+            width={160}
+            height={36}
+            className="h-9 w-auto max-w-[160px] object-contain object-left"
+            unoptimized
+          />
+        ) : (
+          <p className="text-base font-semibold text-white">{branding.company_name}</p>
+        )}
+        <p className="text-[10px] font-medium uppercase tracking-widest mt-3" style={{ color: "rgba(255,255,255,0.7)" }}>
+          {branding.proposal_title}
+        </p>
+      </div>
+
+      <div className="p-6 space-y-5">
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        {editing ? (
+          <OrganizationForm branding={branding} onDone={() => setEditing(false)} />
+        ) : (
+          <div className="flex items-start justify-between gap-4">
+            <div className="text-sm text-gray-600 space-y-0.5">
+              <p className="font-semibold text-gray-900">{branding.company_name}</p>
+              <p>{[branding.contact_email, branding.contact_phone].filter(Boolean).join(" · ") || "No contact details"}</p>
+              {branding.address && <p className="text-xs text-gray-500 whitespace-pre-line">{branding.address}</p>}
+              {branding.footer_text && <p className="text-xs text-gray-400 whitespace-pre-line">{branding.footer_text}</p>}
+            </div>
+            <button
+              onClick={() => setEditing(true)}
+              className="text-xs font-medium transition-colors shrink-0"
+              style={{ color: "#38b6ff" }}
+            >
+              Edit
+            </button>
+          </div>
+        )}
+
+        {/* Logo */}
+        <div className="flex flex-wrap items-center gap-3 pt-4 border-t border-gray-100">
+          <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Logo</p>
+          <label className="px-3 py-1.5 rounded-lg text-xs font-medium bg-white border border-gray-200 text-gray-700 hover:bg-gray-50 transition-all cursor-pointer">
+            {branding.logo_url ? "Replace" : "Upload"}
+            <input
+              type="file"
+              accept="image/png,image/jpeg,image/webp"
+              className="hidden"
+              disabled={busy}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) uploadLogo(file);
+              }}
+            />
+          </label>
+          {branding.logo_url && (
+            <button
+              onClick={removeLogo}
+              disabled={busy}
+              className="text-xs text-gray-500 hover:text-red-600 transition-colors disabled:opacity-50"
+            >
+              Remove
+            </button>
+          )}
+          <p className="text-xs text-gray-400">PNG, JPEG or WebP up to 1 MB, light on a transparent background. PDFs show WebP logos as the name instead.</p>
+        </div>
+
+        {/* Members */}
+        <div className="pt-4 border-t border-gray-100">
+          <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">
+            Members ({members.length})
+          </p>
+          {members.length > 0 && (
+            <ul className="mb-3 divide-y divide-gray-100">
+              {members.map((m) => (
+                <li key={m.user_id} className="py-1.5 flex items-center justify-between text-sm text-gray-700">
+                  {m.email}
+                  <button
+                    onClick={() => removeMember(m.user_id)}
+                    disabled={busy}
+                    className="text-xs text-gray-400 hover:text-red-600 transition-colors disabled:opacity-50"
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <form onSubmit={addMember} className="flex gap-2">
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="rep@broker.com"
+              className="flex-1 px-3 py-2 border border-gray-200 rounded-lg text-sm outline-none transition-all focus:border-[#38b6ff] focus:ring-2 focus:ring-[#38b6ff]/20"
+              disabled={busy}
+            />
+            <button
+              type="submit"
+              disabled={busy || !email.trim()}
+              className="px-4 py-2 text-white text-sm font-medium rounded-lg transition-all active:scale-[0.98] disabled:opacity-50"
+              style={{ backgroundColor: "#0b2043" }}
+            >
+              Add Member
+            </button>
+          </form>
+          <p className="text-xs text-gray-400 mt-1">Reps must have signed up. Adding moves them from any other organization.</p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { type Branding, DEFAULT_BRANDING, isHexColor } from "@/lib/branding";
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-200 rounded-lg text-sm outline-none transition-all focus:border-[#38b6ff] focus:ring-2 focus:ring-[#38b6ff]/20";
+
+function ColorField({
+  label,
+  value,
+  onChange,
+  disabled,
+}: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  disabled: boolean;
+}) {
+  return (
+    <label className="text-xs text-gray-500">
+      {label}
+      <div className="flex gap-2">
+        <input
+          type="color"
+          value={isHexColor(value) ? value : "#000000"}
+          onChange={(e) => onChange(e.target.value)}
+          className="h-9 w-10 shrink-0 rounded border border-gray-200 bg-white"
+          disabled={disabled}
+        />
+        <input type="text" value={value} onChange={(e) => onChange(e.target.value)} className={inputClass} disabled={disabled} />
+      </div>
+    </label>
+  );
+}
+
+/**
+ * Create a new organization, or edit one's branding when `branding` is
+ * given. The logo is managed separately.
+ */
+export default function OrganizationForm({
+  branding,
+  onDone,
+}: {
+  branding?: Branding;
+  onDone?: () => void;
+}) {
+  const [name, setName] = useState(branding?.company_name ?? "");
+  const [proposalTitle, setProposalTitle] = useState(branding?.proposal_title ?? "");
+  const [primaryColor, setPrimaryColor] = useState(branding?.primary_color ?? DEFAULT_BRANDING.primary_color);
+  const [accentColor, setAccentColor] = useState(branding?.accent_color ?? DEFAULT_BRANDING.accent_color);
+  const [contactEmail, setContactEmail] = useState(branding?.contact_email ?? "");
+  const [contactPhone, setContactPhone] = useState(branding?.contact_phone ?? "");
+  const [address, setAddress] = useState(branding?.address ?? "");
+  const [footerText, setFooterText] = useState(branding?.footer_text ?? "");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const router = useRouter();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (!name.trim()) { setError("Name is required."); return; }
+    if (!isHexColor(primaryColor) || !isHexColor(accentColor)) { setError("Colors must be #rrggbb."); return; }
+
+    setLoading(true);
+    try {
+      const res = await fetch(branding ? `/api/organizations/${branding.organization_id}` : "/api/organizations", {
+        method: branding ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: name.trim(),
+          proposal_title: proposalTitle.trim() || null,
+          primary_color: primaryColor,
+          accent_color: accentColor,
+          contact_email: contactEmail.trim() || null,
+          contact_phone: contactPhone.trim() || null,
+          address: address.trim() || null,
+          footer_text: footerText.trim() || null,
+        }),
+      });
+
+      const json = await res.json();
+      if (!json.ok) {
+        setError(json.error || "Failed to save organization.");
+        return;
+      }
+
+      if (!branding) {
+        setName("");
+        setProposalTitle("");
+        setPrimaryColor(DEFAULT_BRANDING.primary_color);
+        setAccentColor(DEFAULT_BRANDING.accent_color);
+        setContactEmail("");
+        setContactPhone("");
+        setAddress("");
+        setFooterText("");
+      }
+      onDone?.();
+      router.refresh();
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg animate-fade-in">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <label className="text-xs text-gray-500">
+          Company Name
+          <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClass} placeholder="e.g. Harbor Benefits" disabled={loading} />
+        </label>
+        <label className="text-xs text-gray-500">
+          Proposal Title
+          <input type="text" value={proposalTitle} onChange={(e) => setProposalTitle(e.target.value)} className={inputClass} placeholder={DEFAULT_BRANDING.proposal_title} disabled={loading} />
+        </label>
+        <ColorField label="Primary Color (dark; header and tables)" value={primaryColor} onChange={setPrimaryColor} disabled={loading} />
+        <ColorField label="Accent Color (highlights and figures)" value={accentColor} onChange={setAccentColor} disabled={loading} />
+        <label className="text-xs text-gray-500">
+          Contact Email
+          <input type="email" value={contactEmail} onChange={(e) => setContactEmail(e.target.value)} className={inputClass} disabled={loading} />
+        </label>
+        <label className="text-xs text-gray-500">
+          Contact Phone
+          <input type="tel" value={contactPhone} onChange={(e) => setContactPhone(e.target.value)} className={inputClass} disabled={loading} />
+        </label>
+        <label className="text-xs text-gray-500">
+          Address
+          <textarea value={address} onChange={(e) => setAddress(e.target.value)} rows={2} className={inputClass} disabled={loading} />
+        </label>
+        <label className="text-xs text-gray-500">
+          Footer Text
+          <textarea value={footerText} onChange={(e) => setFooterText(e.target.value)} rows={2} className={inputClass} placeholder="e.g. Copyright © Harbor Benefits LLC." disabled={loading} />
+        </label>
+      </div>
+      <div className="flex items-center gap-3">
+        <button
+          type="submit"
+          disabled={loading}
+          className="py-2 px-4 text-white text-sm font-medium rounded-xl transition-all active:scale-[0.98] disabled:opacity-50"
+          style={{ backgroundColor: "#0b2043" }}
+        >
+          {loading ? "Saving..." : branding ? "Save Changes" : "Add Organization"}
+        </button>
+        {onDone && (
+          <button type="button" onClick={onDone} className="text-xs text-gray-500 hover:text-gray-700 transition-colors">
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
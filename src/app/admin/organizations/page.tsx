@@ -0,0 +1,71 @@
+import { redirect } from "next/navigation";
+import Link from "next/link";
+import Image from "next/image";
+import { getSupabaseServerClient, getAuthUser, isAdmin } from "@/lib/supabase-server";
+import { logoUrl, toBranding } from "@/lib/branding";
+import OrganizationForm from "./OrganizationForm";
+import OrganizationCard from "./OrganizationCard";
+
+export const dynamic = "force-dynamic";
+
+export default async function AdminOrganizationsPage() {
+  const user = await getAuthUser();
+  if (!user) redirect("/login");
+  if (!isAdmin(user)) redirect("/dashboard");
+
+  const supabase = await getSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from("organizations")
+    .select("*, organization_members(user_id, email, created_at)")
+    .order("name", { ascending: true });
+
+  const organizations = (data || []).map((row) => ({
+    branding: toBranding(row, logoUrl(supabase, row.logo_path)),
+    members: ((row.organization_members as { user_id: string; email: string; created_at: string }[] | null) ?? []).sort(
+      (a, b) => a.email.localeCompare(b.email)
+    ),
+  }));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-gray-50 to-gray-100/80">
+      {/* Nav */}
+      <nav className="border-b border-gray-200 bg-white/80 backdrop-blur sticky top-0 z-40">
+        <div className="max-w-5xl mx-auto px-4 py-3 flex items-center justify-between">
+          <Link href="/dashboard" className="flex items-center gap-2">
+            <Image src="/favicon.png" alt="W2 Deck" width={24} height={24} />
+            <span className="text-sm font-semibold" style={{ color: "#0b2043" }}>W2 Deck</span>
+          </Link>
+          <Link href="/dashboard" className="text-xs text-gray-500 hover:text-gray-700 transition-colors">
+            &larr; Dashboard
+          </Link>
+        </div>
+      </nav>
+
+      <div className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold" style={{ color: "#0b2043" }}>Organizations</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Partner brands. Proposals from a member show their organization&apos;s logo, colors and contact details on
+            the page, the PDF and the dashboard. Reps outside any organization use First Gen branding.
+          </p>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-700">Failed to load organizations. Please refresh.</p>
+          </div>
+        )}
+
+        <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6">
+          <h2 className="text-sm font-semibold text-gray-900 mb-4">New Organization</h2>
+          <OrganizationForm />
+        </div>
+
+        {organizations.map((o) => (
+          <OrganizationCard key={o.branding.organization_id} branding={o.branding} members={o.members} />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import type { RateSet } from "@/lib/rate-sets";
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-200 rounded-lg text-sm outline-none transition-all focus:border-[#38b6ff] focus:ring-2 focus:ring-[#38b6ff]/20";
+
+/**
+ * Create a new rate set, or edit an existing one when `rateSet` is given.
+ * An existing set's rates are fixed; only its end date and notes can change.
+ */
+export default function RateSetForm({
+  rateSet,
+  onDone,
+}: {
+  rateSet?: RateSet;
+  onDone?: () => void;
+}) {
+  const year = new Date().getFullYear();
+  const [taxYear, setTaxYear] = useState(String(rateSet?.tax_year ?? year));
+  const [effectiveFrom, setEffectiveFrom] = useState(rateSet?.effective_from ?? `${year}-01-01`);
+  const [effectiveTo, setEffectiveTo] = useState(rateSet?.effective_to ?? "");
+  const [rateEr, setRateEr] = useState(rateSet ? String(rateSet.rate_er) : "");
+  const [rateEe, setRateEe] = useState(rateSet ? String(rateSet.rate_ee) : "");
+  const [notes, setNotes] = useState(rateSet?.notes ?? "");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const router = useRouter();
+
+  const er = parseFloat(rateEr);
+  const ee = parseFloat(rateEe);
+  const total = Number.isFinite(er) && Number.isFinite(ee) ? er + ee : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (total === null) { setError("ER and EE rates are required."); return; }
+
+    setLoading(true);
+    try {
+      const res = await fetch(rateSet ? `/api/rate-sets/${rateSet.id}` : "/api/rate-sets", {
+        method: rateSet ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          rateSet
+            ? { effective_to: effectiveTo || null, notes: notes.trim() || null }
+            : {
+                tax_year: parseInt(taxYear, 10),
+                effective_from: effectiveFrom,
+                effective_to: effectiveTo || null,
+                rate_total: total,
+                rate_er: er,
+                rate_ee: ee,
+                notes: notes.trim() || null,
+              }
+        ),
+      });
+
+      const json = await res.json();
+      if (!json.ok) {
+        setError(json.error || "Failed to save rate set.");
+        return;
+      }
+
+      if (!rateSet) {
+        setRateEr("");
+        setRateEe("");
+        setNotes("");
+      }
+      onDone?.();
+      router.refresh();
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg animate-fade-in">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+        <label className="text-xs text-gray-500">
+          Tax Year
+          <input type="number" value={taxYear} onChange={(e) => setTaxYear(e.target.value)} className={inputClass} disabled={loading || !!rateSet} />
+        </label>
+        <label className="text-xs text-gray-500">
+          Effective From
+          <input type="date" value={effectiveFrom} onChange={(e) => setEffectiveFrom(e.target.value)} className={inputClass} disabled={loading || !!rateSet} />
+        </label>
+        <label className="text-xs text-gray-500">
+          Effective To
+          <input type="date" value={effectiveTo} onChange={(e) => setEffectiveTo(e.target.value)} className={inputClass} disabled={loading} />
+        </label>
+        <label className="text-xs text-gray-500">
+          ER Rate (per W-2)
+          <input type="number" step="0.01" min="0" value={rateEr} onChange={(e) => setRateEr(e.target.value)} className={inputClass} disabled={loading || !!rateSet} />
+        </label>
+        <label className="text-xs text-gray-500">
+          EE Rate (per W-2)
+          <input type="number" step="0.01" min="0" value={rateEe} onChange={(e) => setRateEe(e.target.value)} className={inputClass} disabled={loading || !!rateSet} />
+        </label>
+        <div className="text-xs text-gray-500">
+          Total Rate
+          <p className="px-3 py-2 text-sm text-gray-800">{total === null ? "—" : total.toFixed(2)}</p>
+        </div>
+      </div>
+      {rateSet && (
+        <p className="text-xs text-gray-500">
+          Proposals record the rate set they used, so its rates can&apos;t be changed. Add a new rate set for new rates.
+        </p>
+      )}
+      <label className="block text-xs text-gray-500">
+        Notes
+        <input type="text" value={notes} onChange={(e) => setNotes(e.target.value)} className={inputClass} placeholder="e.g. Updated for SS wage base change" disabled={loading} />
+      </label>
+      <div className="flex items-center gap-3">
+        <button
+          type="submit"
+          disabled={loading}
+          className="py-2 px-4 text-white text-sm font-medium rounded-xl transition-all active:scale-[0.98] disabled:opacity-50"
+          style={{ backgroundColor: "#0b2043" }}
+        >
+          {loading ? "Saving..." : rateSet ? "Save Changes" : "Add Rate Set"}
+        </button>
+        {onDone && (
+          <button type="button" onClick={onDone} className="text-xs text-gray-500 hover:text-gray-700 transition-colors">
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import { useState } from "react";
+import type { RateSet } from "@/lib/rate-sets";
+import { formatUSD } from "@/lib/format";
+import RateSetForm from "./RateSetForm";
+
+export default function RateSetRow({ rateSet }: { rateSet: RateSet }) {
+  const [editing, setEditing] = useState(false);
+
+  if (editing) {
+    return (
+      <tr>
+        <td colSpan={6} className="px-4 py-4 bg-gray-50">
+          <RateSetForm rateSet={rateSet} onDone={() => setEditing(false)} />
+        </td>
+      </tr>
+    );
+  }
+
+  return (
+    <tr className="hover:bg-gray-50 transition-colors">
+      <td className="px-4 py-3 text-sm font-medium text-gray-900">{rateSet.tax_year}</td>
+      <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">
+        {rateSet.effective_from} &ndash; {rateSet.effective_to ?? "open"}
+      </td>
+      <td className="px-4 py-3 text-sm text-gray-900 text-right">{formatUSD(rateSet.rate_total)}</td>
+      <td className="px-4 py-3 text-sm text-gray-600 text-right">{formatUSD(rateSet.rate_er)}</td>
+      <td className="px-4 py-3 text-sm text-gray-600 text-right">{formatUSD(rateSet.rate_ee)}</td>
+      <td className="px-4 py-3 text-sm text-gray-500">
+        <div className="flex items-center justify-between gap-3">
+          <span>{rateSet.notes || "—"}</span>
+          <button
+            onClick={() => setEditing(true)}
+            className="text-xs font-medium transition-colors"
+            style={{ color: "#38b6ff" }}
+          >
+            Edit
+          </button>
+        </div>
+      </td>
+    </tr>
+  );
+}
@@ -0,0 +1,86 @@
+import { redirect } from "next/navigation";
+import Link from "next/link";
+import Image from "next/image";
+import { getSupabaseServerClient, getAuthUser, isAdmin } from "@/lib/supabase-server";
+import { toRateSet } from "@/lib/rate-sets";
+import RateSetForm from "./RateSetForm";
+import RateSetRow from "./RateSetRow";
+
+export const dynamic = "force-dynamic";
+
+export default async function AdminRatesPage() {
+  const user = await getAuthUser();
+  if (!user) redirect("/login");
+  if (!isAdmin(user)) redirect("/dashboard");
+
+  const supabase = await getSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from("rate_sets")
+    .select("*")
+    .order("tax_year", { ascending: false })
+    .order("effective_from", { ascending: false });
+
+  const rateSets = (data || []).map(toRateSet);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-gray-50 to-gray-100/80">
+      {/* Nav */}
+      <nav className="border-b border-gray-200 bg-white/80 backdrop-blur sticky top-0 z-40">
+        <div className="max-w-5xl mx-auto px-4 py-3 flex items-center justify-between">
+          <Link href="/dashboard" className="flex items-center gap-2">
+            <Image src="/favicon.png" alt="W2 Deck" width={24} height={24} />
+            <span className="text-sm font-semibold" style={{ color: "#0b2043" }}>W2 Deck</span>
+          </Link>
+          <Link href="/dashboard" className="text-xs text-gray-500 hover:text-gray-700 transition-colors">
+            &larr; Dashboard
+          </Link>
+        </div>
+      </nav>
+
+      <div className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold" style={{ color: "#0b2043" }}>Rate Sets</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Per-W-2 multipliers by tax year. Existing proposals keep the rates they were generated with.
+          </p>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-700">Failed to load rate sets. Please refresh.</p>
+          </div>
+        )}
+
+        <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6">
+          <h2 className="text-sm font-semibold text-gray-900 mb-4">New Rate Set</h2>
+          <RateSetForm />
+        </div>
+
+        {rateSets.length > 0 && (
+          <div className="bg-white rounded-2xl shadow-lg border border-gray-100 overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-500 uppercase tracking-wider">Year</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-500 uppercase tracking-wider">Effective</th>
+                    <th className="px-4 py-3 text-right text-xs font-semibold text-gray-500 uppercase tracking-wider">Total</th>
+                    <th className="px-4 py-3 text-right text-xs font-semibold text-gray-500 uppercase tracking-wider">ER</th>
+                    <th className="px-4 py-3 text-right text-xs font-semibold text-gray-500 uppercase tracking-wider">EE</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-500 uppercase tracking-wider">Notes</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {rateSets.map((r) => (
+                    <RateSetRow key={r.id} rateSet={r} />
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { type ProposalTemplate, DEFAULT_TEMPLATE_CONTENT, TEMPLATE_VARIABLES } from "@/lib/templates";
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-200 rounded-lg text-sm outline-none transition-all focus:border-[#38b6ff] focus:ring-2 focus:ring-[#38b6ff]/20";
+
+/**
+ * Create a new template, or edit an existing one when `template` is given.
+ * Content is edited as JSON; new templates start from the built-in copy.
+ */
+export default function TemplateForm({
+  template,
+  onDone,
+}: {
+  template?: ProposalTemplate;
+  onDone?: () => void;
+}) {
+  const initialContent = JSON.stringify(template?.content ?? DEFAULT_TEMPLATE_CONTENT, null, 2);
+  const [name, setName] = useState(template?.name ?? "");
+  const [description, setDescription] = useState(template?.description ?? "");
+  const [content, setContent] = useState(initialContent);
+  const [isDefault, setIsDefault] = useState(template?.is_default ?? false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const router = useRouter();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (!name.trim()) { setError("Name is required."); return; }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      setError("Content is not valid JSON.");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const res = await fetch(template ? `/api/templates/${template.id}` : "/api/templates", {
+        method: template ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: name.trim(),
+          description: description.trim() || null,
+          content: parsed,
+          is_default: isDefault,
+        }),
+      });
+
+      const json = await res.json();
+      if (!json.ok) {
+        setError(json.error || "Failed to save template.");
+        return;
+      }
+
+      if (!template) {
+        setName("");
+        setDescription("");
+        setContent(initialContent);
+        setIsDefault(false);
+      }
+      onDone?.();
+      router.refresh();
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg animate-fade-in">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <label className="text-xs text-gray-500">
+          Name
+          <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClass} placeholder="e.g. Manufacturing" disabled={loading} />
+        </label>
+        <label className="text-xs text-gray-500">
+          Description
+          <input type="text" value={description} onChange={(e) => setDescription(e.target.value)} className={inputClass} placeholder="When reps should pick it" disabled={loading} />
+        </label>
+      </div>
+      <label className="block text-xs text-gray-500">
+        Content (JSON)
+        <textarea
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          rows={16}
+          spellCheck={false}
+          className={`${inputClass} font-mono text-xs`}
+          disabled={loading}
+        />
+      </label>
+      <p className="text-xs text-gray-400">
+        Variables: {Object.keys(TEMPLATE_VARIABLES).map((v) => `{{${v}}}`).join(", ")}
+      </p>
+      <label className="flex items-center gap-2 text-xs text-gray-600">
+        <input type="checkbox" checked={isDefault} onChange={(e) => setIsDefault(e.target.checked)} disabled={loading} />
+        Default for new proposals
+      </label>
+      <div className="flex items-center gap-3">
+        <button
+          type="submit"
+          disabled={loading}
+          className="py-2 px-4 text-white text-sm font-medium rounded-xl transition-all active:scale-[0.98] disabled:opacity-50"
+          style={{ backgroundColor: "#0b2043" }}
+        >
+          {loading ? "Saving..." : template ? "Save Changes" : "Add Template"}
+        </button>
+        {onDone && (
+          <button type="button" onClick={onDone} className="text-xs text-gray-500 hover:text-gray-700 transition-colors">
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import { useState } from "react";
+import type { ProposalTemplate } from "@/lib/templates";
+import TemplateForm from "./TemplateForm";
+
+export default function TemplateRow({ template }: { template: ProposalTemplate }) {
+  const [editing, setEditing] = useState(false);
+
+  if (editing) {
+    return (
+      <tr>
+        <td colSpan={3} className="px-4 py-4 bg-gray-50">
+          <TemplateForm template={template} onDone={() => setEditing(false)} />
+        </td>
+      </tr>
+    );
+  }
+
+  return (
+    <tr className="hover:bg-gray-50 transition-colors">
+      <td className="px-4 py-3 text-sm font-medium text-gray-900">
+        {template.name}
+        {template.is_default && (
+          <span className="ml-2 text-[10px] font-semibold uppercase tracking-wider px-1.5 py-0.5 rounded bg-sky-50 text-sky-700">
+            Default
+          </span>
+        )}
+      </td>
+      <td className="px-4 py-3 text-sm text-gray-600 text-right">{template.content.sections.length}</td>
+      <td className="px-4 py-3 text-sm text-gray-500">
+        <div className="flex items-center justify-between gap-3">
+          <span>{template.description || "—"}</span>
+          <button
+            onClick={() => setEditing(true)}
+            className="text-xs font-medium transition-colors"
+            style={{ color: "#38b6ff" }}
+          >
+            Edit
+          </button>
+        </div>
+      </td>
+    </tr>
+  );
+}
@@ -0,0 +1,223 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServiceClient } from "@/lib/supabase";
+import { hashWithPepper } from "@/lib/crypto";
+import { parseMoney } from "@/lib/money";
+import { checkLinkAccess, passcodeGrantCookie } from "@/lib/link-access";
+import {
+  type AcceptanceRequest,
+  ACCEPTABLE_STATUSES,
+  ACCEPTANCE_TERMS_VERSION,
+  validateAcceptance,
+} from "@/lib/acceptance";
+import { type CalculationSnapshot, snapshotHash, templateContentHash } from "@/lib/certificate";
+import { type CaseStatus, transitionCaseStatus } from "@/lib/status";
+import { loadCaseTemplate } from "@/lib/templates";
+
+/** First hop of X-Forwarded-For, as set by the hosting proxy */
+function clientIp(request: NextRequest): string | null {
+  const forwarded = request.headers.get("x-forwarded-for")?.split(",")[0].trim();
+  return forwarded || request.headers.get("x-real-ip") || null;
+}
+
+/**
+ * Accept a proposal from its public link.
+ * Re-checks the link (and passcode grant), records the signer, a hashed
+ * IP and the calculation and template version the prospect saw, then
+ * moves the case to accepted.
+ * `revision` must match the case, so a proposal edited after the page
+ * was loaded can't be accepted unseen.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let body: Partial<AcceptanceRequest> & {
+      case_id?: string;
+      token?: string;
+      revision?: number;
+    };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { ok: false, error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+
+    const { case_id, token } = body;
+    if (!case_id || !token) {
+      return NextResponse.json(
+        { ok: false, error: "Invalid link" },
+        { status: 400 }
+      );
+    }
+
+    const invalid = validateAcceptance(body);
+    if (!Number.isInteger(body.revision)) invalid.push("Revision");
+    if (invalid.length > 0) {
+      return NextResponse.json(
+        { ok: false, error: `Missing or invalid fields: ${invalid.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const pepper = process.env.LINK_PEPPER;
+    if (!pepper) {
+      console.error("LINK_PEPPER is not set");
+      return NextResponse.json(
+        { ok: false, error: "Server configuration error" },
+        { status: 500 }
+      );
+    }
+
+    const supabase = getSupabaseServiceClient();
+
+    // ---- Link check ----
+    const access = await checkLinkAccess(
+      supabase,
+      { caseId: case_id, token, grant: request.cookies.get(passcodeGrantCookie(case_id))?.value },
+      pepper
+    );
+
+    if (!access.ok) {
+      return NextResponse.json(
+        { ok: false, state: access.state, error: "This link can no longer be used to accept the proposal" },
+        { status: 403 }
+      );
+    }
+
+    // ---- Load case ----
+    const { data: caseRow, error: caseError } = await supabase
+      .from("cases")
+      .select(
+        "id, status, revision, company_name, industry, calc_total, calc_er, calc_ee, calc_inputs, calc_scenarios, calc_projection, paycheck_inputs, template_id, template_version_id"
+      )
+      .eq("id", case_id)
+      .maybeSingle();
+
+    if (caseError || !caseRow) {
+      console.error("Case lookup failed:", caseError);
+      return NextResponse.json(
+        { ok: false, error: "Proposal not found" },
+        { status: 404 }
+      );
+    }
+
+    if (caseRow.status === "accepted" || caseRow.status === "live") {
+      return NextResponse.json(
+        { ok: false, error: "This proposal has already been accepted" },
+        { status: 409 }
+      );
+    }
+
+    if (!ACCEPTABLE_STATUSES.includes(caseRow.status as CaseStatus)) {
+      return NextResponse.json(
+        { ok: false, error: "This proposal can no longer be accepted. Please contact your representative." },
+        { status: 409 }
+      );
+    }
+
+    if (caseRow.revision !== body.revision) {
+      return NextResponse.json(
+        { ok: false, error: "This proposal has been updated. Reload the page to review the latest version." },
+        { status: 409 }
+      );
+    }
+
+    // ---- Record acceptance ----
+    // The wording comes from the case's pinned template version
+    const template = await loadCaseTemplate(supabase, caseRow);
+    const snapshot: CalculationSnapshot = {
+      company_name: caseRow.company_name,
+      industry: caseRow.industry,
+      revision: caseRow.revision,
+      calc_total: parseMoney(caseRow.calc_total),
+      calc_er: parseMoney(caseRow.calc_er),
+      calc_ee: parseMoney(caseRow.calc_ee),
+      calc_inputs: caseRow.calc_inputs,
+      calc_scenarios: caseRow.calc_scenarios,
+      calc_projection: caseRow.calc_projection,
+      paycheck_inputs: caseRow.paycheck_inputs,
+      template: {
+        id: template.id,
+        version_id: template.version_id,
+        content_hash: templateContentHash(template.content),
+      },
+    };
+    const ip = clientIp(request);
+
+    const { data: acceptance, error: insertError } = await supabase
+      .from("case_acceptances")
+      .insert({
+        case_id,
+        link_id: access.link.id,
+        signer_name: body.signer_name!.trim(),
+        signer_title: body.signer_title!.trim(),
+        signer_email: body.signer_email!.trim(),
+        signature: body.signature!.trim(),
+        terms_version: ACCEPTANCE_TERMS_VERSION,
+        ip_hash: ip ? hashWithPepper(ip, pepper) : null,
+        user_agent: request.headers.get("user-agent"),
+        revision: caseRow.revision,
+        calc_snapshot: snapshot,
+        snapshot_hash: snapshotHash(snapshot),
+      })
+      .select("id, signer_name, accepted_at")
+      .single();
+
+    if (insertError?.code === "23505") {
+      return NextResponse.json(
+        { ok: false, error: "This proposal has already been accepted" },
+        { status: 409 }
+      );
+    }
+
+    if (insertError || !acceptance) {
+      console.error("Failed to insert case_acceptance:", insertError);
+      return NextResponse.json(
+        { ok: false, error: "Failed to record acceptance" },
+        { status: 500 }
+      );
+    }
+
+    // ---- Move case to accepted ----
+    let moved = false;
+    try {
+      moved = await transitionCaseStatus(supabase, {
+        caseId: case_id,
+        from: caseRow.status as CaseStatus,
+        to: "accepted",
+        source: "viewer",
+        note: `Accepted by ${acceptance.signer_name}`,
+      });
+    } finally {
+      if (!moved) {
+        await supabase.from("case_acceptances").delete().eq("id", acceptance.id);
+      }
+    }
+
+    if (!moved) {
+      return NextResponse.json(
+        { ok: false, error: "This proposal changed while you were accepting it. Please reload and try again." },
+        { status: 409 }
+      );
+    }
+
+    if (access.update) {
+      await supabase.from("case_links").update(access.update).eq("id", access.link.id);
+    }
+
+    return NextResponse.json({
+      ok: true,
+      acceptance: {
+        signer_name: acceptance.signer_name,
+        accepted_at: acceptance.accepted_at,
+      },
+    });
+  } catch (err) {
+    console.error("Unhandled error in POST /api/accept:", err);
+    return NextResponse.json(
+      { ok: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServerClient } from "@/lib/supabase-server";
+import { type AcceptanceRecord, acceptanceCertificate } from "@/lib/certificate";
+
+/**
+ * Download the signed acceptance certificate for a case as plain text.
+ * The HMAC on the last line is keyed with ACCEPTANCE_SIGNING_SECRET.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await getSupabaseServerClient();
+
+    // ---- Auth check ----
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { ok: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const secret = process.env.ACCEPTANCE_SIGNING_SECRET;
+    if (!secret) {
+      console.error("ACCEPTANCE_SIGNING_SECRET is not set");
+      return NextResponse.json(
+        { ok: false, error: "Server configuration error" },
+        { status: 500 }
+      );
+    }
+
+    // ---- Load acceptance (scoped to the user's case) ----
+    const { data: acceptance, error: lookupError } = await supabase
+      .from("case_acceptances")
+      .select(
+        "id, case_id, signer_name, signer_title, signer_email, signature, terms_version, ip_hash, calc_snapshot, snapshot_hash, accepted_at, cases!inner(user_id)"
+      )
+      .eq("case_id", id)
+      .eq("cases.user_id", user.id)
+      .is("superseded_at", null)
+      .maybeSingle();
+
+    if (lookupError) {
+      console.error("Acceptance lookup failed:", lookupError);
+      return NextResponse.json(
+        { ok: false, error: "Failed to load acceptance" },
+        { status: 500 }
+      );
+    }
+
+    if (!acceptance) {
+      return NextResponse.json(
+        { ok: false, error: "Proposal has not been accepted" },
+        { status: 404 }
+      );
+    }
+
+    const certificate = acceptanceCertificate(acceptance as AcceptanceRecord, secret);
+    return new NextResponse(certificate, {
+      headers: {
+        "Content-Type": "text/plain; charset=utf-8",
+        "Content-Disposition": `attachment; filename="acceptance-${id}.txt"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    console.error("Unhandled error in GET /api/cases/[id]/acceptance/certificate:", err);
+    return NextResponse.json(
+      { ok: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServerClient } from "@/lib/supabase-server";
+import {
+  type ArchiveAction,
+  archiveChange,
+  caseView,
+  purgeDate,
+  revokeCaseLinks,
+  validateArchiveAction,
+} from "@/lib/archive";
+
+/**
+ * Archive, unarchive, soft-delete or restore a case.
+ * Archiving and deleting revoke all of the case's links; they stay
+ * revoked when the case is brought back, so new links must be issued.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await getSupabaseServerClient();
+
+    // ---- Auth check ----
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { ok: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // ---- Parse & validate input ----
+    let body: { action?: ArchiveAction };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { ok: false, error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+
+    const invalid = validateArchiveAction(body.action);
+    if (invalid.length > 0) {
+      return NextResponse.json(
+        { ok: false, error: `Missing or invalid fields: ${invalid.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    // ---- Load case ----
+    const { data: caseRow, error: lookupError } = await supabase
+      .from("cases")
+      .select("id, archived_at, deleted_at")
+      .eq("id", id)
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (lookupError) {
+      console.error("Case lookup failed:", lookupError);
+      return NextResponse.json(
+        { ok: false, error: "Failed to load proposal" },
+        { status: 500 }
+      );
+    }
+
+    if (!caseRow) {
+      return NextResponse.json(
+        { ok: false, error: "Proposal not found" },
+        { status: 404 }
+      );
+    }
+
+    const change = archiveChange(caseRow, body.action!);
+    if (!change.ok) {
+      return NextResponse.json(
+        { ok: false, error: change.error },
+        { status: 409 }
+      );
+    }
+
+    // ---- Apply action ----
+    const { data: updated, error: updateError } = await supabase
+      .from("cases")
+      .update(change.changes)
+      .eq("id", id)
+      .select("id, archived_at, deleted_at")
+      .single();
+
+    if (updateError || !updated) {
+      console.error(`Failed to ${body.action} case:`, updateError);
+      return NextResponse.json(
+        { ok: false, error: `Failed to ${body.action} proposal` },
+        { status: 500 }
+      );
+    }
+
+    // Revoking after the update means a failure here can be retried by
+    // repeating the (idempotent) action
+    if (change.revokeLinks) {
+      try {
+        await revokeCaseLinks(supabase, id);
+      } catch (revokeError) {
+        console.error("Failed to revoke case links:", revokeError);
+        return NextResponse.json(
+          { ok: false, error: "Failed to revoke links; please try again" },
+          { status: 500 }
+        );
+      }
+    }
+
+    return NextResponse.json({
+      ok: true,
+      case_id: id,
+      view: caseView(updated),
+      archived_at: updated.archived_at,
+      deleted_at: updated.deleted_at,
+      purge_at: updated.deleted_at ? purgeDate(updated.deleted_at) : null,
+    });
+  } catch (err) {
+    console.error("Unhandled error in POST /api/cases/[id]/archive:", err);
+    return NextResponse.json(
+      { ok: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
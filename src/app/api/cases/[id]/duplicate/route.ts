@@ -0,0 +1,206 @@
+import { randomUUID } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServerClient } from "@/lib/supabase-server";
+import { issueLinkToken } from "@/lib/crypto";
+import { caseLinkUrl, linkExpiresAt } from "@/lib/links";
+import { parseMoney } from "@/lib/money";
+import { hashPasscode, validatePasscode } from "@/lib/passcode";
+import {
+  calculateProposal,
+  proposalPaycheck,
+  validateProposalRequest,
+} from "@/lib/proposal";
+import { defaultRateSet, selectRateSet, toRateSet } from "@/lib/rate-sets";
+import { type DuplicateOverrides, duplicateRequest } from "@/lib/revisions";
+
+/**
+ * Create a new case from an existing one's inputs, with a fresh link.
+ * Company name, industry and tax year can be overridden; the numbers are
+ * recalculated with the current rates for the tax year. The new case
+ * records the source in source_case_id; it and its link are created in
+ * one transaction (create_duplicate_case).
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await getSupabaseServerClient();
+
+    // ---- Auth check ----
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { ok: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // ---- Parse input ----
+    let overrides: DuplicateOverrides & { passcode?: string };
+    try {
+      overrides = await request.json();
+    } catch {
+      return NextResponse.json(
+        { ok: false, error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+
+    if (!overrides || typeof overrides !== "object" || Array.isArray(overrides)) {
+      return NextResponse.json(
+        { ok: false, error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+
+    // ---- Load source case ----
+    const { data: source, error: lookupError } = await supabase
+      .from("cases")
+      .select(
+        "id, company_name, industry, calc_total, calc_er, calc_ee, calc_inputs, calc_steps, calc_projection, calc_scenarios, engine_version, paycheck_inputs, template_id, what_if_min_w2, what_if_max_w2"
+      )
+      .eq("id", id)
+      .eq("user_id", user.id)
+      .is("deleted_at", null)
+      .maybeSingle();
+
+    if (lookupError) {
+      console.error("Case lookup failed:", lookupError);
+      return NextResponse.json(
+        { ok: false, error: "Failed to load proposal" },
+        { status: 500 }
+      );
+    }
+
+    if (!source) {
+      return NextResponse.json(
+        { ok: false, error: "Proposal not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!source.calc_inputs) {
+      return NextResponse.json(
+        { ok: false, error: "Proposal has no recorded inputs to copy" },
+        { status: 422 }
+      );
+    }
+
+    // ---- Build & validate request ----
+    const body = duplicateRequest(
+      {
+        ...source,
+        calc_total: parseMoney(source.calc_total),
+        calc_er: parseMoney(source.calc_er),
+        calc_ee: parseMoney(source.calc_ee),
+      },
+      {
+        company_name: overrides.company_name,
+        industry: overrides.industry,
+        tax_year: overrides.tax_year,
+      }
+    );
+
+    const missing = validateProposalRequest(body);
+    if (overrides.passcode !== undefined) missing.push(...validatePasscode(overrides.passcode));
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { ok: false, error: `Missing or invalid fields: ${missing.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const pepper = process.env.LINK_PEPPER;
+    if (!pepper) {
+      console.error("LINK_PEPPER is not set");
+      return NextResponse.json(
+        { ok: false, error: "Server configuration error" },
+        { status: 500 }
+      );
+    }
+
+    // ---- Resolve rate set ----
+    const year = body.tax_year ?? new Date().getFullYear();
+    const { data: rateRows, error: rateError } = await supabase
+      .from("rate_sets")
+      .select("*")
+      .eq("tax_year", year);
+
+    if (rateError) {
+      console.error("Failed to load rate sets:", rateError);
+      return NextResponse.json(
+        { ok: false, error: "Failed to load rates" },
+        { status: 500 }
+      );
+    }
+
+    const selected = selectRateSet((rateRows || []).map(toRateSet), year);
+    if (!selected && overrides.tax_year != null) {
+      return NextResponse.json(
+        { ok: false, error: `No rates configured for tax year ${overrides.tax_year}` },
+        { status: 400 }
+      );
+    }
+    const rateSet = selected ?? defaultRateSet(year);
+
+    // ---- Calculate ----
+    const savings = calculateProposal(body, rateSet);
+
+    // ---- Generate token & insert case with its link ----
+    const caseId = randomUUID();
+    const { rawToken, tokenHash } = issueLinkToken(pepper);
+    const expiresAt = linkExpiresAt();
+    const caseUrl = caseLinkUrl(caseId, rawToken);
+
+    const { error: insertError } = await supabase.rpc("create_duplicate_case", {
+      p_case: {
+        id: caseId,
+        user_id: user.id,
+        company_name: body.company_name!.trim(),
+        industry: body.industry!.trim(),
+        status: "draft",
+        ...savings,
+        paycheck_inputs: proposalPaycheck(body, rateSet.tax_year),
+        last_generated_at: new Date().toISOString(),
+        source_case_id: source.id,
+        template_id: source.template_id,
+        what_if_min_w2: source.what_if_min_w2,
+        what_if_max_w2: source.what_if_max_w2,
+      },
+      p_link: {
+        case_id: caseId,
+        token_hash: tokenHash,
+        passcode_hash: overrides.passcode ? hashPasscode(overrides.passcode, pepper) : "",
+        expires_at: expiresAt,
+        shareable_url: caseUrl,
+      },
+    });
+
+    if (insertError) {
+      console.error("Failed to insert duplicate case:", insertError);
+      return NextResponse.json(
+        { ok: false, error: "Failed to duplicate proposal" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      ok: true,
+      case_id: caseId,
+      source_case_id: source.id,
+      url: caseUrl,
+      expires_at: expiresAt,
+    });
+  } catch (err) {
+    console.error("Unhandled error in POST /api/cases/[id]/duplicate:", err);
+    return NextResponse.json(
+      { ok: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
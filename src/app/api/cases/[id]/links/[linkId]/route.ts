@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServerClient } from "@/lib/supabase-server";
+import { issueLinkToken } from "@/lib/crypto";
+import {
+  type LinkAction,
+  caseLinkUrl,
+  linkExpiresAt,
+  linkStatus,
+  validateLinkAction,
+} from "@/lib/links";
+
+/**
+ * Manage a proposal link:
+ * - revoke: the link stops working immediately (idempotent)
+ * - extend: expires `days` days from now (default LINK_EXPIRY_DAYS)
+ * - rotate: issue a new token and URL; the old URL stops working.
+ *   With `days`, the expiry is reset as well.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; linkId: string }> }
+) {
+  try {
+    const { id, linkId } = await params;
+    const supabase = await getSupabaseServerClient();
+
+    // ---- Auth check ----
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { ok: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // ---- Parse & validate input ----
+    let body: { action?: LinkAction; days?: number };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { ok: false, error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+
+    const invalid = validateLinkAction({ action: body.action, days: body.days });
+    if (invalid.length > 0) {
+      return NextResponse.json(
+        { ok: false, error: `Missing or invalid fields: ${invalid.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    // ---- Load link (scoped to the user's case) ----
+    const { data: link, error: lookupError } = await supabase
+      .from("case_links")
+      .select("id, expires_at, revoked_at, shareable_url, cases!inner(user_id)")
+      .eq("id", linkId)
+      .eq("case_id", id)
+      .eq("cases.user_id", user.id)
+      .maybeSingle();
+
+    if (lookupError) {
+      console.error("Link lookup failed:", lookupError);
+      return NextResponse.json(
+        { ok: false, error: "Failed to load link" },
+        { status: 500 }
+      );
+    }
+
+    if (!link) {
+      return NextResponse.json(
+        { ok: false, error: "Link not found" },
+        { status: 404 }
+      );
+    }
+
+    if (body.action !== "revoke" && linkStatus(link) === "revoked") {
+      return NextResponse.json(
+        { ok: false, error: "Link has been revoked; issue a new link instead" },
+        { status: 409 }
+      );
+    }
+
+    // ---- Apply action ----
+    let changes: Record<string, string>;
+    let url: string | null = link.shareable_url;
+    if (body.action === "revoke") {
+      changes = { revoked_at: link.revoked_at ?? new Date().toISOString() };
+    } else if (body.action === "extend") {
+      changes = { expires_at: linkExpiresAt(body.days) };
+    } else {
+      const pepper = process.env.LINK_PEPPER;
+      if (!pepper) {
+        console.error("LINK_PEPPER is not set");
+        return NextResponse.json(
+          { ok: false, error: "Server configuration error" },
+          { status: 500 }
+        );
+      }
+      const { rawToken, tokenHash } = issueLinkToken(pepper);
+      url = caseLinkUrl(id, rawToken);
+      changes = {
+        token_hash: tokenHash,
+        shareable_url: url,
+        ...(body.days !== undefined ? { expires_at: linkExpiresAt(body.days) } : {}),
+      };
+    }
+
+    const { data: updated, error: updateError } = await supabase
+      .from("case_links")
+      .update(changes)
+      .eq("id", linkId)
+      .select("id, expires_at, revoked_at, view_count, last_viewed_at")
+      .single();
+
+    if (updateError || !updated) {
+      console.error(`Failed to ${body.action} link:`, updateError);
+      return NextResponse.json(
+        { ok: false, error: `Failed to ${body.action} link` },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      ok: true,
+      link: {
+        ...updated,
+        url,
+        status: linkStatus(updated),
+      },
+    });
+  } catch (err) {
+    console.error("Unhandled error in POST /api/cases/[id]/links/[linkId]:", err);
+    return NextResponse.json(
+      { ok: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
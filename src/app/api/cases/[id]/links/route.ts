@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServerClient } from "@/lib/supabase-server";
+import { issueLinkToken } from "@/lib/crypto";
+import { caseLinkUrl, linkExpiresAt, validateNewLink } from "@/lib/links";
+import { hashPasscode, validatePasscode } from "@/lib/passcode";
+
+/**
+ * Issue an additional labeled link for an existing case, so each
+ * recipient gets their own URL, expiry, view count and optional passcode.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await getSupabaseServerClient();
+
+    // ---- Auth check ----
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { ok: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // ---- Parse & validate input ----
+    let body: { label?: string; days?: number; passcode?: string };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { ok: false, error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+
+    const invalid = validateNewLink({ label: body.label, days: body.days });
+    if (body.passcode !== undefined) invalid.push(...validatePasscode(body.passcode));
+    if (invalid.length > 0) {
+      return NextResponse.json(
+        { ok: false, error: `Missing or invalid fields: ${invalid.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    // ---- Load case ----
+    const { data: caseRow, error: lookupError } = await supabase
+      .from("cases")
+      .select("id, archived_at")
+      .eq("id", id)
+      .eq("user_id", user.id)
+      .is("deleted_at", null)
+      .maybeSingle();
+
+    if (lookupError) {
+      console.error("Case lookup failed:", lookupError);
+      return NextResponse.json(
+        { ok: false, error: "Failed to load proposal" },
+        { status: 500 }
+      );
+    }
+
+    if (!caseRow) {
+      return NextResponse.json(
+        { ok: false, error: "Proposal not found" },
+        { status: 404 }
+      );
+    }
+
+    if (caseRow.archived_at) {
+      return NextResponse.json(
+        { ok: false, error: "Proposal is archived; unarchive it to issue new links" },
+        { status: 409 }
+      );
+    }
+
+    // ---- Generate token & create link ----
+    const pepper = process.env.LINK_PEPPER;
+    if (!pepper) {
+      console.error("LINK_PEPPER is not set");
+      return NextResponse.json(
+        { ok: false, error: "Server configuration error" },
+        { status: 500 }
+      );
+    }
+
+    const { rawToken, tokenHash } = issueLinkToken(pepper);
+    const expiresAt = linkExpiresAt(body.days);
+    const caseUrl = caseLinkUrl(id, rawToken);
+
+    const { data: link, error: linkError } = await supabase
+      .from("case_links")
+      .insert({
+        case_id: id,
+        label: body.label!.trim(),
+        token_hash: tokenHash,
+        passcode_hash: body.passcode ? hashPasscode(body.passcode, pepper) : "",
+        expires_at: expiresAt,
+        shareable_url: caseUrl,
+      })
+      .select("id, label, expires_at")
+      .single();
+
+    if (linkError || !link) {
+      console.error("Failed to insert case_link:", linkError);
+      return NextResponse.json(
+        { ok: false, error: "Failed to create link" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      ok: true,
+      link_id: link.id,
+      label: link.label,
+      url: caseUrl,
+      expires_at: link.expires_at,
+    });
+  } catch (err) {
+    console.error("Unhandled error in POST /api/cases/[id]/links:", err);
+    return NextResponse.json(
+      { ok: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
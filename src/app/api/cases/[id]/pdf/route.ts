@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServerClient } from "@/lib/supabase-server";
+import { parseMoney } from "@/lib/money";
+import { type ProposalPdfData, loadPdfLogo, proposalPdfFilename, renderProposalPdf } from "@/lib/proposal-pdf";
+import { loadCaseTemplate } from "@/lib/templates";
+import { loadUserBranding } from "@/lib/branding";
+
+/**
+ * Download one of the rep's proposals as a PDF. Rep downloads aren't
+ * counted; only downloads through a prospect's link are.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await getSupabaseServerClient();
+
+    // ---- Auth check ----
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { ok: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // ---- Load case ----
+    const { data: caseRow, error: caseError } = await supabase
+      .from("cases")
+      .select(
+        "id, company_name, industry, calc_total, calc_er, calc_ee, calc_inputs, calc_explanation, calc_scenarios, calc_projection, paycheck_inputs, template_id, template_version_id"
+      )
+      .eq("id", id)
+      .eq("user_id", user.id)
+      .is("deleted_at", null)
+      .maybeSingle();
+
+    if (caseError) {
+      console.error("Case lookup failed:", caseError);
+      return NextResponse.json(
+        { ok: false, error: "Failed to load proposal" },
+        { status: 500 }
+      );
+    }
+
+    if (!caseRow) {
+      return NextResponse.json(
+        { ok: false, error: "Proposal not found" },
+        { status: 404 }
+      );
+    }
+
+    const template = await loadCaseTemplate(supabase, caseRow);
+    const branding = await loadUserBranding(supabase, user.id);
+    const pdf = renderProposalPdf(
+      {
+        ...(caseRow as ProposalPdfData),
+        calc_total: parseMoney(caseRow.calc_total),
+        calc_er: parseMoney(caseRow.calc_er),
+        calc_ee: parseMoney(caseRow.calc_ee),
+      },
+      template.content,
+      branding,
+      await loadPdfLogo(branding)
+    );
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${proposalPdfFilename(caseRow.company_name, branding.proposal_title)}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    console.error("Unhandled error in GET /api/cases/[id]/pdf:", err);
+    return NextResponse.json(
+      { ok: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
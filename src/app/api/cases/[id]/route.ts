@@ -0,0 +1,223 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServerClient } from "@/lib/supabase-server";
+import { replayOptions } from "@/lib/audit";
+import { parseMoney } from "@/lib/money";
+import {
+  calculateProposal,
+  proposalPaycheck,
+  validateProposalRequest,
+} from "@/lib/proposal";
+import { defaultRateSet, selectRateSet, toRateSet } from "@/lib/rate-sets";
+import {
+  type ProposalPatch,
+  mergeProposalRequest,
+  requestFromCase,
+} from "@/lib/revisions";
+import { validateWhatIfRange, whatIfRange } from "@/lib/what-if";
+
+/**
+ * Edit a case and regenerate its numbers. Fields not in the body keep
+ * their current values; null clears an optional field. The values being
+ * replaced are saved to case_revisions first. A what-if range that no
+ * longer fits the edited proposal is turned off.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await getSupabaseServerClient();
+
+    // ---- Auth check ----
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { ok: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // ---- Parse input ----
+    let patch: ProposalPatch;
+    try {
+      patch = await request.json();
+    } catch {
+      return NextResponse.json(
+        { ok: false, error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+
+    if (!patch || typeof patch !== "object" || Array.isArray(patch)) {
+      return NextResponse.json(
+        { ok: false, error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+
+    // ---- Load case ----
+    const { data: caseRow, error: lookupError } = await supabase
+      .from("cases")
+      .select(
+        "revision, company_name, industry, calc_total, calc_er, calc_ee, calc_inputs, calc_explanation, calc_steps, calc_projection, calc_scenarios, engine_version, paycheck_inputs, last_generated_at, what_if_min_w2, what_if_max_w2"
+      )
+      .eq("id", id)
+      .eq("user_id", user.id)
+      .is("deleted_at", null)
+      .maybeSingle();
+
+    if (lookupError) {
+      console.error("Case lookup failed:", lookupError);
+      return NextResponse.json(
+        { ok: false, error: "Failed to load proposal" },
+        { status: 500 }
+      );
+    }
+
+    if (!caseRow) {
+      return NextResponse.json(
+        { ok: false, error: "Proposal not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!caseRow.calc_inputs) {
+      return NextResponse.json(
+        { ok: false, error: "Proposal has no recorded inputs to edit" },
+        { status: 422 }
+      );
+    }
+
+    // ---- Merge & validate ----
+    const stored = {
+      ...caseRow,
+      calc_total: parseMoney(caseRow.calc_total),
+      calc_er: parseMoney(caseRow.calc_er),
+      calc_ee: parseMoney(caseRow.calc_ee),
+    };
+    const body = mergeProposalRequest(requestFromCase(stored), patch);
+
+    const missing = validateProposalRequest(body);
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { ok: false, error: `Missing or invalid fields: ${missing.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    // ---- Resolve rate set ----
+    // Unless the tax year is being changed, keep the rates the case was
+    // generated with, even if the rate set has since been superseded.
+    let rateSet = replayOptions(stored).options.rateSet!;
+    if (patch.tax_year !== undefined) {
+      const { tax_year } = body;
+      const year = tax_year ?? new Date().getFullYear();
+      const { data: rateRows, error: rateError } = await supabase
+        .from("rate_sets")
+        .select("*")
+        .eq("tax_year", year);
+
+      if (rateError) {
+        console.error("Failed to load rate sets:", rateError);
+        return NextResponse.json(
+          { ok: false, error: "Failed to load rates" },
+          { status: 500 }
+        );
+      }
+
+      const selected = selectRateSet((rateRows || []).map(toRateSet), year);
+      if (!selected && tax_year !== undefined) {
+        return NextResponse.json(
+          { ok: false, error: `No rates configured for tax year ${tax_year}` },
+          { status: 400 }
+        );
+      }
+      rateSet = selected ?? defaultRateSet(year);
+    }
+
+    // ---- Calculate ----
+    const savings = calculateProposal(body, rateSet);
+
+    // The range must still include the proposal's own count and leave
+    // someone eligible (see validateWhatIfRange)
+    const range = whatIfRange(caseRow);
+    const clearWhatIf = range !== null && validateWhatIfRange(range, savings.calc_inputs).length > 0;
+
+    // ---- Update case ----
+    // Links reference the case, so they show the new revision right away.
+    // Matching on the loaded revision makes a concurrent edit fail
+    // instead of silently overwriting it.
+    const { revision, what_if_min_w2, what_if_max_w2, ...snapshot } = caseRow;
+    const { data: updated, error: updateError } = await supabase
+      .from("cases")
+      .update({
+        company_name: body.company_name!.trim(),
+        industry: body.industry!.trim(),
+        ...savings,
+        paycheck_inputs: proposalPaycheck(body, rateSet.tax_year),
+        last_generated_at: new Date().toISOString(),
+        revision: revision + 1,
+        ...(clearWhatIf ? { what_if_min_w2: null, what_if_max_w2: null } : {}),
+      })
+      .eq("id", id)
+      .eq("revision", revision)
+      .select("id")
+      .maybeSingle();
+
+    if (updateError) {
+      console.error("Failed to update case:", updateError);
+      return NextResponse.json(
+        { ok: false, error: "Failed to update proposal" },
+        { status: 500 }
+      );
+    }
+
+    if (!updated) {
+      return NextResponse.json(
+        { ok: false, error: "Proposal was edited by someone else. Reload and try again." },
+        { status: 409 }
+      );
+    }
+
+    // ---- Record previous revision ----
+    const { error: revisionError } = await supabase.from("case_revisions").insert({
+      case_id: id,
+      revision,
+      ...snapshot,
+      revised_by: user.id,
+    });
+
+    if (revisionError) {
+      console.error("Failed to insert case revision:", revisionError);
+      // Restore the previous values so no revision goes unrecorded
+      await supabase
+        .from("cases")
+        .update({ ...snapshot, revision, what_if_min_w2, what_if_max_w2 })
+        .eq("id", id);
+      return NextResponse.json(
+        { ok: false, error: "Failed to save revision history" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      ok: true,
+      case_id: id,
+      revision: revision + 1,
+      calc_total: savings.calc_total,
+      calc_er: savings.calc_er,
+      calc_ee: savings.calc_ee,
+      what_if_cleared: clearWhatIf,
+    });
+  } catch (err) {
+    console.error("Unhandled error in PATCH /api/cases/[id]:", err);
+    return NextResponse.json(
+      { ok: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
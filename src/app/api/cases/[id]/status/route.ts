@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServerClient } from "@/lib/supabase-server";
+import {
+  type CaseStatus,
+  CASE_STATUS_LABELS,
+  canRepTransition,
+  isCaseStatus,
+  transitionCaseStatus,
+} from "@/lib/status";
+
+const MAX_NOTE_LENGTH = 500;
+
+/**
+ * Move a case to a new status. Only transitions allowed by the state
+ * machine in lib/status.ts are accepted; accepted is set by the
+ * prospect through /api/accept.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await getSupabaseServerClient();
+
+    // ---- Auth check ----
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { ok: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // ---- Parse & validate input ----
+    let body: { status?: string; note?: string };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { ok: false, error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+
+    const invalid: string[] = [];
+    if (!isCaseStatus(body.status)) invalid.push("Status");
+    if (
+      body.note !== undefined &&
+      (typeof body.note !== "string" || body.note.length > MAX_NOTE_LENGTH)
+    ) {
+      invalid.push(`Note (up to ${MAX_NOTE_LENGTH} characters)`);
+    }
+    if (invalid.length > 0) {
+      return NextResponse.json(
+        { ok: false, error: `Missing or invalid fields: ${invalid.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    const to = body.status as CaseStatus;
+
+    // ---- Load case ----
+    const { data: caseRow, error: lookupError } = await supabase
+      .from("cases")
+      .select("id, status")
+      .eq("id", id)
+      .eq("user_id", user.id)
+      .is("deleted_at", null)
+      .maybeSingle();
+
+    if (lookupError) {
+      console.error("Case lookup failed:", lookupError);
+      return NextResponse.json(
+        { ok: false, error: "Failed to load proposal" },
+        { status: 500 }
+      );
+    }
+
+    if (!caseRow) {
+      return NextResponse.json(
+        { ok: false, error: "Proposal not found" },
+        { status: 404 }
+      );
+    }
+
+    // ---- Transition ----
+    const from = caseRow.status;
+    if (!isCaseStatus(from) || !canRepTransition(from, to)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: `Cannot change status from ${isCaseStatus(from) ? CASE_STATUS_LABELS[from] : from} to ${CASE_STATUS_LABELS[to]}`,
+        },
+        { status: 409 }
+      );
+    }
+
+    const changed = await transitionCaseStatus(supabase, {
+      caseId: id,
+      from,
+      to,
+      source: "rep",
+      note: body.note?.trim() || null,
+    });
+
+    if (!changed) {
+      return NextResponse.json(
+        { ok: false, error: "Status was changed by someone else. Reload and try again." },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ ok: true, case_id: id, status: to, previous_status: from });
+  } catch (err) {
+    console.error("Unhandled error in POST /api/cases/[id]/status:", err);
+    return NextResponse.json(
+      { ok: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServerClient } from "@/lib/supabase-server";
+import { isTemplateId } from "@/lib/templates";
+
+/**
+ * Choose the template a case's proposal is rendered with. `null` returns
+ * the case to the default template. The case is pinned to the template's
+ * latest version (trg_cases_pin_template_version).
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await getSupabaseServerClient();
+
+    // ---- Auth check ----
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { ok: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // ---- Parse & validate input ----
+    let body: { template_id?: string | null };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { ok: false, error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+
+    const templateId = body.template_id;
+    if (templateId !== null && !isTemplateId(templateId)) {
+      return NextResponse.json(
+        { ok: false, error: "Missing or invalid fields: Template" },
+        { status: 400 }
+      );
+    }
+
+    if (templateId) {
+      const { data: template, error: templateError } = await supabase
+        .from("proposal_templates")
+        .select("id")
+        .eq("id", templateId)
+        .maybeSingle();
+
+      if (templateError) {
+        console.error("Template lookup failed:", templateError);
+        return NextResponse.json(
+          { ok: false, error: "Failed to load template" },
+          { status: 500 }
+        );
+      }
+
+      if (!template) {
+        return NextResponse.json(
+          { ok: false, error: "Missing or invalid fields: Template" },
+          { status: 400 }
+        );
+      }
+    }
+
+    // ---- Update case ----
+    const { data: updated, error } = await supabase
+      .from("cases")
+      .update({ template_id: templateId })
+      .eq("id", id)
+      .eq("user_id", user.id)
+      .is("deleted_at", null)
+      .select("id")
+      .maybeSingle();
+
+    if (error) {
+      console.error("Failed to update case template:", error);
+      return NextResponse.json(
+        { ok: false, error: "Failed to update proposal" },
+        { status: 500 }
+      );
+    }
+
+    if (!updated) {
+      return NextResponse.json(
+        { ok: false, error: "Proposal not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ ok: true, case_id: id, template_id: templateId });
+  } catch (err) {
+    console.error("Unhandled error in POST /api/cases/[id]/template:", err);
+    return NextResponse.json(
+      { ok: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
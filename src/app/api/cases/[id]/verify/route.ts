@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServerClient } from "@/lib/supabase-server";
+import { canReplay, verifyCalculation } from "@/lib/audit";
+import { parseMoney } from "@/lib/money";
+
+/**
+ * Recompute a stored case with its recorded engine version, inputs and
+ * rates, and report any figure that no longer matches.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await getSupabaseServerClient();
+
+    // ---- Auth check ----
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { ok: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // ---- Load case ----
+    const { data: caseRow, error: lookupError } = await supabase
+      .from("cases")
+      .select(
+        "id, calc_total, calc_er, calc_ee, calc_inputs, calc_steps, calc_projection, calc_scenarios, engine_version"
+      )
+      .eq("id", id)
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (lookupError) {
+      console.error("Case lookup failed:", lookupError);
+      return NextResponse.json(
+        { ok: false, error: "Failed to load proposal" },
+        { status: 500 }
+      );
+    }
+
+    if (!caseRow) {
+      return NextResponse.json(
+        { ok: false, error: "Proposal not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!caseRow.calc_inputs || !canReplay(caseRow.engine_version)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: caseRow.engine_version
+            ? `Engine version ${caseRow.engine_version} is not available for replay`
+            : "Proposal predates versioned calculations and cannot be replayed",
+        },
+        { status: 422 }
+      );
+    }
+
+    // ---- Replay & compare ----
+    const report = verifyCalculation({
+      ...caseRow,
+      calc_total: parseMoney(caseRow.calc_total),
+      calc_er: parseMoney(caseRow.calc_er),
+      calc_ee: parseMoney(caseRow.calc_ee),
+    });
+
+    if (!report.matches) {
+      console.error(`Verification mismatch for case ${id}:`, report.discrepancies);
+    }
+
+    return NextResponse.json({
+      ok: true,
+      case_id: id,
+      verified_at: new Date().toISOString(),
+      ...report,
+    });
+  } catch (err) {
+    console.error("Unhandled error in POST /api/cases/[id]/verify:", err);
+    return NextResponse.json(
+      { ok: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
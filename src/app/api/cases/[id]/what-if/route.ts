@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServerClient } from "@/lib/supabase-server";
+import { type WhatIfRange, validateWhatIfRange } from "@/lib/what-if";
+
+/**
+ * Turn the what-if panel on a case's proposal page on (with the range of
+ * W-2 counts the prospect can try) or off (`what_if: null`).
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await getSupabaseServerClient();
+
+    // ---- Auth check ----
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { ok: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // ---- Parse input ----
+    let body: { what_if?: WhatIfRange | null };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { ok: false, error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+
+    // ---- Load case ----
+    const { data: caseRow, error: caseError } = await supabase
+      .from("cases")
+      .select("id, calc_inputs")
+      .eq("id", id)
+      .eq("user_id", user.id)
+      .is("deleted_at", null)
+      .maybeSingle();
+
+    if (caseError) {
+      console.error("Case lookup failed:", caseError);
+      return NextResponse.json(
+        { ok: false, error: "Failed to load proposal" },
+        { status: 500 }
+      );
+    }
+
+    if (!caseRow) {
+      return NextResponse.json(
+        { ok: false, error: "Proposal not found" },
+        { status: 404 }
+      );
+    }
+
+    // ---- Validate ----
+    const range = body.what_if ?? null;
+    if (range !== null) {
+      const errors = caseRow.calc_inputs
+        ? validateWhatIfRange(range, caseRow.calc_inputs)
+        : ["What-If (this proposal has no recorded inputs)"];
+      if (errors.length > 0) {
+        return NextResponse.json(
+          { ok: false, error: `Missing or invalid fields: ${errors.join(", ")}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    // ---- Update case ----
+    const { error } = await supabase
+      .from("cases")
+      .update({
+        what_if_min_w2: range?.min_w2 ?? null,
+        what_if_max_w2: range?.max_w2 ?? null,
+      })
+      .eq("id", id)
+      .eq("user_id", user.id);
+
+    if (error) {
+      console.error("Failed to update case what-if:", error);
+      return NextResponse.json(
+        { ok: false, error: "Failed to update proposal" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      ok: true,
+      case_id: id,
+      what_if: range && { min_w2: range.min_w2, max_w2: range.max_w2 },
+    });
+  } catch (err) {
+    console.error("Unhandled error in POST /api/cases/[id]/what-if:", err);
+    return NextResponse.json(
+      { ok: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
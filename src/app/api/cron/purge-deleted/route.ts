@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { timingSafeEqual } from "crypto";
+import { getSupabaseServiceClient } from "@/lib/supabase";
+import { purgeCutoff } from "@/lib/archive";
+
+function isAuthorized(request: NextRequest, secret: string): boolean {
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(request.headers.get("authorization") ?? "");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Scheduled job: permanently delete cases soft-deleted more than
+ * DELETED_CASE_RETENTION_DAYS ago. Their links, revisions, status history
+ * and acceptances cascade. Called with `Authorization: Bearer CRON_SECRET`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret) {
+      console.error("CRON_SECRET is not set");
+      return NextResponse.json(
+        { ok: false, error: "Server configuration error" },
+        { status: 500 }
+      );
+    }
+
+    if (!isAuthorized(request, secret)) {
+      return NextResponse.json(
+        { ok: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const supabase = getSupabaseServiceClient();
+    const cutoff = purgeCutoff();
+
+    const { data: purged, error } = await supabase
+      .from("cases")
+      .delete()
+      .not("deleted_at", "is", null)
+      .lt("deleted_at", cutoff)
+      .select("id");
+
+    if (error) {
+      console.error("Failed to purge deleted cases:", error);
+      return NextResponse.json(
+        { ok: false, error: "Failed to purge deleted cases" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ ok: true, purged: purged?.length ?? 0, cutoff });
+  } catch (err) {
+    console.error("Unhandled error in GET /api/cron/purge-deleted:", err);
+    return NextResponse.json(
+      { ok: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
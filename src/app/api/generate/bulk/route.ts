@@ -0,0 +1,161 @@
+import { randomUUID } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServerClient } from "@/lib/supabase-server";
+import { issueLinkToken } from "@/lib/crypto";
+import { caseLinkUrl, linkExpiresAt } from "@/lib/links";
+import {
+  type BulkCreated,
+  type BulkProspect,
+  bulkResultCsv,
+  validateBulkProspects,
+} from "@/lib/bulk";
+import { type ProposalRequest, calculateProposal, proposalPaycheck } from "@/lib/proposal";
+import { defaultRateSet, selectRateSet, toRateSet } from "@/lib/rate-sets";
+
+/**
+ * Create a case and link for every prospect in a bulk upload.
+ * All rows must be valid; nothing is created otherwise. Responds with
+ * the created cases and a mail-merge CSV of their URLs and expiry dates.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // ---- Auth check ----
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { ok: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // ---- Parse & validate input ----
+    let body: { rows?: BulkProspect[]; tax_year?: number };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { ok: false, error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+
+    const invalid = validateBulkProspects(body.rows);
+    if (body.tax_year !== undefined && !Number.isInteger(body.tax_year)) invalid.push("Tax Year");
+    if (invalid.length > 0) {
+      return NextResponse.json(
+        { ok: false, error: `Missing or invalid fields: ${invalid.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const pepper = process.env.LINK_PEPPER;
+    if (!pepper) {
+      console.error("LINK_PEPPER is not set");
+      return NextResponse.json(
+        { ok: false, error: "Server configuration error" },
+        { status: 500 }
+      );
+    }
+
+    // ---- Resolve rate set ----
+    const { tax_year } = body;
+    const year = tax_year ?? new Date().getFullYear();
+    const { data: rateRows, error: rateError } = await supabase
+      .from("rate_sets")
+      .select("*")
+      .eq("tax_year", year);
+
+    if (rateError) {
+      console.error("Failed to load rate sets:", rateError);
+      return NextResponse.json(
+        { ok: false, error: "Failed to load rates" },
+        { status: 500 }
+      );
+    }
+
+    const selected = selectRateSet((rateRows || []).map(toRateSet), year);
+    if (!selected && tax_year !== undefined) {
+      return NextResponse.json(
+        { ok: false, error: `No rates configured for tax year ${tax_year}` },
+        { status: 400 }
+      );
+    }
+    const rateSet = selected ?? defaultRateSet(year);
+
+    // ---- Calculate ----
+    // Case ids are assigned here so each link can be matched to its case
+    const now = new Date().toISOString();
+    const expiresAt = linkExpiresAt();
+    const prepared = body.rows!.map((row) => {
+      const proposal: ProposalRequest = {
+        company_name: row.company_name.trim(),
+        industry: row.industry.trim(),
+        w2_count: row.w2_count!,
+        tax_year: rateSet.tax_year,
+      };
+      const { rawToken, tokenHash } = issueLinkToken(pepper);
+      const id = randomUUID();
+      return {
+        caseRow: {
+          id,
+          user_id: user.id,
+          company_name: proposal.company_name!,
+          industry: proposal.industry!,
+          status: "draft",
+          ...calculateProposal(proposal, rateSet),
+          paycheck_inputs: proposalPaycheck(proposal, rateSet.tax_year),
+          last_generated_at: now,
+        },
+        linkRow: {
+          case_id: id,
+          token_hash: tokenHash,
+          passcode_hash: "",
+          expires_at: expiresAt,
+          shareable_url: caseLinkUrl(id, rawToken),
+        },
+      };
+    });
+
+    // ---- Insert cases & links ----
+    // One transaction, so a failure leaves no case without its link
+    const { error: insertError } = await supabase.rpc("create_bulk_cases", {
+      p_cases: prepared.map((p) => p.caseRow),
+      p_links: prepared.map((p) => p.linkRow),
+    });
+
+    if (insertError) {
+      console.error("Failed to insert bulk cases:", insertError);
+      return NextResponse.json(
+        { ok: false, error: "Failed to create proposals" },
+        { status: 500 }
+      );
+    }
+
+    const created: BulkCreated[] = prepared.map(({ caseRow, linkRow }) => ({
+      case_id: caseRow.id,
+      company_name: caseRow.company_name,
+      industry: caseRow.industry,
+      w2_count: caseRow.calc_inputs.w2_count,
+      shareable_url: linkRow.shareable_url,
+      expires_at: linkRow.expires_at,
+    }));
+
+    return NextResponse.json({
+      ok: true,
+      count: created.length,
+      cases: created,
+      csv: bulkResultCsv(created),
+    });
+  } catch (err) {
+    console.error("Unhandled error in /api/generate/bulk:", err);
+    return NextResponse.json(
+      { ok: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,102 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getSupabaseServerClient } from "@/lib/supabase-server";
-import { hashWithPepper, generateToken } from "@/lib/crypto";
-import { LINK_EXPIRY_DAYS } from "@/lib/constants";
-import { calculateSavings, validateInput } from "@/lib/calculator";
+import { issueLinkToken } from "@/lib/crypto";
+import { hashPasscode, validatePasscode } from "@/lib/passcode";
+import {
+  duplicateWindowStart,
+  requestFingerprint,
+  validateIdempotencyKey,
+} from "@/lib/idempotency";
+import { caseLinkUrl, linkExpiresAt } from "@/lib/links";
+import {
+  type ProposalRequest,
+  calculateProposal,
+  proposalPaycheck,
+  validateProposalRequest,
+} from "@/lib/proposal";
+import { defaultRateSet, selectRateSet, toRateSet } from "@/lib/rate-sets";
+import { isTemplateId } from "@/lib/templates";
+
+type ServerClient = Awaited<ReturnType<typeof getSupabaseServerClient>>;
+
+/**
+ * Find a case this request already created: the user's case with the same
+ * Idempotency-Key, or without a key, the same input generated within the
+ * duplicate window. Archived and deleted cases don't count as duplicates,
+ * but a key stays used (see replayResponse).
+ */
+async function findExistingCase(
+  supabase: ServerClient,
+  userId: string,
+  idempotencyKey: string | null,
+  inputHash: string
+) {
+  let query = supabase
+    .from("cases")
+    .select("id, input_hash, archived_at, deleted_at, case_links(label, shareable_url, expires_at)")
+    .eq("user_id", userId);
+  query = idempotencyKey
+    ? query.eq("idempotency_key", idempotencyKey)
+    : query
+        .eq("input_hash", inputHash)
+        .gte("last_generated_at", duplicateWindowStart())
+        .is("deleted_at", null)
+        .is("archived_at", null);
+  return query.order("created_at", { ascending: false }).limit(1).maybeSingle();
+}
+
+/**
+ * Respond with the case a repeated request already created, or reject a
+ * key reused for different input or for a case that has since been
+ * archived or deleted (its links are revoked).
+ */
+function replayResponse(
+  existing: {
+    id: string;
+    input_hash: string | null;
+    archived_at: string | null;
+    deleted_at: string | null;
+    case_links: unknown;
+  },
+  inputHash: string
+) {
+  if (existing.input_hash !== inputHash) {
+    return NextResponse.json(
+      { ok: false, error: "Idempotency-Key was already used for a different proposal" },
+      { status: 422 }
+    );
+  }
+
+  if (existing.deleted_at || existing.archived_at) {
+    return NextResponse.json(
+      {
+        ok: false,
+        error: `The proposal created with this Idempotency-Key has been ${existing.deleted_at ? "deleted" : "archived"}. Use a new key to generate it again.`,
+      },
+      { status: 409 }
+    );
+  }
+
+  const links = existing.case_links as
+    | { label: string | null; shareable_url: string | null; expires_at: string }[]
+    | null;
+  const link = links?.find((l) => l.label === null);
+  if (!link?.shareable_url) {
+    // The first request is still creating the link
+    return NextResponse.json(
+      { ok: false, error: "Proposal is still being generated. Please retry shortly." },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json({
+    ok: true,
+    case_id: existing.id,
+    url: link.shareable_url,
+    expires_at: link.expires_at,
+    replayed: true,
+  });
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -21,7 +115,9 @@ export async function POST(request: NextRequest) {
     }
 
     // ---- Parse & validate input ----
-    let body: { company_name?: string; industry?: string; w2_count?: number };
+    // passcode protects the link and template_id picks its wording, so
+    // neither is part of ProposalRequest
+    let body: ProposalRequest & { passcode?: string; template_id?: string | null };
     try {
       body = await request.json();
     } catch {
@@ -31,9 +127,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { company_name, industry, w2_count } = body;
+    const idempotencyKey = request.headers.get("Idempotency-Key");
 
-    const missing = validateInput({ company_name, industry, w2_count });
+    const missing = validateProposalRequest(body);
+    if (body.passcode !== undefined) missing.push(...validatePasscode(body.passcode));
+    if (body.template_id != null && !isTemplateId(body.template_id)) missing.push("Template");
+    missing.push(...validateIdempotencyKey(idempotencyKey));
     if (missing.length > 0) {
       return NextResponse.json(
         { ok: false, error: `Missing or invalid fields: ${missing.join(", ")}` },
@@ -41,23 +140,112 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const pepper = process.env.LINK_PEPPER;
+    if (!pepper) {
+      console.error("LINK_PEPPER is not set");
+      return NextResponse.json(
+        { ok: false, error: "Server configuration error" },
+        { status: 500 }
+      );
+    }
+
+    // ---- Idempotency check ----
+    const inputHash = requestFingerprint(body, pepper);
+    const { data: existing, error: existingError } = await findExistingCase(
+      supabase,
+      user.id,
+      idempotencyKey,
+      inputHash
+    );
+
+    if (existingError) {
+      console.error("Idempotency lookup failed:", existingError);
+      return NextResponse.json(
+        { ok: false, error: "Failed to create proposal" },
+        { status: 500 }
+      );
+    }
+
+    if (existing) {
+      return replayResponse(existing, inputHash);
+    }
+
+    // ---- Resolve rate set ----
+    const { tax_year } = body;
+    const year = tax_year ?? new Date().getFullYear();
+    const { data: rateRows, error: rateError } = await supabase
+      .from("rate_sets")
+      .select("*")
+      .eq("tax_year", year);
+
+    if (rateError) {
+      console.error("Failed to load rate sets:", rateError);
+      return NextResponse.json(
+        { ok: false, error: "Failed to load rates" },
+        { status: 500 }
+      );
+    }
+
+    const selected = selectRateSet((rateRows || []).map(toRateSet), year);
+    if (!selected && tax_year !== undefined) {
+      return NextResponse.json(
+        { ok: false, error: `No rates configured for tax year ${tax_year}` },
+        { status: 400 }
+      );
+    }
+    const rateSet = selected ?? defaultRateSet(year);
+
+    // ---- Check template ----
+    if (body.template_id) {
+      const { data: template, error: templateError } = await supabase
+        .from("proposal_templates")
+        .select("id")
+        .eq("id", body.template_id)
+        .maybeSingle();
+
+      if (templateError) {
+        console.error("Template lookup failed:", templateError);
+        return NextResponse.json(
+          { ok: false, error: "Failed to load template" },
+          { status: 500 }
+        );
+      }
+
+      if (!template) {
+        return NextResponse.json(
+          { ok: false, error: "Missing or invalid fields: Template" },
+          { status: 400 }
+        );
+      }
+    }
+
     // ---- Calculate ----
-    const savings = calculateSavings(w2_count!);
+    const savings = calculateProposal(body, rateSet);
 
     // ---- Insert case ----
     const { data: newCase, error: caseError } = await supabase
       .from("cases")
       .insert({
         user_id: user.id,
-        company_name: company_name!.trim(),
-        industry: industry!.trim(),
-        status: "generated",
+        company_name: body.company_name!.trim(),
+        industry: body.industry!.trim(),
+        status: "draft",
         ...savings,
+        paycheck_inputs: proposalPaycheck(body, rateSet.tax_year),
         last_generated_at: new Date().toISOString(),
+        template_id: body.template_id || null,
+        idempotency_key: idempotencyKey,
+        input_hash: inputHash,
       })
       .select("id")
       .single();
 
+    // A concurrent request with the same key got there first
+    if (caseError?.code === "23505" && idempotencyKey) {
+      const { data: winner } = await findExistingCase(supabase, user.id, idempotencyKey, inputHash);
+      if (winner) return replayResponse(winner, inputHash);
+    }
+
     if (caseError || !newCase) {
       console.error("Failed to insert case:", caseError);
       return NextResponse.json(
@@ -67,34 +255,16 @@ export async function POST(request: NextRequest) {
     }
 
     // ---- Generate token & create link ----
-    const pepper = process.env.LINK_PEPPER;
-    if (!pepper) {
-      console.error("LINK_PEPPER is not set");
-      return NextResponse.json(
-        { ok: false, error: "Server configuration error" },
-        { status: 500 }
-      );
-    }
-
-    const rawToken = generateToken();
-    const tokenHash = hashWithPepper(rawToken, pepper);
-
-    const expiresAt = new Date(
-      Date.now() + LINK_EXPIRY_DAYS * 24 * 60 * 60 * 1000
-    ).toISOString();
+    const { rawToken, tokenHash } = issueLinkToken(pepper);
+    const expiresAt = linkExpiresAt();
 
     // ---- Build URL ----
-    const appBaseUrl =
-      process.env.APP_BASE_URL ||
-      (process.env.NEXT_PUBLIC_VERCEL_URL
-        ? `https://${process.env.NEXT_PUBLIC_VERCEL_URL}`
-        : "http://localhost:3000");
-    const caseUrl = `${appBaseUrl}/cases/${newCase.id}?t=${rawToken}`;
+    const caseUrl = caseLinkUrl(newCase.id, rawToken);
 
     const { error: linkError } = await supabase.from("case_links").insert({
       case_id: newCase.id,
       token_hash: tokenHash,
-      passcode_hash: "",
+      passcode_hash: body.passcode ? hashPasscode(body.passcode, pepper) : "",
       expires_at: expiresAt,
       shareable_url: caseUrl,
     });
@@ -0,0 +1,213 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServerClient, isAdmin } from "@/lib/supabase-server";
+import { getSupabaseServiceClient } from "@/lib/supabase";
+import { BRANDING_BUCKET, MAX_LOGO_BYTES, logoFileType, logoUrl } from "@/lib/branding";
+
+type ServerClient = Awaited<ReturnType<typeof getSupabaseServerClient>>;
+
+async function loadOrganization(supabase: ServerClient, id: string) {
+  return supabase.from("organizations").select("id, logo_path").eq("id", id).maybeSingle();
+}
+
+/**
+ * Upload an organization's logo (admins only) as multipart form data with
+ * a `logo` file: PNG, JPEG or WebP up to 1 MB. Replaces any previous logo.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await getSupabaseServerClient();
+
+    // ---- Auth check ----
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { ok: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json(
+        { ok: false, error: "Forbidden" },
+        { status: 403 }
+      );
+    }
+
+    // ---- Parse & validate input ----
+    let file: FormDataEntryValue | null;
+    try {
+      file = (await request.formData()).get("logo");
+    } catch {
+      return NextResponse.json(
+        { ok: false, error: "Invalid form data" },
+        { status: 400 }
+      );
+    }
+
+    if (!(file instanceof Blob) || file.size === 0 || file.size > MAX_LOGO_BYTES) {
+      return NextResponse.json(
+        { ok: false, error: "Missing or invalid fields: Logo (an image up to 1 MB)" },
+        { status: 400 }
+      );
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const type = logoFileType(bytes);
+    if (!type) {
+      return NextResponse.json(
+        { ok: false, error: "Missing or invalid fields: Logo (PNG, JPEG or WebP)" },
+        { status: 400 }
+      );
+    }
+
+    // ---- Load organization ----
+    const { data: organization, error: lookupError } = await loadOrganization(supabase, id);
+
+    if (lookupError) {
+      console.error("Organization lookup failed:", lookupError);
+      return NextResponse.json(
+        { ok: false, error: "Failed to load organization" },
+        { status: 500 }
+      );
+    }
+
+    if (!organization) {
+      return NextResponse.json(
+        { ok: false, error: "Organization not found" },
+        { status: 404 }
+      );
+    }
+
+    // ---- Upload ----
+    // A new path per upload, so cached copies of the old logo don't linger
+    const service = getSupabaseServiceClient();
+    const path = `${id}/logo-${Date.now()}.${type.extension}`;
+    const { error: uploadError } = await service.storage
+      .from(BRANDING_BUCKET)
+      .upload(path, bytes, { contentType: type.contentType, cacheControl: "31536000" });
+
+    if (uploadError) {
+      console.error("Failed to upload logo:", uploadError);
+      return NextResponse.json(
+        { ok: false, error: "Failed to upload logo" },
+        { status: 500 }
+      );
+    }
+
+    const { error: updateError } = await supabase
+      .from("organizations")
+      .update({ logo_path: path })
+      .eq("id", id);
+
+    if (updateError) {
+      console.error("Failed to save logo path:", updateError);
+      await service.storage.from(BRANDING_BUCKET).remove([path]);
+      return NextResponse.json(
+        { ok: false, error: "Failed to upload logo" },
+        { status: 500 }
+      );
+    }
+
+    if (organization.logo_path) {
+      const { error: removeError } = await service.storage.from(BRANDING_BUCKET).remove([organization.logo_path]);
+      if (removeError) console.error("Failed to remove old logo:", removeError);
+    }
+
+    return NextResponse.json({ ok: true, logo_url: logoUrl(service, path) });
+  } catch (err) {
+    console.error("Unhandled error in POST /api/organizations/[id]/logo:", err);
+    return NextResponse.json(
+      { ok: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Remove an organization's logo (admins only); proposals show its name in
+ * text instead.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await getSupabaseServerClient();
+
+    // ---- Auth check ----
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { ok: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json(
+        { ok: false, error: "Forbidden" },
+        { status: 403 }
+      );
+    }
+
+    // ---- Load organization ----
+    const { data: organization, error: lookupError } = await loadOrganization(supabase, id);
+
+    if (lookupError) {
+      console.error("Organization lookup failed:", lookupError);
+      return NextResponse.json(
+        { ok: false, error: "Failed to load organization" },
+        { status: 500 }
+      );
+    }
+
+    if (!organization) {
+      return NextResponse.json(
+        { ok: false, error: "Organization not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!organization.logo_path) {
+      return NextResponse.json({ ok: true, logo_url: null });
+    }
+
+    // ---- Remove ----
+    const { error: updateError } = await supabase
+      .from("organizations")
+      .update({ logo_path: null })
+      .eq("id", id);
+
+    if (updateError) {
+      console.error("Failed to clear logo path:", updateError);
+      return NextResponse.json(
+        { ok: false, error: "Failed to remove logo" },
+        { status: 500 }
+      );
+    }
+
+    const { error: removeError } = await getSupabaseServiceClient()
+      .storage.from(BRANDING_BUCKET)
+      .remove([organization.logo_path]);
+    if (removeError) console.error("Failed to remove logo file:", removeError);
+
+    return NextResponse.json({ ok: true, logo_url: null });
+  } catch (err) {
+    console.error("Unhandled error in DELETE /api/organizations/[id]/logo:", err);
+    return NextResponse.json(
+      { ok: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
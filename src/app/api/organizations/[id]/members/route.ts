@@ -0,0 +1,204 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServerClient, isAdmin } from "@/lib/supabase-server";
+import { getSupabaseServiceClient } from "@/lib/supabase";
+
+const USERS_PER_PAGE = 1000;
+
+/** Find a signed-up user by email (case-insensitive). Throws on auth API errors. */
+async function findUserByEmail(email: string) {
+  const auth = getSupabaseServiceClient().auth.admin;
+  const wanted = email.trim().toLowerCase();
+  for (let page = 1; ; page++) {
+    const { data, error } = await auth.listUsers({ page, perPage: USERS_PER_PAGE });
+    if (error) throw error;
+    const match = data.users.find((u) => u.email?.toLowerCase() === wanted);
+    if (match) return match;
+    if (data.users.length < USERS_PER_PAGE) return null;
+  }
+}
+
+/**
+ * Add a rep to an organization by email (admins only). A rep belongs to
+ * one organization, so this moves them if they were in another.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await getSupabaseServerClient();
+
+    // ---- Auth check ----
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { ok: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json(
+        { ok: false, error: "Forbidden" },
+        { status: 403 }
+      );
+    }
+
+    // ---- Parse & validate input ----
+    let body: { email?: string };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { ok: false, error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+
+    if (typeof body.email !== "string" || !body.email.trim()) {
+      return NextResponse.json(
+        { ok: false, error: "Missing or invalid fields: Email" },
+        { status: 400 }
+      );
+    }
+
+    const { data: organization, error: lookupError } = await supabase
+      .from("organizations")
+      .select("id")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (lookupError) {
+      console.error("Organization lookup failed:", lookupError);
+      return NextResponse.json(
+        { ok: false, error: "Failed to load organization" },
+        { status: 500 }
+      );
+    }
+
+    if (!organization) {
+      return NextResponse.json(
+        { ok: false, error: "Organization not found" },
+        { status: 404 }
+      );
+    }
+
+    const member = await findUserByEmail(body.email);
+    if (!member) {
+      return NextResponse.json(
+        { ok: false, error: "No user has signed up with that email" },
+        { status: 404 }
+      );
+    }
+
+    // ---- Upsert membership ----
+    const { error } = await supabase
+      .from("organization_members")
+      .upsert(
+        { user_id: member.id, organization_id: id, email: member.email ?? body.email.trim() },
+        { onConflict: "user_id" }
+      );
+
+    if (error) {
+      console.error("Failed to add organization member:", error);
+      return NextResponse.json(
+        { ok: false, error: "Failed to add member" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ ok: true, member: { user_id: member.id, email: member.email } });
+  } catch (err) {
+    console.error("Unhandled error in POST /api/organizations/[id]/members:", err);
+    return NextResponse.json(
+      { ok: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Remove a rep from an organization (admins only); their proposals go
+ * back to the built-in branding.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await getSupabaseServerClient();
+
+    // ---- Auth check ----
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { ok: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json(
+        { ok: false, error: "Forbidden" },
+        { status: 403 }
+      );
+    }
+
+    // ---- Parse input ----
+    let body: { user_id?: string };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { ok: false, error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+
+    if (typeof body.user_id !== "string" || !body.user_id) {
+      return NextResponse.json(
+        { ok: false, error: "Missing or invalid fields: User" },
+        { status: 400 }
+      );
+    }
+
+    // ---- Delete membership ----
+    const { data: removed, error } = await supabase
+      .from("organization_members")
+      .delete()
+      .eq("organization_id", id)
+      .eq("user_id", body.user_id)
+      .select("user_id");
+
+    if (error) {
+      console.error("Failed to remove organization member:", error);
+      return NextResponse.json(
+        { ok: false, error: "Failed to remove member" },
+        { status: 500 }
+      );
+    }
+
+    if (!removed || removed.length === 0) {
+      return NextResponse.json(
+        { ok: false, error: "Member not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    console.error("Unhandled error in DELETE /api/organizations/[id]/members:", err);
+    return NextResponse.json(
+      { ok: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServerClient, isAdmin } from "@/lib/supabase-server";
+import { type BrandingInput, validateBrandingInput } from "@/lib/branding";
+
+const TEXT_FIELDS = ["proposal_title", "contact_email", "contact_phone", "address", "footer_text"] as const;
+
+/**
+ * Update an organization's branding (admins only). Fields not supplied
+ * keep their values; blank text fields are cleared. Shared proposals pick
+ * up the change on their next view.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await getSupabaseServerClient();
+
+    // ---- Auth check ----
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { ok: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json(
+        { ok: false, error: "Forbidden" },
+        { status: 403 }
+      );
+    }
+
+    // ---- Parse input ----
+    let body: Partial<BrandingInput>;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { ok: false, error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+
+    const { data: existing, error: lookupError } = await supabase
+      .from("organizations")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (lookupError) {
+      console.error("Organization lookup failed:", lookupError);
+      return NextResponse.json(
+        { ok: false, error: "Failed to load organization" },
+        { status: 500 }
+      );
+    }
+
+    if (!existing) {
+      return NextResponse.json(
+        { ok: false, error: "Organization not found" },
+        { status: 404 }
+      );
+    }
+
+    // ---- Merge & validate ----
+    const merged: BrandingInput = {
+      name: body.name ?? existing.name,
+      primary_color: body.primary_color ?? existing.primary_color,
+      accent_color: body.accent_color ?? existing.accent_color,
+    };
+    for (const field of TEXT_FIELDS) {
+      merged[field] = body[field] !== undefined ? body[field] : existing[field];
+    }
+
+    const invalid = validateBrandingInput(merged);
+    if (invalid.length > 0) {
+      return NextResponse.json(
+        { ok: false, error: `Missing or invalid fields: ${invalid.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    // ---- Update ----
+    const update: Record<string, string | null> = {
+      name: merged.name.trim(),
+      primary_color: merged.primary_color!,
+      accent_color: merged.accent_color!,
+    };
+    for (const field of TEXT_FIELDS) update[field] = merged[field]?.trim() || null;
+
+    const { data: organization, error } = await supabase
+      .from("organizations")
+      .update(update)
+      .eq("id", id)
+      .select("*")
+      .single();
+
+    if (error || !organization) {
+      console.error("Failed to update organization:", error);
+      return NextResponse.json(
+        { ok: false, error: "Failed to update organization" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ ok: true, organization });
+  } catch (err) {
+    console.error("Unhandled error in PATCH /api/organizations/[id]:", err);
+    return NextResponse.json(
+      { ok: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
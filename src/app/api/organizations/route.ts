@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServerClient, isAdmin } from "@/lib/supabase-server";
+import { type BrandingInput, validateBrandingInput } from "@/lib/branding";
+
+/**
+ * Create an organization with its branding (admins only). The logo is
+ * uploaded separately.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // ---- Auth check ----
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { ok: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json(
+        { ok: false, error: "Forbidden" },
+        { status: 403 }
+      );
+    }
+
+    // ---- Parse & validate input ----
+    let body: Partial<BrandingInput>;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { ok: false, error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+
+    const invalid = validateBrandingInput(body);
+    if (invalid.length > 0) {
+      return NextResponse.json(
+        { ok: false, error: `Missing or invalid fields: ${invalid.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    // ---- Insert ----
+    const { data: organization, error } = await supabase
+      .from("organizations")
+      .insert({
+        name: body.name!.trim(),
+        proposal_title: body.proposal_title?.trim() || null,
+        ...(body.primary_color ? { primary_color: body.primary_color } : {}),
+        ...(body.accent_color ? { accent_color: body.accent_color } : {}),
+        contact_email: body.contact_email?.trim() || null,
+        contact_phone: body.contact_phone?.trim() || null,
+        address: body.address?.trim() || null,
+        footer_text: body.footer_text?.trim() || null,
+      })
+      .select("*")
+      .single();
+
+    if (error || !organization) {
+      console.error("Failed to insert organization:", error);
+      return NextResponse.json(
+        { ok: false, error: "Failed to create organization" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ ok: true, organization });
+  } catch (err) {
+    console.error("Unhandled error in POST /api/organizations:", err);
+    return NextResponse.json(
+      { ok: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
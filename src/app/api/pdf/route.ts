@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServiceClient } from "@/lib/supabase";
+import { parseMoney } from "@/lib/money";
+import { checkLinkAccess, passcodeGrantCookie } from "@/lib/link-access";
+import { type ProposalPdfData, loadPdfLogo, proposalPdfFilename, renderProposalPdf } from "@/lib/proposal-pdf";
+import { loadCaseTemplate } from "@/lib/templates";
+import { DEFAULT_BRANDING, loadUserBranding } from "@/lib/branding";
+
+/**
+ * Download a proposal as a PDF from its public link.
+ * Re-checks the link (and passcode grant) like /api/view, renders the PDF
+ * on the server and counts the download against the link.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let body: { case_id?: string; token?: string };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { ok: false, error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+
+    const { case_id, token } = body;
+    if (!case_id || !token) {
+      return NextResponse.json(
+        { ok: false, error: "Invalid link" },
+        { status: 400 }
+      );
+    }
+
+    const pepper = process.env.LINK_PEPPER;
+    if (!pepper) {
+      console.error("LINK_PEPPER is not set");
+      return NextResponse.json(
+        { ok: false, error: "Server configuration error" },
+        { status: 500 }
+      );
+    }
+
+    const supabase = getSupabaseServiceClient();
+
+    // ---- Link check ----
+    const access = await checkLinkAccess(
+      supabase,
+      { caseId: case_id, token, grant: request.cookies.get(passcodeGrantCookie(case_id))?.value },
+      pepper
+    );
+
+    if (!access.ok) {
+      return NextResponse.json(
+        { ok: false, state: access.state, error: "This link can no longer be used to download the proposal" },
+        { status: 403 }
+      );
+    }
+
+    // ---- Load case ----
+    const { data: caseRow, error: caseError } = await supabase
+      .from("cases")
+      .select(
+        "id, company_name, industry, calc_total, calc_er, calc_ee, calc_inputs, calc_explanation, calc_scenarios, calc_projection, paycheck_inputs, template_id, template_version_id, user_id"
+      )
+      .eq("id", case_id)
+      .is("deleted_at", null)
+      .maybeSingle();
+
+    if (caseError || !caseRow) {
+      console.error("Case lookup failed:", caseError);
+      return NextResponse.json(
+        { ok: false, error: "Proposal not found" },
+        { status: 404 }
+      );
+    }
+
+    const template = await loadCaseTemplate(supabase, caseRow);
+    const branding = caseRow.user_id ? await loadUserBranding(supabase, caseRow.user_id) : DEFAULT_BRANDING;
+    const pdf = renderProposalPdf(
+      {
+        ...(caseRow as ProposalPdfData),
+        calc_total: parseMoney(caseRow.calc_total),
+        calc_er: parseMoney(caseRow.calc_er),
+        calc_ee: parseMoney(caseRow.calc_ee),
+      },
+      template.content,
+      branding,
+      await loadPdfLogo(branding)
+    );
+
+    // ---- Record the download (and clear failed attempts) ----
+    const { link } = access;
+    const { error: countError } = await supabase
+      .from("case_links")
+      .update({
+        download_count: (link.download_count || 0) + 1,
+        last_downloaded_at: new Date().toISOString(),
+        ...access.update,
+      })
+      .eq("id", link.id);
+
+    if (countError) {
+      console.error("Failed to record PDF download:", countError);
+    }
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${proposalPdfFilename(caseRow.company_name, branding.proposal_title)}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    console.error("Unhandled error in POST /api/pdf:", err);
+    return NextResponse.json(
+      { ok: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServerClient, isAdmin } from "@/lib/supabase-server";
+import { fixedRateSetFields, validateRateSetInput, toRateSet } from "@/lib/rate-sets";
+
+/**
+ * Update a rate set's end date or notes (admins only). Fields not
+ * supplied keep their values. The rates themselves can't change, since
+ * cases record the set they were calculated with; new rates are a new set.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await getSupabaseServerClient();
+
+    // ---- Auth check ----
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { ok: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json(
+        { ok: false, error: "Forbidden" },
+        { status: 403 }
+      );
+    }
+
+    // ---- Parse input ----
+    let body: {
+      effective_to?: string | null;
+      notes?: string | null;
+    } & Record<string, unknown>;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { ok: false, error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+
+    const fixed = fixedRateSetFields(body);
+    if (fixed.length > 0) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: `${fixed.join(", ")} can't be changed once a rate set exists. Add a new rate set instead.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { data: existing, error: lookupError } = await supabase
+      .from("rate_sets")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (lookupError) {
+      console.error("Rate set lookup failed:", lookupError);
+      return NextResponse.json(
+        { ok: false, error: "Failed to load rate set" },
+        { status: 500 }
+      );
+    }
+
+    if (!existing) {
+      return NextResponse.json(
+        { ok: false, error: "Rate set not found" },
+        { status: 404 }
+      );
+    }
+
+    // ---- Merge & validate ----
+    const current = toRateSet(existing);
+    const update = {
+      effective_to:
+        body.effective_to !== undefined ? body.effective_to || null : current.effective_to,
+      notes: body.notes !== undefined ? body.notes?.trim() || null : current.notes,
+    };
+
+    const invalid = validateRateSetInput({ ...current, ...update });
+    if (invalid.length > 0) {
+      return NextResponse.json(
+        { ok: false, error: `Missing or invalid fields: ${invalid.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    // ---- Update ----
+    const { data: rateSet, error } = await supabase
+      .from("rate_sets")
+      .update(update)
+      .eq("id", id)
+      .select("*")
+      .single();
+
+    if (error || !rateSet) {
+      console.error("Failed to update rate set:", error);
+      return NextResponse.json(
+        { ok: false, error: "Failed to update rate set" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ ok: true, rate_set: rateSet });
+  } catch (err) {
+    console.error("Unhandled error in PATCH /api/rate-sets/[id]:", err);
+    return NextResponse.json(
+      { ok: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServerClient, isAdmin } from "@/lib/supabase-server";
+import { validateRateSetInput } from "@/lib/rate-sets";
+
+/**
+ * List all rate sets (any signed-in rep).
+ */
+export async function GET() {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { ok: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("rate_sets")
+      .select("*")
+      .order("tax_year", { ascending: false })
+      .order("effective_from", { ascending: false });
+
+    if (error) {
+      console.error("Failed to load rate sets:", error);
+      return NextResponse.json(
+        { ok: false, error: "Failed to load rate sets" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ ok: true, rate_sets: data || [] });
+  } catch (err) {
+    console.error("Unhandled error in GET /api/rate-sets:", err);
+    return NextResponse.json(
+      { ok: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Create a rate set (admins only).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // ---- Auth check ----
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { ok: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json(
+        { ok: false, error: "Forbidden" },
+        { status: 403 }
+      );
+    }
+
+    // ---- Parse & validate input ----
+    let body: {
+      tax_year?: number;
+      effective_from?: string;
+      effective_to?: string | null;
+      rate_total?: number;
+      rate_er?: number;
+      rate_ee?: number;
+      notes?: string | null;
+    };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { ok: false, error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+
+    const invalid = validateRateSetInput({
+      tax_year: body.tax_year,
+      effective_from: body.effective_from,
+      effective_to: body.effective_to,
+      rate_total: body.rate_total,
+      rate_er: body.rate_er,
+      rate_ee: body.rate_ee,
+    });
+    if (invalid.length > 0) {
+      return NextResponse.json(
+        { ok: false, error: `Missing or invalid fields: ${invalid.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    // ---- Insert ----
+    const { data: rateSet, error } = await supabase
+      .from("rate_sets")
+      .insert({
+        tax_year: body.tax_year,
+        effective_from: body.effective_from,
+        effective_to: body.effective_to || null,
+        rate_total: body.rate_total,
+        rate_er: body.rate_er,
+        rate_ee: body.rate_ee,
+        notes: body.notes?.trim() || null,
+        created_by: user.id,
+      })
+      .select("*")
+      .single();
+
+    if (error || !rateSet) {
+      console.error("Failed to insert rate set:", error);
+      return NextResponse.json(
+        { ok: false, error: "Failed to create rate set" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ ok: true, rate_set: rateSet });
+  } catch (err) {
+    console.error("Unhandled error in POST /api/rate-sets:", err);
+    return NextResponse.json(
+      { ok: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServerClient, isAdmin } from "@/lib/supabase-server";
+import { type TemplateContent, isTemplateId, validateTemplateInput } from "@/lib/templates";
+
+/**
+ * Update a proposal template (admins only). Fields not supplied keep their
+ * values. New content is saved as a new version; cases already pinned to
+ * an earlier version keep their wording until they are regenerated or
+ * given the template again.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await getSupabaseServerClient();
+
+    // ---- Auth check ----
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { ok: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json(
+        { ok: false, error: "Forbidden" },
+        { status: 403 }
+      );
+    }
+
+    // ---- Parse input ----
+    let body: {
+      name?: string;
+      description?: string | null;
+      content?: TemplateContent;
+      is_default?: boolean;
+    };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { ok: false, error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+
+    if (!isTemplateId(id)) {
+      return NextResponse.json(
+        { ok: false, error: "Template not found" },
+        { status: 404 }
+      );
+    }
+
+    const { data: existing, error: lookupError } = await supabase
+      .from("proposal_templates")
+      .select("id, name, description, content, is_default")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (lookupError) {
+      console.error("Template lookup failed:", lookupError);
+      return NextResponse.json(
+        { ok: false, error: "Failed to load template" },
+        { status: 500 }
+      );
+    }
+
+    if (!existing) {
+      return NextResponse.json(
+        { ok: false, error: "Template not found" },
+        { status: 404 }
+      );
+    }
+
+    // ---- Merge & validate ----
+    const merged = {
+      name: body.name ?? existing.name,
+      description:
+        body.description !== undefined ? body.description?.trim() || null : existing.description,
+      content: body.content ?? existing.content,
+      is_default: body.is_default ?? existing.is_default,
+    };
+
+    const invalid = validateTemplateInput(merged);
+    if (invalid.length > 0) {
+      return NextResponse.json(
+        { ok: false, error: `Missing or invalid fields: ${invalid.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    // ---- Update ----
+    // The default is swapped separately so the old one is only cleared
+    // together with setting the new one
+    const makeDefault = merged.is_default && !existing.is_default;
+    const { data: updated, error } = await supabase
+      .from("proposal_templates")
+      .update({
+        ...merged,
+        name: merged.name.trim(),
+        is_default: merged.is_default && existing.is_default,
+      })
+      .eq("id", id)
+      .select("*")
+      .single();
+
+    if (error || !updated) {
+      console.error("Failed to update template:", error);
+      return NextResponse.json(
+        { ok: false, error: "Failed to update template" },
+        { status: 500 }
+      );
+    }
+
+    // ---- Replace the default ----
+    if (makeDefault) {
+      const { error: defaultError } = await supabase.rpc("make_default_template", {
+        p_template_id: id,
+      });
+
+      if (defaultError) {
+        console.error("Failed to make template default:", defaultError);
+        return NextResponse.json(
+          { ok: false, error: "Template saved, but it could not be made the default" },
+          { status: 500 }
+        );
+      }
+    }
+
+    const template = makeDefault ? { ...updated, is_default: true } : updated;
+    return NextResponse.json({ ok: true, template });
+  } catch (err) {
+    console.error("Unhandled error in PATCH /api/templates/[id]:", err);
+    return NextResponse.json(
+      { ok: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServerClient, isAdmin } from "@/lib/supabase-server";
+import { type TemplateContent, validateTemplateInput } from "@/lib/templates";
+
+/**
+ * List proposal templates (any signed-in rep), default first.
+ */
+export async function GET() {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { ok: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("proposal_templates")
+      .select("id, name, description, is_default, updated_at")
+      .order("is_default", { ascending: false })
+      .order("name", { ascending: true });
+
+    if (error) {
+      console.error("Failed to load templates:", error);
+      return NextResponse.json(
+        { ok: false, error: "Failed to load templates" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ ok: true, templates: data || [] });
+  } catch (err) {
+    console.error("Unhandled error in GET /api/templates:", err);
+    return NextResponse.json(
+      { ok: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Create a proposal template (admins only). Marking it default unmarks
+ * the previous default.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // ---- Auth check ----
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { ok: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json(
+        { ok: false, error: "Forbidden" },
+        { status: 403 }
+      );
+    }
+
+    // ---- Parse & validate input ----
+    let body: {
+      name?: string;
+      description?: string | null;
+      content?: TemplateContent;
+      is_default?: boolean;
+    };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { ok: false, error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+
+    const invalid = validateTemplateInput(body);
+    if (invalid.length > 0) {
+      return NextResponse.json(
+        { ok: false, error: `Missing or invalid fields: ${invalid.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    // ---- Insert ----
+    const { data: inserted, error } = await supabase
+      .from("proposal_templates")
+      .insert({
+        name: body.name!.trim(),
+        description: body.description?.trim() || null,
+        content: body.content,
+        is_default: false,
+        created_by: user.id,
+      })
+      .select("*")
+      .single();
+
+    if (error || !inserted) {
+      console.error("Failed to insert template:", error);
+      return NextResponse.json(
+        { ok: false, error: "Failed to create template" },
+        { status: 500 }
+      );
+    }
+
+    // ---- Replace the default ----
+    // Clearing the old default and setting the new one happen together
+    if (body.is_default) {
+      const { error: defaultError } = await supabase.rpc("make_default_template", {
+        p_template_id: inserted.id,
+      });
+
+      if (defaultError) {
+        console.error("Failed to make template default:", defaultError);
+        return NextResponse.json(
+          { ok: false, error: "Template created, but it could not be made the default" },
+          { status: 500 }
+        );
+      }
+    }
+
+    const template = body.is_default ? { ...inserted, is_default: true } : inserted;
+    return NextResponse.json({ ok: true, template });
+  } catch (err) {
+    console.error("Unhandled error in POST /api/templates:", err);
+    return NextResponse.json(
+      { ok: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
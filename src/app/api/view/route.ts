@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServiceClient } from "@/lib/supabase";
+import { checkLinkAccess, passcodeGrantCookie } from "@/lib/link-access";
+import { recordProposalView } from "@/lib/proposal-view";
+
+/**
+ * Record a view of a public proposal, sent by the viewer once the
+ * proposal is shown. Re-checks the link (and passcode grant), counts the
+ * view and moves a draft or sent case to viewed (see recordProposalView).
+ * Opening the page itself changes nothing.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let body: { case_id?: string; token?: string };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { ok: false, error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+
+    const { case_id, token } = body;
+    if (!case_id || !token) {
+      return NextResponse.json(
+        { ok: false, error: "Invalid link" },
+        { status: 400 }
+      );
+    }
+
+    const pepper = process.env.LINK_PEPPER;
+    if (!pepper) {
+      console.error("LINK_PEPPER is not set");
+      return NextResponse.json(
+        { ok: false, error: "Server configuration error" },
+        { status: 500 }
+      );
+    }
+
+    const supabase = getSupabaseServiceClient();
+
+    // ---- Link check ----
+    const access = await checkLinkAccess(
+      supabase,
+      { caseId: case_id, token, grant: request.cookies.get(passcodeGrantCookie(case_id))?.value },
+      pepper
+    );
+
+    if (!access.ok) {
+      return NextResponse.json(
+        { ok: false, state: access.state, error: "This link can no longer be used" },
+        { status: 403 }
+      );
+    }
+
+    // ---- Record view ----
+    await recordProposalView(supabase, access);
+
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    console.error("Unhandled error in POST /api/view:", err);
+    return NextResponse.json(
+      { ok: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
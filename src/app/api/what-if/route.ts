@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServiceClient } from "@/lib/supabase";
+import { checkLinkAccess, passcodeGrantCookie } from "@/lib/link-access";
+import {
+  calculateWhatIf,
+  isWithinWhatIfRange,
+  supportsWhatIf,
+  whatIfRange,
+} from "@/lib/what-if";
+
+/**
+ * Record a what-if adjustment from a public link.
+ * Re-checks the link (and passcode grant) like /api/view, recomputes the
+ * savings for the chosen W-2 count within the rep's range, and saves them
+ * as a case event. The proposal itself is not changed.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let body: { case_id?: string; token?: string; w2_count?: number };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { ok: false, error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+
+    const { case_id, token } = body;
+    if (!case_id || !token) {
+      return NextResponse.json(
+        { ok: false, error: "Invalid link" },
+        { status: 400 }
+      );
+    }
+
+    const pepper = process.env.LINK_PEPPER;
+    if (!pepper) {
+      console.error("LINK_PEPPER is not set");
+      return NextResponse.json(
+        { ok: false, error: "Server configuration error" },
+        { status: 500 }
+      );
+    }
+
+    const supabase = getSupabaseServiceClient();
+
+    // ---- Link check ----
+    const access = await checkLinkAccess(
+      supabase,
+      { caseId: case_id, token, grant: request.cookies.get(passcodeGrantCookie(case_id))?.value },
+      pepper
+    );
+
+    if (!access.ok) {
+      return NextResponse.json(
+        { ok: false, state: access.state, error: "This link can no longer be used" },
+        { status: 403 }
+      );
+    }
+
+    // ---- Load case ----
+    const { data: caseRow, error: caseError } = await supabase
+      .from("cases")
+      .select("id, calc_inputs, calc_projection, calc_scenarios, what_if_min_w2, what_if_max_w2")
+      .eq("id", case_id)
+      .is("deleted_at", null)
+      .maybeSingle();
+
+    if (caseError || !caseRow) {
+      console.error("Case lookup failed:", caseError);
+      return NextResponse.json(
+        { ok: false, error: "Proposal not found" },
+        { status: 404 }
+      );
+    }
+
+    const range = supportsWhatIf(caseRow.calc_inputs) ? whatIfRange(caseRow) : null;
+    if (!range) {
+      return NextResponse.json(
+        { ok: false, error: "What-if is not available for this proposal" },
+        { status: 409 }
+      );
+    }
+
+    if (!isWithinWhatIfRange(range, caseRow.calc_inputs, body.w2_count)) {
+      return NextResponse.json(
+        { ok: false, error: `Missing or invalid fields: W-2 Count (${range.min_w2} to ${range.max_w2})` },
+        { status: 400 }
+      );
+    }
+
+    // ---- Record event ----
+    const result = calculateWhatIf(caseRow, body.w2_count);
+    const { error: insertError } = await supabase.from("case_events").insert({
+      case_id,
+      link_id: access.link.id,
+      event_type: "what_if",
+      details: result,
+    });
+
+    if (insertError) {
+      console.error("Failed to insert case_event:", insertError);
+      return NextResponse.json(
+        { ok: false, error: "Failed to record adjustment" },
+        { status: 500 }
+      );
+    }
+
+    if (access.update) {
+      await supabase.from("case_links").update(access.update).eq("id", access.link.id);
+    }
+
+    return NextResponse.json({ ok: true, result });
+  } catch (err) {
+    console.error("Unhandled error in POST /api/what-if:", err);
+    return NextResponse.json(
+      { ok: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import type { Branding } from "@/lib/branding";
+
+/**
+ * Page frame of the public viewer: brand colors as CSS variables, the
+ * content centered, and the owner's contact details in the footer.
+ */
+export default function PageShell({
+  children,
+  branding,
+  companyName,
+}: {
+  children: React.ReactNode;
+  branding: Branding;
+  companyName?: string;
+}) {
+  const year = new Date().getFullYear();
+  // Brand colors reach every card through CSS variables
+  const brandColors = {
+    "--brand-primary": branding.primary_color,
+    "--brand-accent": branding.accent_color,
+  } as React.CSSProperties;
+
+  return (
+    <div
+      className="min-h-screen bg-gradient-to-b from-gray-50 to-gray-100/80 flex flex-col items-center justify-center px-3 py-4 sm:p-4"
+      style={brandColors}
+    >
+      <div className="flex-1 flex items-center justify-center w-full py-6 sm:py-8">
+        {children}
+      </div>
+      <footer
+        className="w-full max-w-2xl mx-auto pt-8 pb-6 animate-fade-in"
+        style={{ animationDelay: "1500ms" }}
+      >
+        <div className="border-t border-gray-200 pt-6">
+          <div className="flex flex-col sm:flex-row sm:justify-between gap-6 text-xs text-gray-400">
+            {/* Left — Company info */}
+            <div className="space-y-1">
+              <p className="font-semibold text-gray-500">{branding.company_name}</p>
+              {branding.contact_email && (
+                <p>
+                  <a
+                    href={`mailto:${branding.contact_email}`}
+                    className="transition-colors hover:[color:var(--brand-accent)]"
+                  >
+                    {branding.contact_email}
+                  </a>
+                </p>
+              )}
+              {branding.contact_phone && (
+                <p>
+                  <a
+                    href={`tel:${branding.contact_phone.replace(/[^0-9+]/g, "")}`}
+                    className="transition-colors hover:[color:var(--brand-accent)]"
+                  >
+                    {branding.contact_phone}
+                  </a>
+                </p>
+              )}
+              {branding.address && <p className="whitespace-pre-line">{branding.address}</p>}
+            </div>
+
+            {/* Right — Legal */}
+            <div className="sm:text-right space-y-1">
+              {companyName && (
+                <p className="text-gray-500">
+                  Report generated for:{" "}
+                  <span className="font-medium">{companyName}</span>
+                </p>
+              )}
+              {branding.footer_text && <p className="whitespace-pre-line">{branding.footer_text}</p>}
+              <p>&copy; {year} {branding.company_name}</p>
+            </div>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+}
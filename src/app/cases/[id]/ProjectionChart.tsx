@@ -0,0 +1,75 @@
+"use client";
+
+import { formatUSD } from "@/lib/format";
+import { PROJECTION_HORIZONS, type SavingsProjection } from "@/lib/projection";
+
+/**
+ * Year-by-year savings bars (employer + employee) with cumulative
+ * 1/3/5-year totals.
+ */
+export default function ProjectionChart({ projection }: { projection: SavingsProjection }) {
+  const { years, assumptions } = projection;
+  const max = Math.max(...years.map((y) => y.total), 1);
+  const ramped = assumptions.ramp.some((r) => r < 1);
+
+  return (
+    <div>
+      <div className="grid grid-cols-3 gap-3 mb-6">
+        {PROJECTION_HORIZONS.map((horizon) => {
+          const year = years[horizon - 1];
+          return (
+            <div key={horizon} className="bg-gray-50 border border-gray-200 rounded-xl p-3 sm:p-4 text-center">
+              <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider">
+                {horizon}-Year
+              </p>
+              <p className="text-lg sm:text-2xl font-display font-normal text-gray-900 mt-1">
+                {formatUSD(year.cumulative_total)}
+              </p>
+              <p className="text-xs text-emerald-600 mt-0.5">ER {formatUSD(year.cumulative_er)}</p>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-end gap-2 sm:gap-4 h-40" role="img" aria-label="Annual savings by year">
+        {years.map((y) => (
+          <div key={y.year} className="flex-1 flex flex-col items-center justify-end h-full">
+            <div
+              className="w-full flex flex-col justify-end rounded-t-md overflow-hidden"
+              style={{ height: `${(y.total / max) * 100}%` }}
+              title={`Year ${y.year}: ${formatUSD(y.total)} (${y.participants} participants)`}
+            >
+              <div className="bg-sky-400" style={{ height: `${y.total > 0 ? (y.ee / y.total) * 100 : 0}%` }} />
+              <div className="bg-emerald-500" style={{ height: `${y.total > 0 ? (y.er / y.total) * 100 : 0}%` }} />
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-2 sm:gap-4 mt-2">
+        {years.map((y) => (
+          <p key={y.year} className="flex-1 text-center text-xs text-gray-500">
+            Yr {y.year}
+          </p>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-center gap-4 mt-4 text-xs text-gray-500">
+        <span className="flex items-center gap-1.5">
+          <span className="w-2.5 h-2.5 rounded-sm bg-emerald-500" /> Employer
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="w-2.5 h-2.5 rounded-sm bg-sky-400" /> Employee
+        </span>
+      </div>
+
+      <p className="text-xs text-gray-400 mt-4 leading-relaxed">
+        Assumes {(assumptions.growth_rate * 100).toFixed(1)}% annual headcount growth and{" "}
+        {Math.round(assumptions.participation_rate * 100)}% participation
+        {ramped
+          ? `, ramping ${assumptions.ramp.map((r) => `${Math.round(r * 100)}%`).join(" → ")} of that over the first ${assumptions.ramp.length} years`
+          : ""}
+        .
+      </p>
+    </div>
+  );
+}
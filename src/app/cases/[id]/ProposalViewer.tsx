@@ -0,0 +1,639 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Image from "next/image";
+import { formatUSD } from "@/lib/format";
+import { fromCents, toCents } from "@/lib/money";
+import { defaultPaycheckInputs, simulatePaycheck } from "@/lib/paycheck";
+import { EXCLUSION_REASON_LABELS } from "@/lib/eligibility";
+import {
+  type AcceptanceSummary,
+  ACCEPTABLE_STATUSES,
+  ACCEPTANCE_TERMS,
+  MAX_SIGNER_EMAIL_LENGTH,
+  MAX_SIGNER_FIELD_LENGTH,
+  signatureMatches,
+} from "@/lib/acceptance";
+import { paycheckRows, signedUSD } from "@/lib/proposal-content";
+import type { TemplateWidget } from "@/lib/templates";
+import type { Branding } from "@/lib/branding";
+import type { ProposalViewData } from "@/lib/proposal-view";
+import PageShell from "./PageShell";
+import ProjectionChart from "./ProjectionChart";
+import TemplateSectionCard from "./TemplateSection";
+import WhatIfPanel from "./WhatIfPanel";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * What the prospect used to open the proposal; needed again to accept it.
+ * A passcode is never passed along: the API routes read the grant cookie
+ * the middleware set when it was entered.
+ */
+export interface LinkAccess {
+  caseId: string;
+  token: string;
+}
+
+// ---------------------------------------------------------------------------
+// Animated counter hook
+// ---------------------------------------------------------------------------
+
+/**
+ * Starts at the target, so the server-rendered page shows the real figure.
+ * Counts in whole cents and ends on exactly the target.
+ */
+function useCountUp(target: number, duration = 1200, enabled = true) {
+  const [value, setValue] = useState(target);
+  useEffect(() => {
+    if (!enabled) return;
+    const targetCents = toCents(target);
+    let start = 0;
+    const startTime = performance.now();
+    const step = (now: number) => {
+      const elapsed = now - startTime;
+      const progress = Math.min(elapsed / duration, 1);
+      const eased = 1 - Math.pow(1 - progress, 3);
+      setValue(progress === 1 ? target : fromCents(Math.round(eased * targetCents)));
+      if (progress < 1) start = requestAnimationFrame(step);
+    };
+    start = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(start);
+  }, [target, duration, enabled]);
+  return value;
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+/**
+ * The proposal as the prospect sees it. The middleware has checked the
+ * link and the page loaded the proposal; once it's shown, the viewer
+ * records the view through /api/view.
+ */
+export default function ProposalViewer({
+  access,
+  data: caseData,
+  branding,
+}: {
+  access: LinkAccess;
+  data: ProposalViewData;
+  branding: Branding;
+}) {
+  // Recorded from the browser, so prefetches, HEAD requests and link
+  // previews don't count as views; best effort
+  useEffect(() => {
+    fetch("/api/view", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        case_id: access.caseId,
+        token: access.token,
+      }),
+      keepalive: true,
+    }).catch(() => {});
+  }, [access]);
+
+  // Animated counters
+  const animTotal = useCountUp(caseData.calc_total, 1400);
+  const animEr = useCountUp(caseData.calc_er, 1200);
+  const animEe = useCountUp(caseData.calc_ee, 1200);
+
+  const w2 = caseData.calc_inputs.w2_count;
+  const eligibility = caseData.calc_inputs.eligibility;
+  const excluded = eligibility && eligibility.excluded_count > 0 ? eligibility : null;
+  const valuation = caseData.calc_inputs.valuation;
+  const paycheck = simulatePaycheck(
+    caseData.paycheck_inputs ?? defaultPaycheckInputs(caseData.calc_inputs.tax_year)
+  );
+
+  const header = (
+    <>
+      {/* Header */}
+      <div
+        className="px-5 py-7 sm:px-8 sm:py-8 animate-fade-in"
+        style={{ background: "linear-gradient(135deg, var(--brand-primary) 0%, var(--brand-accent) 60%, var(--brand-accent) 100%)" }}
+      >
+        {branding.logo_url ? (
+          <Image
+            src={branding.logo_url}
+            alt={branding.company_name}
+            width={180}
+            height={40}
+            className="mb-6 h-10 w-auto max-w-[180px] object-contain object-left animate-fade-in-down"
+            unoptimized={!branding.logo_url.startsWith("/")}
+            priority
+          />
+        ) : (
+          <p className="mb-6 text-lg font-semibold text-white animate-fade-in-down">{branding.company_name}</p>
+        )}
+        <p
+          className="text-xs font-medium uppercase tracking-widest mb-1 animate-fade-in-up"
+          style={{ animationDelay: "100ms", color: "rgba(255,255,255,0.7)" }}
+        >
+          {branding.proposal_title}
+        </p>
+        <h1
+          className="text-2xl font-bold text-white animate-fade-in-up"
+          style={{ animationDelay: "200ms" }}
+        >
+          {caseData.company_name}
+        </h1>
+        <div
+          className="flex flex-wrap items-center gap-3 mt-3 animate-fade-in-up"
+          style={{ animationDelay: "300ms" }}
+        >
+          <span
+            className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border"
+            style={{ background: "rgba(255,255,255,0.15)", color: "rgba(255,255,255,0.9)", borderColor: "rgba(255,255,255,0.2)" }}
+          >
+            {caseData.industry}
+          </span>
+          <span style={{ color: "rgba(255,255,255,0.7)" }} className="text-xs">
+            {excluded ? `${excluded.eligible_count} eligible of ${w2}` : w2} W-2 Employees
+            {caseData.calc_inputs.state_mix && caseData.calc_inputs.state_mix.length > 1 &&
+              ` across ${caseData.calc_inputs.state_mix.length} states`}
+          </span>
+        </div>
+      </div>
+    </>
+  );
+
+  const widgets: Record<TemplateWidget, React.ReactNode> = {
+    savings_breakdown: (
+      <>
+        {/* Hero Number */}
+        <div
+          className="px-5 py-8 sm:px-8 sm:py-10 text-center border-b border-emerald-100"
+          style={{ background: "linear-gradient(to bottom, #ecfdf5, #ffffff)" }}
+        >
+          <p
+            className="text-xs font-semibold text-emerald-700 uppercase tracking-widest mb-3 animate-fade-in"
+            style={{ animationDelay: "1700ms" }}
+          >
+            Employer Net Savings
+          </p>
+          <p
+            className="text-5xl sm:text-6xl font-display font-normal text-emerald-700 tracking-tight animate-number-pop"
+            style={{ animationDelay: "1800ms" }}
+          >
+            {formatUSD(animEr)}
+          </p>
+          <p
+            className="text-sm text-emerald-500 mt-3 animate-fade-in"
+            style={{ animationDelay: "1900ms" }}
+          >
+            {formatUSD(caseData.calc_inputs.rate_er)} {caseData.calc_inputs.mode === "census" ? "avg. " : ""}per W-2
+          </p>
+        </div>
+
+        {/* Breakdown Cards */}
+        <div className="px-5 py-7 sm:px-8 sm:py-8">
+          <h3
+            className="text-xs font-semibold text-gray-400 uppercase tracking-widest mb-4 sm:mb-5 animate-fade-in"
+            style={{ animationDelay: "2000ms" }}
+          >
+            Savings Breakdown
+          </h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div
+              className="bg-gray-50 border border-gray-200 rounded-xl p-6 animate-slide-up hover:shadow-md hover:shadow-gray-100/50 transition-shadow duration-300"
+              style={{ animationDelay: "2100ms" }}
+            >
+              <div className="flex items-center gap-2 mb-2">
+                <div className="w-2.5 h-2.5 rounded-full bg-gray-500 animate-pulse-soft" />
+                <p className="text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                  Estimated Total Tax Reduction
+                </p>
+              </div>
+              <p className="text-3xl sm:text-4xl font-display font-normal text-gray-900 mt-1">
+                {formatUSD(animTotal)}
+              </p>
+            </div>
+            <div
+              className="bg-sky-50 border border-sky-100 rounded-xl p-6 animate-slide-up hover:shadow-md hover:shadow-sky-100/50 transition-shadow duration-300"
+              style={{ animationDelay: "2200ms" }}
+            >
+              <div className="flex items-center gap-2 mb-2">
+                <div className="w-2.5 h-2.5 rounded-full bg-sky-500 animate-pulse-soft" />
+                <p className="text-xs font-semibold text-sky-700 uppercase tracking-wider">
+                  Employee Reduction
+                </p>
+              </div>
+              <p className="text-3xl sm:text-4xl font-display font-normal text-sky-700 mt-1">
+                {formatUSD(animEe)}
+              </p>
+            </div>
+            {valuation && (
+              <div
+                className="sm:col-span-2 bg-emerald-50 border border-emerald-100 rounded-xl p-6 animate-slide-up hover:shadow-md hover:shadow-emerald-100/50 transition-shadow duration-300"
+                style={{ animationDelay: "2250ms" }}
+              >
+                <div className="flex items-center gap-2 mb-2">
+                  <div className="w-2.5 h-2.5 rounded-full bg-emerald-500 animate-pulse-soft" />
+                  <p className="text-xs font-semibold text-emerald-700 uppercase tracking-wider">
+                    Enterprise Valuation Increase
+                  </p>
+                </div>
+                <p className="text-3xl sm:text-4xl font-display font-normal text-emerald-700 mt-1">
+                  {formatUSD(valuation.valuation_uplift)}
+                </p>
+                <p className="text-xs text-gray-500 mt-2">
+                  {formatUSD(valuation.ebitda_increase)} EBITDA increase × {valuation.ebitda_multiple}x multiple
+                  {valuation.multiple_industry ? ` (${valuation.multiple_industry} average)` : ""}
+                </p>
+              </div>
+            )}
+          </div>
+        </div>
+      </>
+    ),
+    scenarios: caseData.calc_scenarios && caseData.calc_scenarios.length > 0 ? (
+      <>
+        <div className="px-5 py-7 sm:px-8 sm:py-8">
+          <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-widest mb-4 sm:mb-5">
+            Participation Scenarios
+          </h3>
+          <div className={`grid grid-cols-1 gap-3 ${caseData.calc_scenarios.length > 2 ? "sm:grid-cols-3" : "sm:grid-cols-2"}`}>
+            {caseData.calc_scenarios.map((s) => (
+              <div
+                key={s.name}
+                className={`rounded-xl p-4 border ${s.headline ? "border-[color:var(--brand-accent)] bg-sky-50" : "border-gray-200 bg-gray-50"}`}
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <p className="text-sm font-semibold" style={{ color: "var(--brand-primary)" }}>{s.name}</p>
+                  {s.headline && (
+                    <span className="text-[10px] font-semibold uppercase tracking-wider" style={{ color: "var(--brand-accent)" }}>
+                      Shown above
+                    </span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500">
+                  {Math.round(s.participation_rate * 100)}% of {s.headcount} enroll ({s.participants})
+                </p>
+                <p className="text-2xl font-display font-normal text-gray-900 mt-2">{formatUSD(s.calc_total)}</p>
+                <p className="text-xs text-emerald-600 mt-1">Employer {formatUSD(s.calc_er)}</p>
+                <p className="text-xs text-sky-600">Employee {formatUSD(s.calc_ee)}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      </>
+    ) : null,
+    projection: caseData.calc_projection ? (
+      <>
+        <div className="px-5 py-7 sm:px-8 sm:py-8">
+          <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-widest mb-4 sm:mb-5">
+            Cumulative Impact
+          </h3>
+          <ProjectionChart projection={caseData.calc_projection} />
+        </div>
+      </>
+    ) : null,
+    paycheck_example: (
+      <>
+        <div className="px-3 py-6 sm:px-8">
+          <div className="overflow-x-auto rounded-xl border border-gray-200">
+            <table className="w-full text-xs sm:text-sm">
+              <thead>
+                <tr style={{ backgroundColor: "var(--brand-primary)" }}>
+                  <th className="text-left px-3 py-3 sm:px-4 text-[10px] sm:text-xs font-semibold text-white uppercase tracking-wider">Item</th>
+                  <th className="text-right px-2 py-3 sm:px-4 text-[10px] sm:text-xs font-semibold text-white uppercase tracking-wider whitespace-nowrap">Without</th>
+                  <th className="text-right px-2 py-3 sm:px-4 text-[10px] sm:text-xs font-semibold uppercase tracking-wider whitespace-nowrap" style={{ color: "var(--brand-accent)" }}>With SIMERP</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {paycheckRows(paycheck).map((row) => (
+                  <tr key={row.label} className={row.highlight ? "bg-blue-50/50" : row.bold ? "bg-gray-50" : ""}>
+                    <td className={`px-3 py-2.5 sm:px-4 text-gray-700 ${row.bold || row.highlight ? "font-semibold" : ""}`}>{row.label}</td>
+                    <td className={`px-2 py-2.5 sm:px-4 text-right text-gray-500 whitespace-nowrap ${row.bold ? "font-semibold" : ""}`}>{row.without}</td>
+                    <td className={`px-2 py-2.5 sm:px-4 text-right whitespace-nowrap ${row.highlight ? "font-semibold" : ""} ${row.bold ? "font-semibold text-gray-900" : ""}`}
+                      style={row.highlight ? { color: "var(--brand-accent)" } : undefined}
+                    >{row.with}</td>
+                  </tr>
+                ))}
+                {/* After-Tax Breakdown sub-rows */}
+                {paycheck.with.after_tax_deductions.map((sub) => (
+                  <tr key={sub.label} className="bg-gray-50/50">
+                    <td className="px-3 py-1.5 sm:px-4 pl-6 sm:pl-8 text-gray-400 text-xs">{sub.label}</td>
+                    <td className="px-2 py-1.5 sm:px-4 text-right text-gray-300 text-xs whitespace-nowrap" />
+                    <td className="px-2 py-1.5 sm:px-4 text-right text-gray-500 text-xs whitespace-nowrap">{formatUSD(-sub.amount)}</td>
+                  </tr>
+                ))}
+                {/* Net Take Home - special row */}
+                <tr style={{ backgroundColor: "var(--brand-primary)" }}>
+                  <td className="px-3 py-3 sm:px-4 font-bold text-white">NET TAKE HOME PAY</td>
+                  <td className="px-2 py-3 sm:px-4 text-right font-display font-normal text-gray-300 whitespace-nowrap">{formatUSD(paycheck.without.net_pay)}</td>
+                  <td className="px-2 py-3 sm:px-4 text-right font-display font-normal whitespace-nowrap" style={{ color: "var(--brand-accent)" }}>{formatUSD(paycheck.with.net_pay)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          {/* Net impact summary */}
+          <div className="mt-5 grid grid-cols-3 gap-2 sm:gap-3">
+            <div className="bg-emerald-50 rounded-lg p-3 sm:p-4 text-center border border-emerald-100">
+              <p className="text-[10px] sm:text-xs text-emerald-600 font-medium">Gross Tax Savings</p>
+              <p className="text-base sm:text-lg font-display font-normal text-emerald-700 mt-0.5">{signedUSD(paycheck.gross_tax_savings)}</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-3 sm:p-4 text-center border border-gray-100">
+              <p className="text-[10px] sm:text-xs text-gray-500 font-medium">Supplemental Benefits</p>
+              <p className="text-base sm:text-lg font-display font-normal text-gray-700 mt-0.5">{formatUSD(-paycheck.supplemental_benefits)}</p>
+            </div>
+            <div className="rounded-lg p-3 sm:p-4 text-center border" style={{ backgroundColor: "color-mix(in srgb, var(--brand-accent) 8%, transparent)", borderColor: "color-mix(in srgb, var(--brand-accent) 20%, transparent)" }}>
+              <p className="text-[10px] sm:text-xs font-medium" style={{ color: "var(--brand-primary)" }}>Net Pay Increase</p>
+              <p className="text-base sm:text-lg font-display font-normal mt-0.5" style={{ color: "var(--brand-accent)" }}>{signedUSD(paycheck.net_pay_increase)}</p>
+            </div>
+          </div>
+        </div>
+      </>
+    ),
+    calculation_details: (
+      <>
+        {/* Calculation Details */}
+        <div className="px-5 pt-7 pb-5 sm:px-8 sm:pt-8 sm:pb-6">
+          <div className="bg-gray-50 rounded-xl p-4 sm:p-5 border border-gray-100">
+            <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-widest mb-3">
+              Calculation Details
+            </h3>
+            <p className="text-sm text-gray-600 whitespace-pre-line leading-relaxed">
+              {caseData.calc_explanation}
+            </p>
+            {excluded && (
+              <div className="mt-4 rounded-lg border border-gray-200 bg-white px-3 py-2.5">
+                <p className="text-xs font-semibold text-gray-500 mb-1">
+                  {excluded.excluded_count} of {w2} employees excluded from the totals
+                </p>
+                <ul className="text-xs text-gray-500 space-y-0.5">
+                  {excluded.exclusions.map((e) => (
+                    <li key={e.reason} className="flex justify-between">
+                      <span>{EXCLUSION_REASON_LABELS[e.reason]}</span>
+                      <span>{e.count}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {caseData.calc_inputs.employees && caseData.calc_inputs.employees.length > 0 && (
+              <div className="mt-4 overflow-x-auto rounded-lg border border-gray-200 bg-white">
+                <table className="w-full text-xs">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="text-left px-3 py-2 font-semibold text-gray-500 uppercase tracking-wider">Employee</th>
+                      <th className="text-right px-3 py-2 font-semibold text-gray-500 uppercase tracking-wider">Wages</th>
+                      <th className="text-right px-3 py-2 font-semibold text-gray-500 uppercase tracking-wider">ER</th>
+                      <th className="text-right px-3 py-2 font-semibold text-gray-500 uppercase tracking-wider">EE</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {caseData.calc_inputs.employees.map((e, i) => (
+                      <tr key={i}>
+                        <td className="px-3 py-2 text-gray-700">
+                          {e.name || `Employee ${i + 1}`}
+                          {e.excluded_reason && (
+                            <span className="ml-1.5 text-gray-400">
+                              (excluded: {EXCLUSION_REASON_LABELS[e.excluded_reason]})
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-right text-gray-500 whitespace-nowrap">{formatUSD(e.annual_wages)}</td>
+                        <td className="px-3 py-2 text-right text-gray-700 whitespace-nowrap">{formatUSD(e.er)}</td>
+                        <td className="px-3 py-2 text-right text-gray-700 whitespace-nowrap">{formatUSD(e.ee)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      </>
+    ),
+  };
+
+  return (
+    <PageShell branding={branding} companyName={caseData.company_name}>
+      <div className="w-full max-w-2xl mx-auto space-y-5 sm:space-y-6">
+
+        {caseData.template.sections.map((section, i) => (
+          <TemplateSectionCard
+            key={i}
+            section={section}
+            widgets={widgets}
+            header={i === 0 ? header : undefined}
+            delay={i === 0 ? undefined : 1100 + i * 100}
+          />
+        ))}
+
+        {caseData.what_if && (
+          <WhatIfPanel access={access} proposal={caseData} range={caseData.what_if} />
+        )}
+
+        <DownloadPdfButton access={access} />
+
+        {/* ============================================================ */}
+        {/* CARD 8 — Accept Proposal                                     */}
+        {/* ============================================================ */}
+        <AcceptanceCard
+          access={access}
+          revision={caseData.revision}
+          initial={caseData.acceptance}
+          acceptable={ACCEPTABLE_STATUSES.includes(caseData.status)}
+        />
+
+      </div>
+    </PageShell>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Sub-components
+// ---------------------------------------------------------------------------
+
+function DownloadPdfButton({ access }: { access: LinkAccess }) {
+  const [downloading, setDownloading] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    setError("");
+    try {
+      const res = await fetch("/api/pdf", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          case_id: access.caseId,
+          token: access.token,
+        }),
+      });
+
+      if (!res.ok) {
+        const json = await res.json().catch(() => null);
+        setError(json?.error || "Failed to download the PDF.");
+        return;
+      }
+
+      const filename =
+        res.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] ?? "proposal.pdf";
+      const url = URL.createObjectURL(await res.blob());
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = filename;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2 animate-fade-in-up" style={{ animationDelay: "2350ms" }}>
+      <button
+        onClick={handleDownload}
+        disabled={downloading}
+        className="px-5 py-2.5 rounded-lg text-sm font-semibold text-white transition-all hover:opacity-90 disabled:opacity-50"
+        style={{ backgroundColor: "var(--brand-primary)" }}
+      >
+        {downloading ? "Preparing PDF..." : "Download PDF"}
+      </button>
+      <p className="text-xs text-gray-400">Share this proposal with your board or accountant.</p>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
+
+function AcceptanceCard({
+  access,
+  revision,
+  initial,
+  acceptable,
+}: {
+  access: LinkAccess;
+  revision: number;
+  initial: AcceptanceSummary | null;
+  acceptable: boolean;
+}) {
+  const [acceptance, setAcceptance] = useState(initial);
+  const [name, setName] = useState("");
+  const [title, setTitle] = useState("");
+  const [email, setEmail] = useState("");
+  const [signature, setSignature] = useState("");
+  const [agreed, setAgreed] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  if (!acceptance && !acceptable) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    if (!name.trim() || !title.trim() || !email.trim()) { setError("Enter your name, title and email."); return; }
+    if (!signatureMatches(signature, name)) { setError("Type your full name exactly as entered above to sign."); return; }
+    if (!agreed) { setError("Please agree to the terms to accept."); return; }
+
+    setSubmitting(true);
+    try {
+      const res = await fetch("/api/accept", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          case_id: access.caseId,
+          token: access.token,
+          revision,
+          signer_name: name.trim(),
+          signer_title: title.trim(),
+          signer_email: email.trim(),
+          signature: signature.trim(),
+          agreed_to_terms: agreed,
+        }),
+      });
+
+      const json = await res.json();
+      if (!json.ok) {
+        setError(json.error || "Failed to accept the proposal.");
+        return;
+      }
+
+      setAcceptance(json.acceptance);
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputClass =
+    "w-full px-4 py-2.5 border border-gray-200 rounded-lg text-sm outline-none transition-all focus:border-[color:var(--brand-accent)] focus:ring-2 focus:ring-[color:var(--brand-accent)]/20";
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl shadow-gray-200/60 border border-gray-100 overflow-hidden animate-fade-in-up" style={{ animationDelay: "2400ms" }}>
+      <div className="px-5 py-7 sm:px-8 sm:py-8">
+        <p className="text-xs font-semibold uppercase tracking-widest mb-2" style={{ color: "var(--brand-accent)" }}>
+          Next Step
+        </p>
+        <h2 className="text-lg font-bold" style={{ color: "var(--brand-primary)" }}>
+          {acceptance ? "Proposal Accepted" : "Accept Proposal"}
+        </h2>
+
+        {acceptance ? (
+          <div className="mt-4 rounded-xl p-5 border" style={{ backgroundColor: "rgba(16,185,129,0.04)", borderColor: "rgba(16,185,129,0.15)" }}>
+            {/* Dates are formatted in the server's time zone first, then the prospect's */}
+            <p className="text-sm text-gray-700" suppressHydrationWarning>
+              <span className="text-emerald-500 mr-1.5">&#10003;</span>
+              Accepted by <span className="font-semibold">{acceptance.signer_name}</span> on{" "}
+              {new Date(acceptance.accepted_at).toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric" })}.
+            </p>
+            <p className="text-xs text-gray-500 mt-2">Your representative will be in touch to arrange enrollment.</p>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="mt-4 space-y-4">
+            <p className="text-xs text-gray-400">Ready to move forward? Confirm your details and sign below.</p>
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                <p className="text-sm text-red-700">{error}</p>
+              </div>
+            )}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <input type="text" value={name} onChange={(e) => setName(e.target.value)} maxLength={MAX_SIGNER_FIELD_LENGTH} autoComplete="name" placeholder="Full name" className={inputClass} disabled={submitting} />
+              <input type="text" value={title} onChange={(e) => setTitle(e.target.value)} maxLength={MAX_SIGNER_FIELD_LENGTH} autoComplete="organization-title" placeholder="Title" className={inputClass} disabled={submitting} />
+            </div>
+            <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} maxLength={MAX_SIGNER_EMAIL_LENGTH} autoComplete="email" placeholder="Work email" className={inputClass} disabled={submitting} />
+            <div className="bg-gray-50 rounded-xl p-4 border border-gray-100">
+              <p className="text-xs text-gray-500 leading-relaxed">{ACCEPTANCE_TERMS}</p>
+              <label className="flex items-start gap-2 mt-3 text-sm text-gray-700">
+                <input type="checkbox" checked={agreed} onChange={(e) => setAgreed(e.target.checked)} className="mt-0.5" disabled={submitting} />
+                I have read and agree to these terms.
+              </label>
+            </div>
+            <div>
+              <input
+                type="text"
+                value={signature}
+                onChange={(e) => setSignature(e.target.value)}
+                maxLength={MAX_SIGNER_FIELD_LENGTH}
+                autoComplete="off"
+                placeholder="Type your full name to sign"
+                className={`${inputClass} italic`}
+                style={{ fontFamily: "cursive" }}
+                disabled={submitting}
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="w-full py-3 px-4 text-white font-medium rounded-xl transition-all duration-200 active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed"
+              style={{ backgroundColor: "var(--brand-primary)" }}
+            >
+              {submitting ? "Submitting..." : "Accept Proposal"}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
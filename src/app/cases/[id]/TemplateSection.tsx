@@ -0,0 +1,233 @@
+"use client";
+
+import { Fragment, type CSSProperties, type ReactNode } from "react";
+import {
+  type TemplateBlock,
+  type TemplateSection,
+  type TemplateTone,
+  type TemplateWidget,
+  textRuns,
+} from "@/lib/templates";
+
+type ChecklistBlock = Extract<TemplateBlock, { type: "checklist" }>;
+
+const TONES: Record<TemplateTone, { box: CSSProperties; boxClass: string; check: string; title: string }> = {
+  emerald: {
+    box: { backgroundColor: "rgba(16,185,129,0.04)", borderColor: "rgba(16,185,129,0.15)" },
+    boxClass: "",
+    check: "text-emerald-500",
+    title: "text-emerald-700",
+  },
+  sky: {
+    box: { backgroundColor: "color-mix(in srgb, var(--brand-accent) 4%, transparent)", borderColor: "color-mix(in srgb, var(--brand-accent) 15%, transparent)" },
+    boxClass: "",
+    check: "text-[color:var(--brand-accent)]",
+    title: "text-[color:var(--brand-primary)]",
+  },
+  gray: { box: {}, boxClass: "bg-gray-50 border-gray-100", check: "text-gray-400", title: "text-gray-800" },
+};
+
+const CARD_COLUMNS: Record<number, string> = {
+  1: "grid-cols-1",
+  2: "grid-cols-1 sm:grid-cols-2",
+  3: "grid-cols-1 sm:grid-cols-3",
+  4: "grid-cols-2 sm:grid-cols-4",
+};
+
+/** Template text with `**bold**` runs */
+function RichText({ text }: { text: string }) {
+  return (
+    <>
+      {textRuns(text).map((run, i) => (
+        <Fragment key={i}>{run.bold ? <strong>{run.text}</strong> : run.text}</Fragment>
+      ))}
+    </>
+  );
+}
+
+function Checklists({ blocks }: { blocks: ChecklistBlock[] }) {
+  return (
+    <div className={`grid grid-cols-1 gap-4 ${blocks.length > 1 ? "sm:grid-cols-2" : ""}`}>
+      {blocks.map((block, i) => {
+        const tone = TONES[block.tone ?? "sky"];
+        return (
+          <div key={i} className={`rounded-xl p-5 border ${tone.boxClass}`} style={tone.box}>
+            {block.title && (
+              <h3 className="text-xs font-semibold uppercase tracking-widest mb-3" style={{ color: "var(--brand-primary)" }}>
+                {block.title}
+              </h3>
+            )}
+            <ul className="space-y-2.5 text-sm text-gray-600">
+              {block.items.map((item, j) => (
+                <li key={j} className="flex gap-2">
+                  <span className={`${tone.check} mt-0.5 shrink-0`}>&#10003;</span>
+                  <span><RichText text={item} /></span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function Block({ block }: { block: Exclude<TemplateBlock, ChecklistBlock | { type: "widget" }> }) {
+  switch (block.type) {
+    case "paragraph":
+      return (
+        <p className={`text-sm leading-relaxed ${block.muted ? "text-gray-500" : "text-gray-600"}`}>
+          <RichText text={block.text} />
+        </p>
+      );
+
+    case "cards":
+      return (
+        <div>
+          {block.title && (
+            <h3 className="text-xs font-semibold uppercase tracking-widest mb-3" style={{ color: "var(--brand-accent)" }}>
+              {block.title}
+            </h3>
+          )}
+          <div className={`grid gap-3 ${CARD_COLUMNS[block.columns ?? 2]}`}>
+            {block.items.map((item, i) =>
+              item.text ? (
+                <div key={i} className="bg-gray-50 rounded-lg p-4 border border-gray-100">
+                  <p className="text-sm font-semibold text-gray-800"><RichText text={item.title} /></p>
+                  <p className="text-xs text-gray-500 mt-1 leading-relaxed"><RichText text={item.text} /></p>
+                </div>
+              ) : (
+                <div key={i} className="flex items-start gap-2 bg-gray-50 rounded-lg p-3 border border-gray-100">
+                  <span style={{ color: "var(--brand-accent)" }} className="text-sm mt-0.5 shrink-0">&#10003;</span>
+                  <p className="text-sm text-gray-700"><RichText text={item.title} /></p>
+                </div>
+              )
+            )}
+          </div>
+        </div>
+      );
+
+    case "callout": {
+      const tone = TONES[block.tone ?? "gray"];
+      const paragraphs = block.text.split(/\n\s*\n/).map((paragraph, i) => (
+        <p key={i} className={`text-sm text-gray-600 leading-relaxed ${i > 0 ? "mt-2" : ""}`}>
+          <RichText text={paragraph} />
+        </p>
+      ));
+      return (
+        <div className={`rounded-xl p-5 sm:p-6 border ${tone.boxClass}`} style={tone.box}>
+          {block.title && <h3 className={`text-sm font-semibold mb-2 ${tone.title}`}>{block.title}</h3>}
+          {block.stat ? (
+            <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+              <div className="text-center sm:text-left shrink-0">
+                <p className="text-3xl font-display font-normal" style={{ color: "var(--brand-primary)" }}>{block.stat.value}</p>
+                <p className="text-xs text-gray-500 mt-1 max-w-[10rem]">{block.stat.caption}</p>
+              </div>
+              <div className="sm:border-l sm:border-gray-200 sm:pl-4">{paragraphs}</div>
+            </div>
+          ) : (
+            paragraphs
+          )}
+        </div>
+      );
+    }
+
+    case "fine_print":
+      return (
+        <div className="border-t border-gray-100 pt-5">
+          {block.title && (
+            <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-widest mb-2">{block.title}</h4>
+          )}
+          <p className="text-xs text-gray-400 leading-relaxed whitespace-pre-line">
+            <RichText text={block.text} />
+          </p>
+        </div>
+      );
+  }
+}
+
+/** Runs of content blocks between widgets; adjacent checklists share a row */
+function groupBlocks(blocks: TemplateBlock[]) {
+  const groups: ({ widget: TemplateWidget } | { content: (TemplateBlock | ChecklistBlock[])[] })[] = [];
+  for (const block of blocks) {
+    if (block.type === "widget") {
+      groups.push({ widget: block.widget });
+      continue;
+    }
+    let last = groups[groups.length - 1];
+    if (!last || "widget" in last) {
+      last = { content: [] };
+      groups.push(last);
+    }
+    const previous = last.content[last.content.length - 1];
+    if (block.type === "checklist" && Array.isArray(previous)) previous.push(block);
+    else last.content.push(block.type === "checklist" ? [block] : block);
+  }
+  return groups;
+}
+
+/**
+ * One card of the proposal, rendered from a (variable-filled) template
+ * section. Widgets are the case's data views, supplied by the page.
+ */
+export default function TemplateSectionCard({
+  section,
+  widgets,
+  header,
+  delay,
+}: {
+  section: TemplateSection;
+  widgets: Record<TemplateWidget, ReactNode>;
+  /** Shown above the section (the proposal header on the first card) */
+  header?: ReactNode;
+  /** Entrance animation delay in ms */
+  delay?: number;
+}) {
+  const groups = groupBlocks(section.blocks);
+  // A section of only widgets with nothing to show (e.g. no scenarios) is skipped
+  const hasHeading = !!(section.eyebrow || section.title || section.subtitle);
+  if (!hasHeading && groups.every((g) => "widget" in g && !widgets[g.widget])) return null;
+
+  return (
+    <div
+      className={`bg-white rounded-2xl shadow-xl shadow-gray-200/60 border border-gray-100 overflow-hidden ${
+        delay !== undefined ? "animate-fade-in-up" : ""
+      }`}
+      style={delay !== undefined ? { animationDelay: `${delay}ms` } : undefined}
+    >
+      {header}
+
+      {hasHeading && (
+        <div className="px-5 pt-7 pb-2 sm:px-8 sm:pt-8">
+          {section.eyebrow && (
+            <p className="text-xs font-semibold uppercase tracking-widest mb-2" style={{ color: "var(--brand-accent)" }}>
+              {section.eyebrow}
+            </p>
+          )}
+          {section.title && (
+            <h2 className="text-lg font-bold" style={{ color: "var(--brand-primary)" }}>
+              {section.title}
+            </h2>
+          )}
+          {section.subtitle && <p className="text-xs text-gray-400 mt-1">{section.subtitle}</p>}
+        </div>
+      )}
+
+      {groups.map((group, i) =>
+        "widget" in group ? (
+          <Fragment key={i}>{widgets[group.widget]}</Fragment>
+        ) : (
+          <div key={i} className="px-5 py-6 sm:px-8 space-y-5 sm:space-y-6">
+            {group.content.map((item, j) =>
+              Array.isArray(item) ? (
+                <Checklists key={j} blocks={item} />
+              ) : (
+                <Block key={j} block={item as Exclude<TemplateBlock, ChecklistBlock | { type: "widget" }>} />
+              )
+            )}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { formatUSD } from "@/lib/format";
+import { signedUSD } from "@/lib/proposal-content";
+import type { ProposalViewData } from "@/lib/proposal-view";
+import { type WhatIfRange, calculateWhatIf } from "@/lib/what-if";
+import type { LinkAccess } from "./ProposalViewer";
+
+/** Wait for the prospect to stop moving the slider before recording */
+const RECORD_DELAY_MS = 1000;
+
+/**
+ * Lets the prospect try other W-2 counts within the rep's range. Figures
+ * are recomputed in the browser; each count the prospect settles on is
+ * recorded for the rep. The proposal's own figures are untouched.
+ */
+export default function WhatIfPanel({
+  access,
+  proposal,
+  range,
+}: {
+  access: LinkAccess;
+  proposal: ProposalViewData;
+  range: WhatIfRange;
+}) {
+  const proposalCount = proposal.calc_inputs.w2_count;
+  const start = Math.min(Math.max(proposalCount, range.min_w2), range.max_w2);
+  const [w2Count, setW2Count] = useState(start);
+  const [recorded, setRecorded] = useState(start);
+
+  const result = calculateWhatIf(proposal, w2Count);
+
+  useEffect(() => {
+    if (w2Count === recorded) return;
+    const timer = setTimeout(() => {
+      setRecorded(w2Count);
+      // Best effort: the prospect already sees the figures
+      fetch("/api/what-if", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          case_id: access.caseId,
+          token: access.token,
+          w2_count: w2Count,
+        }),
+      }).catch(() => {});
+    }, RECORD_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [w2Count, recorded, access]);
+
+  const figures = [
+    { label: "Total Tax Reduction", value: result.calc_total, base: proposal.calc_total },
+    { label: "Employer Net Savings", value: result.calc_er, base: proposal.calc_er },
+    { label: "Employee Reduction", value: result.calc_ee, base: proposal.calc_ee },
+  ];
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl shadow-gray-200/60 border border-gray-100 overflow-hidden animate-fade-in-up" style={{ animationDelay: "2300ms" }}>
+      <div className="px-5 py-7 sm:px-8 sm:py-8">
+        <p className="text-xs font-semibold uppercase tracking-widest mb-2" style={{ color: "var(--brand-accent)" }}>
+          What If
+        </p>
+        <h2 className="text-lg font-bold" style={{ color: "var(--brand-primary)" }}>
+          Try a Different Headcount
+        </h2>
+        <p className="text-xs text-gray-400 mt-1">
+          See how the savings change as your team grows or shrinks. The figures in this proposal stay as quoted.
+        </p>
+
+        <div className="mt-5">
+          <div className="flex items-baseline justify-between mb-2">
+            <label htmlFor="whatif-w2" className="text-sm font-medium text-gray-700">W-2 Employees</label>
+            <span className="text-2xl font-display font-normal" style={{ color: "var(--brand-primary)" }}>
+              {w2Count}
+            </span>
+          </div>
+          <input
+            id="whatif-w2"
+            type="range"
+            min={range.min_w2}
+            max={range.max_w2}
+            step={1}
+            value={w2Count}
+            onChange={(e) => setW2Count(Number(e.target.value))}
+            className="w-full [accent-color:var(--brand-accent)]"
+          />
+          <div className="flex justify-between text-xs text-gray-400 mt-1">
+            <span>{range.min_w2}</span>
+            <span>Proposal: {proposalCount}</span>
+            <span>{range.max_w2}</span>
+          </div>
+        </div>
+
+        <div className="mt-5 grid grid-cols-1 sm:grid-cols-3 gap-3">
+          {figures.map((f) => (
+            <div key={f.label} className="bg-gray-50 rounded-xl p-4 border border-gray-100">
+              <p className="text-[10px] sm:text-xs font-semibold text-gray-500 uppercase tracking-wider">{f.label}</p>
+              <p className="text-xl font-display font-normal text-gray-900 mt-1">{formatUSD(f.value)}</p>
+              <p className={`text-xs mt-0.5 ${f.value < f.base ? "text-gray-400" : "text-emerald-600"}`}>
+                {f.value === f.base ? "As proposed" : `${signedUSD(f.value - f.base)} vs. proposal`}
+              </p>
+            </div>
+          ))}
+        </div>
+
+        {result.valuation_uplift !== null && (
+          <p className="text-xs text-gray-500 mt-3">
+            Enterprise valuation increase: <span className="font-semibold text-gray-700">{formatUSD(result.valuation_uplift)}</span>
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { DEFAULT_BRANDING } from "@/lib/branding";
+import { LINK_STATE_MESSAGES } from "@/lib/link-state-page";
+import PageShell from "./PageShell";
+
+/** Unknown proposal links (404); the middleware answers the other link states */
+export default function InvalidLink() {
+  const { title, message } = LINK_STATE_MESSAGES.invalid;
+
+  return (
+    <PageShell branding={DEFAULT_BRANDING}>
+      <div className="animate-scale-in">
+        <div className="rounded-2xl border p-8 text-center bg-red-50 border-red-200 text-red-800">
+          <div className="w-14 h-14 rounded-full flex items-center justify-center mx-auto mb-4 bg-red-100">
+            <svg className="w-7 h-7 text-red-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={1.5}
+                d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L4.082 16.5c-.77.833.192 2.5 1.732 2.5z"
+              />
+            </svg>
+          </div>
+          <h2 className="text-lg font-semibold mb-2">{title}</h2>
+          <p className="text-sm opacity-80 leading-relaxed">{message}</p>
+        </div>
+      </div>
+    </PageShell>
+  );
+}
@@ -0,0 +1,84 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { DELETED_CASE_RETENTION_DAYS } from "@/lib/constants";
+import type { ArchiveAction, CaseView } from "@/lib/archive";
+
+const ACTIONS: Record<CaseView, ArchiveAction[]> = {
+  active: ["archive", "delete"],
+  archived: ["unarchive", "delete"],
+  deleted: ["restore"],
+};
+
+const LABELS: Record<ArchiveAction, string> = {
+  archive: "Archive",
+  unarchive: "Unarchive",
+  delete: "Delete",
+  restore: "Restore",
+};
+
+const CONFIRMATIONS: Partial<Record<ArchiveAction, string>> = {
+  archive: "Archive this proposal? All of its links will be revoked.",
+  delete: `Delete this proposal? All of its links will be revoked, and it will be permanently removed after ${DELETED_CASE_RETENTION_DAYS} days.`,
+};
+
+export default function ArchiveButtons({
+  caseId,
+  view,
+  afterDelete,
+}: {
+  caseId: string;
+  view: CaseView;
+  /** Where to go after deleting; otherwise the current page is refreshed */
+  afterDelete?: string;
+}) {
+  const router = useRouter();
+  const [pending, setPending] = useState(false);
+
+  const runAction = async (action: ArchiveAction) => {
+    const confirmation = CONFIRMATIONS[action];
+    if (confirmation && !window.confirm(confirmation)) return;
+
+    setPending(true);
+    try {
+      const res = await fetch(`/api/cases/${caseId}/archive`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      });
+
+      const json = await res.json();
+      if (!json.ok) {
+        window.alert(json.error || `Failed to ${action} proposal.`);
+        return;
+      }
+
+      if (action === "delete" && afterDelete) router.push(afterDelete);
+      else router.refresh();
+    } catch {
+      window.alert("Network error. Please try again.");
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <div className="inline-flex items-center gap-2">
+      {ACTIONS[view].map((action) => (
+        <button
+          key={action}
+          onClick={() => runAction(action)}
+          disabled={pending}
+          className={`px-2.5 py-1 rounded-lg text-xs font-medium transition-all disabled:opacity-50 ${
+            action === "delete"
+              ? "bg-red-50 text-red-700 hover:bg-red-100"
+              : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+          }`}
+        >
+          {LABELS[action]}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import { type CaseStatus, CASE_STATUS_LABELS, isCaseStatus } from "@/lib/status";
+
+const STATUS_STYLES: Record<CaseStatus, string> = {
+  draft: "bg-gray-100 text-gray-600",
+  sent: "bg-sky-100 text-sky-700",
+  viewed: "bg-indigo-100 text-indigo-700",
+  negotiating: "bg-amber-100 text-amber-700",
+  accepted: "bg-emerald-100 text-emerald-700",
+  declined: "bg-red-100 text-red-700",
+  lost: "bg-gray-200 text-gray-500",
+  live: "bg-[#0b2043] text-white",
+};
+
+export default function StatusBadge({ status }: { status: string | null }) {
+  const known = isCaseStatus(status);
+  return (
+    <span
+      className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium ${
+        known ? STATUS_STYLES[status] : "bg-gray-100 text-gray-600"
+      }`}
+    >
+      {known ? CASE_STATUS_LABELS[status] : status || "—"}
+    </span>
+  );
+}
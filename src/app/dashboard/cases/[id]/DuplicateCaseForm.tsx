@@ -0,0 +1,126 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+const inputClass =
+  "w-full px-4 py-2.5 border border-gray-200 rounded-lg text-sm outline-none transition-all focus:border-[#38b6ff] focus:ring-2 focus:ring-[#38b6ff]/20";
+
+export default function DuplicateCaseForm({
+  caseId,
+  companyName: sourceCompanyName,
+  industry: sourceIndustry,
+  taxYear: sourceTaxYear,
+}: {
+  caseId: string;
+  companyName: string;
+  industry: string;
+  taxYear: number;
+}) {
+  const router = useRouter();
+  const [companyName, setCompanyName] = useState(`${sourceCompanyName} (copy)`);
+  const [industry, setIndustry] = useState(sourceIndustry);
+  const [taxYear, setTaxYear] = useState(sourceTaxYear.toString());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (!companyName.trim()) { setError("Business name is required."); return; }
+    if (!industry.trim()) { setError("Industry is required."); return; }
+    const year = Number(taxYear);
+    if (!Number.isInteger(year)) { setError("Tax year must be a year, e.g. 2026."); return; }
+
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/cases/${caseId}/duplicate`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          company_name: companyName.trim(),
+          industry: industry.trim(),
+          tax_year: year,
+        }),
+      });
+
+      const json = await res.json();
+      if (!json.ok) {
+        setError(json.error || "Failed to duplicate proposal.");
+        return;
+      }
+
+      router.push(`/dashboard/cases/${json.case_id}`);
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-sm text-gray-500">
+        Start a new proposal with the same headcount, census and calculation options.
+        It gets its own link and is recalculated with current rates.
+      </p>
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor="dup-company" className="block text-sm font-medium text-gray-700 mb-1">
+            Business Name
+          </label>
+          <input
+            id="dup-company"
+            type="text"
+            value={companyName}
+            onChange={(e) => setCompanyName(e.target.value)}
+            className={inputClass}
+            disabled={loading}
+          />
+        </div>
+        <div>
+          <label htmlFor="dup-industry" className="block text-sm font-medium text-gray-700 mb-1">
+            Industry
+          </label>
+          <input
+            id="dup-industry"
+            type="text"
+            value={industry}
+            onChange={(e) => setIndustry(e.target.value)}
+            className={inputClass}
+            disabled={loading}
+          />
+        </div>
+        <div>
+          <label htmlFor="dup-taxyear" className="block text-sm font-medium text-gray-700 mb-1">
+            Tax Year
+          </label>
+          <input
+            id="dup-taxyear"
+            type="text"
+            inputMode="numeric"
+            value={taxYear}
+            onChange={(e) => setTaxYear(e.target.value)}
+            className={inputClass}
+            disabled={loading}
+          />
+        </div>
+      </div>
+
+      <button
+        type="submit"
+        disabled={loading}
+        className="px-5 py-2.5 text-sm font-medium rounded-xl border border-gray-200 text-gray-700 hover:bg-gray-50 transition-all active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {loading ? "Duplicating..." : "Duplicate Proposal"}
+      </button>
+    </form>
+  );
+}
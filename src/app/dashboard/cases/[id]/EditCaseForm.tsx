@@ -0,0 +1,158 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+const inputClass =
+  "w-full px-4 py-2.5 border border-gray-200 rounded-lg text-sm outline-none transition-all focus:border-[#38b6ff] focus:ring-2 focus:ring-[#38b6ff]/20";
+
+export default function EditCaseForm({
+  caseId,
+  companyName: initialCompanyName,
+  industry: initialIndustry,
+  w2Count: initialW2Count,
+  taxYear: initialTaxYear,
+}: {
+  caseId: string;
+  companyName: string;
+  industry: string;
+  /** null for census cases, whose headcount comes from the census */
+  w2Count: number | null;
+  taxYear: number;
+}) {
+  const router = useRouter();
+  const [companyName, setCompanyName] = useState(initialCompanyName);
+  const [industry, setIndustry] = useState(initialIndustry);
+  const [w2Count, setW2Count] = useState(initialW2Count?.toString() ?? "");
+  const [taxYear, setTaxYear] = useState(initialTaxYear.toString());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [saved, setSaved] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setSaved(false);
+
+    if (!companyName.trim()) { setError("Business name is required."); return; }
+    if (!industry.trim()) { setError("Industry is required."); return; }
+    const count = Number(w2Count);
+    if (initialW2Count !== null && (!Number.isInteger(count) || count <= 0)) {
+      setError("W-2 count must be a positive whole number."); return;
+    }
+    const year = Number(taxYear);
+    if (!Number.isInteger(year)) { setError("Tax year must be a year, e.g. 2026."); return; }
+
+    // Only send what changed; the rest is recalculated as recorded
+    const patch: Record<string, unknown> = {};
+    if (companyName.trim() !== initialCompanyName) patch.company_name = companyName.trim();
+    if (industry.trim() !== initialIndustry) patch.industry = industry.trim();
+    if (initialW2Count !== null && count !== initialW2Count) patch.w2_count = count;
+    if (year !== initialTaxYear) patch.tax_year = year;
+
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/cases/${caseId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(patch),
+      });
+
+      const json = await res.json();
+      if (!json.ok) {
+        setError(json.error || "Failed to update proposal.");
+        return;
+      }
+
+      setSaved(true);
+      router.refresh();
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+      {saved && (
+        <div className="p-3 bg-emerald-50 border border-emerald-200 rounded-lg">
+          <p className="text-sm text-emerald-700">Proposal regenerated. Existing links show the new numbers.</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="company" className="block text-sm font-medium text-gray-700 mb-1">
+            Business Name
+          </label>
+          <input
+            id="company"
+            type="text"
+            value={companyName}
+            onChange={(e) => setCompanyName(e.target.value)}
+            className={inputClass}
+            disabled={loading}
+          />
+        </div>
+        <div>
+          <label htmlFor="industry" className="block text-sm font-medium text-gray-700 mb-1">
+            Industry
+          </label>
+          <input
+            id="industry"
+            type="text"
+            value={industry}
+            onChange={(e) => setIndustry(e.target.value)}
+            className={inputClass}
+            disabled={loading}
+          />
+        </div>
+        {initialW2Count !== null && (
+          <div>
+            <label htmlFor="w2count" className="block text-sm font-medium text-gray-700 mb-1">
+              W-2 Count
+            </label>
+            <input
+              id="w2count"
+              type="text"
+              inputMode="numeric"
+              value={w2Count}
+              onChange={(e) => setW2Count(e.target.value)}
+              className={inputClass}
+              disabled={loading}
+            />
+          </div>
+        )}
+        <div>
+          <label htmlFor="taxyear" className="block text-sm font-medium text-gray-700 mb-1">
+            Tax Year
+          </label>
+          <input
+            id="taxyear"
+            type="text"
+            inputMode="numeric"
+            value={taxYear}
+            onChange={(e) => setTaxYear(e.target.value)}
+            className={inputClass}
+            disabled={loading}
+          />
+        </div>
+      </div>
+
+      <button
+        type="submit"
+        disabled={loading}
+        className="px-5 py-2.5 text-white text-sm font-medium rounded-xl transition-all active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed"
+        style={{ backgroundColor: "#0b2043" }}
+      >
+        {loading ? "Regenerating..." : "Save & Regenerate"}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,221 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { LINK_EXPIRY_DAYS, MAX_PASSCODE_LENGTH, MIN_PASSCODE_LENGTH } from "@/lib/constants";
+import {
+  type CaseLink,
+  type LinkAction,
+  type LinkStatus,
+  MAX_LINK_LABEL_LENGTH,
+  linkLabel,
+  linkStatus,
+} from "@/lib/links";
+import CopyLinkButton from "../../CopyLinkButton";
+
+export interface LinkRow extends CaseLink {
+  shareable_url: string | null;
+  view_count: number;
+  last_viewed_at: string | null;
+  /** PDF downloads through this link */
+  download_count: number;
+  last_downloaded_at: string | null;
+  has_passcode: boolean;
+  /** Set while the link is locked after too many wrong passcodes */
+  locked_until: string | null;
+}
+
+const STATUS_STYLES: Record<LinkStatus, string> = {
+  active: "bg-emerald-100 text-emerald-700",
+  expired: "bg-amber-100 text-amber-700",
+  revoked: "bg-gray-100 text-gray-500",
+};
+
+const CONFIRMATIONS: Partial<Record<LinkAction, string>> = {
+  revoke: "Revoke this link? Anyone using it will lose access immediately.",
+  rotate: "Issue a new URL for this link? The current URL will stop working.",
+};
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleDateString("en-US") : "—";
+}
+
+export default function LinkControls({ caseId, links }: { caseId: string; links: LinkRow[] }) {
+  const router = useRouter();
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const [label, setLabel] = useState("");
+  const [passcode, setPasscode] = useState("");
+  const [creating, setCreating] = useState(false);
+
+  const runAction = async (link: LinkRow, action: LinkAction) => {
+    const confirmation = CONFIRMATIONS[action];
+    if (confirmation && !window.confirm(confirmation)) return;
+
+    setError("");
+    setPending(link.id);
+    try {
+      const res = await fetch(`/api/cases/${caseId}/links/${link.id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      });
+
+      const json = await res.json();
+      if (!json.ok) {
+        setError(json.error || `Failed to ${action} link.`);
+        return;
+      }
+
+      router.refresh();
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    if (!label.trim()) { setError("Enter who the link is for, e.g. CFO – Jane."); return; }
+    if (passcode && (passcode.length < MIN_PASSCODE_LENGTH || passcode.length > MAX_PASSCODE_LENGTH || passcode.trim() !== passcode)) {
+      setError(`Passcode must be ${MIN_PASSCODE_LENGTH} to ${MAX_PASSCODE_LENGTH} characters with no leading or trailing spaces.`); return;
+    }
+
+    setCreating(true);
+    try {
+      const res = await fetch(`/api/cases/${caseId}/links`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ label: label.trim(), ...(passcode ? { passcode } : {}) }),
+      });
+
+      const json = await res.json();
+      if (!json.ok) {
+        setError(json.error || "Failed to create link.");
+        return;
+      }
+
+      setLabel("");
+      setPasscode("");
+      router.refresh();
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div>
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {links.length === 0 && (
+        <p className="text-sm text-gray-500">No links have been issued for this proposal.</p>
+      )}
+
+      <div className="divide-y divide-gray-100">
+        {links.map((link) => {
+          const status = linkStatus(link);
+          const busy = pending === link.id;
+          return (
+            <div key={link.id} className="py-3 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+              <div className="flex flex-wrap items-center gap-3 text-sm">
+                <span className="font-medium text-gray-900">{linkLabel(link)}</span>
+                <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[status]}`}>
+                  {status}
+                </span>
+                <span className="text-gray-600">
+                  {status === "revoked" ? `Revoked ${formatDate(link.revoked_at)}` : `Expires ${formatDate(link.expires_at)}`}
+                </span>
+                {link.has_passcode && (
+                  <span className="inline-block px-2 py-0.5 rounded-full text-xs font-medium bg-[#38b6ff]/10 text-[#0b2043]">
+                    passcode
+                  </span>
+                )}
+                {link.locked_until && new Date(link.locked_until) > new Date() && (
+                  <span className="text-xs text-red-600">
+                    Locked until {new Date(link.locked_until).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" })}
+                  </span>
+                )}
+                <span className="text-gray-400">
+                  {link.view_count} view{link.view_count !== 1 ? "s" : ""}
+                  {link.last_viewed_at && ` · last ${formatDate(link.last_viewed_at)}`}
+                </span>
+                {link.download_count > 0 && (
+                  <span className="text-gray-400">
+                    {link.download_count} PDF download{link.download_count !== 1 ? "s" : ""}
+                    {link.last_downloaded_at && ` · last ${formatDate(link.last_downloaded_at)}`}
+                  </span>
+                )}
+              </div>
+
+              {status !== "revoked" && (
+                <div className="flex items-center gap-2">
+                  {status === "active" && link.shareable_url && <CopyLinkButton url={link.shareable_url} />}
+                  <button
+                    onClick={() => runAction(link, "extend")}
+                    disabled={busy}
+                    className="px-2.5 py-1 rounded-lg text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 transition-all disabled:opacity-50"
+                    title={`Expire ${LINK_EXPIRY_DAYS} days from today`}
+                  >
+                    Extend
+                  </button>
+                  <button
+                    onClick={() => runAction(link, "rotate")}
+                    disabled={busy}
+                    className="px-2.5 py-1 rounded-lg text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 transition-all disabled:opacity-50"
+                  >
+                    New URL
+                  </button>
+                  <button
+                    onClick={() => runAction(link, "revoke")}
+                    disabled={busy}
+                    className="px-2.5 py-1 rounded-lg text-xs font-medium bg-red-50 text-red-700 hover:bg-red-100 transition-all disabled:opacity-50"
+                  >
+                    Revoke
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <form onSubmit={handleCreate} className="mt-4 pt-4 border-t border-gray-100 flex flex-col sm:flex-row gap-2">
+        <input
+          type="text"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          maxLength={MAX_LINK_LABEL_LENGTH}
+          placeholder="Recipient, e.g. CFO – Jane"
+          className="flex-1 px-2.5 py-2 border border-gray-200 rounded-lg text-sm outline-none transition-all focus:border-[#38b6ff] focus:ring-2 focus:ring-[#38b6ff]/20"
+          disabled={creating}
+        />
+        <input
+          type="text"
+          value={passcode}
+          onChange={(e) => setPasscode(e.target.value)}
+          autoComplete="off"
+          maxLength={MAX_PASSCODE_LENGTH}
+          placeholder="Passcode (optional)"
+          className="sm:w-44 px-2.5 py-2 border border-gray-200 rounded-lg text-sm outline-none transition-all focus:border-[#38b6ff] focus:ring-2 focus:ring-[#38b6ff]/20"
+          disabled={creating}
+        />
+        <button
+          type="submit"
+          disabled={creating}
+          className="px-4 py-2 text-white text-sm font-medium rounded-lg transition-all active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed"
+          style={{ backgroundColor: "#0b2043" }}
+        >
+          {creating ? "Creating..." : "New Link"}
+        </button>
+      </form>
+    </div>
+  );
+}
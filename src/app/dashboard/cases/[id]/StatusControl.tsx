@@ -0,0 +1,91 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  type CaseStatus,
+  CASE_STATUS_LABELS,
+  repTransitions,
+} from "@/lib/status";
+
+export default function StatusControl({ caseId, status }: { caseId: string; status: CaseStatus }) {
+  const router = useRouter();
+  const options = repTransitions(status);
+  const [next, setNext] = useState<CaseStatus | "">("");
+  const [note, setNote] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  if (options.length === 0) {
+    return <p className="text-sm text-gray-500">This proposal is {CASE_STATUS_LABELS[status].toLowerCase()}; its status is final.</p>;
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!next) return;
+    setError("");
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/cases/${caseId}/status`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status: next, ...(note.trim() ? { note: note.trim() } : {}) }),
+      });
+
+      const json = await res.json();
+      if (!json.ok) {
+        setError(json.error || "Failed to update status.");
+        return;
+      }
+
+      setNext("");
+      setNote("");
+      router.refresh();
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      {error && (
+        <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+      <div className="flex flex-col sm:flex-row gap-2">
+        <select
+          value={next}
+          onChange={(e) => setNext(e.target.value as CaseStatus | "")}
+          className="sm:w-44 px-2.5 py-2 border border-gray-200 rounded-lg text-sm outline-none bg-white focus:border-[#38b6ff]"
+          aria-label="New status"
+          disabled={loading}
+        >
+          <option value="">Move to…</option>
+          {options.map((s) => (
+            <option key={s} value={s}>{CASE_STATUS_LABELS[s]}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          maxLength={500}
+          placeholder="Note (optional)"
+          className="flex-1 px-2.5 py-2 border border-gray-200 rounded-lg text-sm outline-none transition-all focus:border-[#38b6ff] focus:ring-2 focus:ring-[#38b6ff]/20"
+          disabled={loading}
+        />
+        <button
+          type="submit"
+          disabled={loading || !next}
+          className="px-4 py-2 text-white text-sm font-medium rounded-lg transition-all active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed"
+          style={{ backgroundColor: "#0b2043" }}
+        >
+          {loading ? "Updating..." : "Update Status"}
+        </button>
+      </div>
+    </form>
+  );
+}
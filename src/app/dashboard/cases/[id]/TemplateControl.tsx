@@ -0,0 +1,77 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+export interface TemplateOption {
+  id: string;
+  name: string;
+  is_default: boolean;
+}
+
+/**
+ * Pick the template a proposal is rendered with. Saves on change and pins
+ * the template's latest version; shared links show it on their next view.
+ */
+export default function TemplateControl({
+  caseId,
+  templateId,
+  templates,
+}: {
+  caseId: string;
+  templateId: string | null;
+  templates: TemplateOption[];
+}) {
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const defaultTemplate = templates.find((t) => t.is_default);
+
+  const handleChange = async (value: string) => {
+    setError("");
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/cases/${caseId}/template`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ template_id: value || null }),
+      });
+
+      const json = await res.json();
+      if (!json.ok) {
+        setError(json.error || "Failed to change template.");
+        return;
+      }
+
+      router.refresh();
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div>
+      {error && (
+        <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+      <select
+        value={templateId ?? ""}
+        onChange={(e) => handleChange(e.target.value)}
+        className="sm:w-72 w-full px-2.5 py-2 border border-gray-200 rounded-lg text-sm outline-none bg-white focus:border-[#38b6ff] disabled:opacity-50"
+        aria-label="Template"
+        disabled={loading}
+      >
+        <option value="">Default{defaultTemplate ? ` (${defaultTemplate.name})` : ""}</option>
+        {templates
+          .filter((t) => !t.is_default || t.id === templateId)
+          .map((t) => (
+            <option key={t.id} value={t.id}>{t.name}</option>
+          ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import type { WhatIfRange } from "@/lib/what-if";
+
+const inputClass =
+  "w-full px-4 py-2.5 border border-gray-200 rounded-lg text-sm outline-none transition-all focus:border-[#38b6ff] focus:ring-2 focus:ring-[#38b6ff]/20";
+
+/**
+ * Turn the prospect's what-if panel on or off and set the W-2 counts it
+ * allows. Defaults to half to double the proposal's count.
+ */
+export default function WhatIfControl({
+  caseId,
+  w2Count,
+  range,
+}: {
+  caseId: string;
+  w2Count: number;
+  range: WhatIfRange | null;
+}) {
+  const router = useRouter();
+  const [enabled, setEnabled] = useState(range !== null);
+  const [minW2, setMinW2] = useState((range?.min_w2 ?? Math.max(1, Math.ceil(w2Count / 2))).toString());
+  const [maxW2, setMaxW2] = useState((range?.max_w2 ?? w2Count * 2).toString());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [saved, setSaved] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setSaved(false);
+
+    const min = Number(minW2);
+    const max = Number(maxW2);
+    if (enabled && (!Number.isInteger(min) || !Number.isInteger(max))) {
+      setError("Enter whole numbers for the W-2 range."); return;
+    }
+
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/cases/${caseId}/what-if`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ what_if: enabled ? { min_w2: min, max_w2: max } : null }),
+      });
+
+      const json = await res.json();
+      if (!json.ok) {
+        setError(json.error || "Failed to update what-if.");
+        return;
+      }
+
+      setSaved(true);
+      router.refresh();
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+      {saved && (
+        <div className="p-3 bg-emerald-50 border border-emerald-200 rounded-lg">
+          <p className="text-sm text-emerald-700">Saved. Links show the change on their next view.</p>
+        </div>
+      )}
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => setEnabled(e.target.checked)}
+          disabled={loading}
+        />
+        Let the prospect try other W-2 counts
+      </label>
+
+      {enabled && (
+        <div className="grid grid-cols-2 gap-4 sm:w-96">
+          <div>
+            <label htmlFor="whatif-min" className="block text-sm font-medium text-gray-700 mb-1">
+              Fewest W-2s
+            </label>
+            <input
+              id="whatif-min"
+              type="text"
+              inputMode="numeric"
+              value={minW2}
+              onChange={(e) => setMinW2(e.target.value)}
+              className={inputClass}
+              disabled={loading}
+            />
+          </div>
+          <div>
+            <label htmlFor="whatif-max" className="block text-sm font-medium text-gray-700 mb-1">
+              Most W-2s
+            </label>
+            <input
+              id="whatif-max"
+              type="text"
+              inputMode="numeric"
+              value={maxW2}
+              onChange={(e) => setMaxW2(e.target.value)}
+              className={inputClass}
+              disabled={loading}
+            />
+          </div>
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={loading}
+        className="px-5 py-2.5 text-white text-sm font-medium rounded-xl transition-all active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed"
+        style={{ backgroundColor: "#0b2043" }}
+      >
+        {loading ? "Saving..." : "Save"}
+      </button>
+    </form>
+  );
+}
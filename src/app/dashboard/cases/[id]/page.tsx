@@ -0,0 +1,387 @@
+import { notFound, redirect } from "next/navigation";
+import Link from "next/link";
+import Image from "next/image";
+import { getSupabaseServerClient, getAuthUser } from "@/lib/supabase-server";
+import type { CalculationInputs } from "@/lib/calculator";
+import { formatMoneyCell, formatUSD } from "@/lib/format";
+import { hasPasscode } from "@/lib/passcode";
+import { CASE_STATUS_LABELS, isCaseStatus } from "@/lib/status";
+import { type WhatIfResult, supportsWhatIf, whatIfRange } from "@/lib/what-if";
+import SignOutButton from "../../SignOutButton";
+import StatusBadge from "../../StatusBadge";
+import ArchiveButtons from "../../ArchiveButtons";
+import EditCaseForm from "./EditCaseForm";
+import DuplicateCaseForm from "./DuplicateCaseForm";
+import StatusControl from "./StatusControl";
+import TemplateControl from "./TemplateControl";
+import WhatIfControl from "./WhatIfControl";
+import LinkControls, { type LinkRow } from "./LinkControls";
+
+export const dynamic = "force-dynamic";
+
+interface RevisionRow {
+  revision: number;
+  company_name: string | null;
+  industry: string | null;
+  calc_total: unknown;
+  calc_er: unknown;
+  calc_ee: unknown;
+  calc_inputs: CalculationInputs | null;
+  last_generated_at: string | null;
+}
+
+interface StatusHistoryRow {
+  id: string;
+  from_status: string;
+  to_status: string;
+  source: "rep" | "viewer" | "system";
+  note: string | null;
+  created_at: string;
+}
+
+interface WhatIfEventRow {
+  id: string;
+  event_type: "what_if";
+  details: WhatIfResult;
+  created_at: string;
+}
+
+/** Most recent what-if adjustments listed on the case */
+const MAX_LISTED_EVENTS = 20;
+
+const SOURCE_LABELS: Record<StatusHistoryRow["source"], string> = {
+  rep: "by you",
+  viewer: "by the prospect",
+  system: "automatically",
+};
+
+function statusLabel(status: string): string {
+  return isCaseStatus(status) ? CASE_STATUS_LABELS[status] : status;
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString("en-US") : "—";
+}
+
+export default async function CaseRevisionsPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const user = await getAuthUser();
+  if (!user) redirect("/login");
+
+  const { id } = await params;
+  const supabase = await getSupabaseServerClient();
+
+  const { data: caseRow } = await supabase
+    .from("cases")
+    .select(
+      "id, status, revision, archived_at, source_case_id, template_id, what_if_min_w2, what_if_max_w2, company_name, industry, calc_total, calc_er, calc_ee, calc_inputs, last_generated_at, case_links(id, label, shareable_url, expires_at, revoked_at, view_count, last_viewed_at, download_count, last_downloaded_at, passcode_hash, locked_until, created_at), case_revisions(revision, company_name, industry, calc_total, calc_er, calc_ee, calc_inputs, last_generated_at), case_status_history(id, from_status, to_status, source, note, created_at), case_events(id, event_type, details, created_at)"
+    )
+    .eq("id", id)
+    .eq("user_id", user.id)
+    .is("deleted_at", null)
+    .maybeSingle();
+
+  if (!caseRow) notFound();
+
+  // Deleted sources still show their name, but aren't linked
+  const { data: source } = caseRow.source_case_id
+    ? await supabase
+        .from("cases")
+        .select("id, company_name, deleted_at")
+        .eq("id", caseRow.source_case_id)
+        .eq("user_id", user.id)
+        .maybeSingle()
+    : { data: null };
+
+  const { data: acceptance } = await supabase
+    .from("case_acceptances")
+    .select("signer_name, signer_title, signer_email, snapshot_hash, accepted_at")
+    .eq("case_id", id)
+    .is("superseded_at", null)
+    .maybeSingle();
+
+  const { data: templates } = await supabase
+    .from("proposal_templates")
+    .select("id, name, is_default")
+    .order("name", { ascending: true });
+
+  const inputs = caseRow.calc_inputs as CalculationInputs | null;
+  // Only whether a passcode is set reaches the client, never its hash
+  const links: LinkRow[] = (
+    (caseRow.case_links as (Omit<LinkRow, "has_passcode"> & { passcode_hash: string | null; created_at: string })[] | null) ?? []
+  )
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .map((l) => ({
+      id: l.id,
+      label: l.label,
+      shareable_url: l.shareable_url,
+      expires_at: l.expires_at,
+      revoked_at: l.revoked_at,
+      view_count: l.view_count,
+      last_viewed_at: l.last_viewed_at,
+      download_count: l.download_count,
+      last_downloaded_at: l.last_downloaded_at,
+      locked_until: l.locked_until,
+      has_passcode: hasPasscode(l),
+    }));
+  const statusHistory = ((caseRow.case_status_history as StatusHistoryRow[] | null) ?? []).sort(
+    (a, b) => b.created_at.localeCompare(a.created_at)
+  );
+  const whatIfEvents = ((caseRow.case_events as WhatIfEventRow[] | null) ?? [])
+    .filter((e) => e.event_type === "what_if")
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  const revisions: (RevisionRow & { current: boolean })[] = [
+    { ...(caseRow as RevisionRow), current: true },
+    ...((caseRow.case_revisions as RevisionRow[] | null) ?? [])
+      .sort((a, b) => b.revision - a.revision)
+      .map((r) => ({ ...r, current: false })),
+  ];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-gray-50 to-gray-100/80">
+      {/* Nav */}
+      <nav className="border-b border-gray-200 bg-white/80 backdrop-blur sticky top-0 z-40">
+        <div className="max-w-5xl mx-auto px-4 py-3 flex items-center justify-between">
+          <Link href="/dashboard" className="flex items-center gap-2">
+            <Image src="/favicon.png" alt="W2 Deck" width={24} height={24} />
+            <span className="text-sm font-semibold" style={{ color: "#0b2043" }}>W2 Deck</span>
+          </Link>
+          <div className="flex items-center gap-4">
+            <span className="text-xs text-gray-400 hidden sm:inline">{user.email}</span>
+            <SignOutButton />
+          </div>
+        </div>
+      </nav>
+
+      <div className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <Link href="/dashboard" className="text-xs text-gray-500 hover:text-gray-700 transition-colors">
+              &larr; Dashboard
+            </Link>
+            <h1 className="text-2xl font-bold mt-1" style={{ color: "#0b2043" }}>
+              {caseRow.company_name || "Untitled proposal"}
+            </h1>
+            <p className="text-sm text-gray-500 mt-1 flex items-center gap-2">
+              <StatusBadge status={caseRow.status} />
+              Revision {caseRow.revision} &middot; {formatMoneyCell(caseRow.calc_total)} total savings
+            </p>
+            {source && (
+              <p className="text-xs text-gray-400 mt-1">
+                Duplicated from{" "}
+                {source.deleted_at ? (
+                  source.company_name || "Untitled proposal"
+                ) : (
+                  <Link href={`/dashboard/cases/${source.id}`} className="hover:text-[#38b6ff] transition-colors">
+                    {source.company_name || "Untitled proposal"}
+                  </Link>
+                )}
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <a
+              href={`/api/cases/${caseRow.id}/pdf`}
+              className="px-3 py-1.5 rounded-lg text-xs font-medium bg-white border border-gray-200 text-gray-700 hover:bg-gray-50 transition-all"
+            >
+              Download PDF
+            </a>
+            <ArchiveButtons caseId={caseRow.id} view={caseRow.archived_at ? "archived" : "active"} afterDelete="/dashboard" />
+          </div>
+        </div>
+
+        {caseRow.archived_at && (
+          <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg">
+            <p className="text-sm text-amber-800">
+              Archived {formatDate(caseRow.archived_at)}. Its links were revoked; unarchive it to issue new ones.
+            </p>
+          </div>
+        )}
+
+        {/* Status */}
+        <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6">
+          <h2 className="text-lg font-semibold mb-3" style={{ color: "#0b2043" }}>Status</h2>
+          {acceptance && (
+            <div className="mb-4 p-4 rounded-xl border border-emerald-200 bg-emerald-50 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+              <div className="text-sm text-gray-700">
+                <p>
+                  Accepted by <span className="font-medium text-gray-900">{acceptance.signer_name}</span>, {acceptance.signer_title}{" "}
+                  <span className="text-gray-500">({acceptance.signer_email})</span>
+                </p>
+                <p className="text-xs text-gray-500 mt-0.5">
+                  {new Date(acceptance.accepted_at).toLocaleString("en-US")} &middot; snapshot {acceptance.snapshot_hash.slice(0, 12)}
+                </p>
+              </div>
+              <a
+                href={`/api/cases/${caseRow.id}/acceptance/certificate`}
+                className="px-3 py-1.5 rounded-lg text-xs font-medium bg-white border border-emerald-200 text-emerald-700 hover:bg-emerald-100 transition-all text-center"
+              >
+                Download Certificate
+              </a>
+            </div>
+          )}
+          {isCaseStatus(caseRow.status) && <StatusControl caseId={caseRow.id} status={caseRow.status} />}
+          {statusHistory.length > 0 && (
+            <ul className="mt-4 pt-4 border-t border-gray-100 space-y-2">
+              {statusHistory.map((h) => (
+                <li key={h.id} className="text-sm text-gray-600">
+                  <span className="text-gray-400">{formatDate(h.created_at)}</span>{" "}
+                  {statusLabel(h.from_status)} &rarr; <span className="font-medium text-gray-900">{statusLabel(h.to_status)}</span>{" "}
+                  <span className="text-gray-400">{SOURCE_LABELS[h.source]}</span>
+                  {h.note && <span className="block text-xs text-gray-500 mt-0.5">{h.note}</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Links */}
+        <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6">
+          <h2 className="text-lg font-semibold mb-3" style={{ color: "#0b2043" }}>Links</h2>
+          <LinkControls caseId={caseRow.id} links={links} />
+        </div>
+
+        {/* Template */}
+        <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6">
+          <h2 className="text-lg font-semibold mb-1" style={{ color: "#0b2043" }}>Template</h2>
+          <p className="text-sm text-gray-500 mb-4">
+            The sections and wording the proposal page and PDF use. The figures don&apos;t change.
+          </p>
+          <TemplateControl caseId={caseRow.id} templateId={caseRow.template_id} templates={templates ?? []} />
+        </div>
+
+        {/* What-if */}
+        {inputs && supportsWhatIf(inputs) && (
+          <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6">
+            <h2 className="text-lg font-semibold mb-1" style={{ color: "#0b2043" }}>What-If</h2>
+            <p className="text-sm text-gray-500 mb-4">
+              A panel on the proposal page where the prospect can try other W-2 counts. The proposal&apos;s figures don&apos;t change.
+            </p>
+            <WhatIfControl
+              caseId={caseRow.id}
+              w2Count={inputs.w2_count}
+              range={whatIfRange(caseRow)}
+            />
+            {whatIfEvents.length > 0 && (
+              <div className="mt-4 pt-4 border-t border-gray-100">
+                <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">
+                  Tried by the prospect ({whatIfEvents.length})
+                </p>
+                <ul className="space-y-1.5">
+                  {whatIfEvents.slice(0, MAX_LISTED_EVENTS).map((e) => (
+                    <li key={e.id} className="text-sm text-gray-600">
+                      <span className="text-gray-400">{formatDate(e.created_at)}</span>{" "}
+                      <span className="font-medium text-gray-900">{e.details.w2_count} W-2s</span>{" "}
+                      &rarr; {formatUSD(e.details.calc_total)} total
+                      <span className="text-gray-400"> (ER {formatUSD(e.details.calc_er)}, EE {formatUSD(e.details.calc_ee)})</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Edit */}
+        <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6">
+          <h2 className="text-lg font-semibold mb-1" style={{ color: "#0b2043" }}>Edit Proposal</h2>
+          <p className="text-sm text-gray-500 mb-4">
+            Saving recalculates the proposal and keeps the current version in the history below.
+          </p>
+          {inputs ? (
+            <EditCaseForm
+              caseId={caseRow.id}
+              companyName={caseRow.company_name ?? ""}
+              industry={caseRow.industry ?? ""}
+              w2Count={inputs.mode === "census" ? null : inputs.w2_count}
+              taxYear={inputs.tax_year}
+            />
+          ) : (
+            <p className="text-sm text-gray-500">
+              This proposal has no recorded inputs and can&apos;t be edited.
+            </p>
+          )}
+        </div>
+
+        {/* Duplicate */}
+        {inputs && (
+          <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6">
+            <h2 className="text-lg font-semibold mb-1" style={{ color: "#0b2043" }}>Duplicate</h2>
+            <DuplicateCaseForm
+              caseId={caseRow.id}
+              companyName={caseRow.company_name ?? ""}
+              industry={caseRow.industry ?? ""}
+              taxYear={inputs.tax_year}
+            />
+          </div>
+        )}
+
+        {/* Revision history */}
+        <div className="bg-white rounded-2xl shadow-lg border border-gray-100 overflow-hidden">
+          <div className="px-6 pt-6 pb-4">
+            <h2 className="text-lg font-semibold" style={{ color: "#0b2043" }}>Revision History</h2>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-500 uppercase tracking-wider">Revision</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-500 uppercase tracking-wider">Generated</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-500 uppercase tracking-wider">Company</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-500 uppercase tracking-wider hidden sm:table-cell">Industry</th>
+                  <th className="px-4 py-3 text-right text-xs font-semibold text-gray-500 uppercase tracking-wider hidden sm:table-cell">W-2s</th>
+                  <th className="px-4 py-3 text-right text-xs font-semibold text-gray-500 uppercase tracking-wider hidden sm:table-cell">Tax Year</th>
+                  <th className="px-4 py-3 text-right text-xs font-semibold text-gray-500 uppercase tracking-wider">Total</th>
+                  <th className="px-4 py-3 text-right text-xs font-semibold text-gray-500 uppercase tracking-wider hidden md:table-cell">ER</th>
+                  <th className="px-4 py-3 text-right text-xs font-semibold text-gray-500 uppercase tracking-wider hidden md:table-cell">EE</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {revisions.map((r) => (
+                  <tr key={r.revision} className={r.current ? "bg-[#38b6ff]/5" : "hover:bg-gray-50 transition-colors"}>
+                    <td className="px-4 py-3 text-sm text-gray-900 whitespace-nowrap">
+                      {r.revision}
+                      {r.current && (
+                        <span className="ml-2 inline-block px-2 py-0.5 rounded-full text-xs font-medium bg-emerald-100 text-emerald-700">
+                          current
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">
+                      {formatDate(r.last_generated_at)}
+                    </td>
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                      {r.company_name || "—"}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600 hidden sm:table-cell">
+                      {r.industry || "—"}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600 text-right hidden sm:table-cell">
+                      {r.calc_inputs?.w2_count ?? "—"}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600 text-right hidden sm:table-cell">
+                      {r.calc_inputs?.tax_year ?? "—"}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900 text-right font-medium">
+                      {formatMoneyCell(r.calc_total)}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600 text-right hidden md:table-cell">
+                      {formatMoneyCell(r.calc_er)}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600 text-right hidden md:table-cell">
+                      {formatMoneyCell(r.calc_ee)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
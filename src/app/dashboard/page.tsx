@@ -1,37 +1,125 @@
 import { redirect } from "next/navigation";
 import Link from "next/link";
 import Image from "next/image";
-import { getSupabaseServerClient, getAuthUser } from "@/lib/supabase-server";
-import { formatUSD } from "@/lib/format";
+import { getSupabaseServerClient, getAuthUser, isAdmin } from "@/lib/supabase-server";
+import { formatMoneyCell } from "@/lib/format";
+import { type CaseLink, linkStatus } from "@/lib/links";
+import { type CaseView, isCaseView, purgeDate } from "@/lib/archive";
+import { loadUserBranding } from "@/lib/branding";
 import SignOutButton from "./SignOutButton";
 import CopyLinkButton from "./CopyLinkButton";
+import StatusBadge from "./StatusBadge";
+import ArchiveButtons from "./ArchiveButtons";
 
 export const dynamic = "force-dynamic";
 
-export default async function DashboardPage() {
+type DashboardLink = Omit<CaseLink, "id"> & {
+  shareable_url: string | null;
+  view_count: number;
+  created_at: string;
+};
+
+/** A case's links, original (unlabeled) link first, then by age */
+function dashboardLinks(links: unknown): DashboardLink[] {
+  return [...((links as DashboardLink[] | null) ?? [])].sort(
+    (a, b) =>
+      Number(a.label !== null) - Number(b.label !== null) ||
+      a.created_at.localeCompare(b.created_at)
+  );
+}
+
+const VIEW_TABS: { view: CaseView; label: string }[] = [
+  { view: "active", label: "Active" },
+  { view: "archived", label: "Archived" },
+  { view: "deleted", label: "Deleted" },
+];
+
+const VIEW_SUMMARIES: Record<CaseView, string> = {
+  active: "generated",
+  archived: "archived",
+  deleted: "deleted",
+};
+
+export default async function DashboardPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ view?: string }>;
+}) {
   const user = await getAuthUser();
   if (!user) redirect("/login");
 
+  const { view: requestedView } = await searchParams;
+  const view: CaseView = isCaseView(requestedView) ? requestedView : "active";
   const supabase = await getSupabaseServerClient();
 
-  const { data: cases, error } = await supabase
+  let query = supabase
     .from("cases")
-    .select("id, created_at, company_name, industry, calc_total, calc_er, calc_ee, status, case_links(shareable_url)")
-    .eq("user_id", user.id)
-    .order("created_at", { ascending: false });
+    .select("id, created_at, company_name, industry, calc_total, calc_er, calc_ee, status, revision, archived_at, deleted_at, case_links(label, shareable_url, expires_at, revoked_at, view_count, created_at)")
+    .eq("user_id", user.id);
+
+  if (view === "deleted") {
+    query = query.not("deleted_at", "is", null);
+  } else {
+    query = query.is("deleted_at", null);
+    query = view === "archived" ? query.not("archived_at", "is", null) : query.is("archived_at", null);
+  }
+
+  const { data: cases, error } = await query.order(
+    view === "deleted" ? "deleted_at" : "created_at",
+    { ascending: false }
+  );
+
+  const rows = (cases || []).map((c) => ({ ...c, links: dashboardLinks(c.case_links) }));
 
-  const rows = cases || [];
+  // Members of a partner organization work in its colors
+  const branding = await loadUserBranding(supabase, user.id);
+  const brandColors = {
+    "--brand-primary": branding.primary_color,
+    "--brand-accent": branding.accent_color,
+  } as React.CSSProperties;
 
   return (
-    <div className="min-h-screen bg-gradient-to-b from-gray-50 to-gray-100/80">
+    <div className="min-h-screen bg-gradient-to-b from-gray-50 to-gray-100/80" style={brandColors}>
       {/* Nav */}
       <nav className="border-b border-gray-200 bg-white/80 backdrop-blur sticky top-0 z-40">
         <div className="max-w-5xl mx-auto px-4 py-3 flex items-center justify-between">
           <div className="flex items-center gap-2">
             <Image src="/favicon.png" alt="W2 Deck" width={24} height={24} />
-            <span className="text-sm font-semibold" style={{ color: "#0b2043" }}>W2 Deck</span>
+            <span className="text-sm font-semibold" style={{ color: "var(--brand-primary)" }}>W2 Deck</span>
+            {branding.organization_id && (
+              <span
+                className="ml-2 inline-flex items-center h-7 px-2.5 rounded-md"
+                style={{ backgroundColor: "var(--brand-primary)" }}
+              >
+                {branding.logo_url ? (
+                  <Image
+                    src={branding.logo_url}
+                    alt={branding.company_name}
+                    width={96}
+                    height={20}
+                    className="h-5 w-auto max-w-[96px] object-contain"
+                    unoptimized
+                  />
+                ) : (
+                  <span className="text-xs font-semibold text-white">{branding.company_name}</span>
+                )}
+              </span>
+            )}
           </div>
           <div className="flex items-center gap-4">
+            {isAdmin(user) && (
+              <>
+                <Link href="/admin/rates" className="text-xs text-gray-500 hover:text-gray-700 transition-colors">
+                  Rates
+                </Link>
+                <Link href="/admin/templates" className="text-xs text-gray-500 hover:text-gray-700 transition-colors">
+                  Templates
+                </Link>
+                <Link href="/admin/organizations" className="text-xs text-gray-500 hover:text-gray-700 transition-colors">
+                  Organizations
+                </Link>
+              </>
+            )}
             <span className="text-xs text-gray-400 hidden sm:inline">{user.email}</span>
             <SignOutButton />
           </div>
@@ -42,15 +130,28 @@ export default async function DashboardPage() {
         {/* Header */}
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-8 gap-4">
           <div>
-            <h1 className="text-2xl font-bold" style={{ color: "#0b2043" }}>Dashboard</h1>
+            <h1 className="text-2xl font-bold" style={{ color: "var(--brand-primary)" }}>Dashboard</h1>
             <p className="text-sm text-gray-500 mt-1">
-              {rows.length} proposal{rows.length !== 1 ? "s" : ""} generated
+              {rows.length} proposal{rows.length !== 1 ? "s" : ""} {VIEW_SUMMARIES[view]}
             </p>
+            <div className="flex items-center gap-1 mt-3">
+              {VIEW_TABS.map((tab) => (
+                <Link
+                  key={tab.view}
+                  href={tab.view === "active" ? "/dashboard" : `/dashboard?view=${tab.view}`}
+                  className={`px-3 py-1 rounded-lg text-xs font-medium transition-all ${
+                    tab.view === view ? "bg-[color:var(--brand-primary)] text-white" : "text-gray-500 hover:bg-gray-100"
+                  }`}
+                >
+                  {tab.label}
+                </Link>
+              ))}
+            </div>
           </div>
           <Link
             href="/generate"
             className="inline-flex items-center justify-center gap-2 px-5 py-2.5 text-white text-sm font-medium rounded-xl transition-all active:scale-[0.98]"
-            style={{ backgroundColor: "#0b2043" }}
+            style={{ backgroundColor: "var(--brand-primary)" }}
           >
             <span className="text-lg leading-none">+</span>
             New Proposal
@@ -63,11 +164,20 @@ export default async function DashboardPage() {
           </div>
         )}
 
+        {/* Empty archived / deleted list */}
+        {rows.length === 0 && !error && view !== "active" && (
+          <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-12 text-center">
+            <p className="text-sm text-gray-500">
+              {view === "archived" ? "No archived proposals." : "No deleted proposals."}
+            </p>
+          </div>
+        )}
+
         {/* Empty state */}
-        {rows.length === 0 && !error && (
+        {rows.length === 0 && !error && view === "active" && (
           <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-12 text-center">
             <div className="w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4" style={{ backgroundColor: "rgba(56,182,255,0.1)" }}>
-              <svg className="w-8 h-8" style={{ color: "#38b6ff" }} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <svg className="w-8 h-8" style={{ color: "var(--brand-accent)" }} fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
               </svg>
             </div>
@@ -76,7 +186,7 @@ export default async function DashboardPage() {
             <Link
               href="/generate"
               className="inline-flex items-center gap-2 px-6 py-2.5 text-white text-sm font-medium rounded-xl transition-all active:scale-[0.98]"
-              style={{ backgroundColor: "#0b2043" }}
+              style={{ backgroundColor: "var(--brand-primary)" }}
             >
               Generate Proposal
             </Link>
@@ -97,7 +207,9 @@ export default async function DashboardPage() {
                     <th className="px-4 py-3 text-right text-xs font-semibold text-gray-500 uppercase tracking-wider hidden md:table-cell">ER</th>
                     <th className="px-4 py-3 text-right text-xs font-semibold text-gray-500 uppercase tracking-wider hidden md:table-cell">EE</th>
                     <th className="px-4 py-3 text-center text-xs font-semibold text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-4 py-3 text-right text-xs font-semibold text-gray-500 uppercase tracking-wider hidden md:table-cell">Views</th>
                     <th className="px-4 py-3 text-center text-xs font-semibold text-gray-500 uppercase tracking-wider">Link</th>
+                    <th className="px-4 py-3"><span className="sr-only">Actions</span></th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-100">
@@ -107,32 +219,54 @@ export default async function DashboardPage() {
                         {new Date(c.created_at).toLocaleDateString("en-US")}
                       </td>
                       <td className="px-4 py-3 text-sm font-medium text-gray-900">
-                        {c.company_name || "—"}
+                        {c.deleted_at ? (
+                          <>
+                            {c.company_name || "—"}
+                            <span className="block text-xs font-normal text-gray-400">
+                              Purged {new Date(purgeDate(c.deleted_at)).toLocaleDateString("en-US")}
+                            </span>
+                          </>
+                        ) : (
+                          <Link href={`/dashboard/cases/${c.id}`} className="hover:text-[color:var(--brand-accent)] transition-colors">
+                            {c.company_name || "—"}
+                          </Link>
+                        )}
+                        {c.revision > 1 && (
+                          <span className="ml-2 text-xs font-normal text-gray-400">rev {c.revision}</span>
+                        )}
                       </td>
                       <td className="px-4 py-3 text-sm text-gray-600 hidden sm:table-cell">
                         {c.industry || "—"}
                       </td>
                       <td className="px-4 py-3 text-sm text-gray-900 text-right font-medium">
-                        {formatUSD(c.calc_total)}
+                        {formatMoneyCell(c.calc_total)}
                       </td>
                       <td className="px-4 py-3 text-sm text-gray-600 text-right hidden md:table-cell">
-                        {formatUSD(c.calc_er)}
+                        {formatMoneyCell(c.calc_er)}
                       </td>
                       <td className="px-4 py-3 text-sm text-gray-600 text-right hidden md:table-cell">
-                        {formatUSD(c.calc_ee)}
+                        {formatMoneyCell(c.calc_ee)}
                       </td>
                       <td className="px-4 py-3 text-center">
-                        <span className="inline-block px-2 py-0.5 rounded-full text-xs font-medium bg-emerald-100 text-emerald-700">
-                          {c.status || "generated"}
-                        </span>
+                        <StatusBadge status={c.status} />
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600 text-right hidden md:table-cell">
+                        <Link href={`/dashboard/cases/${c.id}`} className="hover:text-[color:var(--brand-accent)] transition-colors">
+                          {c.links.reduce((sum, l) => sum + l.view_count, 0)}
+                          {c.links.length > 1 && (
+                            <span className="text-xs text-gray-400"> / {c.links.length} links</span>
+                          )}
+                        </Link>
                       </td>
                       <td className="px-4 py-3 text-center">
                         {(() => {
-                          const links = c.case_links as { shareable_url: string | null }[] | null;
-                          const url = links?.[0]?.shareable_url;
+                          const url = c.links.find((l) => linkStatus(l) === "active")?.shareable_url;
                           return url ? <CopyLinkButton url={url} /> : <span className="text-xs text-gray-300">—</span>;
                         })()}
                       </td>
+                      <td className="px-4 py-3 text-right whitespace-nowrap">
+                        <ArchiveButtons caseId={c.id} view={view} />
+                      </td>
                     </tr>
                   ))}
                 </tbody>
@@ -0,0 +1,185 @@
+"use client";
+
+import type { CensusEmployee } from "@/lib/census";
+import { EXCLUSION_REASON_LABELS } from "@/lib/eligibility";
+import { STATE_CODES, STATE_TAX_TABLE } from "@/lib/state-tax";
+import {
+  FILING_STATUSES,
+  PAY_FREQUENCIES,
+  FILING_STATUS_LABELS,
+  PAY_FREQUENCY_LABELS,
+  type FilingStatus,
+  type PayFrequency,
+} from "@/lib/tax-tables";
+
+/** Editable census row — wages kept as the raw input string */
+export interface CensusRow {
+  name: string;
+  annual_wages: string;
+  pay_frequency: PayFrequency;
+  filing_status: FilingStatus;
+  /** "" = not specified */
+  state: string;
+  owner: boolean;
+  s_corp_shareholder: boolean;
+  part_time: boolean;
+  seasonal: boolean;
+}
+
+type CensusFlag = "owner" | "s_corp_shareholder" | "part_time" | "seasonal";
+
+const CENSUS_FLAGS: CensusFlag[] = ["owner", "s_corp_shareholder", "part_time", "seasonal"];
+
+/** Singular checkbox labels for the per-employee eligibility flags */
+const FLAG_LABELS: Record<CensusFlag, string> = {
+  owner: "Owner",
+  s_corp_shareholder: EXCLUSION_REASON_LABELS.s_corp_shareholder.replace("shareholders", "shareholder"),
+  part_time: EXCLUSION_REASON_LABELS.part_time,
+  seasonal: EXCLUSION_REASON_LABELS.seasonal,
+};
+
+export function emptyCensusRow(): CensusRow {
+  return {
+    name: "",
+    annual_wages: "",
+    pay_frequency: "biweekly",
+    filing_status: "single",
+    state: "",
+    owner: false,
+    s_corp_shareholder: false,
+    part_time: false,
+    seasonal: false,
+  };
+}
+
+/**
+ * Convert editor rows to census employees for the API.
+ * Wages are parsed leniently ("$52,000" -> 52000); invalid values become NaN
+ * so server-side validation reports the row.
+ */
+export function toCensus(rows: CensusRow[]): CensusEmployee[] {
+  return rows.map((r) => ({
+    ...(r.name.trim() ? { name: r.name.trim() } : {}),
+    annual_wages: parseFloat(r.annual_wages.replace(/[$,\s]/g, "")),
+    pay_frequency: r.pay_frequency,
+    filing_status: r.filing_status,
+    ...(r.state ? { state: r.state } : {}),
+    ...Object.fromEntries(CENSUS_FLAGS.filter((f) => r[f]).map((f) => [f, true])),
+  }));
+}
+
+const inputClass =
+  "w-full px-2.5 py-2 border border-gray-200 rounded-lg text-sm outline-none transition-all focus:border-[#38b6ff] focus:ring-2 focus:ring-[#38b6ff]/20";
+
+export default function CensusEditor({
+  rows,
+  onChange,
+  disabled,
+}: {
+  rows: CensusRow[];
+  onChange: (rows: CensusRow[]) => void;
+  disabled?: boolean;
+}) {
+  const update = (i: number, patch: Partial<CensusRow>) => {
+    onChange(rows.map((r, idx) => (idx === i ? { ...r, ...patch } : r)));
+  };
+
+  return (
+    <div className="space-y-3">
+      {rows.map((row, i) => (
+        <div key={i} className="bg-gray-50 rounded-lg p-3 border border-gray-100 space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-xs font-semibold text-gray-500">Employee {i + 1}</p>
+            {rows.length > 1 && (
+              <button
+                type="button"
+                onClick={() => onChange(rows.filter((_, idx) => idx !== i))}
+                className="text-xs text-gray-400 hover:text-red-600 transition-colors"
+                disabled={disabled}
+              >
+                Remove
+              </button>
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              value={row.name}
+              onChange={(e) => update(i, { name: e.target.value })}
+              className={inputClass}
+              placeholder="Name (optional)"
+              aria-label={`Employee ${i + 1} name`}
+              disabled={disabled}
+            />
+            <input
+              type="text"
+              inputMode="decimal"
+              value={row.annual_wages}
+              onChange={(e) => update(i, { annual_wages: e.target.value })}
+              className={inputClass}
+              placeholder="Annual wages"
+              aria-label={`Employee ${i + 1} annual wages`}
+              disabled={disabled}
+            />
+            <select
+              value={row.pay_frequency}
+              onChange={(e) => update(i, { pay_frequency: e.target.value as PayFrequency })}
+              className={inputClass}
+              aria-label={`Employee ${i + 1} pay frequency`}
+              disabled={disabled}
+            >
+              {PAY_FREQUENCIES.map((f) => (
+                <option key={f} value={f}>{PAY_FREQUENCY_LABELS[f]}</option>
+              ))}
+            </select>
+            <select
+              value={row.filing_status}
+              onChange={(e) => update(i, { filing_status: e.target.value as FilingStatus })}
+              className={inputClass}
+              aria-label={`Employee ${i + 1} filing status`}
+              disabled={disabled}
+            >
+              {FILING_STATUSES.map((s) => (
+                <option key={s} value={s}>{FILING_STATUS_LABELS[s]}</option>
+              ))}
+            </select>
+            <select
+              value={row.state}
+              onChange={(e) => update(i, { state: e.target.value })}
+              className={`${inputClass} col-span-2`}
+              aria-label={`Employee ${i + 1} work state`}
+              disabled={disabled}
+            >
+              <option value="">Work state (not specified)</option>
+              {STATE_CODES.map((code) => (
+                <option key={code} value={code}>{STATE_TAX_TABLE[code].name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-wrap gap-x-4 gap-y-1">
+            {CENSUS_FLAGS.map((flag) => (
+              <label key={flag} className="flex items-center gap-1.5 text-xs text-gray-500">
+                <input
+                  type="checkbox"
+                  checked={row[flag]}
+                  onChange={(e) => update(i, { [flag]: e.target.checked })}
+                  disabled={disabled}
+                />
+                {FLAG_LABELS[flag]}
+              </label>
+            ))}
+          </div>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...rows, emptyCensusRow()])}
+        className="text-xs font-medium transition-colors"
+        style={{ color: "#38b6ff" }}
+        disabled={disabled}
+      >
+        + Add Employee
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import {
+  type EligibilityRules,
+  type ExclusionCounts,
+  type ExclusionReason,
+  EXCLUSION_REASONS,
+  EXCLUSION_REASON_LABELS,
+  flatEligibility,
+} from "@/lib/eligibility";
+
+/** Editable eligibility rules — the wage threshold kept as the raw input string */
+export interface EligibilityForm {
+  min_annual_wage: string;
+  exclude_part_time: boolean;
+  exclude_seasonal: boolean;
+  exclude_s_corp_shareholders: boolean;
+  exclude_owners: boolean;
+  /** Flat mode only: excluded headcount per reason, as raw input strings */
+  counts: Partial<Record<ExclusionReason, string>>;
+}
+
+export function eligibilityForm(rules: EligibilityRules): EligibilityForm {
+  return {
+    min_annual_wage: rules.min_annual_wage !== null ? String(rules.min_annual_wage) : "",
+    exclude_part_time: rules.exclude_part_time,
+    exclude_seasonal: rules.exclude_seasonal,
+    exclude_s_corp_shareholders: rules.exclude_s_corp_shareholders,
+    exclude_owners: rules.exclude_owners,
+    counts: {},
+  };
+}
+
+/**
+ * Convert the form to rules for the API. A blank threshold means no
+ * minimum; invalid values become NaN so server-side validation reports them.
+ */
+export function toEligibilityRules(form: EligibilityForm): EligibilityRules {
+  const wage = form.min_annual_wage.trim();
+  return {
+    min_annual_wage: wage ? parseFloat(wage.replace(/[$,\s]/g, "")) : null,
+    exclude_part_time: form.exclude_part_time,
+    exclude_seasonal: form.exclude_seasonal,
+    exclude_s_corp_shareholders: form.exclude_s_corp_shareholders,
+    exclude_owners: form.exclude_owners,
+  };
+}
+
+/** Non-blank exclusion headcounts for the API */
+export function toExclusionCounts(form: EligibilityForm): ExclusionCounts {
+  const counts: ExclusionCounts = {};
+  for (const reason of EXCLUSION_REASONS) {
+    const raw = form.counts[reason]?.trim();
+    if (raw) counts[reason] = parseInt(raw, 10);
+  }
+  return counts;
+}
+
+const RULE_TOGGLES: { key: keyof EligibilityRules; reason: ExclusionReason }[] = [
+  { key: "exclude_owners", reason: "owner" },
+  { key: "exclude_s_corp_shareholders", reason: "s_corp_shareholder" },
+  { key: "exclude_part_time", reason: "part_time" },
+  { key: "exclude_seasonal", reason: "seasonal" },
+];
+
+const inputClass =
+  "w-full px-2.5 py-2 border border-gray-200 rounded-lg text-sm outline-none transition-all focus:border-[#38b6ff] focus:ring-2 focus:ring-[#38b6ff]/20";
+
+/**
+ * Plan eligibility rules. In flat mode the rep also enters how many of the
+ * W-2s fall under each excluded group; census rows carry their own flags.
+ */
+export default function EligibilityEditor({
+  form,
+  onChange,
+  w2Count,
+  showCounts,
+  disabled,
+}: {
+  form: EligibilityForm;
+  onChange: (form: EligibilityForm) => void;
+  w2Count: number;
+  showCounts: boolean;
+  disabled?: boolean;
+}) {
+  const summary = flatEligibility(w2Count, toExclusionCounts(form), toEligibilityRules(form));
+  const countedReasons = EXCLUSION_REASONS.filter((reason) => {
+    if (reason === "below_min_wage") return !!form.min_annual_wage.trim();
+    return RULE_TOGGLES.some((t) => t.reason === reason && form[t.key]);
+  });
+
+  const setCount = (reason: ExclusionReason, value: string) => {
+    onChange({ ...form, counts: { ...form.counts, [reason]: value } });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        {RULE_TOGGLES.map(({ key, reason }) => (
+          <label key={key} className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={form[key] as boolean}
+              onChange={(e) => onChange({ ...form, [key]: e.target.checked })}
+              disabled={disabled}
+            />
+            Exclude {EXCLUSION_REASON_LABELS[reason].toLowerCase()}
+          </label>
+        ))}
+      </div>
+      <input
+        type="text"
+        inputMode="decimal"
+        value={form.min_annual_wage}
+        onChange={(e) => onChange({ ...form, min_annual_wage: e.target.value })}
+        className={inputClass}
+        placeholder="Minimum annual wage (blank = no minimum)"
+        aria-label="Minimum annual wage"
+        disabled={disabled}
+      />
+      {showCounts && countedReasons.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs text-gray-400">Excluded headcount by reason:</p>
+          {countedReasons.map((reason) => (
+            <div key={reason} className="flex items-center gap-2">
+              <span className="flex-1 text-sm text-gray-600">{EXCLUSION_REASON_LABELS[reason]}</span>
+              <input
+                type="number"
+                min="0"
+                step="1"
+                value={form.counts[reason] ?? ""}
+                onChange={(e) => setCount(reason, e.target.value)}
+                className={`${inputClass} w-24`}
+                placeholder="0"
+                aria-label={`${EXCLUSION_REASON_LABELS[reason]} excluded`}
+                disabled={disabled}
+              />
+            </div>
+          ))}
+          <p className={`text-xs ${summary.eligible_count <= 0 ? "text-red-600" : "text-gray-400"}`}>
+            {summary.eligible_count} eligible of {w2Count} W-2s
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { DEFAULT_SCENARIOS, MAX_SCENARIOS, type ScenarioInput } from "@/lib/scenarios";
+
+/** Editable scenario row — percentages and headcount kept as raw input strings */
+export interface ScenarioRow {
+  name: string;
+  participation: string;
+  /** "" = eligible headcount */
+  headcount: string;
+}
+
+export function defaultScenarioRows(): ScenarioRow[] {
+  return DEFAULT_SCENARIOS.map((s) => ({
+    name: s.name,
+    participation: String(Math.round(s.participation_rate * 100)),
+    headcount: "",
+  }));
+}
+
+/**
+ * Convert editor rows to scenarios for the API. Invalid numbers become NaN
+ * so server-side validation reports the row.
+ */
+export function toScenarios(rows: ScenarioRow[]): ScenarioInput[] {
+  return rows.map((r) => ({
+    name: r.name.trim(),
+    participation_rate: parseFloat(r.participation) / 100,
+    ...(r.headcount.trim() ? { headcount: parseInt(r.headcount, 10) } : {}),
+  }));
+}
+
+const inputClass =
+  "w-full px-2.5 py-2 border border-gray-200 rounded-lg text-sm outline-none transition-all focus:border-[#38b6ff] focus:ring-2 focus:ring-[#38b6ff]/20";
+
+/**
+ * Named participation scenarios compared side by side in the proposal.
+ * The selected row is the proposal's headline number.
+ */
+export default function ScenarioEditor({
+  rows,
+  onChange,
+  headline,
+  onHeadlineChange,
+  disabled,
+}: {
+  rows: ScenarioRow[];
+  onChange: (rows: ScenarioRow[]) => void;
+  headline: number;
+  onHeadlineChange: (index: number) => void;
+  disabled?: boolean;
+}) {
+  const update = (i: number, patch: Partial<ScenarioRow>) => {
+    onChange(rows.map((r, idx) => (idx === i ? { ...r, ...patch } : r)));
+  };
+
+  const remove = (i: number) => {
+    onChange(rows.filter((_, idx) => idx !== i));
+    if (headline >= i && headline > 0) onHeadlineChange(headline - 1);
+  };
+
+  return (
+    <div className="space-y-2">
+      {rows.map((row, i) => (
+        <div key={i} className="flex items-center gap-2">
+          <input
+            type="radio"
+            name="headline-scenario"
+            checked={headline === i}
+            onChange={() => onHeadlineChange(i)}
+            aria-label={`Use scenario ${i + 1} as the headline`}
+            disabled={disabled}
+          />
+          <input
+            type="text"
+            value={row.name}
+            onChange={(e) => update(i, { name: e.target.value })}
+            className={inputClass}
+            placeholder="Name"
+            aria-label={`Scenario ${i + 1} name`}
+            disabled={disabled}
+          />
+          <input
+            type="text"
+            inputMode="decimal"
+            value={row.participation}
+            onChange={(e) => update(i, { participation: e.target.value })}
+            className={`${inputClass} w-24`}
+            placeholder="% enroll"
+            aria-label={`Scenario ${i + 1} participation percent`}
+            disabled={disabled}
+          />
+          <input
+            type="number"
+            min="1"
+            step="1"
+            value={row.headcount}
+            onChange={(e) => update(i, { headcount: e.target.value })}
+            className={`${inputClass} w-28`}
+            placeholder="Headcount"
+            aria-label={`Scenario ${i + 1} headcount`}
+            disabled={disabled}
+          />
+          <button
+            type="button"
+            onClick={() => remove(i)}
+            className="text-xs text-gray-400 hover:text-red-600 transition-colors"
+            aria-label={`Remove scenario ${i + 1}`}
+            disabled={disabled}
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      <div className="flex items-center gap-4">
+        {rows.length === 0 ? (
+          <button
+            type="button"
+            onClick={() => { onChange(defaultScenarioRows()); onHeadlineChange(1); }}
+            className="text-xs font-medium transition-colors"
+            style={{ color: "#38b6ff" }}
+            disabled={disabled}
+          >
+            + Compare Low / Expected / High
+          </button>
+        ) : (
+          rows.length < MAX_SCENARIOS && (
+            <button
+              type="button"
+              onClick={() => onChange([...rows, { name: "", participation: "", headcount: "" }])}
+              className="text-xs font-medium transition-colors"
+              style={{ color: "#38b6ff" }}
+              disabled={disabled}
+            >
+              + Add Scenario
+            </button>
+          )
+        )}
+        {rows.length > 0 && (
+          <p className="text-xs text-gray-400">Selected scenario is the headline number.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import { STATE_CODES, STATE_TAX_TABLE } from "@/lib/state-tax";
+
+/** Editable state split row — count kept as the raw input string */
+export interface StateMixRow {
+  state: string;
+  count: string;
+}
+
+const inputClass =
+  "w-full px-2.5 py-2 border border-gray-200 rounded-lg text-sm outline-none transition-all focus:border-[#38b6ff] focus:ring-2 focus:ring-[#38b6ff]/20";
+
+/**
+ * Split the W-2 headcount across work states so the employee reduction
+ * reflects each state's withholding.
+ */
+export default function StateMixEditor({
+  rows,
+  onChange,
+  w2Count,
+  disabled,
+}: {
+  rows: StateMixRow[];
+  onChange: (rows: StateMixRow[]) => void;
+  w2Count: number;
+  disabled?: boolean;
+}) {
+  const allocated = rows.reduce((sum, r) => sum + (parseInt(r.count, 10) || 0), 0);
+  const used = new Set(rows.map((r) => r.state));
+  const nextState = STATE_CODES.find((c) => !used.has(c)) ?? STATE_CODES[0];
+
+  const update = (i: number, patch: Partial<StateMixRow>) => {
+    onChange(rows.map((r, idx) => (idx === i ? { ...r, ...patch } : r)));
+  };
+
+  return (
+    <div className="space-y-2">
+      {rows.map((row, i) => (
+        <div key={i} className="flex items-center gap-2">
+          <select
+            value={row.state}
+            onChange={(e) => update(i, { state: e.target.value })}
+            className={`${inputClass} bg-white`}
+            aria-label={`State ${i + 1}`}
+            disabled={disabled}
+          >
+            {STATE_CODES.map((code) => (
+              <option key={code} value={code}>
+                {STATE_TAX_TABLE[code].name}
+                {STATE_TAX_TABLE[code].rate === 0 ? " (no income tax)" : ""}
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min="1"
+            step="1"
+            value={row.count}
+            onChange={(e) => update(i, { count: e.target.value })}
+            className={`${inputClass} w-24 shrink-0`}
+            placeholder="W-2s"
+            aria-label={`State ${i + 1} headcount`}
+            disabled={disabled}
+          />
+          <button
+            type="button"
+            onClick={() => onChange(rows.filter((_, idx) => idx !== i))}
+            className="text-xs text-gray-400 hover:text-red-600 transition-colors shrink-0"
+            disabled={disabled}
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={() => onChange([...rows, { state: nextState, count: "" }])}
+          className="text-xs font-medium transition-colors"
+          style={{ color: "#38b6ff" }}
+          disabled={disabled}
+        >
+          + Add State
+        </button>
+        {rows.length > 0 && (
+          <p className={`text-xs ${allocated === w2Count ? "text-emerald-600" : "text-gray-400"}`}>
+            {allocated} of {w2Count || 0} W-2s allocated
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
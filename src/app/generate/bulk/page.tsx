@@ -0,0 +1,259 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { type BulkParseResult, type BulkCreated, parseBulkCsv } from "@/lib/bulk";
+import { MAX_BULK_ROWS } from "@/lib/constants";
+import { toCsv } from "@/lib/csv";
+
+const TEMPLATE = toCsv([
+  ["company_name", "industry", "w2_count"],
+  ["Acme Manufacturing", "Manufacturing", 120],
+]);
+
+function downloadCsv(csv: string, filename: string) {
+  const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function BulkGeneratePage() {
+  const [fileName, setFileName] = useState("");
+  const [parsed, setParsed] = useState<BulkParseResult | null>(null);
+  const [taxYears, setTaxYears] = useState<number[]>([]);
+  const [taxYear, setTaxYear] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [result, setResult] = useState<{ cases: BulkCreated[]; csv: string } | null>(null);
+
+  // Load the tax years that have rates configured
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/rate-sets")
+      .then((res) => res.json())
+      .then((json) => {
+        if (cancelled || !json.ok) return;
+        const years = Array.from(
+          new Set<number>(json.rate_sets.map((r: { tax_year: number }) => r.tax_year))
+        ).sort((a, b) => b - a);
+        const current = new Date().getFullYear();
+        setTaxYears(years);
+        setTaxYear(String(years.includes(current) ? current : years[0] ?? ""));
+      })
+      .catch(() => {
+        // Selector stays hidden; the server falls back to the current year
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  const invalidRows = parsed ? parsed.rows.filter((r) => r.errors.length > 0).length : 0;
+  const ready = parsed !== null && parsed.errors.length === 0 && parsed.rows.length > 0 && invalidRows === 0;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setError("");
+    setResult(null);
+    if (!file) { setParsed(null); setFileName(""); return; }
+    setFileName(file.name);
+    setParsed(parseBulkCsv(await file.text()));
+  };
+
+  const handleCreate = async () => {
+    if (!parsed || !ready) return;
+    setError("");
+    setLoading(true);
+    try {
+      const res = await fetch("/api/generate/bulk", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          rows: parsed.rows.map(({ company_name, industry, w2_count }) => ({ company_name, industry, w2_count })),
+          ...(taxYear ? { tax_year: parseInt(taxYear, 10) } : {}),
+        }),
+      });
+
+      const json = await res.json();
+      if (!json.ok) {
+        setError(json.error || "Failed to generate proposals.");
+        return;
+      }
+
+      setResult({ cases: json.cases, csv: json.csv });
+      setParsed(null);
+      setFileName("");
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-gray-50 to-gray-100/80">
+      {/* Nav */}
+      <nav className="border-b border-gray-200 bg-white/80 backdrop-blur sticky top-0 z-40">
+        <div className="max-w-3xl mx-auto px-4 py-3 flex items-center justify-between">
+          <Link href="/dashboard" className="flex items-center gap-2">
+            <Image src="/favicon.png" alt="W2 Deck" width={24} height={24} />
+            <span className="text-sm font-semibold" style={{ color: "#0b2043" }}>W2 Deck</span>
+          </Link>
+          <Link href="/generate" className="text-xs text-gray-500 hover:text-gray-700 transition-colors">
+            &larr; Single proposal
+          </Link>
+        </div>
+      </nav>
+
+      <div className="max-w-3xl mx-auto px-4 py-10 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold" style={{ color: "#0b2043" }}>Bulk Proposals</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Upload a CSV with company name, industry and W-2 count (up to {MAX_BULK_ROWS} rows) to
+            generate a proposal and link for each prospect.{" "}
+            <button
+              type="button"
+              onClick={() => downloadCsv(TEMPLATE, "bulk-proposals-template.csv")}
+              className="underline hover:text-gray-700"
+            >
+              Download template
+            </button>
+          </p>
+        </div>
+
+        {/* Success state */}
+        {result && (
+          <div className="bg-white rounded-2xl shadow-xl shadow-gray-200/60 border border-gray-100 p-6 animate-scale-in">
+            <div className="flex items-center gap-2 mb-4">
+              <div className="w-8 h-8 rounded-full bg-emerald-100 flex items-center justify-center">
+                <span className="text-emerald-600 text-lg">&#10003;</span>
+              </div>
+              <h2 className="text-lg font-semibold text-gray-900">
+                {result.cases.length} Proposal{result.cases.length !== 1 ? "s" : ""} Generated
+              </h2>
+            </div>
+            <p className="text-sm text-gray-500 mb-4">
+              Download the links for your mail merge. Links expire{" "}
+              {new Date(result.cases[0].expires_at).toLocaleDateString("en-US")}.
+            </p>
+            <div className="flex gap-3">
+              <button
+                onClick={() => downloadCsv(result.csv, "proposal-links.csv")}
+                className="flex-1 py-2.5 px-4 text-white font-medium rounded-xl text-sm transition-all active:scale-[0.98]"
+                style={{ backgroundColor: "#0b2043" }}
+              >
+                Download Links CSV
+              </button>
+              <Link
+                href="/dashboard"
+                className="py-2.5 px-4 bg-gray-100 text-gray-700 font-medium rounded-xl text-sm hover:bg-gray-200 transition-all"
+              >
+                Dashboard
+              </Link>
+            </div>
+          </div>
+        )}
+
+        {/* Upload */}
+        <div className="bg-white rounded-2xl shadow-xl shadow-gray-200/60 border border-gray-100 p-6 space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+
+          <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+            <div className="flex-1">
+              <label htmlFor="csv" className="block text-sm font-medium text-gray-700 mb-1">CSV File</label>
+              <input
+                id="csv"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleFile}
+                className="block w-full text-sm text-gray-600 file:mr-3 file:px-3 file:py-2 file:rounded-lg file:border-0 file:bg-gray-100 file:text-gray-700 file:text-sm file:font-medium hover:file:bg-gray-200"
+                disabled={loading}
+              />
+            </div>
+            {taxYears.length > 1 && (
+              <div>
+                <label htmlFor="taxyear" className="block text-sm font-medium text-gray-700 mb-1">Tax Year</label>
+                <select
+                  id="taxyear"
+                  value={taxYear}
+                  onChange={(e) => setTaxYear(e.target.value)}
+                  className="px-4 py-2.5 border border-gray-200 rounded-lg text-sm outline-none bg-white focus:border-[#38b6ff]"
+                  disabled={loading}
+                >
+                  {taxYears.map((y) => (
+                    <option key={y} value={y}>{y}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+
+          {parsed && parsed.errors.length > 0 && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+              {parsed.errors.map((e) => (
+                <p key={e} className="text-sm text-red-700">{fileName}: {e}</p>
+              ))}
+            </div>
+          )}
+
+          {/* Preview */}
+          {parsed && parsed.rows.length > 0 && (
+            <>
+              <p className="text-sm text-gray-600">
+                {parsed.rows.length} prospect{parsed.rows.length !== 1 ? "s" : ""}
+                {invalidRows > 0 && (
+                  <span className="text-red-600">
+                    {" "}&middot; {invalidRows} row{invalidRows !== 1 ? "s" : ""} need{invalidRows === 1 ? "s" : ""} fixing before upload
+                  </span>
+                )}
+              </p>
+              <div className="overflow-x-auto rounded-lg border border-gray-200 max-h-96 overflow-y-auto">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50 sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-semibold text-gray-500 uppercase tracking-wider">Line</th>
+                      <th className="px-3 py-2 text-left text-xs font-semibold text-gray-500 uppercase tracking-wider">Company</th>
+                      <th className="px-3 py-2 text-left text-xs font-semibold text-gray-500 uppercase tracking-wider">Industry</th>
+                      <th className="px-3 py-2 text-right text-xs font-semibold text-gray-500 uppercase tracking-wider">W-2s</th>
+                      <th className="px-3 py-2 text-left text-xs font-semibold text-gray-500 uppercase tracking-wider">Problems</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {parsed.rows.map((row) => (
+                      <tr key={row.line} className={row.errors.length > 0 ? "bg-red-50/50" : ""}>
+                        <td className="px-3 py-2 text-gray-400">{row.line}</td>
+                        <td className="px-3 py-2 text-gray-900">{row.company_name || "—"}</td>
+                        <td className="px-3 py-2 text-gray-600">{row.industry || "—"}</td>
+                        <td className="px-3 py-2 text-right text-gray-600">{row.w2_count ?? "—"}</td>
+                        <td className="px-3 py-2 text-xs text-red-700">{row.errors.join("; ")}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+
+          <button
+            onClick={handleCreate}
+            disabled={!ready || loading}
+            className="w-full py-3 px-4 text-white font-medium rounded-xl transition-all duration-200 active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed"
+            style={{ backgroundColor: "#0b2043" }}
+          >
+            {loading
+              ? "Generating..."
+              : ready
+                ? `Generate ${parsed!.rows.length} Proposal${parsed!.rows.length !== 1 ? "s" : ""}`
+                : "Generate Proposals"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
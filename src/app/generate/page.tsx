@@ -1,14 +1,66 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect, useRef } from "react";
 import Image from "next/image";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
+import CensusEditor, { emptyCensusRow, toCensus, type CensusRow } from "./CensusEditor";
+import StateMixEditor, { type StateMixRow } from "./StateMixEditor";
+import EligibilityEditor, {
+  eligibilityForm,
+  toEligibilityRules,
+  toExclusionCounts,
+  type EligibilityForm,
+} from "./EligibilityEditor";
+import ScenarioEditor, { toScenarios, type ScenarioRow } from "./ScenarioEditor";
+import { DEFAULT_ELIGIBILITY_RULES, flatEligibility } from "@/lib/eligibility";
+import { PROJECTION_YEARS, type ProjectionAssumptions } from "@/lib/projection";
+import {
+  INDUSTRY_EBITDA_MULTIPLES,
+  MAX_EBITDA_MULTIPLE,
+  defaultEbitdaMultiple,
+} from "@/lib/valuation";
+import { DEFAULT_MONTHLY_GROSS_PAY, buildPaycheckInputs } from "@/lib/paycheck";
+import { MAX_PASSCODE_LENGTH, MIN_PASSCODE_LENGTH } from "@/lib/constants";
+import { STATE_CODES, STATE_TAX_TABLE } from "@/lib/state-tax";
+import {
+  FILING_STATUSES,
+  PAY_FREQUENCIES,
+  FILING_STATUS_LABELS,
+  PAY_FREQUENCY_LABELS,
+  type FilingStatus,
+  type PayFrequency,
+} from "@/lib/tax-tables";
+
+type InputMode = "flat" | "census";
 
 export default function GeneratePage() {
   const [companyName, setCompanyName] = useState("");
   const [industry, setIndustry] = useState("");
+  const [ebitdaMultiple, setEbitdaMultiple] = useState("");
   const [w2Count, setW2Count] = useState("");
+  const [mode, setMode] = useState<InputMode>("flat");
+  const [censusRows, setCensusRows] = useState<CensusRow[]>([emptyCensusRow()]);
+  const [stateMixRows, setStateMixRows] = useState<StateMixRow[]>([]);
+  const [eligibility, setEligibility] = useState<EligibilityForm>(
+    eligibilityForm(DEFAULT_ELIGIBILITY_RULES)
+  );
+  const [taxYears, setTaxYears] = useState<number[]>([]);
+  const [taxYear, setTaxYear] = useState("");
+  const [repWage, setRepWage] = useState("");
+  const [repFrequency, setRepFrequency] = useState<PayFrequency>("monthly");
+  const [repFiling, setRepFiling] = useState<FilingStatus>("single");
+  const [repState, setRepState] = useState("VA");
+  const [growthPct, setGrowthPct] = useState("");
+  const [participationPct, setParticipationPct] = useState("");
+  const [rampPct, setRampPct] = useState("");
+  const [scenarioRows, setScenarioRows] = useState<ScenarioRow[]>([]);
+  const [headlineScenario, setHeadlineScenario] = useState(0);
+  const [passcode, setPasscode] = useState("");
+  const [templates, setTemplates] = useState<{ id: string; name: string; is_default: boolean }[]>([]);
+  const [templateId, setTemplateId] = useState("");
+  // Retrying the same submission reuses its key so the server won't create a duplicate
+  const lastSubmission = useRef<{ body: string; key: string } | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
   const [result, setResult] = useState<{
@@ -19,27 +71,173 @@ export default function GeneratePage() {
   const [copied, setCopied] = useState(false);
   const router = useRouter();
 
+  // Load the tax years that have rates configured
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/rate-sets")
+      .then((res) => res.json())
+      .then((json) => {
+        if (cancelled || !json.ok) return;
+        const years = Array.from(
+          new Set<number>(json.rate_sets.map((r: { tax_year: number }) => r.tax_year))
+        ).sort((a, b) => b - a);
+        const current = new Date().getFullYear();
+        setTaxYears(years);
+        setTaxYear(String(years.includes(current) ? current : years[0] ?? ""));
+      })
+      .catch(() => {
+        // Selector stays hidden; the server falls back to the current year
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  // Load the proposal templates reps can choose from
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/templates")
+      .then((res) => res.json())
+      .then((json) => {
+        if (cancelled || !json.ok) return;
+        setTemplates(json.templates);
+      })
+      .catch(() => {
+        // Selector stays hidden; the proposal uses the default template
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  const defaultTemplate = templates.find((t) => t.is_default);
+
+  const censusWages = toCensus(censusRows)
+    .map((e) => e.annual_wages)
+    .filter((w) => Number.isFinite(w) && w > 0);
+  const censusAverageWage =
+    mode === "census" && censusWages.length > 0
+      ? Math.round(censusWages.reduce((a, b) => a + b, 0) / censusWages.length)
+      : null;
+
+  // The state split covers eligible W-2s only
+  const flatRules = toEligibilityRules(eligibility);
+  const flatEligibleCount = Math.max(
+    0,
+    flatEligibility(parseInt(w2Count, 10) || 0, toExclusionCounts(eligibility), flatRules).eligible_count
+  );
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
     setResult(null);
 
     const count = parseInt(w2Count, 10);
+    const census = mode === "census" ? toCensus(censusRows) : undefined;
+    const rules = toEligibilityRules(eligibility);
+    const exclusions = census ? undefined : toExclusionCounts(eligibility);
+    if (rules.min_annual_wage !== null && (!Number.isFinite(rules.min_annual_wage) || rules.min_annual_wage < 0)) {
+      setError("Minimum annual wage must be zero or more."); return;
+    }
     if (!companyName.trim()) { setError("Business name is required."); return; }
     if (!industry.trim()) { setError("Industry is required."); return; }
-    if (!w2Count || isNaN(count) || count <= 0) { setError("W-2 count must be a positive number."); return; }
-    if (count > 100000) { setError("W-2 count seems too high. Please verify."); return; }
+    // Blank multiple uses the industry default on the server
+    const multiple = ebitdaMultiple.trim() ? parseFloat(ebitdaMultiple) : undefined;
+    if (multiple !== undefined && !(multiple > 0 && multiple <= MAX_EBITDA_MULTIPLE)) {
+      setError(`EBITDA multiple must be greater than 0 and at most ${MAX_EBITDA_MULTIPLE}.`); return;
+    }
+    if (census) {
+      const bad = census.findIndex((e) => !Number.isFinite(e.annual_wages) || e.annual_wages <= 0);
+      if (bad >= 0) { setError(`Employee ${bad + 1}: annual wages must be a positive number.`); return; }
+    } else {
+      if (!w2Count || isNaN(count) || count <= 0) { setError("W-2 count must be a positive number."); return; }
+      if (count > 100000) { setError("W-2 count seems too high. Please verify."); return; }
+      const eligible = flatEligibility(count, exclusions!, rules).eligible_count;
+      if (eligible <= 0) { setError("No eligible employees remain after exclusions."); return; }
+      if (stateMixRows.length > 0) {
+        const allocated = stateMixRows.reduce((sum, r) => sum + (parseInt(r.count, 10) || 0), 0);
+        if (allocated !== eligible) { setError(`State split must add up to ${eligible} eligible W-2s (currently ${allocated}).`); return; }
+      }
+    }
+    const stateMix =
+      !census && stateMixRows.length > 0
+        ? stateMixRows.map((r) => ({ state: r.state, count: parseInt(r.count, 10) }))
+        : undefined;
+    // A blank wage uses the census average, else the standard example's wage;
+    // the pay frequency, filing status and state picked still apply
+    const wage = repWage.trim()
+      ? parseFloat(repWage.replace(/[$,\s]/g, ""))
+      : censusAverageWage ?? DEFAULT_MONTHLY_GROSS_PAY * 12;
+    if (!Number.isFinite(wage) || wage <= 0) {
+      setError("Average annual wage must be a positive number."); return;
+    }
+    const year = taxYear ? parseInt(taxYear, 10) : new Date().getFullYear();
+    const paycheck = buildPaycheckInputs({
+      annual_wages: wage,
+      pay_frequency: repFrequency,
+      filing_status: repFiling,
+      state: repState,
+      tax_year: year,
+    });
+    if (paycheck.simerp_deduction > paycheck.gross_pay) {
+      setError("Average annual wage is too low for the SIMERP deduction."); return;
+    }
+
+    // Blank projection fields fall back to flat headcount and full participation
+    let projection: ProjectionAssumptions | undefined;
+    if (growthPct.trim() || participationPct.trim() || rampPct.trim()) {
+      const pct = (v: string, fallback: number) => (v.trim() ? parseFloat(v) / 100 : fallback);
+      projection = {
+        growth_rate: pct(growthPct, 0),
+        participation_rate: pct(participationPct, 1),
+        ramp: rampPct.trim() ? rampPct.split(",").map((v) => pct(v, NaN)) : [1],
+      };
+      if (!Number.isFinite(projection.growth_rate) || projection.growth_rate <= -1 || projection.growth_rate > 1) {
+        setError("Headcount growth must be between -100% and 100%."); return;
+      }
+      if (!(projection.participation_rate > 0 && projection.participation_rate <= 1)) {
+        setError("Participation must be between 0% and 100%."); return;
+      }
+      if (projection.ramp.length > PROJECTION_YEARS || projection.ramp.some((r) => !(r > 0 && r <= 1))) {
+        setError(`Ramp must list up to ${PROJECTION_YEARS} percentages between 0% and 100%.`); return;
+      }
+    }
+
+    const scenarios = scenarioRows.length > 0 ? toScenarios(scenarioRows) : undefined;
+    if (scenarios) {
+      const bad = scenarios.findIndex(
+        (sc) => !sc.name || !(sc.participation_rate > 0 && sc.participation_rate <= 1)
+      );
+      if (bad >= 0) { setError(`Scenario ${bad + 1}: enter a name and a participation between 0% and 100%.`); return; }
+    }
+
+    if (passcode && (passcode.length < MIN_PASSCODE_LENGTH || passcode.length > MAX_PASSCODE_LENGTH || passcode.trim() !== passcode)) {
+      setError(`Passcode must be ${MIN_PASSCODE_LENGTH} to ${MAX_PASSCODE_LENGTH} characters with no leading or trailing spaces.`); return;
+    }
 
     setLoading(true);
     try {
+      const body = JSON.stringify({
+        company_name: companyName.trim(),
+        industry: industry.trim(),
+        ...(census ? { w2_count: census.length, census } : { w2_count: count }),
+        ...(taxYear ? { tax_year: parseInt(taxYear, 10) } : {}),
+        paycheck,
+        ...(stateMix ? { state_mix: stateMix } : {}),
+        eligibility_rules: rules,
+        ...(exclusions ? { exclusions } : {}),
+        ...(projection ? { projection } : {}),
+        ...(multiple !== undefined ? { ebitda_multiple: multiple } : {}),
+        ...(scenarios ? { scenarios, headline_scenario: headlineScenario } : {}),
+        ...(passcode ? { passcode } : {}),
+        ...(templateId ? { template_id: templateId } : {}),
+      });
+      if (lastSubmission.current?.body !== body) {
+        lastSubmission.current = { body, key: crypto.randomUUID() };
+      }
       const res = await fetch("/api/generate", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          company_name: companyName.trim(),
-          industry: industry.trim(),
-          w2_count: count,
-        }),
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": lastSubmission.current.key,
+        },
+        body,
       });
 
       const json = await res.json();
@@ -97,7 +295,10 @@ export default function GeneratePage() {
       <div className="max-w-lg mx-auto px-4 py-10">
         <div className="mb-8">
           <h1 className="text-2xl font-bold" style={{ color: "#0b2043" }}>New Proposal</h1>
-          <p className="text-sm text-gray-500 mt-1">Enter the details below to generate a shareable W-2 savings proposal.</p>
+          <p className="text-sm text-gray-500 mt-1">
+            Enter the details below to generate a shareable W-2 savings proposal, or{" "}
+            <Link href="/generate/bulk" className="underline hover:text-gray-700">upload a CSV</Link> for many prospects at once.
+          </p>
         </div>
 
         {/* Success state */}
@@ -140,7 +341,20 @@ export default function GeneratePage() {
                   setResult(null);
                   setCompanyName("");
                   setIndustry("");
+                  setEbitdaMultiple("");
                   setW2Count("");
+                  setCensusRows([emptyCensusRow()]);
+                  setRepWage("");
+                  setStateMixRows([]);
+                  setEligibility(eligibilityForm(DEFAULT_ELIGIBILITY_RULES));
+                  setGrowthPct("");
+                  setParticipationPct("");
+                  setRampPct("");
+                  setScenarioRows([]);
+                  setHeadlineScenario(0);
+                  setPasscode("");
+                  setTemplateId("");
+                  lastSubmission.current = null;
                 }}
                 className="text-xs font-medium transition-colors"
                 style={{ color: "#38b6ff" }}
@@ -187,25 +401,277 @@ export default function GeneratePage() {
                   onChange={(e) => setIndustry(e.target.value)}
                   className="w-full px-4 py-2.5 border border-gray-200 rounded-lg text-sm outline-none transition-all focus:border-[#38b6ff] focus:ring-2 focus:ring-[#38b6ff]/20"
                   placeholder="e.g. Manufacturing"
+                  list="industries"
                   disabled={loading}
                 />
+                <datalist id="industries">
+                  {INDUSTRY_EBITDA_MULTIPLES.map((m) => (
+                    <option key={m.industry} value={m.industry} />
+                  ))}
+                </datalist>
               </div>
 
               <div>
-                <label htmlFor="w2count" className="block text-sm font-medium text-gray-700 mb-1">
-                  Number of W-2 Employees
+                <label htmlFor="ebitdamultiple" className="block text-sm font-medium text-gray-700 mb-1">
+                  EBITDA Multiple
                 </label>
                 <input
-                  id="w2count"
-                  type="number"
-                  min="1"
-                  step="1"
-                  value={w2Count}
-                  onChange={(e) => setW2Count(e.target.value)}
+                  id="ebitdamultiple"
+                  type="text"
+                  inputMode="decimal"
+                  value={ebitdaMultiple}
+                  onChange={(e) => setEbitdaMultiple(e.target.value)}
+                  className="w-full px-4 py-2.5 border border-gray-200 rounded-lg text-sm outline-none transition-all focus:border-[#38b6ff] focus:ring-2 focus:ring-[#38b6ff]/20"
+                  placeholder={`Industry default: ${defaultEbitdaMultiple(industry)}x`}
+                  disabled={loading}
+                />
+                <p className="text-xs text-gray-400 mt-1">
+                  Used to show the enterprise valuation increase from the employer savings.
+                </p>
+              </div>
+
+              {taxYears.length > 0 && (
+                <div>
+                  <label htmlFor="taxyear" className="block text-sm font-medium text-gray-700 mb-1">
+                    Tax Year
+                  </label>
+                  <select
+                    id="taxyear"
+                    value={taxYear}
+                    onChange={(e) => setTaxYear(e.target.value)}
+                    className="w-full px-4 py-2.5 border border-gray-200 rounded-lg text-sm outline-none transition-all focus:border-[#38b6ff] focus:ring-2 focus:ring-[#38b6ff]/20 bg-white"
+                    disabled={loading}
+                  >
+                    {taxYears.map((y) => (
+                      <option key={y} value={y}>{y}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {templates.some((t) => !t.is_default) && (
+                <div>
+                  <label htmlFor="template" className="block text-sm font-medium text-gray-700 mb-1">
+                    Template
+                  </label>
+                  <select
+                    id="template"
+                    value={templateId}
+                    onChange={(e) => setTemplateId(e.target.value)}
+                    className="w-full px-4 py-2.5 border border-gray-200 rounded-lg text-sm outline-none transition-all focus:border-[#38b6ff] focus:ring-2 focus:ring-[#38b6ff]/20 bg-white"
+                    disabled={loading}
+                  >
+                    <option value="">Default{defaultTemplate ? ` (${defaultTemplate.name})` : ""}</option>
+                    {templates.filter((t) => !t.is_default).map((t) => (
+                      <option key={t.id} value={t.id}>{t.name}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-400 mt-1">
+                    Sets the sections and wording of the proposal. You can change it later.
+                  </p>
+                </div>
+              )}
+
+              <div>
+                <p className="block text-sm font-medium text-gray-700 mb-1">Calculation</p>
+                <div className="flex bg-gray-100 rounded-lg p-0.5">
+                  {([
+                    { value: "flat", label: "W-2 Count" },
+                    { value: "census", label: "Employee Census" },
+                  ] as const).map((m) => (
+                    <button
+                      key={m.value}
+                      type="button"
+                      onClick={() => setMode(m.value)}
+                      className={`flex-1 py-2 text-sm font-medium rounded-md transition-all ${
+                        mode === m.value
+                          ? "bg-white shadow-sm text-gray-900"
+                          : "text-gray-500 hover:text-gray-700"
+                      }`}
+                      disabled={loading}
+                    >
+                      {m.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {mode === "flat" ? (
+                <div>
+                  <label htmlFor="w2count" className="block text-sm font-medium text-gray-700 mb-1">
+                    Number of W-2 Employees
+                  </label>
+                  <input
+                    id="w2count"
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={w2Count}
+                    onChange={(e) => setW2Count(e.target.value)}
+                    className="w-full px-4 py-2.5 border border-gray-200 rounded-lg text-sm outline-none transition-all focus:border-[#38b6ff] focus:ring-2 focus:ring-[#38b6ff]/20"
+                    placeholder="e.g. 25"
+                    disabled={loading}
+                  />
+                  <div className="mt-3">
+                    <p className="text-xs text-gray-400 mb-2">
+                      Optional: split headcount by work state to reflect state withholding in the employee reduction.
+                    </p>
+                    <StateMixEditor
+                      rows={stateMixRows}
+                      onChange={setStateMixRows}
+                      w2Count={flatEligibleCount}
+                      disabled={loading}
+                    />
+                  </div>
+                </div>
+              ) : (
+                <div>
+                  <p className="block text-sm font-medium text-gray-700 mb-1">
+                    Employees ({censusRows.length})
+                  </p>
+                  <p className="text-xs text-gray-400 mb-3">
+                    Savings are computed per employee from wages, pay frequency, filing status and work state.
+                  </p>
+                  <CensusEditor rows={censusRows} onChange={setCensusRows} disabled={loading} />
+                </div>
+              )}
+
+              <div>
+                <p className="block text-sm font-medium text-gray-700 mb-1">Eligibility</p>
+                <p className="text-xs text-gray-400 mb-3">
+                  Excluded employees are left out of the savings totals.{mode === "census" ? " Flag owners, shareholders, part-time and seasonal staff on each census row." : ""}
+                </p>
+                <EligibilityEditor
+                  form={eligibility}
+                  onChange={setEligibility}
+                  w2Count={parseInt(w2Count, 10) || 0}
+                  showCounts={mode === "flat"}
+                  disabled={loading}
+                />
+              </div>
+
+              <div>
+                <p className="block text-sm font-medium text-gray-700 mb-1">Scenarios</p>
+                <p className="text-xs text-gray-400 mb-3">
+                  Optional. Compare participation levels side by side; headcount defaults to the eligible employees.
+                </p>
+                <ScenarioEditor
+                  rows={scenarioRows}
+                  onChange={setScenarioRows}
+                  headline={headlineScenario}
+                  onHeadlineChange={setHeadlineScenario}
+                  disabled={loading}
+                />
+              </div>
+
+              <div>
+                <p className="block text-sm font-medium text-gray-700 mb-1">Multi-Year Projection</p>
+                <p className="text-xs text-gray-400 mb-3">
+                  Optional. Leave blank for flat headcount with full participation from year 1.
+                </p>
+                <div className="grid grid-cols-2 gap-2">
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={growthPct}
+                    onChange={(e) => setGrowthPct(e.target.value)}
+                    className="w-full px-4 py-2.5 border border-gray-200 rounded-lg text-sm outline-none transition-all focus:border-[#38b6ff] focus:ring-2 focus:ring-[#38b6ff]/20"
+                    placeholder="Headcount growth %/yr"
+                    aria-label="Annual headcount growth percent"
+                    disabled={loading}
+                  />
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={participationPct}
+                    onChange={(e) => setParticipationPct(e.target.value)}
+                    className="w-full px-4 py-2.5 border border-gray-200 rounded-lg text-sm outline-none transition-all focus:border-[#38b6ff] focus:ring-2 focus:ring-[#38b6ff]/20"
+                    placeholder="Participation %"
+                    aria-label="Expected participation percent"
+                    disabled={loading}
+                  />
+                  <input
+                    type="text"
+                    value={rampPct}
+                    onChange={(e) => setRampPct(e.target.value)}
+                    className="col-span-2 w-full px-4 py-2.5 border border-gray-200 rounded-lg text-sm outline-none transition-all focus:border-[#38b6ff] focus:ring-2 focus:ring-[#38b6ff]/20"
+                    placeholder="Ramp % by year, e.g. 50, 80, 100"
+                    aria-label="Participation ramp by year"
+                    disabled={loading}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <p className="block text-sm font-medium text-gray-700 mb-1">Paycheck Example</p>
+                <p className="text-xs text-gray-400 mb-3">
+                  Representative employee shown in the proposal&apos;s paycheck table. Leave the wage blank to use {mode === "census" ? "the census average" : "the standard example's wage"}.
+                </p>
+                <div className="grid grid-cols-2 gap-2">
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={repWage}
+                    onChange={(e) => setRepWage(e.target.value)}
+                    className="col-span-2 w-full px-4 py-2.5 border border-gray-200 rounded-lg text-sm outline-none transition-all focus:border-[#38b6ff] focus:ring-2 focus:ring-[#38b6ff]/20"
+                    placeholder={censusAverageWage ? `Average annual wage (census avg. ${censusAverageWage.toLocaleString("en-US")})` : "Average annual wage, e.g. 39520"}
+                    aria-label="Average annual wage"
+                    disabled={loading}
+                  />
+                  <select
+                    value={repFrequency}
+                    onChange={(e) => setRepFrequency(e.target.value as PayFrequency)}
+                    className="w-full px-3 py-2.5 border border-gray-200 rounded-lg text-sm outline-none bg-white focus:border-[#38b6ff]"
+                    aria-label="Pay frequency"
+                    disabled={loading}
+                  >
+                    {PAY_FREQUENCIES.map((f) => (
+                      <option key={f} value={f}>{PAY_FREQUENCY_LABELS[f]}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={repFiling}
+                    onChange={(e) => setRepFiling(e.target.value as FilingStatus)}
+                    className="w-full px-3 py-2.5 border border-gray-200 rounded-lg text-sm outline-none bg-white focus:border-[#38b6ff]"
+                    aria-label="Filing status"
+                    disabled={loading}
+                  >
+                    {FILING_STATUSES.map((f) => (
+                      <option key={f} value={f}>{FILING_STATUS_LABELS[f]}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={repState}
+                    onChange={(e) => setRepState(e.target.value)}
+                    className="col-span-2 w-full px-3 py-2.5 border border-gray-200 rounded-lg text-sm outline-none bg-white focus:border-[#38b6ff]"
+                    aria-label="State"
+                    disabled={loading}
+                  >
+                    {STATE_CODES.map((code) => (
+                      <option key={code} value={code}>{STATE_TAX_TABLE[code].name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label htmlFor="passcode" className="block text-sm font-medium text-gray-700 mb-1">
+                  Passcode <span className="font-normal text-gray-400">(optional)</span>
+                </label>
+                <input
+                  id="passcode"
+                  type="text"
+                  value={passcode}
+                  onChange={(e) => setPasscode(e.target.value)}
+                  autoComplete="off"
+                  maxLength={MAX_PASSCODE_LENGTH}
                   className="w-full px-4 py-2.5 border border-gray-200 rounded-lg text-sm outline-none transition-all focus:border-[#38b6ff] focus:ring-2 focus:ring-[#38b6ff]/20"
-                  placeholder="e.g. 25"
+                  placeholder="Leave blank for link-only access"
                   disabled={loading}
                 />
+                <p className="text-xs text-gray-400 mt-1">
+                  Viewers must enter it to open the proposal. Share it separately from the link.
+                </p>
               </div>
 
               <button
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import {
+  ACCEPTABLE_STATUSES,
+  MAX_SIGNER_FIELD_LENGTH,
+  signatureMatches,
+  validateAcceptance,
+} from "../acceptance";
+import { canTransition } from "../status";
+
+const valid = {
+  signer_name: "Jane Doe",
+  signer_title: "CFO",
+  signer_email: "jane@acme.com",
+  signature: "Jane Doe",
+  agreed_to_terms: true,
+};
+
+describe("signatureMatches", () => {
+  it("ignores case and extra whitespace", () => {
+    expect(signatureMatches("  jane   DOE ", "Jane Doe")).toBe(true);
+  });
+
+  it("rejects a different or empty signature", () => {
+    expect(signatureMatches("J. Doe", "Jane Doe")).toBe(false);
+    expect(signatureMatches("  ", "  ")).toBe(false);
+  });
+});
+
+describe("validateAcceptance", () => {
+  it("accepts a complete acceptance", () => {
+    expect(validateAcceptance(valid)).toEqual([]);
+  });
+
+  it("requires every signer field", () => {
+    const errors = validateAcceptance({ ...valid, signer_name: " ", signer_title: undefined, signer_email: "" });
+    expect(errors.some((e) => e.startsWith("Name"))).toBe(true);
+    expect(errors.some((e) => e.startsWith("Title"))).toBe(true);
+    expect(errors.some((e) => e.startsWith("Email"))).toBe(true);
+  });
+
+  it("limits field length", () => {
+    const long = "x".repeat(MAX_SIGNER_FIELD_LENGTH + 1);
+    expect(validateAcceptance({ ...valid, signer_title: long })).toHaveLength(1);
+  });
+
+  it("rejects malformed email", () => {
+    expect(validateAcceptance({ ...valid, signer_email: "jane@acme" })).toEqual(["Email (a valid email address)"]);
+  });
+
+  it("requires the signature to match the name", () => {
+    expect(validateAcceptance({ ...valid, signature: "Someone Else" })).toEqual([
+      "Signature (type your full name exactly as entered)",
+    ]);
+  });
+
+  it("requires the terms to be agreed with a literal true", () => {
+    expect(validateAcceptance({ ...valid, agreed_to_terms: false })).toEqual(["Terms (must be agreed to)"]);
+    expect(validateAcceptance({ ...valid, agreed_to_terms: "true" })).toEqual(["Terms (must be agreed to)"]);
+  });
+});
+
+describe("ACCEPTABLE_STATUSES", () => {
+  it("only lists statuses that can move to accepted", () => {
+    for (const status of ACCEPTABLE_STATUSES) {
+      expect(canTransition(status, "accepted")).toBe(true);
+    }
+  });
+});
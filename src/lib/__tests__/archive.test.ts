@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import {
+  archiveChange,
+  caseView,
+  isCaseView,
+  purgeCutoff,
+  purgeDate,
+  validateArchiveAction,
+} from "../archive";
+import { DELETED_CASE_RETENTION_DAYS } from "../constants";
+
+const now = new Date("2026-06-01T12:00:00Z");
+const earlier = "2026-05-01T12:00:00.000Z";
+const active = { archived_at: null, deleted_at: null };
+const archived = { archived_at: earlier, deleted_at: null };
+const deleted = { archived_at: null, deleted_at: earlier };
+
+describe("caseView", () => {
+  it("puts deleted ahead of archived", () => {
+    expect(caseView(active)).toBe("active");
+    expect(caseView(archived)).toBe("archived");
+    expect(caseView({ archived_at: earlier, deleted_at: earlier })).toBe("deleted");
+  });
+
+  it("recognizes dashboard views", () => {
+    expect(isCaseView("archived")).toBe(true);
+    expect(isCaseView("all")).toBe(false);
+    expect(isCaseView(undefined)).toBe(false);
+  });
+});
+
+describe("validateArchiveAction", () => {
+  it("accepts known actions only", () => {
+    expect(validateArchiveAction("archive")).toEqual([]);
+    expect(validateArchiveAction("restore")).toEqual([]);
+    expect(validateArchiveAction("purge")).toHaveLength(1);
+    expect(validateArchiveAction(undefined)).toHaveLength(1);
+  });
+});
+
+describe("archiveChange", () => {
+  it("archives and revokes links", () => {
+    expect(archiveChange(active, "archive", now)).toEqual({
+      ok: true,
+      changes: { archived_at: now.toISOString() },
+      revokeLinks: true,
+    });
+  });
+
+  it("keeps the original timestamp when archiving or deleting again", () => {
+    expect(archiveChange(archived, "archive", now)).toMatchObject({ changes: { archived_at: earlier } });
+    expect(archiveChange(deleted, "delete", now)).toMatchObject({ changes: { deleted_at: earlier } });
+  });
+
+  it("unarchives without restoring links", () => {
+    expect(archiveChange(archived, "unarchive", now)).toEqual({
+      ok: true,
+      changes: { archived_at: null },
+      revokeLinks: false,
+    });
+  });
+
+  it("deletes from any view and revokes links", () => {
+    expect(archiveChange(archived, "delete", now)).toEqual({
+      ok: true,
+      changes: { deleted_at: now.toISOString() },
+      revokeLinks: true,
+    });
+  });
+
+  it("restores only deleted cases", () => {
+    expect(archiveChange(deleted, "restore", now)).toMatchObject({ ok: true, changes: { deleted_at: null } });
+    expect(archiveChange(active, "restore", now)).toEqual({ ok: false, error: "Proposal is not deleted" });
+  });
+
+  it("refuses to archive or unarchive a deleted case", () => {
+    expect(archiveChange(deleted, "archive", now).ok).toBe(false);
+    expect(archiveChange({ ...deleted, archived_at: earlier }, "unarchive", now).ok).toBe(false);
+  });
+
+  it("refuses to unarchive an active case", () => {
+    expect(archiveChange(active, "unarchive", now)).toEqual({ ok: false, error: "Proposal is not archived" });
+  });
+});
+
+describe("purge retention", () => {
+  it("purges cases deleted more than the retention period ago", () => {
+    const cutoff = new Date(purgeCutoff(now));
+    expect(now.getTime() - cutoff.getTime()).toBe(DELETED_CASE_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  });
+
+  it("reports when a deleted case will be purged", () => {
+    expect(purgeDate(purgeCutoff(now))).toBe(now.toISOString());
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import { ENGINE_VERSION, calculateSavings, type CalculationOptions } from "../calculator";
+import { canReplay, replayOptions, verifyCalculation, type StoredCalculation } from "../audit";
+import { DEFAULT_ELIGIBILITY_RULES } from "../eligibility";
+import { defaultRateSet } from "../rate-sets";
+
+function store(w2Count: number, options: CalculationOptions): StoredCalculation {
+  // Round-trip through JSON like a jsonb column
+  return JSON.parse(JSON.stringify(calculateSavings(w2Count, options)));
+}
+
+describe("canReplay", () => {
+  it("accepts the current engine version only", () => {
+    expect(canReplay(ENGINE_VERSION)).toBe(true);
+    expect(canReplay("1999.01")).toBe(false);
+    expect(canReplay(null)).toBe(false);
+  });
+});
+
+describe("verifyCalculation", () => {
+  const rateSet = { ...defaultRateSet(2026), id: "rate-1" };
+
+  it("matches a flat case with every option recorded", () => {
+    const stored = store(30, {
+      rateSet,
+      stateMix: [{ state: "TX", count: 20 }, { state: "NY", count: 5 }],
+      eligibility: { rules: DEFAULT_ELIGIBILITY_RULES, exclusions: { owner: 2, below_min_wage: 3 } },
+      projection: { growth_rate: 0.05, participation_rate: 0.8, ramp: [0.5, 1] },
+      valuation: { multiple: 6, industry: "Manufacturing" },
+      scenarios: { scenarios: [{ name: "Low", participation_rate: 0.5 }, { name: "High", participation_rate: 1 }], headline: 1 },
+    });
+    expect(verifyCalculation(stored)).toEqual({
+      engine_version: ENGINE_VERSION,
+      matches: true,
+      discrepancies: [],
+    });
+  });
+
+  it("matches a census case with excluded employees", () => {
+    const stored = store(3, {
+      rateSet,
+      census: [
+        { name: "A", annual_wages: 52000, pay_frequency: "weekly", filing_status: "single", state: "VA" },
+        { annual_wages: 90000, pay_frequency: "biweekly", filing_status: "married_jointly", owner: true },
+        { annual_wages: 9000, pay_frequency: "monthly", filing_status: "single" },
+      ],
+      eligibility: { rules: DEFAULT_ELIGIBILITY_RULES },
+    });
+    expect(verifyCalculation(stored).matches).toBe(true);
+  });
+
+  it("reports tampered totals and steps", () => {
+    const stored = store(10, { rateSet });
+    stored.calc_er += 1;
+    stored.calc_steps!.find((s) => s.id === "ee")!.value = 1;
+    const report = verifyCalculation(stored);
+    expect(report.matches).toBe(false);
+    expect(report.discrepancies).toContainEqual({
+      field: "calc_er",
+      stored: 10 * 1186 + 1,
+      recomputed: 10 * 1186,
+    });
+    expect(report.discrepancies.map((d) => d.field)).toContain("step:ee");
+  });
+
+  it("reports steps missing from the stored trail", () => {
+    const stored = store(10, { rateSet });
+    stored.calc_steps = stored.calc_steps!.filter((s) => s.id !== "total");
+    expect(verifyCalculation(stored).discrepancies).toContainEqual({
+      field: "step:total",
+      stored: null,
+      recomputed: 10 * 3356,
+    });
+  });
+
+  it("throws for an engine version it cannot replay", () => {
+    const stored = { ...store(10, { rateSet }), engine_version: "1999.01" };
+    expect(() => verifyCalculation(stored)).toThrow("not available for replay");
+  });
+});
+
+describe("replayOptions", () => {
+  it("restores the flag behind each census exclusion", () => {
+    const stored = store(2, {
+      census: [
+        { annual_wages: 60000, pay_frequency: "weekly", filing_status: "single", s_corp_shareholder: true },
+        { annual_wages: 60000, pay_frequency: "weekly", filing_status: "single" },
+      ],
+      eligibility: { rules: DEFAULT_ELIGIBILITY_RULES },
+    });
+    const { options } = replayOptions(stored);
+    expect(options.census![0].s_corp_shareholder).toBe(true);
+    expect(options.census![1]).not.toHaveProperty("s_corp_shareholder");
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_BRANDING,
+  isHexColor,
+  logoFileType,
+  toBranding,
+  validateBrandingInput,
+} from "../branding";
+
+describe("isHexColor", () => {
+  it("accepts #rrggbb only", () => {
+    expect(isHexColor("#0b2043")).toBe(true);
+    expect(isHexColor("#38B6FF")).toBe(true);
+    expect(isHexColor("#fff")).toBe(false);
+    expect(isHexColor("red")).toBe(false);
+    expect(isHexColor("#0b2043; background: url(x)")).toBe(false);
+  });
+});
+
+describe("validateBrandingInput", () => {
+  it("accepts a name alone", () => {
+    expect(validateBrandingInput({ name: "Harbor Benefits" })).toEqual([]);
+  });
+
+  it("accepts full branding", () => {
+    expect(
+      validateBrandingInput({
+        name: "Harbor Benefits",
+        proposal_title: "Benefits Proposal",
+        primary_color: "#112233",
+        accent_color: "#44aaff",
+        contact_email: "hello@harbor.example",
+        contact_phone: "+1 (555) 010-0100",
+        address: "1 Main St\nBoston, MA",
+        footer_text: "Harbor Benefits LLC",
+      })
+    ).toEqual([]);
+  });
+
+  it("allows blank optional fields", () => {
+    expect(validateBrandingInput({ name: "Harbor", contact_email: "", contact_phone: null })).toEqual([]);
+  });
+
+  it("flags missing and invalid fields", () => {
+    expect(
+      validateBrandingInput({
+        name: "  ",
+        proposal_title: "x".repeat(61),
+        primary_color: "navy",
+        accent_color: "#abc",
+        contact_email: "not-an-email",
+        contact_phone: "call me",
+        address: 5,
+        footer_text: "x".repeat(501),
+      })
+    ).toEqual([
+      "Name",
+      "Proposal title",
+      "Primary color (#rrggbb)",
+      "Accent color (#rrggbb)",
+      "Contact email",
+      "Contact phone",
+      "Address",
+      "Footer text",
+    ]);
+  });
+});
+
+describe("logoFileType", () => {
+  const bytes = (...values: number[]) => new Uint8Array([...values, 0, 0, 0, 0, 0, 0, 0, 0]);
+
+  it("recognizes PNG, JPEG and WebP", () => {
+    expect(logoFileType(bytes(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a))).toEqual({
+      contentType: "image/png",
+      extension: "png",
+    });
+    expect(logoFileType(bytes(0xff, 0xd8, 0xff, 0xe0))?.contentType).toBe("image/jpeg");
+    expect(logoFileType(new TextEncoder().encode("RIFF\u0000\u0000\u0000\u0000WEBPVP8 "))?.contentType).toBe(
+      "image/webp"
+    );
+  });
+
+  it("rejects SVG and anything else", () => {
+    expect(logoFileType(new TextEncoder().encode('<svg xmlns="http://www.w3.org/2000/svg">'))).toBeNull();
+    expect(logoFileType(new TextEncoder().encode("RIFF\u0000\u0000\u0000\u0000WAVE"))).toBeNull();
+    expect(logoFileType(new Uint8Array())).toBeNull();
+  });
+});
+
+describe("toBranding", () => {
+  it("maps an organizations row", () => {
+    expect(
+      toBranding(
+        {
+          id: "org-1",
+          name: "Harbor Benefits",
+          proposal_title: "Benefits Proposal",
+          primary_color: "#112233",
+          accent_color: "#44aaff",
+          contact_email: "hello@harbor.example",
+          contact_phone: " 555-0100 ",
+          address: null,
+          footer_text: "",
+        },
+        "https://cdn.example/logo.png"
+      )
+    ).toEqual({
+      organization_id: "org-1",
+      company_name: "Harbor Benefits",
+      proposal_title: "Benefits Proposal",
+      logo_url: "https://cdn.example/logo.png",
+      primary_color: "#112233",
+      accent_color: "#44aaff",
+      contact_email: "hello@harbor.example",
+      contact_phone: "555-0100",
+      address: null,
+      footer_text: null,
+    });
+  });
+
+  it("falls back to the default title and colors", () => {
+    const branding = toBranding({ id: "org-1", name: "Harbor", proposal_title: null, primary_color: "bad" }, null);
+    expect(branding.proposal_title).toBe(DEFAULT_BRANDING.proposal_title);
+    expect(branding.primary_color).toBe(DEFAULT_BRANDING.primary_color);
+    expect(branding.accent_color).toBe(DEFAULT_BRANDING.accent_color);
+    expect(branding.logo_url).toBeNull();
+  });
+});
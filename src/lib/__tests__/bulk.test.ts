@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { bulkResultCsv, parseBulkCsv, validateBulkProspects } from "../bulk";
+import { MAX_BULK_ROWS } from "../constants";
+import { parseCsv } from "../csv";
+
+describe("parseBulkCsv", () => {
+  it("reads valid rows in any column order", () => {
+    const result = parseBulkCsv("W-2 Count,Company Name,Industry,Notes\n\"1,200\",Acme,Manufacturing,x\n30,Beta,Retail,\n");
+    expect(result.errors).toEqual([]);
+    expect(result.rows).toEqual([
+      { company_name: "Acme", industry: "Manufacturing", w2_count: 1200, line: 2, errors: [] },
+      { company_name: "Beta", industry: "Retail", w2_count: 30, line: 3, errors: [] },
+    ]);
+  });
+
+  it("reports missing columns", () => {
+    expect(parseBulkCsv("company,employees\nAcme,10").errors).toEqual(["Missing column: industry"]);
+    expect(parseBulkCsv("name\nAcme").errors).toEqual(["Missing columns: company name, industry, W-2 count"]);
+  });
+
+  it("reports an empty file or one without prospects", () => {
+    expect(parseBulkCsv("").errors).toEqual(["The file is empty"]);
+    expect(parseBulkCsv("company,industry,w2\n").errors).toEqual(["The file has no prospects"]);
+  });
+
+  it("rejects files over the row limit", () => {
+    const lines = Array.from({ length: MAX_BULK_ROWS + 1 }, (_, i) => `Co ${i},Retail,5`);
+    const result = parseBulkCsv(["company,industry,w2", ...lines].join("\n"));
+    expect(result.rows).toEqual([]);
+    expect(result.errors[0]).toMatch(/Too many rows/);
+  });
+
+  it("validates each row with the proposal rules", () => {
+    const { rows } = parseBulkCsv("company,industry,w2\n,Retail,10\nAcme,,abc\nBeta,Retail,2.5\n");
+    expect(rows[0].errors).toEqual(["Business Name"]);
+    expect(rows[1].errors).toEqual(["Industry", "W-2 Count (must be a positive whole number)"]);
+    expect(rows[1].w2_count).toBeNull();
+    expect(rows[2].errors).toEqual(["W-2 Count (must be a positive whole number)"]);
+  });
+
+  it("flags repeated company names", () => {
+    const { rows } = parseBulkCsv("company,industry,w2\nAcme,Retail,10\nacme,Retail,12\n");
+    expect(rows[0].errors).toEqual([]);
+    expect(rows[1].errors).toEqual(["Duplicate company (also on line 2)"]);
+  });
+});
+
+describe("validateBulkProspects", () => {
+  it("accepts valid prospects", () => {
+    expect(validateBulkProspects([{ company_name: "Acme", industry: "Retail", w2_count: 10 }])).toEqual([]);
+  });
+
+  it("prefixes errors with the row number", () => {
+    expect(
+      validateBulkProspects([
+        { company_name: "Acme", industry: "Retail", w2_count: 10 },
+        { company_name: "Beta", industry: "Retail", w2_count: 0 },
+        null,
+      ])
+    ).toEqual(["Row 2: W-2 Count (must be a positive whole number)", "Row 3: Prospect"]);
+  });
+
+  it("flags repeated company names, ignoring case and spacing", () => {
+    expect(
+      validateBulkProspects([
+        { company_name: "Acme", industry: "Retail", w2_count: 10 },
+        { company_name: "Beta", industry: "Retail", w2_count: 5 },
+        { company_name: " acme ", industry: "Retail", w2_count: 12 },
+      ])
+    ).toEqual(["Row 3: Duplicate company (also row 1)"]);
+  });
+
+  it("requires between one and the maximum number of rows", () => {
+    expect(validateBulkProspects([])).toHaveLength(1);
+    expect(validateBulkProspects("rows")).toHaveLength(1);
+    const tooMany = Array.from({ length: MAX_BULK_ROWS + 1 }, () => ({ company_name: "A", industry: "B", w2_count: 1 }));
+    expect(validateBulkProspects(tooMany)).toEqual([`Rows (at most ${MAX_BULK_ROWS})`]);
+  });
+});
+
+describe("bulkResultCsv", () => {
+  it("exports one row per case for mail merge", () => {
+    const csv = bulkResultCsv([
+      {
+        case_id: "case-1",
+        company_name: "Acme, Inc",
+        industry: "Retail",
+        w2_count: 10,
+        shareable_url: "https://example.com/cases/case-1?t=abc",
+        expires_at: "2026-07-01T00:00:00.000Z",
+      },
+    ]);
+    expect(parseCsv(csv)).toEqual([
+      ["company_name", "industry", "w2_count", "shareable_url", "expires_at", "case_id"],
+      ["Acme, Inc", "Retail", "10", "https://example.com/cases/case-1?t=abc", "2026-07-01T00:00:00.000Z", "case-1"],
+    ]);
+  });
+});
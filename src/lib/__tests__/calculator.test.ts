@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
-import { calculateSavings, validateInput } from "../calculator";
+import { ENGINE_VERSION, calculateSavings, validateInput } from "../calculator";
+import { DEFAULT_ELIGIBILITY_RULES } from "../eligibility";
 
 describe("calculateSavings", () => {
   it("calculates correctly for 1 W-2", () => {
@@ -47,6 +48,31 @@ describe("calculateSavings", () => {
     expect(result.calc_inputs.tax_year).toBe(new Date().getFullYear());
   });
 
+  it("records a null rate_set_id for the built-in rates", () => {
+    expect(calculateSavings(1).calc_inputs.rate_set_id).toBeNull();
+  });
+
+  it("applies a supplied rate set and records its id and tax year", () => {
+    const result = calculateSavings(10, {
+      rateSet: {
+        id: "rs-2027",
+        tax_year: 2027,
+        effective_from: "2027-01-01",
+        effective_to: null,
+        rate_total: 3400,
+        rate_er: 1200,
+        rate_ee: 2200,
+        notes: null,
+      },
+    });
+    expect(result.calc_total).toBe(34000);
+    expect(result.calc_er).toBe(12000);
+    expect(result.calc_ee).toBe(22000);
+    expect(result.calc_inputs.rate_set_id).toBe("rs-2027");
+    expect(result.calc_inputs.tax_year).toBe(2027);
+    expect(result.calc_explanation).toContain("Tax Year 2027");
+  });
+
   it("generates a non-empty explanation string", () => {
     const result = calculateSavings(10);
     expect(result.calc_explanation).toBeTruthy();
@@ -61,6 +87,253 @@ describe("calculateSavings", () => {
   });
 });
 
+describe("calculateSavings (state mix)", () => {
+  it("lowers EE for no-income-tax states and raises it for high-tax states", () => {
+    const tx = calculateSavings(10, { stateMix: [{ state: "TX", count: 10 }] });
+    const or = calculateSavings(10, { stateMix: [{ state: "OR", count: 10 }] });
+    const flat = calculateSavings(10);
+    expect(tx.calc_ee).toBeLessThan(flat.calc_ee);
+    expect(or.calc_ee).toBeGreaterThan(flat.calc_ee);
+  });
+
+  it("leaves ER savings unchanged", () => {
+    const result = calculateSavings(10, { stateMix: [{ state: "TX", count: 10 }] });
+    expect(result.calc_er).toBe(11860);
+  });
+
+  it("rolls per-state EE into calc_ee and keeps total = ER + EE", () => {
+    const result = calculateSavings(20, {
+      stateMix: [{ state: "TX", count: 12 }, { state: "CA", count: 8 }],
+    });
+    const mix = result.calc_inputs.state_mix!;
+    expect(mix).toHaveLength(2);
+    expect(result.calc_ee).toBeCloseTo(mix[0].ee + mix[1].ee, 2);
+    expect(result.calc_total).toBeCloseTo(result.calc_er + result.calc_ee, 2);
+  });
+
+  it("explains the state mix", () => {
+    const result = calculateSavings(5, { stateMix: [{ state: "FL", count: 5 }] });
+    expect(result.calc_explanation).toContain("Florida: 5");
+    expect(result.calc_explanation).toContain("no state income tax");
+  });
+
+  it("omits state_mix without a split", () => {
+    expect(calculateSavings(5).calc_inputs.state_mix).toBeUndefined();
+  });
+});
+
+describe("calculateSavings (census mode)", () => {
+  const census = [
+    { name: "Crew Lead", annual_wages: 52000, pay_frequency: "weekly" as const, filing_status: "single" as const },
+    { annual_wages: 38000, pay_frequency: "weekly" as const, filing_status: "head_of_household" as const },
+    { annual_wages: 250000, pay_frequency: "biweekly" as const, filing_status: "married_jointly" as const },
+  ];
+
+  it("uses the census size as the W-2 count", () => {
+    const result = calculateSavings(99, { census });
+    expect(result.calc_inputs.mode).toBe("census");
+    expect(result.calc_inputs.w2_count).toBe(3);
+  });
+
+  it("stores a per-employee breakdown in calc_inputs", () => {
+    const result = calculateSavings(3, { census });
+    expect(result.calc_inputs.employees).toHaveLength(3);
+    expect(result.calc_inputs.employees![0].name).toBe("Crew Lead");
+    expect(result.calc_inputs.ss_wage_base).toBeGreaterThan(0);
+  });
+
+  it("rolls employee savings up into the totals", () => {
+    const result = calculateSavings(3, { census });
+    const employees = result.calc_inputs.employees!;
+    const er = employees.reduce((s, e) => s + e.er, 0);
+    const ee = employees.reduce((s, e) => s + e.ee, 0);
+    expect(result.calc_er).toBeCloseTo(er, 2);
+    expect(result.calc_ee).toBeCloseTo(ee, 2);
+    expect(result.calc_total).toBeCloseTo(result.calc_er + result.calc_ee, 2);
+  });
+
+  it("gives different results for different wage profiles", () => {
+    const low = calculateSavings(1, {
+      census: [{ annual_wages: 30000, pay_frequency: "weekly", filing_status: "single" }],
+    });
+    const high = calculateSavings(1, {
+      census: [{ annual_wages: 300000, pay_frequency: "monthly", filing_status: "single" }],
+    });
+    expect(low.calc_er).not.toBe(high.calc_er);
+  });
+
+  it("stores average per-W-2 rates", () => {
+    const result = calculateSavings(3, { census });
+    expect(result.calc_inputs.rate_er).toBeCloseTo(result.calc_er / 3, 2);
+  });
+
+  it("explains the census calculation", () => {
+    const result = calculateSavings(3, { census });
+    expect(result.calc_explanation).toContain("census of 3 W-2 employees");
+  });
+});
+
+describe("calculateSavings (eligibility)", () => {
+  const eligibility = { rules: DEFAULT_ELIGIBILITY_RULES, exclusions: { owner: 2, below_min_wage: 3 } };
+
+  it("applies the multipliers to eligible W-2s only", () => {
+    const result = calculateSavings(25, { eligibility });
+    expect(result.calc_er).toBe(20 * 1186);
+    expect(result.calc_ee).toBe(20 * 2170);
+    expect(result.calc_inputs.w2_count).toBe(25);
+    expect(result.calc_inputs.eligibility!.eligible_count).toBe(20);
+  });
+
+  it("explains the exclusions", () => {
+    const result = calculateSavings(25, { eligibility });
+    expect(result.calc_explanation).toContain("20 eligible of 25 W-2 employees");
+    expect(result.calc_explanation).toContain("Excluded: Owners 2, Below minimum wage threshold 3");
+  });
+
+  it("lists excluded census employees with no savings", () => {
+    const result = calculateSavings(3, {
+      census: [
+        { annual_wages: 52000, pay_frequency: "weekly", filing_status: "single" },
+        { annual_wages: 120000, pay_frequency: "weekly", filing_status: "single", owner: true },
+        { annual_wages: 9000, pay_frequency: "weekly", filing_status: "single" },
+      ],
+      eligibility: { rules: DEFAULT_ELIGIBILITY_RULES },
+    });
+    const employees = result.calc_inputs.employees!;
+    expect(employees.map((e) => e.excluded_reason)).toEqual([null, "owner", "below_min_wage"]);
+    expect(employees[1].total).toBe(0);
+    expect(result.calc_er).toBe(employees[0].er);
+    expect(result.calc_inputs.rate_er).toBe(employees[0].er);
+    expect(result.calc_inputs.w2_count).toBe(3);
+  });
+});
+
+describe("calculateSavings (projection)", () => {
+  it("includes a flat five-year projection by default", () => {
+    const result = calculateSavings(10);
+    expect(result.calc_projection.years).toHaveLength(5);
+    expect(result.calc_projection.years[0].total).toBe(result.calc_total);
+    expect(result.calc_projection.years[4].cumulative_total).toBeCloseTo(5 * result.calc_total, 2);
+  });
+
+  it("applies the supplied assumptions", () => {
+    const projection = { growth_rate: 0.1, participation_rate: 0.5, ramp: [0.5, 1] };
+    const result = calculateSavings(20, { projection });
+    expect(result.calc_projection.assumptions).toEqual(projection);
+    expect(result.calc_projection.years[0].participants).toBe(5);
+  });
+
+  it("projects from eligible employees only", () => {
+    const result = calculateSavings(25, {
+      eligibility: { rules: DEFAULT_ELIGIBILITY_RULES, exclusions: { owner: 5 } },
+    });
+    expect(result.calc_projection.years[0].headcount).toBe(20);
+  });
+});
+
+describe("calculateSavings (valuation)", () => {
+  it("computes the valuation uplift from employer savings", () => {
+    const result = calculateSavings(20, { valuation: { multiple: 6, industry: "Manufacturing" } });
+    expect(result.calc_inputs.valuation).toEqual({
+      ebitda_multiple: 6,
+      multiple_industry: "Manufacturing",
+      ebitda_increase: result.calc_er,
+      valuation_uplift: result.calc_er * 6,
+    });
+  });
+
+  it("explains the valuation uplift", () => {
+    const result = calculateSavings(20, { valuation: { multiple: 5, industry: null } });
+    expect(result.calc_explanation).toContain("× 5x EBITDA multiple");
+  });
+
+  it("omits valuation without a multiple", () => {
+    expect(calculateSavings(20).calc_inputs.valuation).toBeUndefined();
+  });
+});
+
+describe("calculateSavings (scenarios)", () => {
+  const scenarios = {
+    scenarios: [
+      { name: "Low", participation_rate: 0.5 },
+      { name: "Expected", participation_rate: 0.75 },
+    ],
+    headline: 1,
+  };
+
+  it("uses the headline scenario as the proposal totals", () => {
+    const result = calculateSavings(20, { scenarios });
+    expect(result.calc_scenarios).toHaveLength(2);
+    expect(result.calc_er).toBe(15 * 1186);
+    expect(result.calc_ee).toBe(15 * 2170);
+    expect(result.calc_total).toBe(result.calc_er + result.calc_ee);
+  });
+
+  it("bases the valuation on the headline scenario", () => {
+    const result = calculateSavings(20, { scenarios, valuation: { multiple: 5, industry: null } });
+    expect(result.calc_inputs.valuation!.ebitda_increase).toBe(15 * 1186);
+  });
+
+  it("keeps the projection at full participation", () => {
+    const result = calculateSavings(20, { scenarios });
+    expect(result.calc_projection.years[0].er).toBe(20 * 1186);
+  });
+
+  it("lists the scenarios in the explanation", () => {
+    const result = calculateSavings(20, { scenarios });
+    expect(result.calc_explanation).toContain("headline: Expected");
+    expect(result.calc_explanation).toContain("Low: 50% of 20 = 10 participants");
+  });
+
+  it("records null scenarios when none are given", () => {
+    expect(calculateSavings(20).calc_scenarios).toBeNull();
+  });
+});
+
+describe("calculateSavings (audit steps)", () => {
+  const stepValue = (result: ReturnType<typeof calculateSavings>, id: string) =>
+    result.calc_steps.find((s) => s.id === id)?.value;
+
+  it("records the engine version", () => {
+    expect(calculateSavings(5).engine_version).toBe(ENGINE_VERSION);
+  });
+
+  it("records ER, EE and total steps that match the totals", () => {
+    const result = calculateSavings(20);
+    expect(stepValue(result, "er")).toBe(result.calc_er);
+    expect(stepValue(result, "ee")).toBe(result.calc_ee);
+    expect(stepValue(result, "total")).toBe(result.calc_total);
+    expect(result.calc_steps.find((s) => s.id === "er")!.inputs).toEqual({ count: 20, rate_er: 1186 });
+  });
+
+  it("records a step per state in a state mix", () => {
+    const result = calculateSavings(25, { stateMix: [{ state: "TX", count: 20 }, { state: "NY", count: 5 }] });
+    expect(stepValue(result, "ee_TX")).toBe(result.calc_inputs.state_mix![0].ee);
+    expect(stepValue(result, "ee_NY")).toBe(result.calc_inputs.state_mix![1].ee);
+  });
+
+  it("records a step per census employee", () => {
+    const result = calculateSavings(2, {
+      census: [
+        { annual_wages: 52000, pay_frequency: "weekly", filing_status: "single" },
+        { annual_wages: 38000, pay_frequency: "weekly", filing_status: "single" },
+      ],
+    });
+    expect(stepValue(result, "employee_1")).toBe(result.calc_inputs.employees![0].total);
+    expect(stepValue(result, "employee_2")).toBe(result.calc_inputs.employees![1].total);
+  });
+
+  it("records scenario, headline and valuation steps", () => {
+    const result = calculateSavings(20, {
+      scenarios: { scenarios: [{ name: "Half", participation_rate: 0.5 }], headline: 0 },
+      valuation: { multiple: 5, industry: null },
+    });
+    expect(stepValue(result, "scenario_1")).toBe(result.calc_total);
+    expect(stepValue(result, "headline_total")).toBe(result.calc_total);
+    expect(stepValue(result, "valuation_uplift")).toBe(result.calc_er * 5);
+  });
+});
+
 describe("validateInput", () => {
   const valid = {
     company_name: "Acme Corp",
@@ -153,6 +426,132 @@ describe("validateInput", () => {
     expect(validateInput({ ...valid, w2_count: 100000 })).toEqual([]);
   });
 
+  // Census mode
+  it("accepts a valid census in place of the W-2 count", () => {
+    const errors = validateInput({
+      ...valid,
+      w2_count: undefined,
+      census: [{ annual_wages: 40000, pay_frequency: "weekly", filing_status: "single" }],
+    });
+    expect(errors).toEqual([]);
+  });
+
+  it("rejects an empty census", () => {
+    const errors = validateInput({ ...valid, census: [] });
+    expect(errors).toContain("Census (must list at least one employee)");
+  });
+
+  it("reports invalid census rows by row number", () => {
+    const errors = validateInput({
+      ...valid,
+      census: [
+        { annual_wages: 40000, pay_frequency: "weekly", filing_status: "single" },
+        { annual_wages: -1, pay_frequency: "daily", filing_status: "single" },
+      ],
+    });
+    expect(errors).toContain("Census row 2 (annual wages must be a positive number)");
+    expect(errors).toContain("Census row 2 (invalid pay frequency)");
+    expect(errors.some((e) => e.startsWith("Census row 1"))).toBe(false);
+  });
+
+  it("rejects an invalid census state", () => {
+    const errors = validateInput({
+      ...valid,
+      census: [{ annual_wages: 40000, pay_frequency: "weekly", filing_status: "single", state: "ZZ" }],
+    });
+    expect(errors).toContain("Census row 1 (invalid state)");
+  });
+
+  // State mix
+  it("accepts a state mix matching the W-2 count", () => {
+    expect(
+      validateInput({ ...valid, state_mix: [{ state: "TX", count: 20 }, { state: "NY", count: 5 }] })
+    ).toEqual([]);
+  });
+
+  it("rejects a state mix that does not match the W-2 count", () => {
+    const errors = validateInput({ ...valid, state_mix: [{ state: "TX", count: 20 }] });
+    expect(errors).toContain("State Mix (headcounts add up to 20, expected 25)");
+  });
+
+  // Eligibility
+  it("accepts eligibility rules with exclusion counts", () => {
+    expect(
+      validateInput({ ...valid, eligibility_rules: DEFAULT_ELIGIBILITY_RULES, exclusions: { owner: 2 } })
+    ).toEqual([]);
+  });
+
+  it("rejects exclusions that leave no eligible employees", () => {
+    const errors = validateInput({
+      ...valid,
+      eligibility_rules: DEFAULT_ELIGIBILITY_RULES,
+      exclusions: { owner: 25 },
+    });
+    expect(errors).toContain("Eligibility (no eligible employees remain after exclusions)");
+  });
+
+  it("rejects a census where every employee is excluded", () => {
+    const errors = validateInput({
+      ...valid,
+      census: [{ annual_wages: 40000, pay_frequency: "weekly", filing_status: "single", owner: true }],
+      eligibility_rules: DEFAULT_ELIGIBILITY_RULES,
+    });
+    expect(errors).toContain("Eligibility (no eligible employees remain after exclusions)");
+  });
+
+  it("rejects non-boolean census eligibility flags", () => {
+    const errors = validateInput({
+      ...valid,
+      census: [{ annual_wages: 40000, pay_frequency: "weekly", filing_status: "single", part_time: "yes" }],
+    });
+    expect(errors).toContain("Census row 1 (part_time must be true or false)");
+  });
+
+  it("checks the state mix against the eligible count", () => {
+    const errors = validateInput({
+      ...valid,
+      state_mix: [{ state: "TX", count: 25 }],
+      eligibility_rules: DEFAULT_ELIGIBILITY_RULES,
+      exclusions: { owner: 5 },
+    });
+    expect(errors).toContain("State Mix (headcounts add up to 25, expected 20)");
+  });
+
+  it("checks scenario headcounts against the eligible count", () => {
+    const errors = validateInput({
+      ...valid,
+      eligibility_rules: DEFAULT_ELIGIBILITY_RULES,
+      exclusions: { owner: 5 },
+      scenarios: [{ name: "Everyone", participation_rate: 1, headcount: 25 }],
+      headline_scenario: 0,
+    });
+    expect(errors).toEqual(["Scenario 1 (headcount can't exceed the 20 eligible employees)"]);
+  });
+
+  // Projection
+  it("rejects invalid projection assumptions", () => {
+    const errors = validateInput({ ...valid, projection: { growth_rate: 0, participation_rate: 2, ramp: [1] } });
+    expect(errors).toContain("Projection Participation (must be between 0 and 100%)");
+  });
+
+  // EBITDA multiple
+  it("rejects an invalid EBITDA multiple", () => {
+    expect(validateInput({ ...valid, ebitda_multiple: 0 })).toContain(
+      "EBITDA Multiple (must be greater than 0 and at most 50)"
+    );
+    expect(validateInput({ ...valid, ebitda_multiple: 6.5 })).toEqual([]);
+  });
+
+  // Scenarios
+  it("validates scenarios and the headline index", () => {
+    expect(
+      validateInput({ ...valid, scenarios: [{ name: "Low", participation_rate: 0.5 }], headline_scenario: 0 })
+    ).toEqual([]);
+    expect(
+      validateInput({ ...valid, scenarios: [{ name: "Low", participation_rate: 0.5 }], headline_scenario: 2 })
+    ).toContain("Headline Scenario");
+  });
+
   // Multiple errors
   it("reports multiple missing fields at once", () => {
     const errors = validateInput({
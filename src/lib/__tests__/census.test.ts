@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { calculateEmployeeSavings } from "../census";
+import { roundCents } from "../money";
+import { getFederalTaxTable } from "../tax-tables";
+
+const table = getFederalTaxTable(2025);
+
+describe("calculateEmployeeSavings", () => {
+  it("saves employer FICA on the full annual deduction", () => {
+    const result = calculateEmployeeSavings(
+      { annual_wages: 50000, pay_frequency: "monthly", filing_status: "single" },
+      table
+    );
+    expect(result.annual_deduction).toBe(15516);
+    expect(result.er).toBe(1186.97);
+    expect(result.ee_fica).toBe(1186.97);
+    expect(result.ee_withholding).toBeGreaterThan(0);
+  });
+
+  it("only saves Medicare when wages stay above the SS wage base", () => {
+    const result = calculateEmployeeSavings(
+      { annual_wages: 300000, pay_frequency: "biweekly", filing_status: "single" },
+      table
+    );
+    expect(result.er).toBe(224.98);
+  });
+
+  it("saves partial Social Security when the deduction crosses the wage base", () => {
+    const result = calculateEmployeeSavings(
+      { annual_wages: 180000, pay_frequency: "biweekly", filing_status: "single" },
+      table
+    );
+    // SS on 176,100 - 164,484 = 11,616; Medicare on 15,516
+    expect(result.er).toBe(roundCents(11616 * 0.062 + 15516 * 0.0145));
+  });
+
+  it("caps the deduction at annual wages", () => {
+    const result = calculateEmployeeSavings(
+      { annual_wages: 10000, pay_frequency: "weekly", filing_status: "single" },
+      table
+    );
+    expect(result.annual_deduction).toBe(10000);
+    expect(result.ee_withholding).toBe(0);
+  });
+
+  it("total always equals ER + EE", () => {
+    for (const wages of [20000, 45000, 90000, 175000, 400000]) {
+      const result = calculateEmployeeSavings(
+        { annual_wages: wages, pay_frequency: "semimonthly", filing_status: "married_jointly" },
+        table
+      );
+      expect(result.total).toBe(roundCents(result.er + result.ee));
+    }
+  });
+
+  it("keeps the trimmed name or null", () => {
+    const named = calculateEmployeeSavings(
+      { name: "  Jane  ", annual_wages: 40000, pay_frequency: "monthly", filing_status: "single" },
+      table
+    );
+    const anonymous = calculateEmployeeSavings(
+      { annual_wages: 40000, pay_frequency: "monthly", filing_status: "single" },
+      table
+    );
+    expect(named.name).toBe("Jane");
+    expect(anonymous.name).toBeNull();
+  });
+});
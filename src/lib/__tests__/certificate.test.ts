@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import {
+  type AcceptanceRecord,
+  type CalculationSnapshot,
+  acceptanceCertificate,
+  certificateBody,
+  snapshotHash,
+  templateContentHash,
+  verifyCertificate,
+} from "../certificate";
+import { calculateProposal } from "../proposal";
+import { defaultRateSet } from "../rate-sets";
+
+const secret = "test-secret";
+const calculation = calculateProposal(
+  { company_name: "Acme", industry: "Manufacturing", w2_count: 30 },
+  { ...defaultRateSet(2026), id: "rate-1" }
+);
+
+const snapshot: CalculationSnapshot = {
+  company_name: "Acme",
+  industry: "Manufacturing",
+  revision: 2,
+  calc_total: calculation.calc_total,
+  calc_er: calculation.calc_er,
+  calc_ee: calculation.calc_ee,
+  calc_inputs: calculation.calc_inputs,
+  calc_scenarios: null,
+  calc_projection: null,
+  paycheck_inputs: null,
+};
+
+const record: AcceptanceRecord = {
+  id: "acc-1",
+  case_id: "case-1",
+  signer_name: "Jane Doe",
+  signer_title: "CFO",
+  signer_email: "jane@acme.com",
+  signature: "Jane Doe",
+  terms_version: "2026-10",
+  ip_hash: "abc123",
+  calc_snapshot: snapshot,
+  snapshot_hash: snapshotHash(snapshot),
+  accepted_at: "2026-10-01T15:30:00+00:00",
+};
+
+describe("snapshotHash", () => {
+  it("does not depend on key order", () => {
+    const reordered = Object.fromEntries(Object.entries(snapshot).reverse()) as CalculationSnapshot;
+    expect(snapshotHash(reordered)).toBe(snapshotHash(snapshot));
+  });
+
+  it("changes when any figure changes", () => {
+    expect(snapshotHash({ ...snapshot, calc_er: snapshot.calc_er + 0.01 })).not.toBe(snapshotHash(snapshot));
+  });
+});
+
+describe("certificateBody", () => {
+  it("includes the signer, terms and accepted figures", () => {
+    const body = certificateBody(record);
+    expect(body).toContain("Name: Jane Doe");
+    expect(body).toContain("Signature: /s/ Jane Doe");
+    expect(body).toContain("Terms version: 2026-10");
+    expect(body).toContain("Proposal revision: 2");
+    expect(body).toContain("Accepted at (UTC): 2026-10-01T15:30:00.000Z");
+    expect(body).toContain(`Snapshot SHA-256: ${record.snapshot_hash}`);
+    expect(body).not.toContain("Template version");
+  });
+});
+
+describe("templateContentHash", () => {
+  it("does not depend on key order", () => {
+    const a = { sections: [{ title: "Overview", blocks: [{ type: "paragraph" as const, text: "Hi" }] }] };
+    const b = { sections: [{ blocks: [{ text: "Hi", type: "paragraph" as const }], title: "Overview" }] };
+    expect(templateContentHash(a)).toBe(templateContentHash(b));
+  });
+
+  it("is listed on the certificate with the template version", () => {
+    const content = { sections: [{ title: "Overview", blocks: [] }] };
+    const body = certificateBody({
+      ...record,
+      calc_snapshot: {
+        ...snapshot,
+        template: { id: "tpl-1", version_id: "ver-3", content_hash: templateContentHash(content) },
+      },
+    });
+    expect(body).toContain("Template version: ver-3");
+    expect(body).toContain(`Template SHA-256: ${templateContentHash(content)}`);
+  });
+});
+
+describe("verifyCertificate", () => {
+  const certificate = acceptanceCertificate(record, secret);
+
+  it("verifies an unaltered certificate", () => {
+    expect(verifyCertificate(certificate, secret)).toBe(true);
+  });
+
+  it("rejects a different secret", () => {
+    expect(verifyCertificate(certificate, "other-secret")).toBe(false);
+  });
+
+  it("rejects an edited certificate", () => {
+    expect(verifyCertificate(certificate.replace("Jane Doe", "John Doe"), secret)).toBe(false);
+  });
+
+  it("rejects a certificate without a signature", () => {
+    expect(verifyCertificate(certificateBody(record), secret)).toBe(false);
+  });
+});
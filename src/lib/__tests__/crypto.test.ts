@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { hashWithPepper, generateToken } from "../crypto";
+import { hashWithPepper, generateToken, issueLinkToken } from "../crypto";
 
 describe("hashWithPepper", () => {
   it("returns a 64-char hex string (SHA-256)", () => {
@@ -64,3 +64,11 @@ describe("generateToken", () => {
     expect(token.length).toBe(64);
   });
 });
+
+describe("issueLinkToken", () => {
+  it("returns a raw token and its peppered hash", () => {
+    const { rawToken, tokenHash } = issueLinkToken("pepper");
+    expect(rawToken).toMatch(/^[a-f0-9]{64}$/);
+    expect(tokenHash).toBe(hashWithPepper(rawToken, "pepper"));
+  });
+});
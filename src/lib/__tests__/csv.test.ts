@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { parseCsv, toCsv } from "../csv";
+
+describe("parseCsv", () => {
+  it("splits rows and cells", () => {
+    expect(parseCsv("a,b\n1,2\n")).toEqual([["a", "b"], ["1", "2"]]);
+  });
+
+  it("handles quoted commas, quotes and newlines", () => {
+    expect(parseCsv('name,note\n"Acme, Inc","say ""hi""\nthere"')).toEqual([
+      ["name", "note"],
+      ["Acme, Inc", 'say "hi"\nthere'],
+    ]);
+  });
+
+  it("handles CRLF, a BOM and blank lines", () => {
+    expect(parseCsv("\uFEFFa,b\r\n\r\n1,2\r\n,\r\n")).toEqual([["a", "b"], ["1", "2"]]);
+  });
+
+  it("keeps empty cells", () => {
+    expect(parseCsv("a,,c")).toEqual([["a", "", "c"]]);
+  });
+});
+
+describe("toCsv", () => {
+  it("quotes cells that need it", () => {
+    expect(toCsv([["Acme, Inc", 'say "hi"', 12, null]])).toBe('"Acme, Inc","say ""hi""",12,\r\n');
+  });
+
+  it("neutralizes spreadsheet formulas in text cells", () => {
+    expect(toCsv([["=HYPERLINK(\"x\")", "-5", "@sum"]])).toBe("\"'=HYPERLINK(\"\"x\"\")\",'-5,'@sum\r\n");
+  });
+
+  it("leaves negative numbers alone", () => {
+    expect(toCsv([[-5]])).toBe("-5\r\n");
+  });
+
+  it("round-trips through parseCsv", () => {
+    const rows = [["company", "url"], ["Acme, Inc", "https://example.com/cases/1?t=abc"]];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_ELIGIBILITY_RULES,
+  type EligibilityRules,
+  exclusionReason,
+  censusEligibility,
+  flatEligibility,
+  validateEligibility,
+} from "../eligibility";
+
+const NO_RULES: EligibilityRules = {
+  min_annual_wage: null,
+  exclude_part_time: false,
+  exclude_seasonal: false,
+  exclude_s_corp_shareholders: false,
+  exclude_owners: false,
+};
+
+describe("exclusionReason", () => {
+  it("returns null for an eligible employee", () => {
+    expect(exclusionReason({ annual_wages: 40000 }, DEFAULT_ELIGIBILITY_RULES)).toBeNull();
+  });
+
+  it("excludes employees below the minimum wage threshold", () => {
+    expect(exclusionReason({ annual_wages: 10000 }, DEFAULT_ELIGIBILITY_RULES)).toBe("below_min_wage");
+  });
+
+  it("uses the first matching reason in priority order", () => {
+    expect(
+      exclusionReason({ annual_wages: 10000, owner: true, part_time: true }, DEFAULT_ELIGIBILITY_RULES)
+    ).toBe("owner");
+  });
+
+  it("ignores flags the rules do not exclude", () => {
+    expect(exclusionReason({ annual_wages: 40000, part_time: true }, DEFAULT_ELIGIBILITY_RULES)).toBeNull();
+    expect(
+      exclusionReason({ annual_wages: 40000, part_time: true }, { ...NO_RULES, exclude_part_time: true })
+    ).toBe("part_time");
+  });
+
+  it("applies no threshold when the minimum wage is null", () => {
+    expect(exclusionReason({ annual_wages: 1000 }, NO_RULES)).toBeNull();
+  });
+});
+
+describe("censusEligibility", () => {
+  it("counts eligible and excluded employees by reason", () => {
+    const summary = censusEligibility(
+      [
+        { annual_wages: 40000 },
+        { annual_wages: 90000, owner: true },
+        { annual_wages: 5000 },
+        { annual_wages: 8000 },
+      ],
+      DEFAULT_ELIGIBILITY_RULES
+    );
+    expect(summary.total_count).toBe(4);
+    expect(summary.eligible_count).toBe(1);
+    expect(summary.excluded_count).toBe(3);
+    expect(summary.exclusions).toEqual([
+      { reason: "owner", count: 1 },
+      { reason: "below_min_wage", count: 2 },
+    ]);
+  });
+});
+
+describe("flatEligibility", () => {
+  it("subtracts rep-entered exclusion counts", () => {
+    const summary = flatEligibility(25, { owner: 2, below_min_wage: 3 }, DEFAULT_ELIGIBILITY_RULES);
+    expect(summary.eligible_count).toBe(20);
+    expect(summary.excluded_count).toBe(5);
+  });
+
+  it("ignores counts for reasons the rules do not exclude", () => {
+    const summary = flatEligibility(25, { seasonal: 4 }, DEFAULT_ELIGIBILITY_RULES);
+    expect(summary.eligible_count).toBe(25);
+    expect(summary.exclusions).toEqual([]);
+  });
+});
+
+describe("validateEligibility", () => {
+  it("accepts the default rules", () => {
+    expect(validateEligibility(DEFAULT_ELIGIBILITY_RULES)).toEqual([]);
+  });
+
+  it("rejects a negative minimum wage", () => {
+    expect(validateEligibility({ ...NO_RULES, min_annual_wage: -1 })).toContain(
+      "Eligibility Minimum Wage (must be zero or more)"
+    );
+  });
+
+  it("rejects non-boolean rule flags", () => {
+    expect(validateEligibility({ ...NO_RULES, exclude_owners: "yes" })).toContain(
+      "Eligibility Rules (exclude_owners must be true or false)"
+    );
+  });
+
+  it("rejects unknown reasons and invalid counts", () => {
+    const errors = validateEligibility(NO_RULES, { contractor: 1, owner: 1.5 });
+    expect(errors).toContain("Exclusions (unknown reason contractor)");
+    expect(errors).toContain("Exclusions (Owners must be a whole number)");
+  });
+});
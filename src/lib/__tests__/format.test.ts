@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { formatUSD } from "../format";
+import { formatMoneyCell, formatUSD } from "../format";
 
 describe("formatUSD", () => {
   it("formats a positive number as USD", () => {
@@ -18,29 +18,26 @@ describe("formatUSD", () => {
     expect(formatUSD(1000000)).toBe("$1,000,000.00");
   });
 
-  it("formats string numbers", () => {
-    expect(formatUSD("67140")).toBe("$67,140.00");
+  it("throws on NaN instead of formatting it as zero", () => {
+    expect(() => formatUSD(NaN)).toThrow(RangeError);
   });
 
-  it("handles null", () => {
-    expect(formatUSD(null)).toBe("$0.00");
+  it("throws on Infinity", () => {
+    expect(() => formatUSD(Infinity)).toThrow(RangeError);
   });
 
-  it("handles undefined", () => {
-    expect(formatUSD(undefined)).toBe("$0.00");
+  it("rounds to 2 decimal places", () => {
+    expect(formatUSD(1.999)).toBe("$2.00");
+    expect(formatUSD(1.004)).toBe("$1.00");
   });
 
-  it("handles NaN string", () => {
-    expect(formatUSD("not-a-number")).toBe("$0.00");
+  it("rounds half-cents away from zero", () => {
+    expect(formatUSD(1.005)).toBe("$1.01");
+    expect(formatUSD(-1.005)).toBe("-$1.01");
   });
 
-  it("handles empty string", () => {
-    expect(formatUSD("")).toBe("$0.00");
-  });
-
-  it("rounds to 2 decimal places", () => {
-    expect(formatUSD(1.999)).toBe("$2.00");
-    expect(formatUSD(1.004)).toBe("$1.00");
+  it("never formats negative zero", () => {
+    expect(formatUSD(-0.001)).toBe("$0.00");
   });
 
   it("formats the exact per-W2 rates correctly", () => {
@@ -49,3 +46,15 @@ describe("formatUSD", () => {
     expect(formatUSD(2170)).toBe("$2,170.00");
   });
 });
+
+describe("formatMoneyCell", () => {
+  it("formats numeric columns returned as strings", () => {
+    expect(formatMoneyCell("67140.00")).toBe("$67,140.00");
+    expect(formatMoneyCell(1186)).toBe("$1,186.00");
+  });
+
+  it("shows a dash for missing values", () => {
+    expect(formatMoneyCell(null)).toBe("—");
+    expect(formatMoneyCell(undefined)).toBe("—");
+  });
+});
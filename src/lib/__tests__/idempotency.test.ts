@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import {
+  MAX_IDEMPOTENCY_KEY_LENGTH,
+  canonicalJson,
+  duplicateWindowStart,
+  requestFingerprint,
+  validateIdempotencyKey,
+} from "../idempotency";
+
+describe("canonicalJson", () => {
+  it("sorts keys at every level", () => {
+    expect(canonicalJson({ b: 1, a: { d: [1, { z: 1, y: 2 }], c: "x" } })).toBe(
+      '{"a":{"c":"x","d":[1,{"y":2,"z":1}]},"b":1}'
+    );
+  });
+
+  it("drops undefined properties like JSON.stringify", () => {
+    expect(canonicalJson({ a: undefined, b: null })).toBe('{"b":null}');
+    expect(canonicalJson([undefined])).toBe("[null]");
+  });
+});
+
+describe("requestFingerprint", () => {
+  const body = { company_name: "Acme", industry: "Retail", w2_count: 10 };
+
+  it("ignores key order", () => {
+    const reordered = { w2_count: 10, industry: "Retail", company_name: "Acme" };
+    expect(requestFingerprint(reordered, "pepper")).toBe(requestFingerprint(body, "pepper"));
+  });
+
+  it("changes with the input and the pepper", () => {
+    const base = requestFingerprint(body, "pepper");
+    expect(requestFingerprint({ ...body, w2_count: 11 }, "pepper")).not.toBe(base);
+    expect(requestFingerprint(body, "other")).not.toBe(base);
+  });
+});
+
+describe("validateIdempotencyKey", () => {
+  it("accepts a missing key or a UUID", () => {
+    expect(validateIdempotencyKey(null)).toEqual([]);
+    expect(validateIdempotencyKey("5f0c9d62-8c1e-4f7a-9b8e-2f4c1a7d3e90")).toEqual([]);
+  });
+
+  it("rejects empty, spaced or oversized keys", () => {
+    for (const key of ["", "has space", "x".repeat(MAX_IDEMPOTENCY_KEY_LENGTH + 1)]) {
+      expect(validateIdempotencyKey(key)).toHaveLength(1);
+    }
+  });
+});
+
+describe("duplicateWindowStart", () => {
+  it("is the window length before now", () => {
+    expect(duplicateWindowStart(new Date("2026-06-01T12:00:00Z"))).toBe("2026-06-01T11:59:00.000Z");
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_BRANDING } from "../branding";
+import { escapeHtml, renderLinkStatePage } from "../link-state-page";
+
+const branding = {
+  ...DEFAULT_BRANDING,
+  organization_id: "org-1",
+  company_name: "Harbor <Benefits>",
+  primary_color: "#123456",
+  contact_email: "hello@harbor.example",
+};
+
+describe("renderLinkStatePage", () => {
+  it("shows the state in the owner's branding", () => {
+    const html = renderLinkStatePage({ ok: false, state: "expired", branding });
+    expect(html.startsWith("<!DOCTYPE html>")).toBe(true);
+    expect(html).toContain("<h1>Link Expired</h1>");
+    expect(html).toContain("Harbor &lt;Benefits&gt;");
+    expect(html).not.toContain("<Benefits>");
+    expect(html).toContain('href="mailto:hello@harbor.example"');
+  });
+
+  it("falls back to the default branding before the token checks out", () => {
+    const html = renderLinkStatePage({ ok: false, state: "error" });
+    expect(html).toContain("Something Went Wrong");
+    expect(html).toContain(escapeHtml(DEFAULT_BRANDING.company_name));
+  });
+
+  it("asks for the passcode with a form that posts back to the page", () => {
+    const html = renderLinkStatePage({ ok: false, state: "passcode_required", branding });
+    expect(html).toContain('<form method="post"');
+    expect(html).not.toContain("action=");
+    expect(html).toContain('name="passcode"');
+    expect(html).toContain("background: #123456");
+    expect(html).not.toContain("Incorrect passcode");
+  });
+
+  it("counts down the remaining attempts", () => {
+    const html = renderLinkStatePage({ ok: false, state: "passcode_incorrect", attempts_remaining: 1, branding });
+    expect(html).toContain("Incorrect passcode. 1 attempt remaining.");
+  });
+
+  it("says how long a lockout lasts without a time zone", () => {
+    const now = new Date("2026-10-19T12:00:00Z");
+    const html = renderLinkStatePage(
+      { ok: false, state: "locked", locked_until: "2026-10-19T12:14:30Z", branding },
+      now
+    );
+    expect(html).toContain("Try again in 15 minutes.");
+  });
+});
+
+describe("escapeHtml", () => {
+  it("escapes markup and attribute quotes", () => {
+    expect(escapeHtml(`<a href="x">O'Neil & co</a>`)).toBe("&lt;a href=&quot;x&quot;&gt;O&#39;Neil &amp; co&lt;/a&gt;");
+  });
+});
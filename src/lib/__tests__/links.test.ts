@@ -0,0 +1,105 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import {
+  MAX_LINK_EXPIRY_DAYS,
+  MAX_LINK_LABEL_LENGTH,
+  caseLinkUrl,
+  linkExpiresAt,
+  linkLabel,
+  linkStatus,
+  validateLinkAction,
+  validateNewLink,
+} from "../links";
+
+describe("linkStatus", () => {
+  const now = new Date("2026-06-01T12:00:00Z");
+
+  it("is active before expiry", () => {
+    expect(linkStatus({ expires_at: "2026-06-02T00:00:00Z", revoked_at: null }, now)).toBe("active");
+  });
+
+  it("is expired after expiry", () => {
+    expect(linkStatus({ expires_at: "2026-05-31T00:00:00Z", revoked_at: null }, now)).toBe("expired");
+  });
+
+  it("reports revoked ahead of expired", () => {
+    expect(
+      linkStatus({ expires_at: "2026-05-31T00:00:00Z", revoked_at: "2026-05-01T00:00:00Z" }, now)
+    ).toBe("revoked");
+  });
+});
+
+describe("linkExpiresAt", () => {
+  it("adds whole days", () => {
+    expect(linkExpiresAt(7, new Date("2026-06-01T12:00:00Z"))).toBe("2026-06-08T12:00:00.000Z");
+  });
+
+  it("defaults to LINK_EXPIRY_DAYS", () => {
+    expect(linkExpiresAt(undefined, new Date("2026-06-01T00:00:00Z"))).toBe("2026-07-01T00:00:00.000Z");
+  });
+});
+
+describe("caseLinkUrl", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("uses APP_BASE_URL when set", () => {
+    vi.stubEnv("APP_BASE_URL", "https://deck.example.com");
+    expect(caseLinkUrl("case-1", "abc")).toBe("https://deck.example.com/cases/case-1?t=abc");
+  });
+
+  it("falls back to the Vercel deployment URL", () => {
+    vi.stubEnv("APP_BASE_URL", "");
+    vi.stubEnv("NEXT_PUBLIC_VERCEL_URL", "deck.vercel.app");
+    expect(caseLinkUrl("case-1", "abc")).toBe("https://deck.vercel.app/cases/case-1?t=abc");
+  });
+});
+
+describe("validateLinkAction", () => {
+  it("accepts each action, with or without days", () => {
+    expect(validateLinkAction({ action: "revoke" })).toEqual([]);
+    expect(validateLinkAction({ action: "extend", days: 14 })).toEqual([]);
+    expect(validateLinkAction({ action: "rotate", days: MAX_LINK_EXPIRY_DAYS })).toEqual([]);
+  });
+
+  it("rejects unknown actions", () => {
+    expect(validateLinkAction({ action: "delete" })).toEqual([
+      "Action (must be one of revoke, extend, rotate)",
+    ]);
+  });
+
+  it("rejects out-of-range or fractional days", () => {
+    for (const days of [0, -1, 1.5, MAX_LINK_EXPIRY_DAYS + 1, "30"]) {
+      expect(validateLinkAction({ action: "extend", days })).toEqual([
+        `Days (must be a whole number from 1 to ${MAX_LINK_EXPIRY_DAYS})`,
+      ]);
+    }
+  });
+});
+
+describe("validateNewLink", () => {
+  it("accepts a label with optional days", () => {
+    expect(validateNewLink({ label: "CFO – Jane" })).toEqual([]);
+    expect(validateNewLink({ label: "HR", days: 7 })).toEqual([]);
+  });
+
+  it("requires a non-blank label within the length limit", () => {
+    const error = `Label (required, up to ${MAX_LINK_LABEL_LENGTH} characters)`;
+    expect(validateNewLink({ label: "  " })).toEqual([error]);
+    expect(validateNewLink({ label: undefined })).toEqual([error]);
+    expect(validateNewLink({ label: "x".repeat(MAX_LINK_LABEL_LENGTH + 1) })).toEqual([error]);
+  });
+
+  it("validates days like link actions", () => {
+    expect(validateNewLink({ label: "CFO", days: 0 })).toEqual([
+      `Days (must be a whole number from 1 to ${MAX_LINK_EXPIRY_DAYS})`,
+    ]);
+  });
+});
+
+describe("linkLabel", () => {
+  it("names the unlabeled link as the original", () => {
+    expect(linkLabel({ label: null })).toBe("Original link");
+    expect(linkLabel({ label: "CFO – Jane" })).toBe("CFO – Jane");
+  });
+});
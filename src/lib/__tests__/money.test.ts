@@ -0,0 +1,168 @@
+import { describe, it, expect } from "vitest";
+import fc from "fast-check";
+import {
+  toCents,
+  fromCents,
+  roundCents,
+  sumCents,
+  sumDollars,
+  multiplyCents,
+  parseMoney,
+} from "../money";
+import { calculateSavings } from "../calculator";
+import { calculateEmployeeSavings } from "../census";
+import { calculateScenarios } from "../scenarios";
+import { projectSavings } from "../projection";
+import { getFederalTaxTable, FILING_STATUSES, PAY_FREQUENCIES } from "../tax-tables";
+import { STATE_CODES } from "../state-tax";
+import { defaultRateSet } from "../rate-sets";
+
+/** Dollar amounts in whole cents, up to $10M */
+const dollars = fc.integer({ min: 0, max: 1_000_000_000 }).map(fromCents);
+
+function sumsExactly(total: number, er: number, ee: number): boolean {
+  return toCents(total) === toCents(er) + toCents(ee) && roundCents(total) === total;
+}
+
+describe("toCents", () => {
+  it("rounds half away from zero", () => {
+    expect(toCents(1.005)).toBe(101);
+    expect(toCents(-1.005)).toBe(-101);
+    expect(toCents(0.125)).toBe(13);
+    expect(toCents(2.674999)).toBe(267);
+  });
+
+  it("throws on non-finite values", () => {
+    expect(() => toCents(NaN)).toThrow(RangeError);
+    expect(() => toCents(-Infinity)).toThrow(RangeError);
+  });
+
+  it("round-trips whole-cent amounts", () => {
+    fc.assert(fc.property(fc.integer({ min: -1e12, max: 1e12 }), (c) => toCents(fromCents(c)) === c));
+  });
+});
+
+describe("sumCents / sumDollars", () => {
+  it("sums without float drift", () => {
+    expect(0.1 + 0.2).not.toBe(0.3);
+    expect(sumDollars([0.1, 0.2])).toBe(0.3);
+    expect(sumCents([0.1, 0.2])).toBe(30);
+  });
+
+  it("is order-independent", () => {
+    fc.assert(
+      fc.property(fc.array(dollars, { maxLength: 50 }), (values) =>
+        sumCents(values) === sumCents([...values].reverse())
+      )
+    );
+  });
+});
+
+describe("multiplyCents", () => {
+  it("rounds the product to cents", () => {
+    expect(multiplyCents(118600, 4.5)).toBe(533700);
+    expect(multiplyCents(1, 0.5)).toBe(1);
+  });
+});
+
+describe("parseMoney", () => {
+  it("accepts numbers and numeric strings", () => {
+    expect(parseMoney(67140)).toBe(67140);
+    expect(parseMoney("67140.00")).toBe(67140);
+    expect(parseMoney("1186.005")).toBe(1186.01);
+  });
+
+  it("rejects anything else", () => {
+    expect(() => parseMoney(null)).toThrow(TypeError);
+    expect(() => parseMoney("")).toThrow(TypeError);
+    expect(() => parseMoney("abc")).toThrow(TypeError);
+    expect(() => parseMoney({})).toThrow(TypeError);
+  });
+});
+
+describe("total = ER + EE (property)", () => {
+  const rateSet = fc
+    .record({ er: fc.integer({ min: 0, max: 500_000 }), ee: fc.integer({ min: 0, max: 500_000 }) })
+    .map(({ er, ee }) => ({
+      ...defaultRateSet(2026),
+      rate_total: fromCents(er + ee),
+      rate_er: fromCents(er),
+      rate_ee: fromCents(ee),
+    }));
+
+  const employee = fc.record({
+    annual_wages: fc.integer({ min: 100, max: 100_000_000 }).map(fromCents),
+    pay_frequency: fc.constantFrom(...PAY_FREQUENCIES),
+    filing_status: fc.constantFrom(...FILING_STATUSES),
+    state: fc.option(fc.constantFrom(...STATE_CODES), { nil: undefined }),
+  });
+
+  it("holds for flat calculations", () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1, max: 100_000 }), rateSet, (w2, rates) => {
+        const r = calculateSavings(w2, { rateSet: rates });
+        return sumsExactly(r.calc_total, r.calc_er, r.calc_ee);
+      })
+    );
+  });
+
+  it("holds for flat calculations with a state mix", () => {
+    fc.assert(
+      fc.property(
+        fc.uniqueArray(
+          fc.record({ state: fc.constantFrom(...STATE_CODES), count: fc.integer({ min: 1, max: 500 }) }),
+          { minLength: 1, maxLength: 10, selector: (s) => s.state }
+        ),
+        rateSet,
+        (mix, rates) => {
+          const w2 = mix.reduce((sum, s) => sum + s.count, 0);
+          const r = calculateSavings(w2, { rateSet: rates, stateMix: mix });
+          return sumsExactly(r.calc_total, r.calc_er, r.calc_ee);
+        }
+      )
+    );
+  });
+
+  it("holds for each census employee and the census totals", () => {
+    const table = getFederalTaxTable(2026);
+    fc.assert(
+      fc.property(fc.array(employee, { minLength: 1, maxLength: 20 }), (census) => {
+        const employeesOk = census.every((e) => {
+          const s = calculateEmployeeSavings(e, table);
+          return sumsExactly(s.total, s.er, s.ee);
+        });
+        const r = calculateSavings(census.length, { census, rateSet: defaultRateSet(2026) });
+        return employeesOk && sumsExactly(r.calc_total, r.calc_er, r.calc_ee);
+      })
+    );
+  });
+
+  it("holds for scenarios and every projection year", () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 10_000 }),
+        dollars,
+        dollars,
+        fc.double({ min: 0.01, max: 1, noNaN: true }),
+        fc.double({ min: -0.5, max: 1, noNaN: true }),
+        (count, er, ee, participation, growth) => {
+          const base = { eligible_count: count, calc_er: er, calc_ee: ee };
+          const scenarios = calculateScenarios(base, [{ name: "S", participation_rate: participation }], 0);
+          const projection = projectSavings(base, {
+            growth_rate: growth,
+            participation_rate: participation,
+            ramp: [0.5, 1],
+          });
+          return (
+            scenarios.every((s) => sumsExactly(s.calc_total, s.calc_er, s.calc_ee)) &&
+            projection.years.every(
+              (y) =>
+                sumsExactly(y.total, y.er, y.ee) &&
+                sumsExactly(y.cumulative_total, y.cumulative_er, y.cumulative_ee)
+            )
+          );
+        }
+      )
+    );
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect } from "vitest";
+import {
+  checkPasscodeAttempt,
+  hashPasscode,
+  hasPasscode,
+  issuePasscodeGrant,
+  precheckPasscode,
+  validatePasscode,
+  verifyPasscodeGrant,
+} from "../passcode";
+import { MAX_PASSCODE_ATTEMPTS, PASSCODE_GRANT_MINUTES } from "../constants";
+
+const pepper = "test-pepper";
+const now = new Date("2026-06-01T12:00:00Z");
+
+function link(overrides: { locked_until?: string | null } = {}) {
+  return {
+    passcode_hash: hashPasscode("1234", pepper),
+    locked_until: null,
+    ...overrides,
+  };
+}
+
+describe("hasPasscode", () => {
+  it("treats empty and null hashes as no passcode", () => {
+    expect(hasPasscode({ passcode_hash: "" })).toBe(false);
+    expect(hasPasscode({ passcode_hash: null })).toBe(false);
+    expect(hasPasscode({ passcode_hash: hashPasscode("1234", pepper) })).toBe(true);
+  });
+});
+
+describe("validatePasscode", () => {
+  it("accepts 4 to 32 characters", () => {
+    expect(validatePasscode("1234")).toEqual([]);
+    expect(validatePasscode("x".repeat(32))).toEqual([]);
+  });
+
+  it("rejects short, long, padded or non-string passcodes", () => {
+    for (const value of ["123", "x".repeat(33), " 1234", 1234, null]) {
+      expect(validatePasscode(value)).toHaveLength(1);
+    }
+  });
+});
+
+describe("precheckPasscode", () => {
+  it("lets links without a passcode through", () => {
+    expect(precheckPasscode({ passcode_hash: "", locked_until: null }, undefined, now)).toEqual({ result: "ok" });
+  });
+
+  it("asks for the passcode when none is entered", () => {
+    expect(precheckPasscode(link(), undefined, now)).toEqual({ result: "required" });
+  });
+
+  it("refuses a locked link before any attempt is counted", () => {
+    const locked = link({ locked_until: "2026-06-01T12:10:00Z" });
+    expect(precheckPasscode(locked, "1234", now)).toEqual({
+      result: "locked",
+      locked_until: "2026-06-01T12:10:00Z",
+    });
+  });
+
+  it("needs an attempt for an entered passcode, including once the lockout has passed", () => {
+    expect(precheckPasscode(link(), "1234", now)).toBeNull();
+    expect(precheckPasscode(link({ locked_until: "2026-06-01T11:59:00Z" }), "1234", now)).toBeNull();
+  });
+});
+
+describe("checkPasscodeAttempt", () => {
+  const lockoutEnds = "2026-06-01T12:15:00Z";
+  const attempt = (attempts: number, lockout_ends_at: string | null = null, allowed = true) => ({
+    allowed,
+    attempts,
+    lockout_ends_at,
+  });
+
+  it("accepts the right passcode", () => {
+    expect(checkPasscodeAttempt(link(), attempt(3), "1234", pepper)).toEqual({ result: "ok" });
+  });
+
+  it("counts wrong passcodes from the claimed attempt", () => {
+    expect(checkPasscodeAttempt(link(), attempt(2), "9999", pepper)).toEqual({
+      result: "incorrect",
+      attempts_remaining: MAX_PASSCODE_ATTEMPTS - 2,
+    });
+  });
+
+  it("locks the link on the last allowed wrong passcode", () => {
+    expect(
+      checkPasscodeAttempt(link(), attempt(MAX_PASSCODE_ATTEMPTS, lockoutEnds), "9999", pepper)
+    ).toEqual({ result: "locked", locked_until: lockoutEnds });
+  });
+
+  it("still accepts the right passcode on the last allowed attempt", () => {
+    expect(
+      checkPasscodeAttempt(link(), attempt(MAX_PASSCODE_ATTEMPTS, lockoutEnds), "1234", pepper)
+    ).toEqual({ result: "ok" });
+  });
+
+  it("rejects even the right passcode when the attempt was refused", () => {
+    expect(checkPasscodeAttempt(link(), attempt(0, lockoutEnds, false), "1234", pepper)).toEqual({
+      result: "locked",
+      locked_until: lockoutEnds,
+    });
+  });
+
+  it("uses the pepper", () => {
+    expect(checkPasscodeAttempt(link(), attempt(1), "1234", "other-pepper").result).toBe("incorrect");
+  });
+});
+
+describe("passcode grants", () => {
+  const protectedLink = { id: "link-1", ...link() };
+  const grant = issuePasscodeGrant(protectedLink, pepper, now);
+
+  it("does not contain the passcode", () => {
+    expect(grant).not.toContain("1234");
+    expect(grant.startsWith("link-1.")).toBe(true);
+  });
+
+  it("verifies for the same link until it expires", () => {
+    expect(verifyPasscodeGrant(grant, protectedLink, pepper, now)).toBe(true);
+    const later = new Date(now.getTime() + PASSCODE_GRANT_MINUTES * 60_000);
+    expect(verifyPasscodeGrant(grant, protectedLink, pepper, later)).toBe(false);
+  });
+
+  it("rejects another link, a changed passcode or a different pepper", () => {
+    expect(verifyPasscodeGrant(grant, { ...protectedLink, id: "link-2" }, pepper, now)).toBe(false);
+    expect(
+      verifyPasscodeGrant(grant, { ...protectedLink, passcode_hash: hashPasscode("5678", pepper) }, pepper, now)
+    ).toBe(false);
+    expect(verifyPasscodeGrant(grant, protectedLink, "other-pepper", now)).toBe(false);
+  });
+
+  it("rejects a tampered expiry or malformed value", () => {
+    const [id, expiry, signature] = grant.split(".");
+    expect(verifyPasscodeGrant(`${id}.${Number(expiry) + 1}.${signature}`, protectedLink, pepper, now)).toBe(false);
+    expect(verifyPasscodeGrant("link-1", protectedLink, pepper, now)).toBe(false);
+    expect(verifyPasscodeGrant(`${grant}.x`, protectedLink, pepper, now)).toBe(false);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import {
+  simulatePaycheck,
+  buildPaycheckInputs,
+  defaultPaycheckInputs,
+  validatePaycheckInputs,
+} from "../paycheck";
+import { roundCents } from "../money";
+
+describe("buildPaycheckInputs", () => {
+  it("converts annual wages and monthly SIMERP amounts to the pay period", () => {
+    const inputs = buildPaycheckInputs({
+      annual_wages: 52000,
+      pay_frequency: "weekly",
+      filing_status: "single",
+      state: "TX",
+      tax_year: 2026,
+    });
+    expect(inputs.gross_pay).toBe(1000);
+    expect(inputs.simerp_deduction).toBe(roundCents((1293 * 12) / 52));
+    expect(inputs.simerp_reimbursement).toBe(inputs.simerp_deduction);
+    expect(inputs.after_tax_deductions.map((d) => d.label)).toEqual([
+      "Provider",
+      "MEC",
+      "Other Voluntary Benefits",
+    ]);
+  });
+});
+
+describe("simulatePaycheck", () => {
+  const sim = simulatePaycheck(defaultPaycheckInputs(2026));
+
+  it("reproduces the standard example's gross and SIMERP lines", () => {
+    expect(sim.without.gross_pay).toBe(3293.33);
+    expect(sim.with.simerp_deduction).toBe(1293);
+    expect(sim.with.taxable_income).toBe(2000.33);
+    expect(sim.with.simerp_reimbursement).toBe(1293);
+    expect(sim.with.after_tax_total).toBe(258.14);
+  });
+
+  it("has no SIMERP lines without the plan", () => {
+    expect(sim.without.simerp_deduction).toBe(0);
+    expect(sim.without.simerp_reimbursement).toBe(0);
+    expect(sim.without.after_tax_total).toBe(0);
+    expect(sim.without.taxable_income).toBe(sim.without.gross_pay);
+  });
+
+  it("lowers every tax line with the plan", () => {
+    expect(sim.with.federal_withholding).toBeLessThan(sim.without.federal_withholding);
+    expect(sim.with.state_withholding).toBeLessThan(sim.without.state_withholding);
+    expect(sim.with.social_security).toBeLessThan(sim.without.social_security);
+    expect(sim.with.medicare).toBeLessThan(sim.without.medicare);
+  });
+
+  it("total taxes equal the sum of the tax lines", () => {
+    for (const col of [sim.with, sim.without]) {
+      expect(col.total_taxes).toBe(
+        roundCents(col.federal_withholding + col.state_withholding + col.social_security + col.medicare)
+      );
+    }
+  });
+
+  it("net pay increase = tax savings - supplemental benefits", () => {
+    expect(sim.net_pay_increase).toBe(roundCents(sim.gross_tax_savings - sim.supplemental_benefits));
+    expect(sim.net_pay_increase).toBeGreaterThan(0);
+  });
+
+  it("has no state withholding in a no-income-tax state", () => {
+    const tx = simulatePaycheck({ ...defaultPaycheckInputs(2026), state: "TX" });
+    expect(tx.without.state_withholding).toBe(0);
+    expect(tx.with.state_withholding).toBe(0);
+  });
+
+  it("reflects the representative employee's wage", () => {
+    const higher = simulatePaycheck({ ...defaultPaycheckInputs(2026), gross_pay: 6000 });
+    expect(higher.gross_tax_savings).toBeGreaterThan(sim.gross_tax_savings);
+  });
+});
+
+describe("validatePaycheckInputs", () => {
+  const valid = defaultPaycheckInputs(2026);
+
+  it("accepts valid inputs", () => {
+    expect(validatePaycheckInputs(valid)).toEqual([]);
+  });
+
+  it("rejects a non-object", () => {
+    expect(validatePaycheckInputs(null)).toEqual(["Paycheck Example"]);
+  });
+
+  it("rejects an unknown state", () => {
+    expect(validatePaycheckInputs({ ...valid, state: "ZZ" })).toContain("Paycheck State");
+  });
+
+  it("rejects a deduction larger than gross pay", () => {
+    expect(validatePaycheckInputs({ ...valid, simerp_deduction: 5000 })).toContain(
+      "Paycheck SIMERP Deduction (cannot exceed gross pay)"
+    );
+  });
+
+  it("rejects zero gross pay", () => {
+    expect(validatePaycheckInputs({ ...valid, gross_pay: 0 })).toContain(
+      "Paycheck Gross Pay (must be a positive number)"
+    );
+  });
+});
@@ -0,0 +1,89 @@
+import { deflateSync, inflateSync } from "zlib";
+import { describe, it, expect } from "vitest";
+import { readPdfImage } from "../pdf-image";
+
+/**
+ * An 8-bit PNG from its rows, unfiltered unless `filters` gives each row's
+ * filter type. CRCs are left zero; they aren't checked.
+ */
+function png(
+  width: number,
+  height: number,
+  colorType: number,
+  rows: number[][],
+  { chunks = {}, filters = [] }: { chunks?: Record<string, number[]>; filters?: number[] } = {}
+) {
+  const chunk = (type: string, data: Buffer) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    return Buffer.concat([length, Buffer.from(type, "latin1"), data, Buffer.alloc(4)]);
+  };
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;
+  header[9] = colorType;
+  const raw = Buffer.from(rows.flatMap((row, y) => [filters[y] ?? 0, ...row]));
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk("IHDR", header),
+    ...Object.entries(chunks).map(([type, data]) => chunk(type, Buffer.from(data))),
+    chunk("IDAT", deflateSync(raw)),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+describe("readPdfImage", () => {
+  it("splits a PNG's alpha channel into a soft mask", () => {
+    const image = readPdfImage(png(2, 1, 6, [[255, 0, 0, 255, 0, 0, 255, 0]]))!;
+    expect(image).toMatchObject({ width: 2, height: 1, colorSpace: "DeviceRGB", filter: "FlateDecode" });
+    expect([...inflateSync(image.data)]).toEqual([255, 0, 0, 0, 0, 0]);
+    expect([...inflateSync(image.alpha!)]).toEqual([255, 0]);
+  });
+
+  it("leaves out the soft mask for opaque PNGs", () => {
+    const image = readPdfImage(png(1, 2, 0, [[10], [200]]))!;
+    expect(image.colorSpace).toBe("DeviceGray");
+    expect([...inflateSync(image.data)]).toEqual([10, 200]);
+    expect(image.alpha).toBeNull();
+  });
+
+  it("reads palette PNGs with transparency", () => {
+    const image = readPdfImage(png(2, 1, 3, [[0, 1]], { chunks: { PLTE: [0, 0, 255, 255, 255, 255], tRNS: [0] } }))!;
+    expect([...inflateSync(image.data)]).toEqual([0, 0, 0, 255, 255, 255]);
+    expect([...inflateSync(image.alpha!)]).toEqual([0, 255]);
+  });
+
+  it("undoes scanline filters", () => {
+    // Sub on the first row, Up on the second
+    const file = png(2, 2, 0, [[10, 5], [1, 1]], { filters: [1, 2] });
+    expect([...inflateSync(readPdfImage(file)!.data)]).toEqual([10, 15, 11, 16]);
+  });
+
+  it("shrinks tall PNGs", () => {
+    const rows = Array.from({ length: 400 }, () => [0, 0, 0, 0, 0, 0]);
+    const image = readPdfImage(png(2, 400, 2, rows))!;
+    expect(image.height).toBe(200);
+    expect(image.width).toBe(1);
+  });
+
+  it("embeds JPEGs as they are", () => {
+    const jpeg = Buffer.from([
+      0xff, 0xd8, 0xff, 0xe0, 0x00, 0x04, 0x00, 0x00,
+      0xff, 0xc0, 0x00, 0x0b, 0x08, 0x00, 0x20, 0x00, 0x40, 0x03, 0x01, 0x11, 0x00,
+    ]);
+    const image = readPdfImage(jpeg)!;
+    expect(image).toMatchObject({ width: 64, height: 32, colorSpace: "DeviceRGB", filter: "DCTDecode", alpha: null });
+    expect(image.data.equals(jpeg)).toBe(true);
+  });
+
+  it("rejects formats PDF can't show", () => {
+    const cmyk = Buffer.from([0xff, 0xd8, 0xff, 0xc0, 0x00, 0x0b, 0x08, 0x00, 0x20, 0x00, 0x40, 0x04, 0x01]);
+    expect(readPdfImage(cmyk)).toBeNull();
+    expect(readPdfImage(Buffer.from("RIFF\0\0\0\0WEBPVP8 ", "latin1"))).toBeNull();
+    const interlaced = png(1, 1, 0, [[0]]);
+    interlaced[8 + 8 + 12] = 1;
+    expect(readPdfImage(interlaced)).toBeNull();
+    expect(readPdfImage(png(1, 1, 0, [[0]]).subarray(0, 20))).toBeNull();
+  });
+});
@@ -0,0 +1,129 @@
+import { deflateSync } from "zlib";
+import { describe, it, expect } from "vitest";
+import { createPdfLayout, textWidth, wrapText } from "../pdf";
+import type { PdfImage } from "../pdf-image";
+
+/** Byte offsets of each "N 0 obj" in the file */
+function objectOffsets(pdf: string): number[] {
+  const offsets: number[] = [];
+  for (const match of pdf.matchAll(/(\d+) 0 obj\n/g)) offsets[Number(match[1])] = match.index;
+  return offsets;
+}
+
+describe("textWidth", () => {
+  it("uses Helvetica metrics", () => {
+    expect(textWidth("Hello", 10)).toBeCloseTo(22.78, 2);
+    expect(textWidth("Hello", 10, "bold")).toBeGreaterThan(textWidth("Hello", 10));
+  });
+
+  it("scales with the font size", () => {
+    expect(textWidth("$1,186.00", 20)).toBeCloseTo(2 * textWidth("$1,186.00", 10), 6);
+  });
+});
+
+describe("wrapText", () => {
+  it("breaks at spaces within the width", () => {
+    const lines = wrapText("one two three four five six seven", 60, 10);
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.join(" ")).toBe("one two three four five six seven");
+    for (const line of lines) expect(textWidth(line, 10)).toBeLessThanOrEqual(60);
+  });
+
+  it("keeps explicit newlines", () => {
+    expect(wrapText("a\nb", 500, 10)).toEqual(["a", "b"]);
+  });
+
+  it("splits words longer than a line", () => {
+    const lines = wrapText("x".repeat(100), 50, 10);
+    expect(lines.join("")).toBe("x".repeat(100));
+    for (const line of lines) expect(textWidth(line, 10)).toBeLessThanOrEqual(50);
+  });
+});
+
+describe("createPdfLayout", () => {
+  it("writes a well-formed document with a valid cross-reference table", () => {
+    const pdf = createPdfLayout();
+    pdf.text("Hello");
+    const out = pdf.finish({ title: "Test" }).toString("latin1");
+
+    expect(out.startsWith("%PDF-1.4\n")).toBe(true);
+    expect(out.endsWith("%%EOF\n")).toBe(true);
+
+    const startxref = Number(out.match(/startxref\n(\d+)\n/)![1]);
+    expect(out.slice(startxref, startxref + 4)).toBe("xref");
+
+    const entries = [...out.slice(startxref).matchAll(/^(\d{10}) 00000 n $/gm)].map((m) => Number(m[1]));
+    const offsets = objectOffsets(out);
+    expect(entries).toEqual(offsets.slice(1));
+  });
+
+  it("declares stream lengths that match the content", () => {
+    const pdf = createPdfLayout();
+    pdf.text("Savings — 2026 “estimate”");
+    const out = pdf.finish().toString("latin1");
+    for (const match of out.matchAll(/<< \/Length (\d+) >>\nstream\n/g)) {
+      const start = match.index + match[0].length;
+      expect(out.slice(start + Number(match[1]), start + Number(match[1]) + 10)).toBe("\nendstream");
+    }
+  });
+
+  it("writes images once, with their soft masks, on every page that shows them", () => {
+    const logo: PdfImage = {
+      width: 2,
+      height: 1,
+      colorSpace: "DeviceRGB",
+      filter: "FlateDecode",
+      data: deflateSync(Buffer.from([255, 0, 0, 0, 0, 255])),
+      alpha: deflateSync(Buffer.from([255, 0])),
+    };
+    const pdf = createPdfLayout();
+    pdf.image(48, 48, 100, 50, logo);
+    for (let i = 0; i < 120; i++) pdf.text(`Line ${i}`);
+    pdf.image(48, 100, 100, 50, logo);
+    const out = pdf.finish().toString("latin1");
+
+    expect(out.match(/\/Subtype \/Image/g)).toHaveLength(2);
+    expect(out).toContain("/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /FlateDecode /SMask");
+    expect(out).toContain("q 100 0 0 50 48 694 cm /Im1 Do Q");
+    expect(out.match(/ Do Q/g)).toHaveLength(2);
+
+    const offsets = objectOffsets(out);
+    const entries = [...out.matchAll(/^(\d{10}) 00000 n $/gm)].map((m) => Number(m[1]));
+    expect(entries).toEqual(offsets.slice(1));
+  });
+
+  it("escapes delimiters and encodes non-ASCII characters as WinAnsi", () => {
+    const pdf = createPdfLayout();
+    pdf.text("Acme (East) \\ IRC §125 — café ✓");
+    const out = pdf.finish().toString("latin1");
+    expect(out).toContain("(Acme \\(East\\) \\\\ IRC \\247125 \\227 caf\\351 ?) Tj");
+  });
+
+  it("starts new pages and numbers them in the footer", () => {
+    const pdf = createPdfLayout();
+    for (let i = 0; i < 120; i++) pdf.text(`Line ${i}`);
+    const out = pdf.finish({ footer: "Prepared for Acme" }).toString("latin1");
+
+    const count = Number(out.match(/\/Type \/Pages \/Kids \[[^\]]*\] \/Count (\d+)/)![1]);
+    expect(count).toBeGreaterThan(1);
+    expect(out).toContain(`(Page 1 of ${count}) Tj`);
+    expect(out).toContain(`(Page ${count} of ${count}) Tj`);
+    expect(out.match(/\(Prepared for Acme\) Tj/g)).toHaveLength(count);
+  });
+
+  it("repeats a table's header row on each page it spans", () => {
+    const pdf = createPdfLayout();
+    pdf.table(
+      [
+        { header: "Employee", width: 0.7 },
+        { header: "Wages", width: 0.3, align: "right" },
+      ],
+      Array.from({ length: 80 }, (_, i) => ({ cells: [`Employee ${i}`, "$40,000.00"] }))
+    );
+    const out = pdf.finish().toString("latin1");
+
+    const pages = Number(out.match(/\/Count (\d+)/)![1]);
+    expect(pages).toBeGreaterThan(1);
+    expect(out.match(/\(Employee\) Tj/g)).toHaveLength(pages);
+  });
+});
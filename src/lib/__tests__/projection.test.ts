@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_PROJECTION_ASSUMPTIONS,
+  PROJECTION_YEARS,
+  projectSavings,
+  validateProjectionAssumptions,
+} from "../projection";
+
+const base = { eligible_count: 20, calc_er: 20 * 1186, calc_ee: 20 * 2170 };
+
+describe("projectSavings", () => {
+  it("repeats the single-year savings under the default assumptions", () => {
+    const { years } = projectSavings(base, DEFAULT_PROJECTION_ASSUMPTIONS);
+    expect(years).toHaveLength(PROJECTION_YEARS);
+    for (const y of years) {
+      expect(y.er).toBe(base.calc_er);
+      expect(y.ee).toBe(base.calc_ee);
+    }
+    expect(years[4].cumulative_total).toBe(5 * (base.calc_er + base.calc_ee));
+  });
+
+  it("grows headcount year over year", () => {
+    const { years } = projectSavings(base, { growth_rate: 0.1, participation_rate: 1, ramp: [1] });
+    expect(years.map((y) => y.headcount)).toEqual([20, 22, 24, 27, 29]);
+    expect(years[1].er).toBe(22 * 1186);
+  });
+
+  it("applies participation and carries the last ramp value forward", () => {
+    const { years } = projectSavings(base, { growth_rate: 0, participation_rate: 0.5, ramp: [0.5, 1] });
+    expect(years.map((y) => y.participants)).toEqual([5, 10, 10, 10, 10]);
+  });
+
+  it("accumulates totals as ER + EE", () => {
+    const { years } = projectSavings(base, { growth_rate: 0.05, participation_rate: 0.8, ramp: [0.6, 0.9, 1] });
+    let cumulative = 0;
+    for (const y of years) {
+      expect(y.total).toBeCloseTo(y.er + y.ee, 2);
+      cumulative += y.total;
+      expect(y.cumulative_total).toBeCloseTo(cumulative, 2);
+    }
+  });
+
+  it("projects zero savings with no eligible employees", () => {
+    const { years } = projectSavings({ eligible_count: 0, calc_er: 0, calc_ee: 0 }, DEFAULT_PROJECTION_ASSUMPTIONS);
+    expect(years[4].cumulative_total).toBe(0);
+  });
+});
+
+describe("validateProjectionAssumptions", () => {
+  it("accepts the defaults", () => {
+    expect(validateProjectionAssumptions(DEFAULT_PROJECTION_ASSUMPTIONS)).toEqual([]);
+  });
+
+  it("rejects a missing object", () => {
+    expect(validateProjectionAssumptions(null)).toEqual(["Projection"]);
+  });
+
+  it("rejects out-of-range rates", () => {
+    const errors = validateProjectionAssumptions({ growth_rate: -1, participation_rate: 0, ramp: [1] });
+    expect(errors).toContain("Projection Growth Rate (must be between -100% and 100%)");
+    expect(errors).toContain("Projection Participation (must be between 0 and 100%)");
+  });
+
+  it("rejects an empty or too-long ramp", () => {
+    expect(validateProjectionAssumptions({ ...DEFAULT_PROJECTION_ASSUMPTIONS, ramp: [] })).toContain(
+      "Projection Ramp (must list 1 to 5 years)"
+    );
+    expect(
+      validateProjectionAssumptions({ ...DEFAULT_PROJECTION_ASSUMPTIONS, ramp: [1, 1, 1, 1, 1, 1] })
+    ).toContain("Projection Ramp (must list 1 to 5 years)");
+  });
+
+  it("reports invalid ramp years by number", () => {
+    expect(
+      validateProjectionAssumptions({ ...DEFAULT_PROJECTION_ASSUMPTIONS, ramp: [0.5, 1.5] })
+    ).toEqual(["Projection Ramp year 2 (must be between 0 and 100%)"]);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_BRANDING } from "../branding";
+import { calculateSavings } from "../calculator";
+import { formatUSD } from "../format";
+import { loadPdfLogo, proposalPdfFilename, renderProposalPdf } from "../proposal-pdf";
+import { DEFAULT_TEMPLATE_CONTENT } from "../templates";
+
+const result = calculateSavings(150, {
+  valuation: { multiple: 6, industry: "Manufacturing" },
+  scenarios: {
+    scenarios: [
+      { name: "Conservative", participation_rate: 0.5 },
+      { name: "Full", participation_rate: 1 },
+    ],
+    headline: 1,
+  },
+});
+
+const data = {
+  company_name: "Acme Corp",
+  industry: "Manufacturing",
+  ...result,
+  paycheck_inputs: null,
+};
+
+describe("renderProposalPdf", () => {
+  const out = renderProposalPdf(data, DEFAULT_TEMPLATE_CONTENT, DEFAULT_BRANDING, null, new Date("2026-10-19T12:00:00Z")).toString("latin1");
+
+  it("renders a PDF with the proposal sections", () => {
+    expect(out.startsWith("%PDF-")).toBe(true);
+    for (const heading of [
+      "Savings Breakdown",
+      "Participation Scenarios",
+      "Paycheck Example",
+      "Compliance & Tax Codes",
+      "Calculation Details",
+      "DISCLAIMER",
+    ]) {
+      expect(out).toContain(`(${heading}) Tj`);
+    }
+  });
+
+  it("shows the company and totals", () => {
+    expect(out).toContain("(Acme Corp) Tj");
+    expect(out).toContain("/Title (Acme Corp - SIMERP Proposal)");
+    expect(out).toMatch(/\(\$[\d,]+\.\d\d\) Tj/);
+    expect(out).toContain("(NET TAKE HOME PAY) Tj");
+  });
+
+  it("follows the template's sections and fills its variables", () => {
+    const custom = renderProposalPdf(data, {
+      sections: [
+        {
+          title: "Prepared for {{company_name}}",
+          blocks: [
+            { type: "paragraph", text: "Employer savings of **{{calc_er}}** a year." },
+            { type: "widget", widget: "savings_breakdown" },
+          ],
+        },
+      ],
+    }, DEFAULT_BRANDING).toString("latin1");
+
+    expect(custom).toContain("(Prepared for Acme Corp) Tj");
+    expect(custom).toContain(`(Employer savings of ${formatUSD(data.calc_er)} a year.) Tj`);
+    expect(custom).toContain("(Savings Breakdown) Tj");
+    expect(custom).not.toContain("(Paycheck Example) Tj");
+  });
+
+  it("dates the footer", () => {
+    expect(out).toContain("Generated October 19, 2026) Tj");
+  });
+
+  it("uses the owner's branding", () => {
+    const branded = renderProposalPdf(data, DEFAULT_TEMPLATE_CONTENT, {
+      ...DEFAULT_BRANDING,
+      organization_id: "org-1",
+      company_name: "Harbor Benefits",
+      proposal_title: "Benefits Proposal",
+      contact_email: "hello@harbor.example",
+      contact_phone: "555-0100",
+      address: null,
+      footer_text: "Harbor Benefits LLC",
+    }).toString("latin1");
+
+    expect(branded).toContain("(HARBOR BENEFITS) Tj");
+    expect(branded).toContain("(BENEFITS PROPOSAL) Tj");
+    expect(branded).toContain("/Title (Acme Corp - Benefits Proposal)");
+    expect(branded).toContain("(hello@harbor.example \\267 555-0100) Tj");
+    expect(branded).toContain("(Harbor Benefits LLC) Tj");
+    expect(branded).not.toContain("FIRST GEN");
+    expect(branded).not.toContain("SIMERP Proposal for");
+  });
+});
+
+describe("loadPdfLogo", () => {
+  it("puts the brand's logo in the header in place of its name", async () => {
+    const logo = await loadPdfLogo(DEFAULT_BRANDING);
+    expect(logo).toMatchObject({ filter: "FlateDecode", colorSpace: "DeviceRGB" });
+    expect(logo!.alpha).not.toBeNull();
+
+    const out = renderProposalPdf(data, DEFAULT_TEMPLATE_CONTENT, DEFAULT_BRANDING, logo).toString("latin1");
+    expect(out).toContain("/Im1 Do Q");
+    expect(out).not.toContain(`(${DEFAULT_BRANDING.company_name.toUpperCase()}) Tj`);
+    expect(out).toContain("(Acme Corp) Tj");
+  });
+
+  it("falls back to the name without a usable logo", async () => {
+    expect(await loadPdfLogo({ ...DEFAULT_BRANDING, logo_url: null })).toBeNull();
+  });
+});
+
+describe("proposalPdfFilename", () => {
+  it("keeps the company name readable and header-safe", () => {
+    expect(proposalPdfFilename("Acme Corp")).toBe("Acme Corp - SIMERP Proposal.pdf");
+    expect(proposalPdfFilename('Evil"; name\r\n')).toBe("Evil name - SIMERP Proposal.pdf");
+    expect(proposalPdfFilename("")).toBe("Proposal - SIMERP Proposal.pdf");
+    expect(proposalPdfFilename("Acme Corp", "Benefits Proposal")).toBe("Acme Corp - Benefits Proposal.pdf");
+  });
+});
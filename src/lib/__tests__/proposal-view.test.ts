@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { ACCEPTABLE_STATUSES } from "../acceptance";
+import { VIEW_STATUS_CODES, viewedStatus } from "../proposal-view";
+
+describe("VIEW_STATUS_CODES", () => {
+  it("only a successful view is 200", () => {
+    for (const [state, status] of Object.entries(VIEW_STATUS_CODES)) {
+      if (state === "success") expect(status).toBe(200);
+      else expect(status).toBeGreaterThanOrEqual(400);
+    }
+  });
+
+  it("unknown links are not found; expired and revoked ones are gone", () => {
+    expect(VIEW_STATUS_CODES.invalid).toBe(404);
+    expect(VIEW_STATUS_CODES.expired).toBe(410);
+    expect(VIEW_STATUS_CODES.revoked).toBe(410);
+  });
+
+  it("passcode screens ask for credentials; lockouts are rate limits", () => {
+    expect(VIEW_STATUS_CODES.passcode_required).toBe(401);
+    expect(VIEW_STATUS_CODES.passcode_incorrect).toBe(401);
+    expect(VIEW_STATUS_CODES.locked).toBe(429);
+  });
+});
+
+describe("viewedStatus", () => {
+  it("shows a draft or sent case as viewed, so a fresh proposal can be accepted", () => {
+    expect(viewedStatus("draft")).toBe("viewed");
+    expect(viewedStatus("sent")).toBe("viewed");
+    expect(ACCEPTABLE_STATUSES.includes(viewedStatus("draft"))).toBe(true);
+  });
+
+  it("leaves later statuses alone", () => {
+    expect(viewedStatus("negotiating")).toBe("negotiating");
+    expect(viewedStatus("accepted")).toBe("accepted");
+    expect(viewedStatus("lost")).toBe("lost");
+    expect(ACCEPTABLE_STATUSES.includes(viewedStatus("declined"))).toBe(false);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { calculateProposal, proposalPaycheck, validateProposalRequest } from "../proposal";
+import { defaultPaycheckInputs } from "../paycheck";
+import { defaultRateSet } from "../rate-sets";
+
+const rateSet = defaultRateSet(2026);
+
+describe("validateProposalRequest", () => {
+  it("accepts a minimal flat request", () => {
+    expect(validateProposalRequest({ company_name: "Acme", industry: "Retail", w2_count: 10 })).toEqual([]);
+  });
+
+  it("applies the default eligibility rules", () => {
+    expect(
+      validateProposalRequest({
+        company_name: "Acme",
+        industry: "Retail",
+        w2_count: 2,
+        exclusions: { owner: 2 },
+      })
+    ).toContain("Eligibility (no eligible employees remain after exclusions)");
+  });
+
+  it("rejects a non-integer tax year alongside other errors", () => {
+    expect(
+      validateProposalRequest({ company_name: "", industry: "Retail", w2_count: 10, tax_year: 2026.5 })
+    ).toEqual(["Business Name", "Tax Year"]);
+  });
+});
+
+describe("calculateProposal", () => {
+  it("applies the industry default multiple when none is entered", () => {
+    const result = calculateProposal({ company_name: "Acme", industry: "Steel fabrication", w2_count: 10 }, rateSet);
+    expect(result.calc_inputs.valuation).toMatchObject({ ebitda_multiple: 6, multiple_industry: "Manufacturing" });
+  });
+
+  it("uses an entered multiple over the industry default", () => {
+    const result = calculateProposal(
+      { company_name: "Acme", industry: "Steel fabrication", w2_count: 10, ebitda_multiple: 3 },
+      rateSet
+    );
+    expect(result.calc_inputs.valuation).toMatchObject({ ebitda_multiple: 3, multiple_industry: null });
+  });
+
+  it("sizes census requests by the census", () => {
+    const result = calculateProposal(
+      {
+        company_name: "Acme",
+        industry: "Retail",
+        w2_count: 99,
+        census: [{ annual_wages: 50000, pay_frequency: "biweekly", filing_status: "single" }],
+      },
+      rateSet
+    );
+    expect(result.calc_inputs.mode).toBe("census");
+    expect(result.calc_inputs.w2_count).toBe(1);
+  });
+});
+
+describe("proposalPaycheck", () => {
+  it("pins entered paycheck inputs to the applied tax year", () => {
+    const paycheck = defaultPaycheckInputs(2025);
+    expect(proposalPaycheck({ paycheck }, 2026)).toEqual({ ...paycheck, tax_year: 2026 });
+  });
+
+  it("falls back to the standard example", () => {
+    expect(proposalPaycheck({}, 2026)).toEqual(defaultPaycheckInputs(2026));
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import {
+  defaultRateSet,
+  fixedRateSetFields,
+  selectRateSet,
+  toRateSet,
+  validateRateSetInput,
+  type RateSet,
+} from "../rate-sets";
+
+function rateSet(overrides: Partial<RateSet>): RateSet {
+  return {
+    id: "rs",
+    tax_year: 2026,
+    effective_from: "2026-01-01",
+    effective_to: null,
+    rate_total: 3356,
+    rate_er: 1186,
+    rate_ee: 2170,
+    notes: null,
+    ...overrides,
+  };
+}
+
+describe("defaultRateSet", () => {
+  it("uses the built-in rates with no id", () => {
+    const r = defaultRateSet(2026);
+    expect(r.id).toBeNull();
+    expect(r.tax_year).toBe(2026);
+    expect(r.rate_total).toBe(r.rate_er + r.rate_ee);
+  });
+});
+
+describe("selectRateSet", () => {
+  const sets = [
+    rateSet({ id: "2025", tax_year: 2025, effective_from: "2025-01-01", effective_to: "2025-12-31" }),
+    rateSet({ id: "2026-h1", effective_from: "2026-01-01", effective_to: "2026-06-30" }),
+    rateSet({ id: "2026-h2", effective_from: "2026-07-01", effective_to: null }),
+  ];
+
+  it("picks the set in effect on the given date", () => {
+    expect(selectRateSet(sets, 2026, new Date("2026-03-15"))?.id).toBe("2026-h1");
+    expect(selectRateSet(sets, 2026, new Date("2026-09-01"))?.id).toBe("2026-h2");
+  });
+
+  it("falls back to the latest set for the year when none is in effect", () => {
+    expect(selectRateSet(sets, 2026, new Date("2025-12-01"))?.id).toBe("2026-h2");
+  });
+
+  it("returns null when the year has no sets", () => {
+    expect(selectRateSet(sets, 2030)).toBeNull();
+  });
+});
+
+describe("toRateSet", () => {
+  it("coerces numeric strings from the database", () => {
+    const r = toRateSet({
+      id: "abc",
+      tax_year: 2026,
+      effective_from: "2026-01-01",
+      effective_to: null,
+      rate_total: "3356",
+      rate_er: "1186",
+      rate_ee: "2170",
+      notes: null,
+    });
+    expect(r.rate_total).toBe(3356);
+    expect(r.effective_to).toBeNull();
+  });
+});
+
+describe("validateRateSetInput", () => {
+  const valid = {
+    tax_year: 2027,
+    effective_from: "2027-01-01",
+    effective_to: null,
+    rate_total: 3400,
+    rate_er: 1200,
+    rate_ee: 2200,
+  };
+
+  it("accepts valid input", () => {
+    expect(validateRateSetInput(valid)).toEqual([]);
+  });
+
+  it("requires total to equal ER + EE", () => {
+    expect(validateRateSetInput({ ...valid, rate_total: 3399 })).toContain(
+      "Total Rate (must equal ER + EE)"
+    );
+  });
+
+  it("rejects a bad date format", () => {
+    expect(validateRateSetInput({ ...valid, effective_from: "01/01/2027" })).toContain(
+      "Effective From (YYYY-MM-DD)"
+    );
+  });
+
+  it("rejects an end date before the start date", () => {
+    expect(validateRateSetInput({ ...valid, effective_to: "2026-12-31" })).toContain(
+      "Effective To (must be on or after Effective From)"
+    );
+  });
+
+  it("rejects negative rates and bad years", () => {
+    const errors = validateRateSetInput({ ...valid, tax_year: 27, rate_er: -1 });
+    expect(errors).toContain("Tax Year");
+    expect(errors).toContain("ER Rate");
+  });
+});
+
+describe("fixedRateSetFields", () => {
+  it("allows the end date and notes to change", () => {
+    expect(fixedRateSetFields({ effective_to: "2026-06-30", notes: "Superseded" })).toEqual([]);
+  });
+
+  it("reports the rate and date fields that can't change", () => {
+    expect(fixedRateSetFields({ rate_er: 1200, rate_total: 3400, effective_from: "2026-02-01" })).toEqual([
+      "Effective From",
+      "Total Rate",
+      "ER Rate",
+    ]);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import { type ProposalRequest, calculateProposal } from "../proposal";
+import {
+  type EditableCase,
+  duplicateRequest,
+  mergeProposalRequest,
+  requestFromCase,
+} from "../revisions";
+import { DEFAULT_ELIGIBILITY_RULES } from "../eligibility";
+import { defaultPaycheckInputs } from "../paycheck";
+import { defaultRateSet } from "../rate-sets";
+
+const rateSet = { ...defaultRateSet(2026), id: "rate-1" };
+
+function store(request: ProposalRequest): EditableCase {
+  // Round-trip through JSON like the jsonb columns
+  return JSON.parse(
+    JSON.stringify({
+      company_name: request.company_name,
+      industry: request.industry,
+      paycheck_inputs: defaultPaycheckInputs(2026),
+      ...calculateProposal(request, rateSet),
+    })
+  );
+}
+
+const flat: ProposalRequest = {
+  company_name: "Acme",
+  industry: "Manufacturing",
+  w2_count: 30,
+  state_mix: [{ state: "TX", count: 20 }, { state: "NY", count: 8 }],
+  eligibility_rules: DEFAULT_ELIGIBILITY_RULES,
+  exclusions: { owner: 2 },
+  projection: { growth_rate: 0.05, participation_rate: 0.8, ramp: [0.5, 1] },
+  scenarios: [
+    { name: "Low", participation_rate: 0.5 },
+    { name: "Pilot", participation_rate: 1, headcount: 5 },
+  ],
+  headline_scenario: 1,
+};
+
+describe("requestFromCase", () => {
+  it("recalculates a flat case to the same numbers", () => {
+    const stored = store(flat);
+    const again = calculateProposal(requestFromCase(stored), rateSet);
+    expect(again.calc_total).toBe(stored.calc_total);
+    expect(again.calc_steps).toEqual(stored.calc_steps);
+  });
+
+  it("recalculates a census case to the same numbers", () => {
+    const stored = store({
+      company_name: "Acme",
+      industry: "Retail",
+      census: [
+        { name: "A", annual_wages: 52000, pay_frequency: "weekly", filing_status: "single", state: "VA" },
+        { annual_wages: 90000, pay_frequency: "biweekly", filing_status: "married_jointly", owner: true },
+      ],
+      ebitda_multiple: 4,
+    });
+    const request = requestFromCase(stored);
+    expect(request).not.toHaveProperty("w2_count");
+    expect(request.ebitda_multiple).toBe(4);
+    expect(calculateProposal(request, rateSet).calc_inputs).toEqual(stored.calc_inputs);
+  });
+
+  it("keeps headcount overrides only where the rep entered them", () => {
+    const { scenarios } = requestFromCase(store(flat));
+    expect(scenarios).toEqual([
+      { name: "Low", participation_rate: 0.5 },
+      { name: "Pilot", participation_rate: 1, headcount: 5 },
+    ]);
+  });
+
+  it("leaves an industry default multiple to follow the industry", () => {
+    expect(requestFromCase(store(flat))).not.toHaveProperty("ebitda_multiple");
+  });
+});
+
+describe("mergeProposalRequest", () => {
+  it("replaces supplied fields and keeps the rest", () => {
+    const merged = mergeProposalRequest(flat, { company_name: "Acme Inc" });
+    expect(merged).toEqual({ ...flat, company_name: "Acme Inc" });
+  });
+
+  it("clears fields set to null", () => {
+    const merged = mergeProposalRequest(flat, { scenarios: null, headline_scenario: null });
+    expect(merged).not.toHaveProperty("scenarios");
+    expect(merged).not.toHaveProperty("headline_scenario");
+  });
+
+  it("switches a census case to flat mode when only a W-2 count is supplied", () => {
+    const census: ProposalRequest = {
+      company_name: "Acme",
+      industry: "Retail",
+      census: [{ annual_wages: 50000, pay_frequency: "weekly", filing_status: "single" }],
+    };
+    expect(mergeProposalRequest(census, { w2_count: 12 })).toEqual({
+      company_name: "Acme",
+      industry: "Retail",
+      w2_count: 12,
+    });
+  });
+
+  it("drops flat-only fields when a census is supplied", () => {
+    const census = [{ annual_wages: 50000, pay_frequency: "weekly" as const, filing_status: "single" as const }];
+    const merged = mergeProposalRequest(flat, { census });
+    expect(merged.census).toEqual(census);
+    expect(merged).not.toHaveProperty("w2_count");
+    expect(merged).not.toHaveProperty("state_mix");
+    expect(merged).not.toHaveProperty("exclusions");
+  });
+});
+
+describe("duplicateRequest", () => {
+  it("copies the inputs under a new company name by default", () => {
+    const request = duplicateRequest(store(flat), {});
+    expect(request).toEqual({ ...requestFromCase(store(flat)), company_name: "Acme (copy)" });
+  });
+
+  it("applies overrides and ignores nulls", () => {
+    const request = duplicateRequest(store(flat), {
+      company_name: "Acme West",
+      industry: null,
+      tax_year: 2027,
+    });
+    expect(request.company_name).toBe("Acme West");
+    expect(request.industry).toBe("Manufacturing");
+    expect(request.tax_year).toBe(2027);
+    expect(request.scenarios).toEqual(flat.scenarios);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_SCENARIOS,
+  calculateScenarios,
+  validateScenarioHeadcounts,
+  validateScenarios,
+} from "../scenarios";
+
+const base = { eligible_count: 20, calc_er: 20 * 1186, calc_ee: 20 * 2170 };
+
+describe("calculateScenarios", () => {
+  it("scales per-employee savings by participants", () => {
+    const [low, expected, high] = calculateScenarios(base, DEFAULT_SCENARIOS, 1);
+    expect(low.participants).toBe(10);
+    expect(low.calc_er).toBe(10 * 1186);
+    expect(expected.participants).toBe(15);
+    expect(high.calc_total).toBe(base.calc_er + base.calc_ee);
+  });
+
+  it("flags only the headline scenario", () => {
+    const results = calculateScenarios(base, DEFAULT_SCENARIOS, 1);
+    expect(results.map((r) => r.headline)).toEqual([false, true, false]);
+  });
+
+  it("applies a headcount override", () => {
+    const [result] = calculateScenarios(base, [{ name: "Pilot", participation_rate: 1, headcount: 12 }], 0);
+    expect(result.headcount).toBe(12);
+    expect(result.calc_ee).toBe(12 * 2170);
+  });
+
+  it("keeps total = ER + EE", () => {
+    const results = calculateScenarios(
+      { eligible_count: 7, calc_er: 7 * 1186.37, calc_ee: 7 * 2170.11 },
+      [{ name: "Odd", participation_rate: 0.33 }],
+      0
+    );
+    expect(results[0].calc_total).toBeCloseTo(results[0].calc_er + results[0].calc_ee, 2);
+  });
+});
+
+describe("validateScenarios", () => {
+  it("accepts the defaults", () => {
+    expect(validateScenarios(DEFAULT_SCENARIOS, 1)).toEqual([]);
+  });
+
+  it("rejects an empty or oversized list", () => {
+    expect(validateScenarios([], 0)).toEqual(["Scenarios (must list 1 to 5 scenarios)"]);
+    expect(validateScenarios(Array(6).fill(DEFAULT_SCENARIOS[0]), 0)).toEqual([
+      "Scenarios (must list 1 to 5 scenarios)",
+    ]);
+  });
+
+  it("reports invalid rows by number", () => {
+    const errors = validateScenarios(
+      [
+        { name: "Low", participation_rate: 0.5 },
+        { name: " low ", participation_rate: 0 },
+        { name: "", participation_rate: 1, headcount: 2.5 },
+      ],
+      0
+    );
+    expect(errors).toContain("Scenario 2 (duplicate name low)");
+    expect(errors).toContain("Scenario 2 (participation must be between 0 and 100%)");
+    expect(errors).toContain("Scenario 3 (name is required, up to 40 characters)");
+    expect(errors).toContain("Scenario 3 (headcount must be a positive whole number)");
+  });
+
+  it("rejects a headline index out of range", () => {
+    expect(validateScenarios(DEFAULT_SCENARIOS, 3)).toEqual(["Headline Scenario"]);
+    expect(validateScenarios(DEFAULT_SCENARIOS, undefined)).toEqual(["Headline Scenario"]);
+  });
+});
+
+describe("validateScenarioHeadcounts", () => {
+  it("allows overrides up to the eligible headcount", () => {
+    expect(
+      validateScenarioHeadcounts(
+        [
+          { name: "Pilot", participation_rate: 1, headcount: 12 },
+          { name: "All", participation_rate: 1, headcount: 20 },
+          { name: "Default", participation_rate: 0.5 },
+        ],
+        20
+      )
+    ).toEqual([]);
+  });
+
+  it("rejects overrides above the eligible headcount", () => {
+    expect(
+      validateScenarioHeadcounts(
+        [
+          { name: "Expected", participation_rate: 0.75 },
+          { name: "Growth", participation_rate: 1, headcount: 30 },
+        ],
+        20
+      )
+    ).toEqual(["Scenario 2 (headcount can't exceed the 20 eligible employees)"]);
+  });
+});
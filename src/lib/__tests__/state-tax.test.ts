@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import {
+  STATE_TAX_TABLE,
+  STATE_CODES,
+  BASELINE_STATE_RATE,
+  getStateTaxRate,
+  isStateCode,
+  hasStateIncomeTax,
+  stateWithholdingSavings,
+  stateEeAdjustment,
+  validateStateMix,
+} from "../state-tax";
+
+describe("STATE_TAX_TABLE", () => {
+  it("covers all 50 states plus DC", () => {
+    expect(Object.keys(STATE_TAX_TABLE)).toHaveLength(51);
+    expect(STATE_CODES).toHaveLength(51);
+  });
+
+  it("has zero rates for states without a wage income tax", () => {
+    for (const code of ["AK", "FL", "NV", "NH", "SD", "TN", "TX", "WA", "WY"]) {
+      expect(getStateTaxRate(code)).toBe(0);
+    }
+  });
+
+  it("has rates between 0 and 15%", () => {
+    for (const s of Object.values(STATE_TAX_TABLE)) {
+      expect(s.rate).toBeGreaterThanOrEqual(0);
+      expect(s.rate).toBeLessThan(0.15);
+    }
+  });
+});
+
+describe("isStateCode / getStateTaxRate", () => {
+  it("recognizes valid codes only", () => {
+    expect(isStateCode("VA")).toBe(true);
+    expect(isStateCode("va")).toBe(false);
+    expect(isStateCode(42)).toBe(false);
+  });
+
+  it("throws on an unknown code", () => {
+    expect(() => getStateTaxRate("ZZ")).toThrow();
+  });
+});
+
+describe("state withholding adjustments", () => {
+  it("saves state withholding on the deduction", () => {
+    expect(stateWithholdingSavings("VA", 10000)).toBeCloseTo(575, 2);
+    expect(stateWithholdingSavings("TX", 10000)).toBe(0);
+  });
+
+  it("adjusts the EE rate relative to the baseline", () => {
+    expect(stateEeAdjustment("TX", 10000)).toBeCloseTo(-BASELINE_STATE_RATE * 10000, 2);
+    expect(stateEeAdjustment("OR", 10000)).toBeGreaterThan(0);
+  });
+
+  it("flags no-income-tax states", () => {
+    expect(hasStateIncomeTax("FL")).toBe(false);
+    expect(hasStateIncomeTax("NY")).toBe(true);
+  });
+});
+
+describe("validateStateMix", () => {
+  it("accepts a mix that adds up to the W-2 count", () => {
+    expect(validateStateMix([{ state: "TX", count: 12 }, { state: "CA", count: 8 }], 20)).toEqual([]);
+  });
+
+  it("rejects a mix that does not add up", () => {
+    expect(validateStateMix([{ state: "TX", count: 12 }], 20)).toEqual([
+      "State Mix (headcounts add up to 12, expected 20)",
+    ]);
+  });
+
+  it("rejects an empty mix", () => {
+    expect(validateStateMix([], 20)).toEqual(["State Mix (must list at least one state)"]);
+  });
+
+  it("rejects unknown and duplicate states and bad counts", () => {
+    const errors = validateStateMix(
+      [{ state: "TX", count: 5 }, { state: "TX", count: 5 }, { state: "ZZ", count: 1.5 }],
+      11
+    );
+    expect(errors).toContain("State Mix row 2 (duplicate state TX)");
+    expect(errors).toContain("State Mix row 3 (invalid state)");
+    expect(errors).toContain("State Mix row 3 (headcount must be a positive whole number)");
+  });
+});
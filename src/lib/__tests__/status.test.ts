@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import {
+  CASE_STATUSES,
+  CASE_STATUS_LABELS,
+  CASE_STATUS_TRANSITIONS,
+  canRepTransition,
+  canTransition,
+  isCaseStatus,
+  repTransitions,
+} from "../status";
+
+describe("isCaseStatus", () => {
+  it("accepts every known status", () => {
+    for (const status of CASE_STATUSES) {
+      expect(isCaseStatus(status)).toBe(true);
+    }
+  });
+
+  it("rejects legacy and unknown values", () => {
+    expect(isCaseStatus("pending")).toBe(false);
+    expect(isCaseStatus("generated")).toBe(false);
+    expect(isCaseStatus("")).toBe(false);
+    expect(isCaseStatus(null)).toBe(false);
+    expect(isCaseStatus(undefined)).toBe(false);
+  });
+});
+
+describe("CASE_STATUS_TRANSITIONS", () => {
+  it("has a label and transition list for every status", () => {
+    for (const status of CASE_STATUSES) {
+      expect(CASE_STATUS_LABELS[status]).toBeTruthy();
+      expect(Array.isArray(CASE_STATUS_TRANSITIONS[status])).toBe(true);
+    }
+  });
+
+  it("only targets valid statuses and never the current one", () => {
+    for (const status of CASE_STATUSES) {
+      for (const target of CASE_STATUS_TRANSITIONS[status]) {
+        expect(isCaseStatus(target)).toBe(true);
+        expect(target).not.toBe(status);
+      }
+    }
+  });
+
+  it("treats live as final", () => {
+    expect(CASE_STATUS_TRANSITIONS.live).toEqual([]);
+  });
+});
+
+describe("canTransition", () => {
+  it("allows the normal sales path", () => {
+    expect(canTransition("draft", "sent")).toBe(true);
+    expect(canTransition("sent", "viewed")).toBe(true);
+    expect(canTransition("viewed", "negotiating")).toBe(true);
+    expect(canTransition("negotiating", "accepted")).toBe(true);
+    expect(canTransition("accepted", "live")).toBe(true);
+  });
+
+  it("lets the viewer open a draft that was shared without being marked sent", () => {
+    expect(canTransition("draft", "viewed")).toBe(true);
+  });
+
+  it("allows reopening declined and lost deals", () => {
+    expect(canTransition("declined", "negotiating")).toBe(true);
+    expect(canTransition("lost", "negotiating")).toBe(true);
+  });
+
+  it("rejects skipping or reversing steps", () => {
+    expect(canTransition("draft", "live")).toBe(false);
+    expect(canTransition("viewed", "sent")).toBe(false);
+    expect(canTransition("accepted", "draft")).toBe(false);
+    expect(canTransition("live", "lost")).toBe(false);
+  });
+});
+
+describe("repTransitions", () => {
+  it("never lets a rep mark a proposal accepted", () => {
+    for (const status of CASE_STATUSES) {
+      expect(repTransitions(status)).not.toContain("accepted");
+    }
+    expect(canRepTransition("negotiating", "accepted")).toBe(false);
+    expect(canTransition("negotiating", "accepted")).toBe(true);
+  });
+
+  it("keeps the other transitions", () => {
+    expect(repTransitions("sent")).toEqual(["viewed", "negotiating", "declined", "lost"]);
+    expect(canRepTransition("accepted", "live")).toBe(true);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import {
+  getFederalTaxTable,
+  federalIncomeTax,
+  socialSecurityTax,
+  medicareTax,
+  PAY_PERIODS,
+} from "../tax-tables";
+
+describe("getFederalTaxTable", () => {
+  it("returns the table for a known year", () => {
+    expect(getFederalTaxTable(2025).tax_year).toBe(2025);
+    expect(getFederalTaxTable(2026).tax_year).toBe(2026);
+  });
+
+  it("falls back to the latest earlier table for future years", () => {
+    expect(getFederalTaxTable(2030).tax_year).toBe(2026);
+  });
+
+  it("falls back to the earliest table for past years", () => {
+    expect(getFederalTaxTable(2010).tax_year).toBe(2025);
+  });
+});
+
+describe("federalIncomeTax", () => {
+  const table = getFederalTaxTable(2025);
+
+  it("is zero below the standard deduction", () => {
+    expect(federalIncomeTax(15000, "single", table)).toBe(0);
+  });
+
+  it("taxes through the brackets", () => {
+    // 50,000 - 15,750 = 34,250 taxable: 11,925 @ 10% + 22,325 @ 12%
+    expect(federalIncomeTax(50000, "single", table)).toBeCloseTo(3871.5, 2);
+  });
+
+  it("married filing jointly owes less than single on the same wages", () => {
+    expect(federalIncomeTax(80000, "married_jointly", table)).toBeLessThan(
+      federalIncomeTax(80000, "single", table)
+    );
+  });
+});
+
+describe("FICA helpers", () => {
+  const table = getFederalTaxTable(2025);
+
+  it("caps Social Security at the wage base", () => {
+    expect(socialSecurityTax(500000, table)).toBeCloseTo(176100 * 0.062, 2);
+  });
+
+  it("does not cap Medicare", () => {
+    expect(medicareTax(500000, table)).toBeCloseTo(7250, 2);
+  });
+
+  it("treats negative wages as zero", () => {
+    expect(socialSecurityTax(-100, table)).toBe(0);
+    expect(medicareTax(-100, table)).toBe(0);
+  });
+});
+
+describe("PAY_PERIODS", () => {
+  it("has the standard period counts", () => {
+    expect(PAY_PERIODS).toEqual({ weekly: 52, biweekly: 26, semimonthly: 24, monthly: 12 });
+  });
+});
@@ -0,0 +1,196 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { describe, it, expect, vi } from "vitest";
+import { calculateSavings } from "../calculator";
+import { formatUSD } from "../format";
+import {
+  type TemplateContent,
+  DEFAULT_TEMPLATE_CONTENT,
+  fillVariables,
+  isTemplateId,
+  plainText,
+  renderTemplate,
+  templateContext,
+  textRuns,
+  toTemplate,
+  unknownVariables,
+  validateTemplateContent,
+  validateTemplateInput,
+} from "../templates";
+
+const caseData = (options: Parameters<typeof calculateSavings>[1] = {}) => ({
+  company_name: "Acme Corp",
+  industry: "Manufacturing",
+  ...calculateSavings(100, options),
+  paycheck_inputs: null,
+});
+
+describe("fillVariables", () => {
+  it("replaces known placeholders, allowing inner spaces", () => {
+    expect(fillVariables("Hi {{company_name}}, {{ industry }}", { company_name: "Acme", industry: "Retail" })).toBe(
+      "Hi Acme, Retail"
+    );
+  });
+
+  it("leaves unknown placeholders as written", () => {
+    expect(fillVariables("{{nope}} and {{company_name}}", { company_name: "Acme" })).toBe("{{nope}} and Acme");
+  });
+});
+
+describe("textRuns / plainText", () => {
+  it("splits bold markup into runs", () => {
+    expect(textRuns("Save **$1,000** today")).toEqual([
+      { text: "Save ", bold: false },
+      { text: "$1,000", bold: true },
+      { text: " today", bold: false },
+    ]);
+  });
+
+  it("strips the markup", () => {
+    expect(plainText("**Bold** and plain")).toBe("Bold and plain");
+    expect(plainText("no markup")).toBe("no markup");
+  });
+});
+
+describe("templateContext", () => {
+  it("formats the case's figures", () => {
+    const data = caseData();
+    const { variables, conditions } = templateContext(data);
+    expect(variables.company_name).toBe("Acme Corp");
+    expect(variables.w2_count).toBe("100");
+    expect(variables.calc_total).toBe(formatUSD(data.calc_total));
+    expect(variables.pay_period).toBe("monthly");
+    expect(variables.valuation_uplift).toBe("");
+    expect(conditions).toMatchObject({ valuation: false, scenarios: false, census: false });
+  });
+
+  it("sets the valuation variables and condition", () => {
+    const data = caseData({ valuation: { multiple: 6, industry: null } });
+    const { variables, conditions } = templateContext(data);
+    expect(conditions.valuation).toBe(true);
+    expect(variables.ebitda_multiple).toBe("6");
+    expect(variables.valuation_uplift).toBe(formatUSD(data.calc_inputs.valuation!.valuation_uplift));
+  });
+});
+
+describe("renderTemplate", () => {
+  const content: TemplateContent = {
+    sections: [
+      {
+        title: "For {{company_name}}",
+        blocks: [
+          { type: "paragraph", text: "Always shown" },
+          { type: "paragraph", text: "Worth {{valuation_uplift}}", when: "valuation" },
+        ],
+      },
+      { title: "Scenarios", when: "scenarios", blocks: [{ type: "widget", widget: "scenarios" }] },
+    ],
+  };
+
+  it("drops sections and blocks whose condition doesn't hold", () => {
+    const out = renderTemplate(content, templateContext(caseData()));
+    expect(out.sections).toHaveLength(1);
+    expect(out.sections[0].title).toBe("For Acme Corp");
+    expect(out.sections[0].blocks).toEqual([{ type: "paragraph", text: "Always shown" }]);
+  });
+
+  it("fills variables in the blocks it keeps", () => {
+    const data = caseData({ valuation: { multiple: 6, industry: null } });
+    const out = renderTemplate(content, templateContext(data));
+    expect(out.sections[0].blocks[1]).toMatchObject({
+      text: `Worth ${formatUSD(data.calc_inputs.valuation!.valuation_uplift)}`,
+    });
+  });
+
+  it("leaves no placeholders in the default template", () => {
+    const out = renderTemplate(DEFAULT_TEMPLATE_CONTENT, templateContext(caseData({ valuation: { multiple: 6, industry: null } })));
+    expect(JSON.stringify(out)).not.toContain("{{");
+  });
+});
+
+describe("validateTemplateContent", () => {
+  it("accepts the default template", () => {
+    expect(validateTemplateContent(DEFAULT_TEMPLATE_CONTENT)).toEqual([]);
+  });
+
+  it("matches the default template seeded in the database", () => {
+    const migration = readFileSync(
+      path.join(__dirname, "../../../supabase/migrations/00023_seed_default_template.sql"),
+      "utf8"
+    );
+    const seeded = migration.split("$template$")[1];
+    expect(JSON.parse(seeded)).toEqual(DEFAULT_TEMPLATE_CONTENT);
+  });
+
+  it("requires sections with blocks", () => {
+    expect(validateTemplateContent(null)).toEqual(["Sections"]);
+    expect(validateTemplateContent({ sections: [] })).toEqual(["Sections"]);
+    expect(validateTemplateContent({ sections: [{ title: "Empty", blocks: [] }] })).toEqual(["Section 1 blocks"]);
+  });
+
+  it("labels bad blocks by position", () => {
+    expect(
+      validateTemplateContent({
+        sections: [
+          {
+            when: "sometimes",
+            blocks: [
+              { type: "paragraph", text: "ok" },
+              { type: "video" },
+              { type: "widget", widget: "chart" },
+              { type: "cards", columns: 6, items: [] },
+            ],
+          },
+        ],
+      })
+    ).toEqual([
+      "Section 1 condition",
+      "Section 1 block 2 type",
+      "Section 1 block 3 widget",
+      "Section 1 block 4 columns",
+      "Section 1 block 4 items",
+    ]);
+  });
+
+  it("rejects unknown variables", () => {
+    expect(
+      validateTemplateContent({ sections: [{ blocks: [{ type: "paragraph", text: "Hi {{first_name}}" }] }] })
+    ).toEqual(["Unknown variable {{first_name}}"]);
+    expect(unknownVariables("{{company_name}} {{x}}")).toEqual(["x"]);
+  });
+});
+
+describe("validateTemplateInput", () => {
+  it("accepts a named template", () => {
+    expect(validateTemplateInput({ name: "Standard", content: DEFAULT_TEMPLATE_CONTENT, is_default: true })).toEqual([]);
+  });
+
+  it("flags missing and invalid fields", () => {
+    expect(
+      validateTemplateInput({ name: " ", description: 5, is_default: "yes", content: DEFAULT_TEMPLATE_CONTENT })
+    ).toEqual(["Name", "Description", "Default"]);
+  });
+});
+
+describe("isTemplateId", () => {
+  it("accepts UUIDs only", () => {
+    expect(isTemplateId("8f14e45f-ceea-467f-a0e6-5f3b2c1d9e4a")).toBe(true);
+    expect(isTemplateId("not-a-uuid")).toBe(false);
+    expect(isTemplateId(null)).toBe(false);
+  });
+});
+
+describe("toTemplate", () => {
+  const row = { id: "8f14e45f-ceea-467f-a0e6-5f3b2c1d9e4a", name: "Short", description: null, is_default: false };
+
+  it("keeps valid content", () => {
+    const content = { sections: [{ title: "Only", blocks: [{ type: "paragraph", text: "Hello" }] }] };
+    expect(toTemplate({ ...row, content }).content).toEqual(content);
+  });
+
+  it("falls back to the built-in copy when content is invalid", () => {
+    const spy = vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(toTemplate({ ...row, content: { sections: [] } }).content).toBe(DEFAULT_TEMPLATE_CONTENT);
+    spy.mockRestore();
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_EBITDA_MULTIPLE,
+  calculateValuationUplift,
+  defaultEbitdaMultiple,
+  industryMultiple,
+  isValidEbitdaMultiple,
+} from "../valuation";
+
+describe("industryMultiple", () => {
+  it("matches industries by keyword, case-insensitively", () => {
+    expect(industryMultiple("Metal Fabrication")?.industry).toBe("Manufacturing");
+    expect(industryMultiple("DENTAL practice")?.industry).toBe("Healthcare");
+  });
+
+  it("matches keywords at the start of words only", () => {
+    expect(industryMultiple("Accounting")?.industry).toBe("Professional Services");
+    expect(industryMultiple("Tech")?.industry).toBe("Technology");
+    expect(industryMultiple("Technical writing")).toBeNull();
+    expect(industryMultiple("Biotech")).toBeNull();
+  });
+
+  it("prefers the keyword furthest right, which names the business", () => {
+    expect(industryMultiple("Technical staffing")?.multiple).toBe(5);
+    expect(industryMultiple("Accounting software")?.industry).toBe("Technology");
+    expect(industryMultiple("Home care staffing")?.industry).toBe("Staffing");
+  });
+
+  it("matches the industry names offered in the form", () => {
+    expect(industryMultiple("Professional Services")?.industry).toBe("Professional Services");
+    expect(industryMultiple("technology")?.industry).toBe("Technology");
+    expect(industryMultiple("Restaurants & Hospitality")?.industry).toBe("Restaurants & Hospitality");
+  });
+
+  it("returns null for unknown or blank industries", () => {
+    expect(industryMultiple("Underwater Basket Weaving")).toBeNull();
+    expect(industryMultiple("  ")).toBeNull();
+  });
+});
+
+describe("defaultEbitdaMultiple", () => {
+  it("uses the industry default when one matches", () => {
+    expect(defaultEbitdaMultiple("Manufacturing")).toBe(6);
+  });
+
+  it("falls back to the generic default", () => {
+    expect(defaultEbitdaMultiple("Other")).toBe(DEFAULT_EBITDA_MULTIPLE);
+  });
+});
+
+describe("calculateValuationUplift", () => {
+  it("multiplies employer savings by the multiple", () => {
+    expect(calculateValuationUplift(23720, 6, "Manufacturing")).toEqual({
+      ebitda_multiple: 6,
+      multiple_industry: "Manufacturing",
+      ebitda_increase: 23720,
+      valuation_uplift: 142320,
+    });
+  });
+
+  it("rounds to cents for fractional multiples", () => {
+    expect(calculateValuationUplift(1186.33, 4.5).valuation_uplift).toBe(5338.49);
+  });
+});
+
+describe("isValidEbitdaMultiple", () => {
+  it("accepts positive multiples up to the maximum", () => {
+    expect(isValidEbitdaMultiple(0.5)).toBe(true);
+    expect(isValidEbitdaMultiple(50)).toBe(true);
+  });
+
+  it("rejects zero, negative, oversized and non-numeric values", () => {
+    expect(isValidEbitdaMultiple(0)).toBe(false);
+    expect(isValidEbitdaMultiple(-3)).toBe(false);
+    expect(isValidEbitdaMultiple(51)).toBe(false);
+    expect(isValidEbitdaMultiple("6")).toBe(false);
+    expect(isValidEbitdaMultiple(NaN)).toBe(false);
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect } from "vitest";
+import { calculateSavings, type CalculationOptions } from "../calculator";
+import { DEFAULT_ELIGIBILITY_RULES } from "../eligibility";
+import { defaultRateSet } from "../rate-sets";
+import {
+  type WhatIfCase,
+  MAX_WHAT_IF_W2,
+  calculateWhatIf,
+  isWithinWhatIfRange,
+  scaleStateMix,
+  supportsWhatIf,
+  validateWhatIfRange,
+  whatIfRange,
+} from "../what-if";
+
+const rateSet = { ...defaultRateSet(2026), id: "rate-1" };
+
+function store(w2Count: number, options: CalculationOptions): WhatIfCase {
+  // Round-trip through JSON like a jsonb column
+  return JSON.parse(JSON.stringify(calculateSavings(w2Count, { rateSet, ...options })));
+}
+
+describe("calculateWhatIf", () => {
+  it("reproduces the proposal at its own W-2 count", () => {
+    const options: CalculationOptions = {
+      stateMix: [{ state: "TX", count: 20 }, { state: "NY", count: 8 }],
+      eligibility: { rules: DEFAULT_ELIGIBILITY_RULES, exclusions: { owner: 2 } },
+      valuation: { multiple: 6, industry: "Manufacturing" },
+      scenarios: { scenarios: [{ name: "Low", participation_rate: 0.5 }, { name: "High", participation_rate: 1 }], headline: 0 },
+    };
+    const proposal = calculateSavings(30, { rateSet, ...options });
+    const r = calculateWhatIf(store(30, options), 30);
+    expect(r).toEqual({
+      w2_count: 30,
+      eligible_count: 28,
+      calc_total: proposal.calc_total,
+      calc_er: proposal.calc_er,
+      calc_ee: proposal.calc_ee,
+      valuation_uplift: proposal.calc_inputs.valuation!.valuation_uplift,
+    });
+  });
+
+  it("scales a plain headcount proposal with the same rates", () => {
+    const r = calculateWhatIf(store(10, {}), 25);
+    expect(r.calc_er).toBe(25 * 1186);
+    expect(r.calc_ee).toBe(25 * 2170);
+    expect(r.calc_total).toBe(25 * 3356);
+    expect(r.valuation_uplift).toBeNull();
+  });
+
+  it("keeps excluded headcounts fixed", () => {
+    const stored = store(20, { eligibility: { rules: DEFAULT_ELIGIBILITY_RULES, exclusions: { owner: 2 } } });
+    const r = calculateWhatIf(stored, 35);
+    expect(r.eligible_count).toBe(33);
+    expect(r.calc_er).toBe(33 * 1186);
+  });
+
+  it("lets scenarios sized to the eligible headcount follow it, keeping overrides", () => {
+    const stored = store(20, {
+      scenarios: {
+        scenarios: [{ name: "Half", participation_rate: 0.5 }, { name: "Pilot", participation_rate: 1, headcount: 5 }],
+        headline: 0,
+      },
+    });
+    expect(calculateWhatIf(stored, 40).calc_er).toBe(20 * 1186);
+    const pilot = store(20, {
+      scenarios: {
+        scenarios: [{ name: "Half", participation_rate: 0.5 }, { name: "Pilot", participation_rate: 1, headcount: 5 }],
+        headline: 1,
+      },
+    });
+    expect(calculateWhatIf(pilot, 40).calc_er).toBe(5 * 1186);
+    expect(calculateWhatIf(pilot, 3).calc_er).toBe(3 * 1186);
+  });
+
+  it("saves nothing when the count leaves nobody eligible", () => {
+    const stored = store(20, {
+      eligibility: { rules: DEFAULT_ELIGIBILITY_RULES, exclusions: { owner: 5 } },
+      stateMix: [{ state: "TX", count: 15 }],
+    });
+    const r = calculateWhatIf(stored, 4);
+    expect(r.eligible_count).toBe(0);
+    expect(r.calc_total).toBe(0);
+    expect(r.calc_er).toBe(0);
+  });
+
+  it("resizes the state split to the new eligible count", () => {
+    const stored = store(10, { stateMix: [{ state: "TX", count: 5 }, { state: "NY", count: 5 }] });
+    const expected = calculateSavings(20, { rateSet, stateMix: [{ state: "TX", count: 10 }, { state: "NY", count: 10 }] });
+    expect(calculateWhatIf(stored, 20).calc_ee).toBe(expected.calc_ee);
+  });
+});
+
+describe("scaleStateMix", () => {
+  it("keeps each state's share and the new total", () => {
+    expect(scaleStateMix([{ state: "TX", count: 20 }, { state: "NY", count: 10 }], 45)).toEqual([
+      { state: "TX", count: 30 },
+      { state: "NY", count: 15 },
+    ]);
+  });
+
+  it("gives leftover employees to the largest fractions", () => {
+    const mix = scaleStateMix([{ state: "TX", count: 2 }, { state: "NY", count: 1 }, { state: "CA", count: 1 }], 5);
+    expect(mix).toEqual([
+      { state: "TX", count: 3 },
+      { state: "NY", count: 1 },
+      { state: "CA", count: 1 },
+    ]);
+    expect(mix.reduce((sum, s) => sum + s.count, 0)).toBe(5);
+  });
+
+  it("drops states left with nobody", () => {
+    expect(scaleStateMix([{ state: "TX", count: 9 }, { state: "NY", count: 1 }], 2)).toEqual([
+      { state: "TX", count: 2 },
+    ]);
+  });
+});
+
+describe("validateWhatIfRange", () => {
+  const inputs = calculateSavings(20, {
+    rateSet,
+    eligibility: { rules: DEFAULT_ELIGIBILITY_RULES, exclusions: { owner: 2 } },
+  }).calc_inputs;
+
+  it("accepts a range around the proposal's count", () => {
+    expect(validateWhatIfRange({ min_w2: 3, max_w2: 50 }, inputs)).toEqual([]);
+    expect(validateWhatIfRange({ min_w2: 20, max_w2: 20 }, inputs)).toEqual([]);
+  });
+
+  it("requires the range to include the proposal's count", () => {
+    expect(validateWhatIfRange({ min_w2: 25, max_w2: 50 }, inputs)).toHaveLength(1);
+    expect(validateWhatIfRange({ min_w2: 5, max_w2: 15 }, inputs)).toHaveLength(1);
+  });
+
+  it("keeps at least one employee eligible", () => {
+    expect(validateWhatIfRange({ min_w2: 2, max_w2: 50 }, inputs)).toEqual(["What-If Minimum W-2 Count (3 to 20)"]);
+  });
+
+  it("rejects bad values and ranges over the maximum", () => {
+    expect(validateWhatIfRange({ min_w2: 5.5, max_w2: "50" }, inputs)).toHaveLength(2);
+    expect(validateWhatIfRange({ min_w2: 5, max_w2: MAX_WHAT_IF_W2 + 1 }, inputs)).toHaveLength(1);
+    expect(validateWhatIfRange(null, inputs)).toEqual(["What-If Range"]);
+  });
+
+  it("is not available for census proposals", () => {
+    const census = calculateSavings(1, {
+      rateSet,
+      census: [{ annual_wages: 50000, pay_frequency: "weekly", filing_status: "single" }],
+    }).calc_inputs;
+    expect(supportsWhatIf(census)).toBe(false);
+    expect(validateWhatIfRange({ min_w2: 1, max_w2: 5 }, census)).toHaveLength(1);
+  });
+});
+
+describe("whatIfRange", () => {
+  it("reads the range from a cases row", () => {
+    expect(whatIfRange({ what_if_min_w2: 5, what_if_max_w2: 50 })).toEqual({ min_w2: 5, max_w2: 50 });
+    expect(whatIfRange({ what_if_min_w2: null, what_if_max_w2: null })).toBeNull();
+  });
+});
+
+describe("isWithinWhatIfRange", () => {
+  const inputs = calculateSavings(20, { rateSet }).calc_inputs;
+
+  it("accepts whole counts inside the range", () => {
+    const range = { min_w2: 5, max_w2: 50 };
+    expect(isWithinWhatIfRange(range, inputs, 5)).toBe(true);
+    expect(isWithinWhatIfRange(range, inputs, 50)).toBe(true);
+    expect(isWithinWhatIfRange(range, inputs, 51)).toBe(false);
+    expect(isWithinWhatIfRange(range, inputs, 10.5)).toBe(false);
+    expect(isWithinWhatIfRange(range, inputs, "10")).toBe(false);
+  });
+
+  it("rejects counts that leave nobody eligible, even inside a stale range", () => {
+    const excluded = calculateSavings(20, {
+      rateSet,
+      eligibility: { rules: DEFAULT_ELIGIBILITY_RULES, exclusions: { owner: 8 } },
+    }).calc_inputs;
+    const range = { min_w2: 5, max_w2: 50 };
+    expect(isWithinWhatIfRange(range, excluded, 8)).toBe(false);
+    expect(isWithinWhatIfRange(range, excluded, 9)).toBe(true);
+  });
+});
@@ -0,0 +1,77 @@
+import type { CaseStatus } from "./status";
+
+export const MAX_SIGNER_FIELD_LENGTH = 120;
+export const MAX_SIGNER_EMAIL_LENGTH = 254;
+
+/** Bump whenever ACCEPTANCE_TERMS changes; stored with each acceptance */
+export const ACCEPTANCE_TERMS_VERSION = "2026-10";
+
+export const ACCEPTANCE_TERMS =
+  "By accepting, I confirm that I am authorized to act on behalf of the company named in this " +
+  "proposal and that I wish to proceed with the SIMERP program on the basis of the figures shown. " +
+  "I understand that all figures are estimates, that enrollment is subject to a signed plan " +
+  "agreement and payroll review, and that this acceptance is not financial, tax, or legal advice. " +
+  "I agree that typing my name below is my electronic signature.";
+
+/** Statuses from which a prospect can accept (see CASE_STATUS_TRANSITIONS) */
+export const ACCEPTABLE_STATUSES: CaseStatus[] = ["sent", "viewed", "negotiating"];
+
+export interface AcceptanceRequest {
+  signer_name: string;
+  signer_title: string;
+  signer_email: string;
+  /** Typed signature; must match signer_name */
+  signature: string;
+  agreed_to_terms: boolean;
+}
+
+/** Acceptance as shown back to the prospect */
+export interface AcceptanceSummary {
+  signer_name: string;
+  accepted_at: string;
+}
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Case- and whitespace-insensitive, so "jane  doe" signs for "Jane Doe" */
+export function signatureMatches(signature: string, name: string): boolean {
+  const normalize = (value: string) => value.trim().replace(/\s+/g, " ").toLowerCase();
+  return normalize(signature) !== "" && normalize(signature) === normalize(name);
+}
+
+function isSignerField(value: unknown, max: number): value is string {
+  return typeof value === "string" && value.trim() !== "" && value.trim().length <= max;
+}
+
+/**
+ * Validate an acceptance submitted from the proposal page.
+ * Returns array of error messages (empty = valid).
+ */
+export function validateAcceptance(input: Partial<Record<keyof AcceptanceRequest, unknown>>): string[] {
+  const errors: string[] = [];
+
+  if (!isSignerField(input.signer_name, MAX_SIGNER_FIELD_LENGTH)) {
+    errors.push(`Name (required, up to ${MAX_SIGNER_FIELD_LENGTH} characters)`);
+  }
+  if (!isSignerField(input.signer_title, MAX_SIGNER_FIELD_LENGTH)) {
+    errors.push(`Title (required, up to ${MAX_SIGNER_FIELD_LENGTH} characters)`);
+  }
+  if (
+    !isSignerField(input.signer_email, MAX_SIGNER_EMAIL_LENGTH) ||
+    !EMAIL.test(input.signer_email.trim())
+  ) {
+    errors.push("Email (a valid email address)");
+  }
+  if (
+    typeof input.signature !== "string" ||
+    typeof input.signer_name !== "string" ||
+    !signatureMatches(input.signature, input.signer_name)
+  ) {
+    errors.push("Signature (type your full name exactly as entered)");
+  }
+  if (input.agreed_to_terms !== true) {
+    errors.push("Terms (must be agreed to)");
+  }
+
+  return errors;
+}
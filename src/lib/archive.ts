@@ -0,0 +1,108 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { DELETED_CASE_RETENTION_DAYS } from "./constants";
+
+export type ArchiveAction = "archive" | "unarchive" | "delete" | "restore";
+
+export const ARCHIVE_ACTIONS: ArchiveAction[] = ["archive", "unarchive", "delete", "restore"];
+
+/** Dashboard case lists */
+export type CaseView = "active" | "archived" | "deleted";
+
+export const CASE_VIEWS: CaseView[] = ["active", "archived", "deleted"];
+
+/** cases columns for archive state */
+export interface ArchiveState {
+  archived_at: string | null;
+  deleted_at: string | null;
+}
+
+export type ArchiveChange =
+  | {
+      ok: true;
+      changes: Partial<ArchiveState>;
+      /** Archiving and deleting revoke every link on the case */
+      revokeLinks: boolean;
+    }
+  | { ok: false; error: string };
+
+export function caseView(state: ArchiveState): CaseView {
+  if (state.deleted_at) return "deleted";
+  if (state.archived_at) return "archived";
+  return "active";
+}
+
+export function isCaseView(value: unknown): value is CaseView {
+  return CASE_VIEWS.includes(value as CaseView);
+}
+
+/**
+ * Validate an archive action request.
+ * Returns array of error messages (empty = valid).
+ */
+export function validateArchiveAction(action: unknown): string[] {
+  if (!ARCHIVE_ACTIONS.includes(action as ArchiveAction)) {
+    return [`Action (must be one of ${ARCHIVE_ACTIONS.join(", ")})`];
+  }
+  return [];
+}
+
+/**
+ * Columns to update for an archive action. Archive and delete are
+ * idempotent (the original timestamp is kept). A deleted case must be
+ * restored before it can be archived or unarchived; restoring keeps
+ * its archived state. Links stay revoked after unarchive or restore.
+ */
+export function archiveChange(
+  state: ArchiveState,
+  action: ArchiveAction,
+  now: Date = new Date()
+): ArchiveChange {
+  const timestamp = now.toISOString();
+
+  if (action === "delete") {
+    return { ok: true, changes: { deleted_at: state.deleted_at ?? timestamp }, revokeLinks: true };
+  }
+  if (action === "restore") {
+    if (!state.deleted_at) return { ok: false, error: "Proposal is not deleted" };
+    return { ok: true, changes: { deleted_at: null }, revokeLinks: false };
+  }
+
+  if (state.deleted_at) {
+    return { ok: false, error: "Proposal has been deleted; restore it first" };
+  }
+  if (action === "archive") {
+    return { ok: true, changes: { archived_at: state.archived_at ?? timestamp }, revokeLinks: true };
+  }
+  if (!state.archived_at) return { ok: false, error: "Proposal is not archived" };
+  return { ok: true, changes: { archived_at: null }, revokeLinks: false };
+}
+
+/** Cases deleted before this are purged */
+export function purgeCutoff(now: Date = new Date()): string {
+  return new Date(now.getTime() - DELETED_CASE_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/** Date a soft-deleted case will be purged */
+export function purgeDate(deletedAt: string): string {
+  return new Date(
+    new Date(deletedAt).getTime() + DELETED_CASE_RETENTION_DAYS * 24 * 60 * 60 * 1000
+  ).toISOString();
+}
+
+/**
+ * Revoke every link on a case that isn't already revoked, so old URLs
+ * show the revoked state. Throws on database errors.
+ */
+export async function revokeCaseLinks(
+  supabase: SupabaseClient,
+  caseId: string,
+  now: Date = new Date()
+): Promise<void> {
+  const { error } = await supabase
+    .from("case_links")
+    .update({ revoked_at: now.toISOString() })
+    .eq("case_id", caseId)
+    .is("revoked_at", null);
+
+  if (error) throw error;
+}
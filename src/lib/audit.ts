@@ -0,0 +1,201 @@
+import {
+  type CalculationInputs,
+  type CalculationOptions,
+  type CalculationResult,
+  type CalculationStep,
+  ENGINE_VERSION,
+  calculateSavings,
+} from "./calculator";
+import type { CensusEmployee } from "./census";
+import type { EmployeeEligibilityFlags, ExclusionReason } from "./eligibility";
+import type { SavingsProjection } from "./projection";
+import type { RateSet } from "./rate-sets";
+import type { ScenarioResult } from "./scenarios";
+import { toCents } from "./money";
+
+/** Calculation columns as stored on a case */
+export interface StoredCalculation {
+  calc_total: number;
+  calc_er: number;
+  calc_ee: number;
+  calc_inputs: CalculationInputs;
+  calc_steps: CalculationStep[] | null;
+  calc_projection: SavingsProjection | null;
+  calc_scenarios: ScenarioResult[] | null;
+  engine_version: string | null;
+}
+
+export interface Discrepancy {
+  /** e.g. "calc_total", "step:employee_2", "projection:year_3" */
+  field: string;
+  stored: number | null;
+  recomputed: number | null;
+}
+
+export interface VerificationReport {
+  engine_version: string;
+  matches: boolean;
+  discrepancies: Discrepancy[];
+}
+
+type Engine = (w2Count: number, options: CalculationOptions) => CalculationResult;
+
+/**
+ * Engines available for replay, by version. When ENGINE_VERSION is bumped,
+ * keep the previous implementation registered here so older cases can
+ * still be verified.
+ */
+const ENGINES: Record<string, Engine> = {
+  [ENGINE_VERSION]: calculateSavings,
+};
+
+export function canReplay(engineVersion: string | null): engineVersion is string {
+  return engineVersion !== null && engineVersion in ENGINES;
+}
+
+/** Census flag that produces each exclusion reason (wage threshold has none) */
+const REASON_FLAGS: Partial<Record<ExclusionReason, keyof EmployeeEligibilityFlags>> = {
+  owner: "owner",
+  s_corp_shareholder: "s_corp_shareholder",
+  part_time: "part_time",
+  seasonal: "seasonal",
+};
+
+/**
+ * Rebuild the calculator inputs recorded on a case.
+ * Census employees get back the flag behind their recorded exclusion,
+ * which reproduces the same eligibility outcome under the same rules.
+ */
+export function replayOptions(
+  stored: Pick<StoredCalculation, "calc_inputs" | "calc_projection" | "calc_scenarios">
+): {
+  w2Count: number;
+  options: CalculationOptions;
+} {
+  const inputs = stored.calc_inputs;
+  const rateSet: RateSet = {
+    id: inputs.rate_set_id,
+    tax_year: inputs.tax_year,
+    effective_from: `${inputs.tax_year}-01-01`,
+    effective_to: null,
+    rate_total: inputs.rate_total,
+    rate_er: inputs.rate_er,
+    rate_ee: inputs.rate_ee,
+    notes: null,
+  };
+
+  const census: CensusEmployee[] | undefined =
+    inputs.mode === "census"
+      ? (inputs.employees ?? []).map((e) => {
+          const flag = e.excluded_reason ? REASON_FLAGS[e.excluded_reason] : undefined;
+          return {
+            ...(e.name ? { name: e.name } : {}),
+            annual_wages: e.annual_wages,
+            pay_frequency: e.pay_frequency,
+            filing_status: e.filing_status,
+            ...(e.state ? { state: e.state } : {}),
+            ...(flag ? { [flag]: true } : {}),
+          };
+        })
+      : undefined;
+
+  const eligibility = inputs.eligibility
+    ? {
+        rules: inputs.eligibility.rules,
+        ...(inputs.mode === "flat"
+          ? {
+              exclusions: Object.fromEntries(
+                inputs.eligibility.exclusions.map((e) => [e.reason, e.count])
+              ),
+            }
+          : {}),
+      }
+    : undefined;
+
+  const scenarios = stored.calc_scenarios
+    ? {
+        scenarios: stored.calc_scenarios.map((s) => ({
+          name: s.name,
+          participation_rate: s.participation_rate,
+          headcount: s.headcount,
+        })),
+        headline: stored.calc_scenarios.findIndex((s) => s.headline),
+      }
+    : undefined;
+
+  return {
+    w2Count: inputs.w2_count,
+    options: {
+      census,
+      rateSet,
+      stateMix: inputs.state_mix?.map(({ state, count }) => ({ state, count })),
+      eligibility,
+      projection: stored.calc_projection?.assumptions,
+      valuation: inputs.valuation
+        ? { multiple: inputs.valuation.ebitda_multiple, industry: inputs.valuation.multiple_industry }
+        : undefined,
+      scenarios,
+    },
+  };
+}
+
+function compare(
+  discrepancies: Discrepancy[],
+  field: string,
+  stored: number | null | undefined,
+  recomputed: number | null | undefined
+) {
+  const a = stored ?? null;
+  const b = recomputed ?? null;
+  if (a === null || b === null ? a !== b : toCents(a) !== toCents(b)) {
+    discrepancies.push({ field, stored: a, recomputed: b });
+  }
+}
+
+/**
+ * Recompute a stored case with its recorded engine version and report
+ * every figure that no longer matches (compared to the cent).
+ * Throws if the engine version can't be replayed; check canReplay first.
+ */
+export function verifyCalculation(stored: StoredCalculation): VerificationReport {
+  if (!canReplay(stored.engine_version)) {
+    throw new Error(`Engine version ${stored.engine_version} is not available for replay`);
+  }
+
+  const { w2Count, options } = replayOptions(stored);
+  const result = ENGINES[stored.engine_version](w2Count, options);
+  const discrepancies: Discrepancy[] = [];
+
+  compare(discrepancies, "calc_total", stored.calc_total, result.calc_total);
+  compare(discrepancies, "calc_er", stored.calc_er, result.calc_er);
+  compare(discrepancies, "calc_ee", stored.calc_ee, result.calc_ee);
+
+  const recomputedSteps = new Map(result.calc_steps.map((s) => [s.id, s.value]));
+  const storedIds = new Set<string>();
+  for (const step of stored.calc_steps ?? []) {
+    storedIds.add(step.id);
+    compare(discrepancies, `step:${step.id}`, step.value, recomputedSteps.get(step.id));
+  }
+  for (const step of result.calc_steps) {
+    if (!storedIds.has(step.id)) {
+      compare(discrepancies, `step:${step.id}`, null, step.value);
+    }
+  }
+
+  if (stored.calc_projection) {
+    stored.calc_projection.years.forEach((y, i) => {
+      compare(
+        discrepancies,
+        `projection:year_${y.year}`,
+        y.total,
+        result.calc_projection.years[i]?.total
+      );
+    });
+  }
+
+  return {
+    engine_version: stored.engine_version,
+    matches: discrepancies.length === 0,
+    discrepancies,
+  };
+}
@@ -0,0 +1,165 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export const MAX_BRAND_NAME_LENGTH = 120;
+export const MAX_BRAND_TITLE_LENGTH = 60;
+export const MAX_BRAND_CONTACT_LENGTH = 254;
+export const MAX_BRAND_TEXT_LENGTH = 500;
+export const MAX_LOGO_BYTES = 1024 * 1024;
+
+/** Public Storage bucket holding organization logos */
+export const BRANDING_BUCKET = "branding";
+
+/**
+ * How proposals look for one organization: shown on the viewer, the PDF
+ * export and the dashboard of its members.
+ */
+export interface Branding {
+  /** Organization id; null for the built-in First Gen branding */
+  organization_id: string | null;
+  company_name: string;
+  /** Eyebrow over the prospect's name, e.g. "SIMERP Proposal" */
+  proposal_title: string;
+  /** Shown on the primary color; null = the company name in text */
+  logo_url: string | null;
+  /** Header and table backgrounds (white text on top, so a dark color) */
+  primary_color: string;
+  /** Highlights, links and figures */
+  accent_color: string;
+  contact_email: string | null;
+  contact_phone: string | null;
+  /** Postal address; one line per line */
+  address: string | null;
+  /** Legal line(s) under the proposal */
+  footer_text: string | null;
+}
+
+export const DEFAULT_BRANDING: Branding = {
+  organization_id: null,
+  company_name: "First Gen Financial",
+  proposal_title: "SIMERP Proposal",
+  logo_url: "/logo-white.png",
+  primary_color: "#0b2043",
+  accent_color: "#38b6ff",
+  contact_email: "Operations@1gfg.com",
+  contact_phone: null,
+  address: "99 Wall Street #5012\nNew York, NY 10005",
+  footer_text: "Copyright © First Gen Industries LTD. All Rights Reserved.",
+};
+
+/** Fields an admin can set on an organization (everything but the logo) */
+export interface BrandingInput {
+  name: string;
+  proposal_title?: string | null;
+  primary_color?: string;
+  accent_color?: string;
+  contact_email?: string | null;
+  contact_phone?: string | null;
+  address?: string | null;
+  footer_text?: string | null;
+}
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE = /^[0-9+().\-\s]{7,30}$/;
+
+/** A `#rrggbb` color */
+export function isHexColor(value: unknown): value is string {
+  return typeof value === "string" && HEX_COLOR.test(value);
+}
+
+function isOptionalText(value: unknown, max: number): boolean {
+  return value === undefined || value === null || (typeof value === "string" && value.length <= max);
+}
+
+/**
+ * Validate organization branding submitted by an admin.
+ * Returns array of error messages (empty = valid).
+ */
+export function validateBrandingInput(input: Partial<Record<keyof BrandingInput, unknown>>): string[] {
+  const errors: string[] = [];
+  if (typeof input.name !== "string" || !input.name.trim() || input.name.length > MAX_BRAND_NAME_LENGTH) {
+    errors.push("Name");
+  }
+  if (!isOptionalText(input.proposal_title, MAX_BRAND_TITLE_LENGTH)) errors.push("Proposal title");
+  if (input.primary_color !== undefined && !isHexColor(input.primary_color)) errors.push("Primary color (#rrggbb)");
+  if (input.accent_color !== undefined && !isHexColor(input.accent_color)) errors.push("Accent color (#rrggbb)");
+  if (
+    !isOptionalText(input.contact_email, MAX_BRAND_CONTACT_LENGTH) ||
+    (typeof input.contact_email === "string" && input.contact_email.trim() !== "" && !EMAIL.test(input.contact_email.trim()))
+  ) {
+    errors.push("Contact email");
+  }
+  if (
+    !isOptionalText(input.contact_phone, MAX_BRAND_CONTACT_LENGTH) ||
+    (typeof input.contact_phone === "string" && input.contact_phone.trim() !== "" && !PHONE.test(input.contact_phone.trim()))
+  ) {
+    errors.push("Contact phone");
+  }
+  if (!isOptionalText(input.address, MAX_BRAND_TEXT_LENGTH)) errors.push("Address");
+  if (!isOptionalText(input.footer_text, MAX_BRAND_TEXT_LENGTH)) errors.push("Footer text");
+  return errors;
+}
+
+/**
+ * Content type and file extension of an uploaded logo, from its leading
+ * bytes. Only PNG, JPEG and WebP are accepted (no SVG, which can carry
+ * scripts). Returns null for anything else.
+ */
+export function logoFileType(bytes: Uint8Array): { contentType: string; extension: string } | null {
+  const starts = (...sig: number[]) => sig.every((b, i) => bytes[i] === b);
+  if (starts(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a)) return { contentType: "image/png", extension: "png" };
+  if (starts(0xff, 0xd8, 0xff)) return { contentType: "image/jpeg", extension: "jpg" };
+  if (starts(0x52, 0x49, 0x46, 0x46) && String.fromCharCode(...bytes.slice(8, 12)) === "WEBP") {
+    return { contentType: "image/webp", extension: "webp" };
+  }
+  return null;
+}
+
+/** An organizations row as branding; blank fields fall back to the defaults */
+export function toBranding(row: Record<string, unknown>, logoUrl: string | null): Branding {
+  const text = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : null);
+  return {
+    organization_id: row.id as string,
+    company_name: text(row.name) ?? DEFAULT_BRANDING.company_name,
+    proposal_title: text(row.proposal_title) ?? DEFAULT_BRANDING.proposal_title,
+    logo_url: logoUrl,
+    primary_color: isHexColor(row.primary_color) ? row.primary_color : DEFAULT_BRANDING.primary_color,
+    accent_color: isHexColor(row.accent_color) ? row.accent_color : DEFAULT_BRANDING.accent_color,
+    contact_email: text(row.contact_email),
+    contact_phone: text(row.contact_phone),
+    address: text(row.address),
+    footer_text: text(row.footer_text),
+  };
+}
+
+/** Public URL of a logo in the branding bucket */
+export function logoUrl(supabase: SupabaseClient, path: string | null): string | null {
+  return path ? supabase.storage.from(BRANDING_BUCKET).getPublicUrl(path).data.publicUrl : null;
+}
+
+/**
+ * Branding for a user's proposals: their organization's, or the built-in
+ * branding when they don't belong to one. Throws on database errors.
+ */
+export async function loadUserBranding(supabase: SupabaseClient, userId: string): Promise<Branding> {
+  const { data, error } = await supabase
+    .from("organization_members")
+    .select("organizations(*)")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  const org = data?.organizations as unknown as Record<string, unknown> | null | undefined;
+  if (!org) return DEFAULT_BRANDING;
+  return toBranding(org, logoUrl(supabase, (org.logo_path as string | null) ?? null));
+}
+
+/**
+ * Branding for a case: its owner's organization's. Throws on database
+ * errors.
+ */
+export async function loadCaseBranding(supabase: SupabaseClient, caseId: string): Promise<Branding> {
+  const { data, error } = await supabase.from("cases").select("user_id").eq("id", caseId).maybeSingle();
+  if (error) throw error;
+  return data?.user_id ? loadUserBranding(supabase, data.user_id) : DEFAULT_BRANDING;
+}
@@ -0,0 +1,157 @@
+import { validateInput } from "./calculator";
+import { MAX_BULK_ROWS } from "./constants";
+import { parseCsv, toCsv } from "./csv";
+
+/** One prospect from a bulk upload */
+export interface BulkProspect {
+  company_name: string;
+  industry: string;
+  w2_count: number | null;
+}
+
+export interface BulkRow extends BulkProspect {
+  /** Line in the uploaded file, for error messages */
+  line: number;
+  errors: string[];
+}
+
+export interface BulkParseResult {
+  rows: BulkRow[];
+  /** Problems with the file as a whole, e.g. a missing column */
+  errors: string[];
+}
+
+/** A case created by a bulk upload, as exported for mail merge */
+export interface BulkCreated extends BulkProspect {
+  case_id: string;
+  shareable_url: string;
+  expires_at: string;
+}
+
+type BulkColumn = keyof BulkProspect;
+
+/** Accepted header names, compared lowercase without spaces or punctuation */
+const HEADER_ALIASES: Record<BulkColumn, string[]> = {
+  company_name: ["companyname", "company", "businessname", "business"],
+  industry: ["industry"],
+  w2_count: ["w2count", "w2", "w2s", "w2employees", "employees", "headcount"],
+};
+
+const COLUMN_LABELS: Record<BulkColumn, string> = {
+  company_name: "company name",
+  industry: "industry",
+  w2_count: "W-2 count",
+};
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/** "1,200" → 1200; blank or non-numeric → null */
+function parseCount(value: string): number | null {
+  const cleaned = value.replace(/[,\s]/g, "");
+  if (!cleaned) return null;
+  const count = Number(cleaned);
+  return Number.isFinite(count) ? count : null;
+}
+
+/**
+ * Validate one prospect with the same rules as a single proposal.
+ * Returns array of error messages (empty = valid).
+ */
+export function validateBulkProspect(prospect: Partial<Record<BulkColumn, unknown>>): string[] {
+  return validateInput({
+    company_name: prospect.company_name,
+    industry: prospect.industry,
+    w2_count: prospect.w2_count,
+  });
+}
+
+/**
+ * Parse an uploaded CSV of company name, industry and W-2 count.
+ * The first row must be a header; columns can be in any order and extra
+ * columns are ignored. Every row is validated, and repeated company names
+ * are flagged so a mail merge doesn't send two links to one prospect.
+ */
+export function parseBulkCsv(text: string): BulkParseResult {
+  const [header, ...lines] = parseCsv(text);
+  if (!header) return { rows: [], errors: ["The file is empty"] };
+
+  const normalized = header.map(normalizeHeader);
+  const columns = {} as Record<BulkColumn, number>;
+  const missing: string[] = [];
+  for (const column of Object.keys(HEADER_ALIASES) as BulkColumn[]) {
+    const index = normalized.findIndex((h) => HEADER_ALIASES[column].includes(h));
+    if (index === -1) missing.push(COLUMN_LABELS[column]);
+    columns[column] = index;
+  }
+  if (missing.length > 0) {
+    return { rows: [], errors: [`Missing column${missing.length > 1 ? "s" : ""}: ${missing.join(", ")}`] };
+  }
+
+  if (lines.length === 0) return { rows: [], errors: ["The file has no prospects"] };
+  if (lines.length > MAX_BULK_ROWS) {
+    return { rows: [], errors: [`Too many rows (${lines.length}); upload at most ${MAX_BULK_ROWS} at a time`] };
+  }
+
+  const firstLine = new Map<string, number>();
+  const rows = lines.map((cells, i) => {
+    const prospect: BulkProspect = {
+      company_name: (cells[columns.company_name] ?? "").trim(),
+      industry: (cells[columns.industry] ?? "").trim(),
+      w2_count: parseCount(cells[columns.w2_count] ?? ""),
+    };
+    // Header is line 1
+    const line = i + 2;
+    const errors = validateBulkProspect(prospect);
+
+    const key = prospect.company_name.toLowerCase();
+    if (key) {
+      const seen = firstLine.get(key);
+      if (seen !== undefined) errors.push(`Duplicate company (also on line ${seen})`);
+      else firstLine.set(key, line);
+    }
+
+    return { ...prospect, line, errors };
+  });
+
+  return { rows, errors: [] };
+}
+
+/**
+ * Validate the prospects sent to the bulk endpoint, including the
+ * repeated-company check parseBulkCsv makes.
+ * Returns array of error messages, prefixed with the row number (empty = valid).
+ */
+export function validateBulkProspects(prospects: unknown): string[] {
+  if (!Array.isArray(prospects) || prospects.length === 0) {
+    return ["Rows (at least one prospect)"];
+  }
+  if (prospects.length > MAX_BULK_ROWS) {
+    return [`Rows (at most ${MAX_BULK_ROWS})`];
+  }
+
+  const firstRow = new Map<string, number>();
+  return prospects.flatMap((prospect, i) => {
+    const row = i + 1;
+    if (!prospect || typeof prospect !== "object") return [`Row ${row}: Prospect`];
+
+    const errors = validateBulkProspect(prospect as Partial<Record<BulkColumn, unknown>>);
+    const name = (prospect as Partial<Record<BulkColumn, unknown>>).company_name;
+    const key = typeof name === "string" ? name.trim().toLowerCase() : "";
+    if (key) {
+      const seen = firstRow.get(key);
+      if (seen !== undefined) errors.push(`Duplicate company (also row ${seen})`);
+      else firstRow.set(key, row);
+    }
+    return errors.map((e) => `Row ${row}: ${e}`);
+  });
+}
+
+/** Mail-merge export of the created cases */
+export function bulkResultCsv(created: BulkCreated[]): string {
+  return toCsv([
+    ["company_name", "industry", "w2_count", "shareable_url", "expires_at", "case_id"],
+    ...created.map((c) => [c.company_name, c.industry, c.w2_count, c.shareable_url, c.expires_at, c.case_id]),
+  ]);
+}
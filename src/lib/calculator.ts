@@ -1,56 +1,549 @@
-import { RATE_TOTAL, RATE_ER, RATE_EE } from "./constants";
 import { formatUSD } from "./format";
+import { type RateSet, defaultRateSet } from "./rate-sets";
+import { SIMERP_MONTHLY_DEDUCTION } from "./constants";
+import {
+  type StateHeadcount,
+  STATE_TAX_TABLE,
+  BASELINE_STATE_RATE,
+  hasStateIncomeTax,
+  isStateCode,
+  stateEeAdjustment,
+  validateStateMix,
+} from "./state-tax";
+import {
+  FILING_STATUSES,
+  PAY_FREQUENCIES,
+  getFederalTaxTable,
+} from "./tax-tables";
+import {
+  type CensusEmployee,
+  type EmployeeSavings,
+  calculateEmployeeSavings,
+  excludedEmployeeSavings,
+} from "./census";
+import { fromCents, roundCents, sumDollars, toCents } from "./money";
+import {
+  type EligibilityRules,
+  type EligibilitySummary,
+  type ExclusionCounts,
+  EXCLUSION_REASON_LABELS,
+  censusEligibility,
+  exclusionReason,
+  flatEligibility,
+  validateEligibility,
+} from "./eligibility";
+import {
+  type ProjectionAssumptions,
+  type SavingsProjection,
+  DEFAULT_PROJECTION_ASSUMPTIONS,
+  projectSavings,
+  validateProjectionAssumptions,
+} from "./projection";
+import {
+  type ValuationUplift,
+  MAX_EBITDA_MULTIPLE,
+  calculateValuationUplift,
+  isValidEbitdaMultiple,
+} from "./valuation";
+import {
+  type ScenarioInput,
+  type ScenarioResult,
+  calculateScenarios,
+  validateScenarioHeadcounts,
+  validateScenarios,
+} from "./scenarios";
+
+export type CalculationMode = "flat" | "census";
+
+/**
+ * Version of the calculation logic. Bump whenever a change alters results
+ * for the same inputs, so stored cases can be replayed and verified.
+ */
+export const ENGINE_VERSION = "2026.10";
+
+/** One auditable step of a calculation, stored in cases.calc_steps */
+export interface CalculationStep {
+  /** Stable identifier, e.g. "er" or "employee_3" */
+  id: string;
+  label: string;
+  formula: string;
+  /** Values the formula was evaluated with */
+  inputs: Record<string, number | string | null>;
+  value: number;
+}
+
+/** Employee reduction for the headcount in one state (flat mode) */
+export interface StateEeBreakdown {
+  state: string;
+  count: number;
+  /** Per-W-2 EE rate after the state adjustment */
+  rate_ee: number;
+  ee: number;
+}
+
+export interface CalculationInputs {
+  mode: CalculationMode;
+  w2_count: number;
+  tax_year: number;
+  /** rate_sets row that produced the numbers (null = built-in rates) */
+  rate_set_id: string | null;
+  /** Per-W-2 rates (census mode: averages across the census) */
+  rate_total: number;
+  rate_er: number;
+  rate_ee: number;
+  /** Per-employee breakdown (census mode only) */
+  employees?: EmployeeSavings[];
+  /** Social Security wage base applied (census mode only) */
+  ss_wage_base?: number;
+  /** EE reduction by work state (flat mode with a state split only) */
+  state_mix?: StateEeBreakdown[];
+  /** Eligible vs. excluded headcount (when eligibility rules were applied) */
+  eligibility?: EligibilitySummary;
+  /** Enterprise valuation uplift from the employer savings (when a multiple was applied) */
+  valuation?: ValuationUplift;
+}
 
 export interface CalculationResult {
   calc_total: number;
   calc_er: number;
   calc_ee: number;
-  calc_inputs: {
-    w2_count: number;
-    tax_year: number;
-    rate_total: number;
-    rate_er: number;
-    rate_ee: number;
-  };
+  calc_inputs: CalculationInputs;
   calc_explanation: string;
+  /** Structured audit trail of how the totals were derived */
+  calc_steps: CalculationStep[];
+  engine_version: string;
+  /** Multi-year projection of the full-participation savings */
+  calc_projection: SavingsProjection;
+  /** Named participation scenarios; the headline one drives calc_total/er/ee */
+  calc_scenarios: ScenarioResult[] | null;
+}
+
+type SingleYearResult = Omit<
+  CalculationResult,
+  "calc_projection" | "calc_scenarios" | "engine_version"
+>;
+
+export interface CalculationOptions {
+  /** Per-employee census; when present, w2 count is the census size */
+  census?: CensusEmployee[];
+  /** Rates to apply; defaults to the built-in rates for the current year */
+  rateSet?: RateSet;
+  /** Headcount split across work states (flat mode); must sum to the eligible count */
+  stateMix?: StateHeadcount[];
+  /**
+   * Rules excluding ineligible employees. Census rows carry their own flags;
+   * flat mode uses the rep-entered exclusion headcounts.
+   */
+  eligibility?: { rules: EligibilityRules; exclusions?: ExclusionCounts };
+  /** Growth and participation assumptions; defaults to a flat projection */
+  projection?: ProjectionAssumptions;
+  /**
+   * EBITDA multiple for the valuation uplift; `industry` names the industry
+   * whose default was applied (null = entered by the rep)
+   */
+  valuation?: { multiple: number; industry: string | null };
+  /** Named scenarios compared side by side, and which one is the headline */
+  scenarios?: { scenarios: ScenarioInput[]; headline: number };
 }
 
 /**
- * Calculate tax savings from W-2 count.
+ * Calculate tax savings from W-2 count, or from a per-employee census,
+ * plus a multi-year projection. With scenarios, the headline scenario
+ * replaces the full-participation totals.
  * Pure function — no side effects, fully testable.
  */
-export function calculateSavings(w2Count: number): CalculationResult {
-  const taxYear = new Date().getFullYear();
-  const calcTotal = w2Count * RATE_TOTAL;
-  const calcEr = w2Count * RATE_ER;
-  const calcEe = w2Count * RATE_EE;
+export function calculateSavings(
+  w2Count: number,
+  options: CalculationOptions = {}
+): CalculationResult {
+  const rateSet = options.rateSet ?? defaultRateSet(new Date().getFullYear());
+
+  const result = options.census
+    ? calculateCensusSavings(options.census, rateSet, options.eligibility?.rules)
+    : calculateFlatSavings(w2Count, rateSet, options);
+  const base = {
+    eligible_count: result.calc_inputs.eligibility?.eligible_count ?? result.calc_inputs.w2_count,
+    calc_er: result.calc_er,
+    calc_ee: result.calc_ee,
+  };
+
+  const scenarios = options.scenarios
+    ? calculateScenarios(base, options.scenarios.scenarios, options.scenarios.headline)
+    : null;
+  const headline = scenarios?.find((s) => s.headline);
+  if (scenarios && headline) {
+    result.calc_total = headline.calc_total;
+    result.calc_er = headline.calc_er;
+    result.calc_ee = headline.calc_ee;
+    result.calc_steps.push(
+      ...scenarios.map((s, i) => ({
+        id: `scenario_${i + 1}`,
+        label: `Scenario: ${s.name}${s.headline ? " (headline)" : ""}`,
+        formula: "round(headcount × participation) × (full-participation total ÷ eligible count)",
+        inputs: {
+          headcount: s.headcount,
+          participation_rate: s.participation_rate,
+          participants: s.participants,
+          eligible_count: base.eligible_count,
+          full_er: base.calc_er,
+          full_ee: base.calc_ee,
+          er: s.calc_er,
+          ee: s.calc_ee,
+        },
+        value: s.calc_total,
+      })),
+      {
+        id: "headline_total",
+        label: `Proposal total (${headline.name} scenario)`,
+        formula: "ER + EE of the headline scenario",
+        inputs: { er: headline.calc_er, ee: headline.calc_ee },
+        value: headline.calc_total,
+      }
+    );
+    result.calc_explanation +=
+      `\nScenarios (figures above assume full participation; headline: ${headline.name}):\n` +
+      scenarios
+        .map(
+          (s) =>
+            `${s.name}: ${Math.round(s.participation_rate * 100)}% of ${s.headcount} = ${s.participants} participants, ` +
+            `Total ${formatUSD(s.calc_total)} = ER ${formatUSD(s.calc_er)} + EE ${formatUSD(s.calc_ee)}`
+        )
+        .join("\n");
+  }
+
+  if (options.valuation) {
+    const valuation = calculateValuationUplift(
+      result.calc_er,
+      options.valuation.multiple,
+      options.valuation.industry
+    );
+    result.calc_inputs.valuation = valuation;
+    result.calc_steps.push({
+      id: "valuation_uplift",
+      label: "Enterprise valuation uplift",
+      formula: "ER × EBITDA multiple",
+      inputs: { er: valuation.ebitda_increase, ebitda_multiple: valuation.ebitda_multiple },
+      value: valuation.valuation_uplift,
+    });
+    result.calc_explanation +=
+      `\nValuation Uplift: ${formatUSD(valuation.valuation_uplift)} = Employer Net Savings ${formatUSD(valuation.ebitda_increase)} × ${valuation.ebitda_multiple}x EBITDA multiple` +
+      (valuation.multiple_industry ? ` (${valuation.multiple_industry} default)` : "");
+  }
+
+  return {
+    ...result,
+    engine_version: ENGINE_VERSION,
+    calc_projection: projectSavings(base, options.projection ?? DEFAULT_PROJECTION_ASSUMPTIONS),
+    calc_scenarios: scenarios,
+  };
+}
+
+function calculateFlatSavings(
+  w2Count: number,
+  rateSet: RateSet,
+  options: CalculationOptions
+): SingleYearResult {
+  const taxYear = rateSet.tax_year;
+  const eligibility = options.eligibility
+    ? flatEligibility(w2Count, options.eligibility.exclusions ?? {}, options.eligibility.rules)
+    : undefined;
+  const count = eligibility ? eligibility.eligible_count : w2Count;
+  const stateMix = options.stateMix?.length
+    ? stateBreakdown(options.stateMix, rateSet.rate_ee)
+    : undefined;
+
+  const calcEr = fromCents(toCents(rateSet.rate_er) * count);
+  const calcEe = stateMix
+    ? sumDollars(stateMix.map((s) => s.ee))
+    : fromCents(toCents(rateSet.rate_ee) * count);
+  const calcTotal = sumDollars([calcEr, calcEe]);
+
+  const steps: CalculationStep[] = [];
+  if (eligibility) {
+    steps.push({
+      id: "eligible_count",
+      label: "Eligible W-2 employees",
+      formula: "W-2 count − excluded",
+      inputs: { w2_count: w2Count, excluded: eligibility.excluded_count },
+      value: count,
+    });
+  }
+  steps.push({
+    id: "er",
+    label: "Employer net savings",
+    formula: "eligible count × ER rate",
+    inputs: { count, rate_er: rateSet.rate_er },
+    value: calcEr,
+  });
+  if (stateMix) {
+    steps.push(
+      ...stateMix.map((s) => ({
+        id: `ee_${s.state}`,
+        label: `Employee reduction — ${STATE_TAX_TABLE[s.state].name}`,
+        formula: "count × (EE rate + annual deduction × (state rate − baseline rate))",
+        inputs: {
+          count: s.count,
+          rate_ee: rateSet.rate_ee,
+          annual_deduction: SIMERP_MONTHLY_DEDUCTION * 12,
+          state_rate: STATE_TAX_TABLE[s.state].rate,
+          baseline_rate: BASELINE_STATE_RATE,
+          adjusted_rate_ee: s.rate_ee,
+        },
+        value: s.ee,
+      })),
+      {
+        id: "ee",
+        label: "Employee reduction",
+        formula: "Σ state employee reductions",
+        inputs: Object.fromEntries(stateMix.map((s) => [s.state, s.ee])),
+        value: calcEe,
+      }
+    );
+  } else {
+    steps.push({
+      id: "ee",
+      label: "Employee reduction",
+      formula: "eligible count × EE rate",
+      inputs: { count, rate_ee: rateSet.rate_ee },
+      value: calcEe,
+    });
+  }
+  steps.push(totalStep(calcEr, calcEe, calcTotal));
+
+  let explanation =
+    `Based on ${describeHeadcount(w2Count, eligibility)} (Tax Year ${taxYear}):\n` +
+    describeExclusions(eligibility) +
+    `Total Tax Reduction: ${formatUSD(calcTotal)} = Employer Net Savings: ${formatUSD(calcEr)} + Employee Reduction: ${formatUSD(calcEe)}\n` +
+    `Per W-2: Total ${formatUSD(rateSet.rate_total)} = ER ${formatUSD(rateSet.rate_er)} + EE ${formatUSD(rateSet.rate_ee)}`;
+
+  if (stateMix) {
+    explanation +=
+      ` (EE assumes ${(BASELINE_STATE_RATE * 100).toFixed(1)}% state withholding; adjusted by work state)\n` +
+      stateMix
+        .map(
+          (s) =>
+            `${STATE_TAX_TABLE[s.state].name}: ${s.count} × ${formatUSD(s.rate_ee)} = ${formatUSD(s.ee)}` +
+            (hasStateIncomeTax(s.state) ? "" : " (no state income tax)")
+        )
+        .join("\n");
+  }
 
   return {
     calc_total: calcTotal,
     calc_er: calcEr,
     calc_ee: calcEe,
     calc_inputs: {
+      mode: "flat",
       w2_count: w2Count,
       tax_year: taxYear,
-      rate_total: RATE_TOTAL,
-      rate_er: RATE_ER,
-      rate_ee: RATE_EE,
+      rate_set_id: rateSet.id,
+      rate_total: rateSet.rate_total,
+      rate_er: rateSet.rate_er,
+      rate_ee: rateSet.rate_ee,
+      ...(stateMix ? { state_mix: stateMix } : {}),
+      ...(eligibility ? { eligibility } : {}),
+    },
+    calc_explanation: explanation,
+    calc_steps: steps,
+  };
+}
+
+function totalStep(er: number, ee: number, total: number): CalculationStep {
+  return {
+    id: "total",
+    label: "Total tax reduction",
+    formula: "ER + EE",
+    inputs: { er, ee },
+    value: total,
+  };
+}
+
+function describeHeadcount(total: number, eligibility?: EligibilitySummary): string {
+  return eligibility && eligibility.excluded_count > 0
+    ? `${eligibility.eligible_count} eligible of ${total} W-2 employees`
+    : `${total} W-2 employees`;
+}
+
+function describeExclusions(eligibility?: EligibilitySummary): string {
+  if (!eligibility || eligibility.excluded_count === 0) return "";
+  return (
+    `Excluded: ${eligibility.exclusions
+      .map((e) => `${EXCLUSION_REASON_LABELS[e.reason]} ${e.count}`)
+      .join(", ")}\n`
+  );
+}
+
+/**
+ * Per-state EE reduction: the flat EE rate adjusted for each state's
+ * withholding rate on the annual SIMERP deduction.
+ */
+function stateBreakdown(mix: StateHeadcount[], rateEe: number): StateEeBreakdown[] {
+  const annualDeduction = SIMERP_MONTHLY_DEDUCTION * 12;
+  return mix.map(({ state, count }) => {
+    const rate = roundCents(rateEe + stateEeAdjustment(state, annualDeduction));
+    return { state, count, rate_ee: rate, ee: fromCents(toCents(rate) * count) };
+  });
+}
+
+/**
+ * Census mode: compute FICA and withholding savings per employee,
+ * then roll them up into the same totals as the flat calculation.
+ */
+function calculateCensusSavings(
+  census: CensusEmployee[],
+  rateSet: RateSet,
+  rules?: EligibilityRules
+): SingleYearResult {
+  const taxYear = rateSet.tax_year;
+  const table = getFederalTaxTable(taxYear);
+  const employees = census.map((e) => {
+    const reason = rules ? exclusionReason(e, rules) : null;
+    return reason ? excludedEmployeeSavings(e, reason) : calculateEmployeeSavings(e, table);
+  });
+  const eligibility = rules ? censusEligibility(census, rules) : undefined;
+  const count = eligibility ? eligibility.eligible_count : employees.length;
+
+  const calcEr = sumDollars(employees.map((e) => e.er));
+  const calcEe = sumDollars(employees.map((e) => e.ee));
+  const calcTotal = sumDollars([calcEr, calcEe]);
+
+  const avgTotal = roundCents(calcTotal / count);
+  const avgEr = roundCents(calcEr / count);
+  const avgEe = roundCents(calcEe / count);
+
+  const steps: CalculationStep[] = employees.map((e, i) => ({
+    id: `employee_${i + 1}`,
+    label: e.name ?? `Employee ${i + 1}`,
+    formula: e.excluded_reason
+      ? "excluded by eligibility rules"
+      : "ER = FICA saved; EE = FICA + federal withholding + state withholding saved",
+    inputs: {
+      annual_wages: e.annual_wages,
+      pay_frequency: e.pay_frequency,
+      filing_status: e.filing_status,
+      state: e.state,
+      excluded_reason: e.excluded_reason,
+      annual_deduction: e.annual_deduction,
+      er_fica: e.er_fica,
+      ee_fica: e.ee_fica,
+      ee_withholding: e.ee_withholding,
+      ee_state_withholding: e.ee_state_withholding,
+      er: e.er,
+      ee: e.ee,
+    },
+    value: e.total,
+  }));
+  steps.push(
+    {
+      id: "er",
+      label: "Employer net savings",
+      formula: "Σ employee ER",
+      inputs: { employees: employees.length, eligible: count },
+      value: calcEr,
+    },
+    {
+      id: "ee",
+      label: "Employee reduction",
+      formula: "Σ employee EE",
+      inputs: { employees: employees.length, eligible: count },
+      value: calcEe,
+    },
+    totalStep(calcEr, calcEe, calcTotal)
+  );
+
+  return {
+    calc_total: calcTotal,
+    calc_er: calcEr,
+    calc_ee: calcEe,
+    calc_inputs: {
+      mode: "census",
+      w2_count: employees.length,
+      tax_year: taxYear,
+      rate_set_id: rateSet.id,
+      rate_total: avgTotal,
+      rate_er: avgEr,
+      rate_ee: avgEe,
+      employees,
+      ss_wage_base: table.ss_wage_base,
+      ...(eligibility ? { eligibility } : {}),
     },
     calc_explanation:
-      `Based on ${w2Count} W-2 employees (Tax Year ${taxYear}):\n` +
+      `Based on a census of ${describeHeadcount(employees.length, eligibility)} (Tax Year ${taxYear}):\n` +
+      describeExclusions(eligibility) +
       `Total Tax Reduction: ${formatUSD(calcTotal)} = Employer Net Savings: ${formatUSD(calcEr)} + Employee Reduction: ${formatUSD(calcEe)}\n` +
-      `Per W-2: Total ${formatUSD(RATE_TOTAL)} = ER ${formatUSD(RATE_ER)} + EE ${formatUSD(RATE_EE)}`,
+      `Average per W-2: Total ${formatUSD(avgTotal)} = ER ${formatUSD(avgEr)} + EE ${formatUSD(avgEe)}\n` +
+      `Employer FICA and employee FICA + federal and state withholding computed per employee (Social Security wage base ${formatUSD(table.ss_wage_base)})`,
+    calc_steps: steps,
   };
 }
 
+const NO_ELIGIBLE_EMPLOYEES = "Eligibility (no eligible employees remain after exclusions)";
+
+/**
+ * Validate census rows.
+ * Returns array of error messages (empty = valid).
+ */
+function validateCensus(census: unknown): string[] {
+  if (!Array.isArray(census) || census.length === 0) {
+    return ["Census (must list at least one employee)"];
+  }
+
+  const errors: string[] = [];
+  census.forEach((row: unknown, i) => {
+    const label = `Census row ${i + 1}`;
+    if (!row || typeof row !== "object") {
+      errors.push(`${label} (invalid row)`);
+      return;
+    }
+    const e = row as Record<string, unknown>;
+    if (
+      typeof e.annual_wages !== "number" ||
+      !Number.isFinite(e.annual_wages) ||
+      e.annual_wages <= 0
+    ) {
+      errors.push(`${label} (annual wages must be a positive number)`);
+    }
+    if (!PAY_FREQUENCIES.includes(e.pay_frequency as never)) {
+      errors.push(`${label} (invalid pay frequency)`);
+    }
+    if (!FILING_STATUSES.includes(e.filing_status as never)) {
+      errors.push(`${label} (invalid filing status)`);
+    }
+    if (e.name !== undefined && e.name !== null && typeof e.name !== "string") {
+      errors.push(`${label} (name must be text)`);
+    }
+    if (e.state !== undefined && e.state !== null && !isStateCode(e.state)) {
+      errors.push(`${label} (invalid state)`);
+    }
+    for (const flag of ["owner", "s_corp_shareholder", "part_time", "seasonal"]) {
+      if (e[flag] !== undefined && typeof e[flag] !== "boolean") {
+        errors.push(`${label} (${flag} must be true or false)`);
+      }
+    }
+  });
+  return errors;
+}
+
 /**
  * Validate proposal input fields.
+ * When a census is supplied it replaces the W-2 count check.
+ * Eligibility rules, if supplied, must leave at least one eligible employee,
+ * a state mix must add up to the eligible count, and scenario headcounts
+ * can't exceed it.
  * Returns array of error messages (empty = valid).
  */
 export function validateInput(input: {
   company_name: unknown;
   industry: unknown;
   w2_count: unknown;
+  census?: unknown;
+  state_mix?: unknown;
+  eligibility_rules?: unknown;
+  exclusions?: unknown;
+  projection?: unknown;
+  ebitda_multiple?: unknown;
+  scenarios?: unknown;
+  headline_scenario?: unknown;
 }): string[] {
   const errors: string[] = [];
 
@@ -70,6 +563,44 @@ export function validateInput(input: {
     errors.push("Industry");
   }
 
+  const eligibilityErrors =
+    input.eligibility_rules !== undefined
+      ? validateEligibility(input.eligibility_rules, input.exclusions)
+      : [];
+  errors.push(...eligibilityErrors);
+  if (input.projection !== undefined) {
+    errors.push(...validateProjectionAssumptions(input.projection));
+  }
+  if (input.ebitda_multiple !== undefined && !isValidEbitdaMultiple(input.ebitda_multiple)) {
+    errors.push(`EBITDA Multiple (must be greater than 0 and at most ${MAX_EBITDA_MULTIPLE})`);
+  }
+  const scenarioErrors =
+    input.scenarios !== undefined ? validateScenarios(input.scenarios, input.headline_scenario) : [];
+  errors.push(...scenarioErrors);
+  const scenarios =
+    input.scenarios !== undefined && scenarioErrors.length === 0
+      ? (input.scenarios as ScenarioInput[])
+      : undefined;
+  const rules =
+    input.eligibility_rules !== undefined && eligibilityErrors.length === 0
+      ? (input.eligibility_rules as EligibilityRules)
+      : undefined;
+
+  if (input.census !== undefined) {
+    const censusErrors = validateCensus(input.census);
+    errors.push(...censusErrors);
+    if (censusErrors.length === 0) {
+      const census = input.census as CensusEmployee[];
+      const eligible = rules ? censusEligibility(census, rules).eligible_count : census.length;
+      if (eligible === 0) {
+        errors.push(NO_ELIGIBLE_EMPLOYEES);
+      } else if (scenarios) {
+        errors.push(...validateScenarioHeadcounts(scenarios, eligible));
+      }
+    }
+    return errors;
+  }
+
   const w2 = input.w2_count;
   if (
     w2 === undefined ||
@@ -80,6 +611,20 @@ export function validateInput(input: {
     !Number.isInteger(w2)
   ) {
     errors.push("W-2 Count (must be a positive whole number)");
+  } else {
+    const eligible = rules
+      ? flatEligibility(w2, (input.exclusions ?? {}) as ExclusionCounts, rules).eligible_count
+      : w2;
+    if (eligible <= 0) {
+      errors.push(NO_ELIGIBLE_EMPLOYEES);
+    } else {
+      if (input.state_mix !== undefined) {
+        errors.push(...validateStateMix(input.state_mix, eligible));
+      }
+      if (scenarios) {
+        errors.push(...validateScenarioHeadcounts(scenarios, eligible));
+      }
+    }
   }
 
   return errors;
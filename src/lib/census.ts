@@ -0,0 +1,139 @@
+import { SIMERP_MONTHLY_DEDUCTION } from "./constants";
+import { roundCents, sumDollars } from "./money";
+import { stateWithholdingSavings } from "./state-tax";
+import type { EmployeeEligibilityFlags, ExclusionReason } from "./eligibility";
+import {
+  type FederalTaxTable,
+  type FilingStatus,
+  type PayFrequency,
+  PAY_PERIODS,
+  federalIncomeTax,
+  socialSecurityTax,
+  medicareTax,
+} from "./tax-tables";
+
+/** One employee row supplied by the rep in census mode */
+export interface CensusEmployee extends EmployeeEligibilityFlags {
+  name?: string;
+  annual_wages: number;
+  pay_frequency: PayFrequency;
+  filing_status: FilingStatus;
+  /** Two-letter work state; omitted = no state withholding savings counted */
+  state?: string;
+}
+
+/** Per-employee savings breakdown stored in calc_inputs.employees */
+export interface EmployeeSavings {
+  name: string | null;
+  annual_wages: number;
+  pay_frequency: PayFrequency;
+  filing_status: FilingStatus;
+  state: string | null;
+  /** Why the employee was left out of the totals; null = eligible */
+  excluded_reason: ExclusionReason | null;
+  /** Annual SIMERP pre-tax deduction applied (capped at wages) */
+  annual_deduction: number;
+  /** Employer FICA saved (SS + Medicare) */
+  er_fica: number;
+  /** Employee FICA saved (SS + Medicare) */
+  ee_fica: number;
+  /** Employee federal withholding saved */
+  ee_withholding: number;
+  /** Employee state withholding saved */
+  ee_state_withholding: number;
+  er: number;
+  ee: number;
+  total: number;
+}
+
+/**
+ * Federal withholding for a year, computed per pay period (rounded to cents
+ * like a real paycheck) and multiplied back out.
+ */
+function annualWithholding(
+  annualWages: number,
+  payFrequency: PayFrequency,
+  filingStatus: FilingStatus,
+  table: FederalTaxTable
+): number {
+  const periods = PAY_PERIODS[payFrequency];
+  const perPeriod = roundCents(federalIncomeTax(annualWages, filingStatus, table) / periods);
+  return roundCents(perPeriod * periods);
+}
+
+/**
+ * Calculate SIMERP savings for a single census employee.
+ * The pre-tax deduction lowers FICA wages for both employer and employee
+ * (respecting the Social Security wage base) and lowers federal and state
+ * withholding.
+ */
+export function calculateEmployeeSavings(
+  employee: CensusEmployee,
+  table: FederalTaxTable
+): EmployeeSavings {
+  const wages = employee.annual_wages;
+  const deduction = Math.min(SIMERP_MONTHLY_DEDUCTION * 12, wages);
+  const reduced = wages - deduction;
+
+  const fica = roundCents(
+    socialSecurityTax(wages, table) -
+      socialSecurityTax(reduced, table) +
+      medicareTax(wages, table) -
+      medicareTax(reduced, table)
+  );
+
+  const withholding = roundCents(
+    annualWithholding(wages, employee.pay_frequency, employee.filing_status, table) -
+      annualWithholding(reduced, employee.pay_frequency, employee.filing_status, table)
+  );
+
+  const stateWithholding = employee.state
+    ? roundCents(stateWithholdingSavings(employee.state, deduction))
+    : 0;
+
+  const er = fica;
+  const ee = sumDollars([fica, withholding, stateWithholding]);
+
+  return {
+    name: employee.name?.trim() || null,
+    annual_wages: wages,
+    pay_frequency: employee.pay_frequency,
+    filing_status: employee.filing_status,
+    state: employee.state ?? null,
+    excluded_reason: null,
+    annual_deduction: deduction,
+    er_fica: fica,
+    ee_fica: fica,
+    ee_withholding: withholding,
+    ee_state_withholding: stateWithholding,
+    er,
+    ee,
+    total: sumDollars([er, ee]),
+  };
+}
+
+/**
+ * Breakdown row for an employee excluded by the eligibility rules:
+ * listed for transparency, with no savings.
+ */
+export function excludedEmployeeSavings(
+  employee: CensusEmployee,
+  reason: ExclusionReason
+): EmployeeSavings {
+  return {
+    name: employee.name?.trim() || null,
+    annual_wages: employee.annual_wages,
+    pay_frequency: employee.pay_frequency,
+    filing_status: employee.filing_status,
+    state: employee.state ?? null,
+    excluded_reason: reason,
+    annual_deduction: 0,
+    er_fica: 0,
+    ee_fica: 0,
+    ee_withholding: 0,
+    ee_state_withholding: 0,
+    er: 0,
+    ee: 0,
+    total: 0,
+  };
+}
@@ -0,0 +1,119 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import type { CalculationInputs } from "./calculator";
+import { formatUSD } from "./format";
+import { canonicalJson } from "./idempotency";
+import type { PaycheckInputs } from "./paycheck";
+import type { SavingsProjection } from "./projection";
+import type { ScenarioResult } from "./scenarios";
+import type { TemplateContent } from "./templates";
+
+/** The proposal exactly as the prospect saw it when accepting */
+export interface CalculationSnapshot {
+  company_name: string;
+  industry: string;
+  revision: number;
+  calc_total: number;
+  calc_er: number;
+  calc_ee: number;
+  calc_inputs: CalculationInputs;
+  calc_scenarios: ScenarioResult[] | null;
+  calc_projection: SavingsProjection | null;
+  paycheck_inputs: PaycheckInputs | null;
+  /**
+   * The template the proposal's wording came from. Versions never change,
+   * so the copy the prospect signed can be looked up again; absent on
+   * acceptances recorded before templates were versioned.
+   */
+  template?: {
+    /** null = the built-in copy */
+    id: string | null;
+    version_id: string | null;
+    content_hash: string;
+  };
+}
+
+/** case_acceptances row as used for the certificate */
+export interface AcceptanceRecord {
+  id: string;
+  case_id: string;
+  signer_name: string;
+  signer_title: string;
+  signer_email: string;
+  signature: string;
+  terms_version: string;
+  ip_hash: string | null;
+  calc_snapshot: CalculationSnapshot;
+  snapshot_hash: string;
+  accepted_at: string;
+}
+
+const SIGNATURE_PREFIX = "Signature (HMAC-SHA256): ";
+
+/** SHA-256 of the canonical snapshot JSON; anyone holding the snapshot can recompute it */
+export function snapshotHash(snapshot: CalculationSnapshot): string {
+  return createHash("sha256").update(canonicalJson(snapshot)).digest("hex");
+}
+
+/** SHA-256 of a template's canonical content, as recorded in the snapshot */
+export function templateContentHash(content: TemplateContent): string {
+  return createHash("sha256").update(canonicalJson(content)).digest("hex");
+}
+
+/** Certificate body; every line is covered by the signature */
+export function certificateBody(record: AcceptanceRecord): string {
+  const snapshot = record.calc_snapshot;
+  return [
+    "SIMERP PROPOSAL ACCEPTANCE CERTIFICATE",
+    "",
+    `Certificate ID: ${record.id}`,
+    `Case ID: ${record.case_id}`,
+    `Company: ${snapshot.company_name}`,
+    `Industry: ${snapshot.industry}`,
+    `Proposal revision: ${snapshot.revision}`,
+    `Accepted at (UTC): ${new Date(record.accepted_at).toISOString()}`,
+    "",
+    "Signer",
+    `  Name: ${record.signer_name}`,
+    `  Title: ${record.signer_title}`,
+    `  Email: ${record.signer_email}`,
+    `  Signature: /s/ ${record.signature}`,
+    `  Terms version: ${record.terms_version} (agreed)`,
+    `  IP address hash: ${record.ip_hash ?? "not recorded"}`,
+    "",
+    "Accepted calculation",
+    `  Tax year: ${snapshot.calc_inputs.tax_year}`,
+    `  W-2 employees: ${snapshot.calc_inputs.w2_count}`,
+    `  Employer savings: ${formatUSD(snapshot.calc_er)}`,
+    `  Employee savings: ${formatUSD(snapshot.calc_ee)}`,
+    `  Total annual savings: ${formatUSD(snapshot.calc_total)}`,
+    `  Snapshot SHA-256: ${record.snapshot_hash}`,
+    ...(snapshot.template
+      ? [
+          `  Template version: ${snapshot.template.version_id ?? "built-in"}`,
+          `  Template SHA-256: ${snapshot.template.content_hash}`,
+        ]
+      : []),
+    "",
+  ].join("\n");
+}
+
+export function signCertificate(body: string, secret: string): string {
+  return createHmac("sha256", secret).update(body).digest("hex");
+}
+
+/** Signed certificate text, as downloaded from the dashboard */
+export function acceptanceCertificate(record: AcceptanceRecord, secret: string): string {
+  const body = certificateBody(record);
+  return `${body}\n${SIGNATURE_PREFIX}${signCertificate(body, secret)}\n`;
+}
+
+/** True when a downloaded certificate is unaltered and was signed with `secret` */
+export function verifyCertificate(document: string, secret: string): boolean {
+  const at = document.lastIndexOf(`\n${SIGNATURE_PREFIX}`);
+  if (at === -1) return false;
+
+  const body = document.slice(0, at);
+  const actual = Buffer.from(document.slice(at + SIGNATURE_PREFIX.length + 1).trim(), "hex");
+  const expected = Buffer.from(signCertificate(body, secret), "hex");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
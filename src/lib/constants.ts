@@ -1,3 +1,6 @@
+// Built-in per-W2 multipliers — used only when no rate_sets row
+// exists for the requested tax year (see rate-sets.ts).
+
 /** Per-W2 multiplier for Total Tax Reduction */
 export const RATE_TOTAL = 3356;
 
@@ -9,3 +12,28 @@ export const RATE_EE = 2170;
 
 /** Link expiry in days */
 export const LINK_EXPIRY_DAYS = 30;
+
+/** Monthly SIMERP pre-tax deduction per enrolled employee */
+export const SIMERP_MONTHLY_DEDUCTION = 1293;
+
+/** Allowed passcode length for protected links */
+export const MIN_PASSCODE_LENGTH = 4;
+export const MAX_PASSCODE_LENGTH = 32;
+
+/** Wrong passcodes allowed before a link locks */
+export const MAX_PASSCODE_ATTEMPTS = 5;
+
+/** How long a link stays locked after too many wrong passcodes */
+export const PASSCODE_LOCKOUT_MINUTES = 15;
+
+/** How long an entered passcode keeps a link open (see issuePasscodeGrant) */
+export const PASSCODE_GRANT_MINUTES = 60;
+
+/** Identical generate submissions within this window return the first case */
+export const DUPLICATE_SUBMISSION_WINDOW_SECONDS = 60;
+
+/** Soft-deleted cases are purged for good after this many days */
+export const DELETED_CASE_RETENTION_DAYS = 30;
+
+/** Most rows accepted in one bulk CSV upload */
+export const MAX_BULK_ROWS = 200;
@@ -16,3 +16,12 @@ export function hashWithPepper(value: string, pepper: string): string {
 export function generateToken(): string {
   return randomBytes(32).toString("hex");
 }
+
+/**
+ * New link token and its peppered hash. Only the hash is stored; the raw
+ * token exists only in the shareable URL.
+ */
+export function issueLinkToken(pepper: string): { rawToken: string; tokenHash: string } {
+  const rawToken = generateToken();
+  return { rawToken, tokenHash: hashWithPepper(rawToken, pepper) };
+}
@@ -0,0 +1,198 @@
+import { SIMERP_MONTHLY_DEDUCTION } from "./constants";
+
+export type ExclusionReason =
+  | "owner"
+  | "s_corp_shareholder"
+  | "below_min_wage"
+  | "part_time"
+  | "seasonal";
+
+/** Reasons in priority order — an employee is counted under the first that applies */
+export const EXCLUSION_REASONS: ExclusionReason[] = [
+  "owner",
+  "s_corp_shareholder",
+  "below_min_wage",
+  "part_time",
+  "seasonal",
+];
+
+export const EXCLUSION_REASON_LABELS: Record<ExclusionReason, string> = {
+  owner: "Owners",
+  s_corp_shareholder: ">2% S-corp shareholders",
+  below_min_wage: "Below minimum wage threshold",
+  part_time: "Part-time",
+  seasonal: "Seasonal",
+};
+
+export interface EligibilityRules {
+  /** Minimum annual wages to participate; null = no threshold */
+  min_annual_wage: number | null;
+  exclude_part_time: boolean;
+  exclude_seasonal: boolean;
+  /** >2% S-corp shareholders cannot take pre-tax cafeteria plan deductions */
+  exclude_s_corp_shareholders: boolean;
+  exclude_owners: boolean;
+}
+
+/**
+ * Defaults: owners and >2% S-corp shareholders are excluded, and wages
+ * must at least cover the annual SIMERP deduction.
+ */
+export const DEFAULT_ELIGIBILITY_RULES: EligibilityRules = {
+  min_annual_wage: SIMERP_MONTHLY_DEDUCTION * 12,
+  exclude_part_time: false,
+  exclude_seasonal: false,
+  exclude_s_corp_shareholders: true,
+  exclude_owners: true,
+};
+
+/** Eligibility flags on a census employee */
+export interface EmployeeEligibilityFlags {
+  owner?: boolean;
+  s_corp_shareholder?: boolean;
+  part_time?: boolean;
+  seasonal?: boolean;
+}
+
+/** Headcount per exclusion reason, entered by the rep in flat mode */
+export type ExclusionCounts = Partial<Record<ExclusionReason, number>>;
+
+export interface EligibilitySummary {
+  rules: EligibilityRules;
+  total_count: number;
+  eligible_count: number;
+  excluded_count: number;
+  /** Only reasons with a non-zero count, in priority order */
+  exclusions: { reason: ExclusionReason; count: number }[];
+}
+
+function ruleApplies(reason: ExclusionReason, rules: EligibilityRules): boolean {
+  switch (reason) {
+    case "owner":
+      return rules.exclude_owners;
+    case "s_corp_shareholder":
+      return rules.exclude_s_corp_shareholders;
+    case "below_min_wage":
+      return rules.min_annual_wage !== null && rules.min_annual_wage > 0;
+    case "part_time":
+      return rules.exclude_part_time;
+    case "seasonal":
+      return rules.exclude_seasonal;
+  }
+}
+
+/**
+ * The reason a census employee is excluded, or null if eligible.
+ */
+export function exclusionReason(
+  employee: EmployeeEligibilityFlags & { annual_wages: number },
+  rules: EligibilityRules
+): ExclusionReason | null {
+  const matches: Record<ExclusionReason, boolean> = {
+    owner: !!employee.owner,
+    s_corp_shareholder: !!employee.s_corp_shareholder,
+    below_min_wage: employee.annual_wages < (rules.min_annual_wage ?? 0),
+    part_time: !!employee.part_time,
+    seasonal: !!employee.seasonal,
+  };
+  return EXCLUSION_REASONS.find((r) => matches[r] && ruleApplies(r, rules)) ?? null;
+}
+
+function summarize(
+  rules: EligibilityRules,
+  total: number,
+  counts: Record<ExclusionReason, number>
+): EligibilitySummary {
+  const exclusions = EXCLUSION_REASONS.filter((r) => counts[r] > 0).map((reason) => ({
+    reason,
+    count: counts[reason],
+  }));
+  const excluded = exclusions.reduce((sum, e) => sum + e.count, 0);
+  return {
+    rules,
+    total_count: total,
+    eligible_count: total - excluded,
+    excluded_count: excluded,
+    exclusions,
+  };
+}
+
+function zeroCounts(): Record<ExclusionReason, number> {
+  return { owner: 0, s_corp_shareholder: 0, below_min_wage: 0, part_time: 0, seasonal: 0 };
+}
+
+/**
+ * Summarize eligibility for a census.
+ */
+export function censusEligibility(
+  employees: (EmployeeEligibilityFlags & { annual_wages: number })[],
+  rules: EligibilityRules
+): EligibilitySummary {
+  const counts = zeroCounts();
+  for (const e of employees) {
+    const reason = exclusionReason(e, rules);
+    if (reason) counts[reason]++;
+  }
+  return summarize(rules, employees.length, counts);
+}
+
+/**
+ * Summarize eligibility from rep-entered exclusion headcounts.
+ * Counts for reasons the rules don't exclude are ignored.
+ */
+export function flatEligibility(
+  w2Count: number,
+  exclusions: ExclusionCounts,
+  rules: EligibilityRules
+): EligibilitySummary {
+  const counts = zeroCounts();
+  for (const reason of EXCLUSION_REASONS) {
+    if (ruleApplies(reason, rules)) counts[reason] = exclusions[reason] ?? 0;
+  }
+  return summarize(rules, w2Count, counts);
+}
+
+/**
+ * Validate eligibility rules and (flat mode) exclusion headcounts.
+ * Returns array of error messages (empty = valid).
+ */
+export function validateEligibility(rules: unknown, exclusions?: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!rules || typeof rules !== "object") {
+    return ["Eligibility Rules"];
+  }
+  const r = rules as Record<string, unknown>;
+  if (
+    r.min_annual_wage !== null &&
+    (typeof r.min_annual_wage !== "number" ||
+      !Number.isFinite(r.min_annual_wage) ||
+      r.min_annual_wage < 0)
+  ) {
+    errors.push("Eligibility Minimum Wage (must be zero or more)");
+  }
+  for (const key of [
+    "exclude_part_time",
+    "exclude_seasonal",
+    "exclude_s_corp_shareholders",
+    "exclude_owners",
+  ]) {
+    if (typeof r[key] !== "boolean") errors.push(`Eligibility Rules (${key} must be true or false)`);
+  }
+
+  if (exclusions !== undefined) {
+    if (!exclusions || typeof exclusions !== "object") {
+      errors.push("Exclusions");
+    } else {
+      for (const [reason, count] of Object.entries(exclusions)) {
+        if (!EXCLUSION_REASONS.includes(reason as ExclusionReason)) {
+          errors.push(`Exclusions (unknown reason ${reason})`);
+        } else if (typeof count !== "number" || !Number.isInteger(count) || count < 0) {
+          errors.push(`Exclusions (${EXCLUSION_REASON_LABELS[reason as ExclusionReason]} must be a whole number)`);
+        }
+      }
+    }
+  }
+
+  return errors;
+}
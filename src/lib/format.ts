@@ -1,15 +1,26 @@
+import { fromCents, parseMoney, toCents } from "./money";
+
 /**
- * Format a number as USD currency string.
+ * Format a dollar amount as a USD currency string.
+ * Rounds to cents half away from zero (see money.ts) and throws on
+ * non-finite values instead of hiding them as "$0.00".
  * Example: 12345.67 -> "$12,345.67"
  */
-export function formatUSD(value: number | string | null | undefined): string {
-  if (value === null || value === undefined) return "$0.00";
-  const num = typeof value === "string" ? parseFloat(value) : value;
-  if (isNaN(num)) return "$0.00";
+export function formatUSD(value: number): string {
+  // `|| 0` avoids "-$0.00" for tiny negative amounts
+  const dollars = fromCents(toCents(value)) || 0;
   return new Intl.NumberFormat("en-US", {
     style: "currency",
     currency: "USD",
     minimumFractionDigits: 2,
     maximumFractionDigits: 2,
-  }).format(num);
+  }).format(dollars);
+}
+
+/**
+ * Format a numeric database column for a table cell.
+ * Money columns may be null on cases created before calculation.
+ */
+export function formatMoneyCell(value: unknown): string {
+  return value === null || value === undefined ? "—" : formatUSD(parseMoney(value));
 }
@@ -0,0 +1,49 @@
+import { DUPLICATE_SUBMISSION_WINDOW_SECONDS } from "./constants";
+import { hashWithPepper } from "./crypto";
+
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+/** Printable ASCII without spaces, e.g. a UUID */
+const IDEMPOTENCY_KEY = /^[\x21-\x7e]+$/;
+
+/**
+ * JSON with object keys sorted at every level, so equal values always
+ * serialize the same way regardless of key order.
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((v) => canonicalJson(v ?? null)).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Peppered hash of a request body, stored as cases.input_hash.
+ * Peppered because the body can include a link passcode.
+ */
+export function requestFingerprint(body: unknown, pepper: string): string {
+  return hashWithPepper(canonicalJson(body), pepper);
+}
+
+/**
+ * Validate an Idempotency-Key header (null = not sent).
+ * Returns array of error messages (empty = valid).
+ */
+export function validateIdempotencyKey(key: string | null): string[] {
+  if (key === null) return [];
+  if (key.length > MAX_IDEMPOTENCY_KEY_LENGTH || !IDEMPOTENCY_KEY.test(key)) {
+    return [`Idempotency-Key (1 to ${MAX_IDEMPOTENCY_KEY_LENGTH} printable characters, no spaces)`];
+  }
+  return [];
+}
+
+/** Earliest last_generated_at that still counts as a duplicate submission */
+export function duplicateWindowStart(now: Date = new Date()): string {
+  return new Date(now.getTime() - DUPLICATE_SUBMISSION_WINDOW_SECONDS * 1000).toISOString();
+}
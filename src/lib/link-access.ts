@@ -0,0 +1,104 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { MAX_PASSCODE_ATTEMPTS, PASSCODE_GRANT_MINUTES, PASSCODE_LOCKOUT_MINUTES } from "./constants";
+import { hashWithPepper } from "./crypto";
+import {
+  type PasscodeAttempt,
+  checkPasscodeAttempt,
+  hasPasscode,
+  precheckPasscode,
+  verifyPasscodeGrant,
+} from "./passcode";
+
+/** case_links row as read for public access checks */
+export interface AccessibleLink {
+  id: string;
+  case_id: string;
+  expires_at: string;
+  revoked_at: string | null;
+  passcode_hash: string | null;
+  attempt_count: number | null;
+  locked_until: string | null;
+  view_count: number | null;
+  download_count: number | null;
+}
+
+export type LinkAccess =
+  /** `update` clears failed passcode attempts; persist it with the caller's own write */
+  | { ok: true; link: AccessibleLink; update: { attempt_count: 0; locked_until: null } | null }
+  | { ok: false; state: "invalid" | "revoked" | "expired" | "passcode_required" }
+  | { ok: false; state: "passcode_incorrect"; attempts_remaining: number }
+  | { ok: false; state: "locked"; locked_until: string };
+
+/** Cookie holding a case's passcode grant (see issuePasscodeGrant) */
+export function passcodeGrantCookie(caseId: string): string {
+  return `proposal_access_${caseId}`;
+}
+
+/** Sent with every same-site request, including the /api/* calls the viewer makes */
+export const PASSCODE_GRANT_COOKIE_OPTIONS = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "lax",
+  path: "/",
+  maxAge: PASSCODE_GRANT_MINUTES * 60,
+} as const;
+
+/**
+ * Check a public link: token, revocation, expiry and passcode.
+ * A valid passcode grant stands in for the passcode. An entered passcode
+ * first claims an attempt in the database (claim_passcode_attempt), which
+ * counts failed attempts and lockouts atomically. Throws on database errors.
+ */
+export async function checkLinkAccess(
+  supabase: SupabaseClient,
+  request: { caseId: string; token: string; passcode?: string; grant?: string },
+  pepper: string,
+  now: Date = new Date()
+): Promise<LinkAccess> {
+  const { data: link, error } = await supabase
+    .from("case_links")
+    .select("id, case_id, expires_at, revoked_at, passcode_hash, attempt_count, locked_until, view_count, download_count")
+    .eq("token_hash", hashWithPepper(request.token, pepper))
+    .eq("case_id", request.caseId)
+    .maybeSingle<AccessibleLink>();
+
+  if (error) throw error;
+  if (!link) return { ok: false, state: "invalid" };
+  if (link.revoked_at) return { ok: false, state: "revoked" };
+  if (new Date(link.expires_at) < now) return { ok: false, state: "expired" };
+  if (request.grant && hasPasscode(link) && verifyPasscodeGrant(request.grant, link, pepper, now)) {
+    return { ok: true, link, update: null };
+  }
+
+  const precheck = precheckPasscode(link, request.passcode, now);
+  if (precheck?.result === "ok") {
+    return { ok: true, link, update: null };
+  }
+  if (precheck?.result === "required") {
+    return { ok: false, state: "passcode_required" };
+  }
+  if (precheck?.result === "locked") {
+    return { ok: false, state: "locked", locked_until: precheck.locked_until };
+  }
+
+  const { data: attempt, error: claimError } = await supabase
+    .rpc("claim_passcode_attempt", {
+      p_link_id: link.id,
+      p_max_attempts: MAX_PASSCODE_ATTEMPTS,
+      p_lockout_minutes: PASSCODE_LOCKOUT_MINUTES,
+    })
+    .maybeSingle<PasscodeAttempt>();
+
+  if (claimError) throw claimError;
+  if (!attempt) return { ok: false, state: "invalid" };
+
+  const check = checkPasscodeAttempt(link, attempt, request.passcode!, pepper);
+  switch (check.result) {
+    case "ok":
+      return { ok: true, link, update: { attempt_count: 0, locked_until: null } };
+    case "locked":
+      return { ok: false, state: "locked", locked_until: check.locked_until };
+    case "incorrect":
+      return { ok: false, state: "passcode_incorrect", attempts_remaining: check.attempts_remaining };
+  }
+}
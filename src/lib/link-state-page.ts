@@ -0,0 +1,173 @@
+import { type Branding, DEFAULT_BRANDING } from "./branding";
+import type { ProposalLink } from "./proposal-view";
+
+/**
+ * The screens a public link shows instead of the proposal (expired,
+ * revoked, locked, passcode entry, or a server error) as a complete HTML
+ * page. The middleware answers these itself so they get their own status
+ * code, which means no React and no app stylesheet: plain HTML with its
+ * own styles, in the owner's brand. The passcode form posts back to the
+ * page's own URL.
+ */
+
+/** A state shown instead of the proposal; "error" = the link couldn't be checked */
+export type LinkStateScreen =
+  | Exclude<ProposalLink, { ok: true }>
+  | { ok: false; state: "error"; branding?: undefined };
+
+/** Title and message of each screen, shared with the viewer's 404 page */
+export const LINK_STATE_MESSAGES: Record<
+  Exclude<LinkStateScreen["state"], "passcode_required" | "passcode_incorrect">,
+  { title: string; message: string; variant: "error" | "warning" }
+> = {
+  invalid: {
+    title: "Invalid Link",
+    message: "This link is not valid or does not exist. Please check the link you received.",
+    variant: "error",
+  },
+  expired: {
+    title: "Link Expired",
+    message: "This proposal link has expired. Please request a new one from your contact.",
+    variant: "warning",
+  },
+  revoked: {
+    title: "Link Revoked",
+    message: "This link has been revoked. A new link may have been issued — please check with your contact.",
+    variant: "warning",
+  },
+  locked: {
+    title: "Too Many Attempts",
+    message: "This link is temporarily locked after too many incorrect passcodes.",
+    variant: "warning",
+  },
+  error: {
+    title: "Something Went Wrong",
+    message: "We couldn't open this proposal. Please try again in a moment.",
+    variant: "error",
+  },
+};
+
+const VARIANT_COLORS = {
+  error: { background: "#fef2f2", border: "#fecaca", text: "#991b1b", icon: "#ef4444", iconBackground: "#fee2e2" },
+  warning: { background: "#fffbeb", border: "#fde68a", text: "#92400e", icon: "#f59e0b", iconBackground: "#fef3c7" },
+};
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/** "Try again in 12 minutes." — in minutes, so no time zone is needed */
+function lockoutMessage(lockedUntil: string, now: Date): string {
+  const minutes = Math.max(1, Math.ceil((new Date(lockedUntil).getTime() - now.getTime()) / 60000));
+  return `Try again in ${minutes} minute${minutes !== 1 ? "s" : ""}.`;
+}
+
+function statusCard(title: string, message: string, variant: "error" | "warning"): string {
+  const colors = VARIANT_COLORS[variant];
+  return `<div class="card" style="background:${colors.background};border-color:${colors.border};color:${colors.text}">
+      <div class="icon" style="background:${colors.iconBackground};color:${colors.icon}">
+        <svg width="28" height="28" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="1.5" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L4.082 16.5c-.77.833.192 2.5 1.732 2.5z"/></svg>
+      </div>
+      <h1>${escapeHtml(title)}</h1>
+      <p class="message">${escapeHtml(message)}</p>
+    </div>`;
+}
+
+function passcodeForm(error: string): string {
+  return `<form method="post" class="card passcode">
+      <h1 class="brand">Passcode Required</h1>
+      <p class="hint">Enter the passcode you received with this link to view the proposal.</p>
+      ${error ? `<p class="error">${escapeHtml(error)}</p>` : ""}
+      <input type="password" name="passcode" placeholder="Passcode" autocomplete="off" autofocus required>
+      <button type="submit">View Proposal</button>
+    </form>`;
+}
+
+function footer(branding: Branding, year: number): string {
+  const lines = [`<p class="name">${escapeHtml(branding.company_name)}</p>`];
+  if (branding.contact_email) {
+    lines.push(`<p><a href="mailto:${escapeHtml(branding.contact_email)}">${escapeHtml(branding.contact_email)}</a></p>`);
+  }
+  if (branding.contact_phone) {
+    const tel = branding.contact_phone.replace(/[^0-9+]/g, "");
+    lines.push(`<p><a href="tel:${escapeHtml(tel)}">${escapeHtml(branding.contact_phone)}</a></p>`);
+  }
+  if (branding.address) lines.push(`<p class="pre">${escapeHtml(branding.address)}</p>`);
+
+  const legal = [];
+  if (branding.footer_text) legal.push(`<p class="pre">${escapeHtml(branding.footer_text)}</p>`);
+  legal.push(`<p>&copy; ${year} ${escapeHtml(branding.company_name)}</p>`);
+
+  return `<footer><div>${lines.join("")}</div><div class="legal">${legal.join("")}</div></footer>`;
+}
+
+/** The page for a link state, in the owner's branding when known */
+export function renderLinkStatePage(screen: LinkStateScreen, now: Date = new Date()): string {
+  const branding = screen.branding ?? DEFAULT_BRANDING;
+
+  let title: string;
+  let body: string;
+  if (screen.state === "passcode_required" || screen.state === "passcode_incorrect") {
+    const remaining = screen.state === "passcode_incorrect" ? screen.attempts_remaining : null;
+    const error =
+      remaining === null
+        ? ""
+        : `Incorrect passcode. ${remaining} attempt${remaining !== 1 ? "s" : ""} remaining.`;
+    title = "Passcode Required";
+    body = passcodeForm(error);
+  } else {
+    const { title: heading, message, variant } = LINK_STATE_MESSAGES[screen.state];
+    title = heading;
+    body = statusCard(
+      heading,
+      screen.state === "locked" ? `${message} ${lockoutMessage(screen.locked_until, now)}` : message,
+      variant
+    );
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta name="robots" content="noindex, nofollow">
+  <title>${escapeHtml(title)} | ${escapeHtml(branding.proposal_title)}</title>
+  <link rel="icon" href="/favicon.png">
+  <style>
+    * { box-sizing: border-box; }
+    body { margin: 0; min-height: 100vh; display: flex; flex-direction: column; align-items: center; padding: 16px; font-family: ui-sans-serif, system-ui, -apple-system, "Segoe UI", sans-serif; background: linear-gradient(to bottom, #f9fafb, #f3f4f6); color: #111827; }
+    main { flex: 1; display: flex; align-items: center; justify-content: center; width: 100%; max-width: 28rem; padding: 32px 0; }
+    .card { width: 100%; border: 1px solid; border-radius: 16px; padding: 32px; text-align: center; }
+    .icon { width: 56px; height: 56px; border-radius: 9999px; display: flex; align-items: center; justify-content: center; margin: 0 auto 16px; }
+    h1 { font-size: 18px; font-weight: 600; margin: 0 0 8px; }
+    .message { font-size: 14px; line-height: 1.6; opacity: 0.8; margin: 0; }
+    .passcode { background: #fff; border-color: #f3f4f6; box-shadow: 0 20px 25px -5px rgba(229, 231, 235, 0.6); }
+    .brand { color: ${branding.primary_color}; }
+    .hint { font-size: 14px; color: #6b7280; margin: 0 0 20px; }
+    .error { font-size: 14px; color: #b91c1c; background: #fef2f2; border: 1px solid #fecaca; border-radius: 8px; padding: 12px; margin: 0 0 16px; }
+    input { width: 100%; padding: 10px 16px; border: 1px solid #e5e7eb; border-radius: 8px; font-size: 14px; text-align: center; margin-bottom: 16px; outline: none; }
+    input:focus { border-color: ${branding.accent_color}; }
+    button { width: 100%; padding: 12px 16px; border: 0; border-radius: 12px; font-size: 16px; font-weight: 500; color: #fff; background: ${branding.primary_color}; cursor: pointer; }
+    footer { width: 100%; max-width: 42rem; border-top: 1px solid #e5e7eb; padding: 24px 0; display: flex; flex-wrap: wrap; justify-content: space-between; gap: 24px; font-size: 12px; color: #9ca3af; }
+    footer p { margin: 0 0 4px; }
+    footer a { color: inherit; text-decoration: none; }
+    footer a:hover { color: ${branding.accent_color}; }
+    footer .name { font-weight: 600; color: #6b7280; }
+    footer .legal { text-align: right; }
+    .pre { white-space: pre-line; }
+  </style>
+</head>
+<body>
+  <main>
+    ${body}
+  </main>
+  ${footer(branding, now.getFullYear())}
+</body>
+</html>
+`;
+}
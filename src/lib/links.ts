@@ -0,0 +1,108 @@
+import { LINK_EXPIRY_DAYS } from "./constants";
+
+/** Longest a link can be extended at once */
+export const MAX_LINK_EXPIRY_DAYS = 365;
+
+export const MAX_LINK_LABEL_LENGTH = 60;
+
+export type LinkStatus = "active" | "expired" | "revoked";
+
+export type LinkAction = "revoke" | "extend" | "rotate";
+
+export const LINK_ACTIONS: LinkAction[] = ["revoke", "extend", "rotate"];
+
+/** case_links columns needed to manage a link */
+export interface CaseLink {
+  id: string;
+  /** Recipient, e.g. "CFO – Jane"; null for the link created with the case */
+  label: string | null;
+  expires_at: string;
+  revoked_at: string | null;
+}
+
+/**
+ * Base URL for shareable links: APP_BASE_URL, else the Vercel deployment.
+ */
+export function appBaseUrl(): string {
+  return (
+    process.env.APP_BASE_URL ||
+    (process.env.NEXT_PUBLIC_VERCEL_URL
+      ? `https://${process.env.NEXT_PUBLIC_VERCEL_URL}`
+      : "http://localhost:3000")
+  );
+}
+
+export function caseLinkUrl(caseId: string, rawToken: string): string {
+  return `${appBaseUrl()}/cases/${caseId}?t=${rawToken}`;
+}
+
+/** ISO timestamp `days` days after `from` */
+export function linkExpiresAt(days: number = LINK_EXPIRY_DAYS, from: Date = new Date()): string {
+  return new Date(from.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+export function linkStatus(
+  link: Pick<CaseLink, "expires_at" | "revoked_at">,
+  now: Date = new Date()
+): LinkStatus {
+  if (link.revoked_at) return "revoked";
+  if (new Date(link.expires_at) < now) return "expired";
+  return "active";
+}
+
+/**
+ * Display name for a link; unlabeled links are the case's original link.
+ */
+export function linkLabel(link: Pick<CaseLink, "label">): string {
+  return link.label ?? "Original link";
+}
+
+function isValidDays(days: unknown): boolean {
+  return (
+    typeof days === "number" &&
+    Number.isInteger(days) &&
+    days > 0 &&
+    days <= MAX_LINK_EXPIRY_DAYS
+  );
+}
+
+const DAYS_ERROR = `Days (must be a whole number from 1 to ${MAX_LINK_EXPIRY_DAYS})`;
+
+/**
+ * Validate a request for an additional labeled link.
+ * Returns array of error messages (empty = valid).
+ */
+export function validateNewLink(input: { label: unknown; days?: unknown }): string[] {
+  const errors: string[] = [];
+
+  if (
+    typeof input.label !== "string" ||
+    !input.label.trim() ||
+    input.label.trim().length > MAX_LINK_LABEL_LENGTH
+  ) {
+    errors.push(`Label (required, up to ${MAX_LINK_LABEL_LENGTH} characters)`);
+  }
+  if (input.days !== undefined && !isValidDays(input.days)) {
+    errors.push(DAYS_ERROR);
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a link action request.
+ * Returns array of error messages (empty = valid).
+ */
+export function validateLinkAction(input: { action: unknown; days?: unknown }): string[] {
+  const errors: string[] = [];
+
+  if (!LINK_ACTIONS.includes(input.action as LinkAction)) {
+    errors.push(`Action (must be one of ${LINK_ACTIONS.join(", ")})`);
+  }
+
+  if (input.days !== undefined && !isValidDays(input.days)) {
+    errors.push(DAYS_ERROR);
+  }
+
+  return errors;
+}
@@ -0,0 +1,70 @@
+/**
+ * Money arithmetic on integer cents.
+ *
+ * Rounding rules:
+ * - Dollar amounts become cents by rounding half away from zero
+ *   ($1.005 -> 101 cents, -$1.005 -> -101 cents).
+ * - Every line item (per employee, per pay period, per state) is rounded to
+ *   cents before it is summed; totals are exact sums of rounded lines, so
+ *   total = ER + EE holds to the cent.
+ * - Dollars are only used at the edges: inputs, the database (numeric(14,2))
+ *   and JSON responses.
+ */
+
+/** Whole number of cents */
+export type Cents = number;
+
+/**
+ * Convert dollars to cents, rounding half away from zero.
+ * Throws on non-finite input rather than producing NaN totals.
+ */
+export function toCents(dollars: number): Cents {
+  if (!Number.isFinite(dollars)) {
+    throw new RangeError(`Invalid money amount: ${dollars}`);
+  }
+  // toPrecision strips binary noise (1.005 * 100 = 100.49999999999999)
+  const scaled = Number((Math.abs(dollars) * 100).toPrecision(15));
+  const cents = Math.round(scaled);
+  return dollars < 0 ? -cents : cents;
+}
+
+export function fromCents(cents: Cents): number {
+  return cents / 100;
+}
+
+/** Round a dollar amount to whole cents */
+export function roundCents(dollars: number): number {
+  return fromCents(toCents(dollars));
+}
+
+/** Round each dollar amount to cents and sum exactly */
+export function sumCents(values: number[]): Cents {
+  return values.reduce((sum, v) => sum + toCents(v), 0);
+}
+
+/** Exact dollar sum of amounts rounded to cents */
+export function sumDollars(values: number[]): number {
+  return fromCents(sumCents(values));
+}
+
+/** Multiply a cents amount by a factor, rounding the result to cents */
+export function multiplyCents(cents: Cents, factor: number): Cents {
+  return toCents(fromCents(cents) * factor);
+}
+
+/**
+ * Parse a money value from the database or a request body.
+ * Accepts numbers and numeric strings ("67140.00"); throws on anything else.
+ */
+export function parseMoney(value: unknown): number {
+  const num =
+    typeof value === "number"
+      ? value
+      : typeof value === "string" && value.trim() !== ""
+        ? Number(value)
+        : NaN;
+  if (!Number.isFinite(num)) {
+    throw new TypeError(`Invalid money value: ${String(value)}`);
+  }
+  return roundCents(num);
+}
@@ -0,0 +1,157 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import {
+  MAX_PASSCODE_ATTEMPTS,
+  MAX_PASSCODE_LENGTH,
+  MIN_PASSCODE_LENGTH,
+  PASSCODE_GRANT_MINUTES,
+} from "./constants";
+import { hashWithPepper } from "./crypto";
+
+/** case_links columns used for passcode checks */
+export interface PasscodeState {
+  /** "" or null = no passcode */
+  passcode_hash: string | null;
+  locked_until: string | null;
+}
+
+export type PasscodeCheck =
+  /** No passcode set, or the right one was entered */
+  | { result: "ok" }
+  /** Link has a passcode and none was entered */
+  | { result: "required" }
+  | { result: "incorrect"; attempts_remaining: number }
+  /** Too many wrong passcodes */
+  | { result: "locked"; locked_until: string };
+
+/**
+ * An attempt counted by the claim_passcode_attempt() database function,
+ * which counts attempts atomically so parallel guesses can't share one.
+ */
+export interface PasscodeAttempt {
+  /** false = the link was already locked; the passcode isn't checked */
+  allowed: boolean;
+  /** Attempts in the current window, this one included */
+  attempts: number;
+  /** When the lockout ends, if the link is locked (possibly by this attempt) */
+  lockout_ends_at: string | null;
+}
+
+export function hasPasscode(link: Pick<PasscodeState, "passcode_hash">): boolean {
+  return !!link.passcode_hash;
+}
+
+export function hashPasscode(passcode: string, pepper: string): string {
+  return hashWithPepper(passcode, pepper);
+}
+
+/**
+ * Validate a passcode chosen by the rep.
+ * Returns array of error messages (empty = valid).
+ */
+export function validatePasscode(passcode: unknown): string[] {
+  if (
+    typeof passcode !== "string" ||
+    passcode.length < MIN_PASSCODE_LENGTH ||
+    passcode.length > MAX_PASSCODE_LENGTH ||
+    passcode.trim() !== passcode
+  ) {
+    return [
+      `Passcode (${MIN_PASSCODE_LENGTH} to ${MAX_PASSCODE_LENGTH} characters, no leading or trailing spaces)`,
+    ];
+  }
+  return [];
+}
+
+/**
+ * Check a link before any attempt is counted: links without a passcode
+ * pass, and a locked link or a missing passcode stop here. Returns null
+ * when the entered passcode has to be checked: claim an attempt, then
+ * call checkPasscodeAttempt.
+ */
+export function precheckPasscode(
+  link: PasscodeState,
+  passcode: string | undefined,
+  now: Date = new Date()
+): PasscodeCheck | null {
+  if (!hasPasscode(link)) {
+    return { result: "ok" };
+  }
+
+  if (link.locked_until && new Date(link.locked_until) > now) {
+    return { result: "locked", locked_until: link.locked_until };
+  }
+
+  if (!passcode) {
+    return { result: "required" };
+  }
+
+  return null;
+}
+
+/**
+ * Check an entered passcode using the attempt claimed for it.
+ * Wrong passcodes count towards MAX_PASSCODE_ATTEMPTS; the attempt that
+ * reaches it locks the link for PASSCODE_LOCKOUT_MINUTES, unless it was
+ * the right passcode. Pure decision — the database keeps the count.
+ */
+export function checkPasscodeAttempt(
+  link: Pick<PasscodeState, "passcode_hash">,
+  attempt: PasscodeAttempt,
+  passcode: string,
+  pepper: string
+): Exclude<PasscodeCheck, { result: "required" }> {
+  if (!attempt.allowed) {
+    return { result: "locked", locked_until: attempt.lockout_ends_at! };
+  }
+
+  const expected = Buffer.from(link.passcode_hash!, "hex");
+  const actual = Buffer.from(hashPasscode(passcode, pepper), "hex");
+  if (expected.length === actual.length && timingSafeEqual(expected, actual)) {
+    return { result: "ok" };
+  }
+
+  if (attempt.lockout_ends_at) {
+    return { result: "locked", locked_until: attempt.lockout_ends_at };
+  }
+
+  return {
+    result: "incorrect",
+    attempts_remaining: Math.max(0, MAX_PASSCODE_ATTEMPTS - attempt.attempts),
+  };
+}
+
+function grantSignature(linkId: string, expiresAt: number, passcodeHash: string, pepper: string): string {
+  return createHmac("sha256", pepper).update(`${linkId}.${expiresAt}.${passcodeHash}`).digest("hex");
+}
+
+/**
+ * Proof that a link's passcode was entered, kept in an HttpOnly cookie so
+ * the passcode itself never reaches the page or later requests:
+ * "<link id>.<expiry ms>.<HMAC>". The HMAC covers the link's passcode
+ * hash, so changing the passcode ends every grant.
+ */
+export function issuePasscodeGrant(
+  link: { id: string } & Pick<PasscodeState, "passcode_hash">,
+  pepper: string,
+  now: Date = new Date()
+): string {
+  const expiresAt = now.getTime() + PASSCODE_GRANT_MINUTES * 60_000;
+  return `${link.id}.${expiresAt}.${grantSignature(link.id, expiresAt, link.passcode_hash ?? "", pepper)}`;
+}
+
+/** Whether a grant was issued for this link and passcode and hasn't expired */
+export function verifyPasscodeGrant(
+  grant: string,
+  link: { id: string } & Pick<PasscodeState, "passcode_hash">,
+  pepper: string,
+  now: Date = new Date()
+): boolean {
+  const [linkId, expiry, signature, ...rest] = grant.split(".");
+  const expiresAt = Number(expiry);
+  if (rest.length > 0 || linkId !== link.id || !signature || !Number.isInteger(expiresAt)) return false;
+  if (expiresAt <= now.getTime() || !hasPasscode(link)) return false;
+
+  const expected = Buffer.from(grantSignature(link.id, expiresAt, link.passcode_hash!, pepper), "hex");
+  const actual = Buffer.from(signature, "hex");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,217 @@
+import { SIMERP_MONTHLY_DEDUCTION } from "./constants";
+import { roundCents, sumDollars } from "./money";
+import { getStateTaxRate, isStateCode } from "./state-tax";
+import {
+  type FilingStatus,
+  type PayFrequency,
+  FILING_STATUSES,
+  PAY_FREQUENCIES,
+  PAY_PERIODS,
+  getFederalTaxTable,
+  federalIncomeTax,
+  socialSecurityTax,
+  medicareTax,
+} from "./tax-tables";
+
+export interface AfterTaxDeduction {
+  label: string;
+  amount: number;
+}
+
+/** Representative-employee inputs stored on the case (all amounts per pay period) */
+export interface PaycheckInputs {
+  gross_pay: number;
+  pay_frequency: PayFrequency;
+  filing_status: FilingStatus;
+  /** Two-letter state code */
+  state: string;
+  tax_year: number;
+  simerp_deduction: number;
+  simerp_reimbursement: number;
+  after_tax_deductions: AfterTaxDeduction[];
+}
+
+/** One side (with or without SIMERP) of the paycheck, amounts per pay period */
+export interface PaycheckColumn {
+  gross_pay: number;
+  simerp_deduction: number;
+  taxable_income: number;
+  federal_withholding: number;
+  state_withholding: number;
+  social_security: number;
+  medicare: number;
+  total_taxes: number;
+  simerp_reimbursement: number;
+  after_tax_deductions: AfterTaxDeduction[];
+  after_tax_total: number;
+  net_pay: number;
+}
+
+export interface PaycheckSimulation {
+  inputs: PaycheckInputs;
+  without: PaycheckColumn;
+  with: PaycheckColumn;
+  /** Taxes saved per pay period */
+  gross_tax_savings: number;
+  /** After-tax supplemental benefit cost per pay period */
+  supplemental_benefits: number;
+  /** Change in take-home pay per pay period */
+  net_pay_increase: number;
+}
+
+/** Monthly after-tax supplemental benefit costs used by the standard example */
+export const DEFAULT_MONTHLY_AFTER_TAX_DEDUCTIONS: AfterTaxDeduction[] = [
+  { label: "Provider", amount: 149 },
+  { label: "MEC", amount: 65 },
+  { label: "Other Voluntary Benefits", amount: 44.14 },
+];
+
+/** Monthly gross pay used by the standard example */
+export const DEFAULT_MONTHLY_GROSS_PAY = 3293.33;
+
+/**
+ * Build paycheck inputs for a representative employee, scaling the monthly
+ * SIMERP amounts to the pay frequency.
+ */
+export function buildPaycheckInputs(input: {
+  annual_wages: number;
+  pay_frequency: PayFrequency;
+  filing_status: FilingStatus;
+  state: string;
+  tax_year: number;
+}): PaycheckInputs {
+  const periods = PAY_PERIODS[input.pay_frequency];
+  const perPeriod = (monthly: number) => roundCents((monthly * 12) / periods);
+  return {
+    gross_pay: roundCents(input.annual_wages / periods),
+    pay_frequency: input.pay_frequency,
+    filing_status: input.filing_status,
+    state: input.state,
+    tax_year: input.tax_year,
+    simerp_deduction: perPeriod(SIMERP_MONTHLY_DEDUCTION),
+    simerp_reimbursement: perPeriod(SIMERP_MONTHLY_DEDUCTION),
+    after_tax_deductions: DEFAULT_MONTHLY_AFTER_TAX_DEDUCTIONS.map((d) => ({
+      label: d.label,
+      amount: perPeriod(d.amount),
+    })),
+  };
+}
+
+/**
+ * The standard illustrative example (monthly, single, Virginia).
+ * Used for cases generated before paycheck inputs were captured.
+ */
+export function defaultPaycheckInputs(taxYear: number): PaycheckInputs {
+  return buildPaycheckInputs({
+    annual_wages: DEFAULT_MONTHLY_GROSS_PAY * 12,
+    pay_frequency: "monthly",
+    filing_status: "single",
+    state: "VA",
+    tax_year: taxYear,
+  });
+}
+
+function simulateColumn(
+  inputs: PaycheckInputs,
+  deduction: number,
+  reimbursement: number,
+  afterTax: AfterTaxDeduction[]
+): PaycheckColumn {
+  const periods = PAY_PERIODS[inputs.pay_frequency];
+  const table = getFederalTaxTable(inputs.tax_year);
+  const taxable = roundCents(Math.max(0, inputs.gross_pay - deduction));
+  const annualTaxable = taxable * periods;
+
+  const federal = roundCents(federalIncomeTax(annualTaxable, inputs.filing_status, table) / periods);
+  const state = roundCents(taxable * getStateTaxRate(inputs.state));
+  const ss = roundCents(socialSecurityTax(annualTaxable, table) / periods);
+  const medicare = roundCents(medicareTax(annualTaxable, table) / periods);
+  const totalTaxes = sumDollars([federal, state, ss, medicare]);
+  const afterTaxTotal = sumDollars(afterTax.map((d) => d.amount));
+
+  return {
+    gross_pay: inputs.gross_pay,
+    simerp_deduction: deduction,
+    taxable_income: taxable,
+    federal_withholding: federal,
+    state_withholding: state,
+    social_security: ss,
+    medicare,
+    total_taxes: totalTaxes,
+    simerp_reimbursement: reimbursement,
+    after_tax_deductions: afterTax,
+    after_tax_total: afterTaxTotal,
+    net_pay: roundCents(taxable - totalTaxes + reimbursement - afterTaxTotal),
+  };
+}
+
+/**
+ * Simulate one paycheck with and without SIMERP.
+ * Pure function — amounts are per pay period, rounded to cents per line.
+ */
+export function simulatePaycheck(inputs: PaycheckInputs): PaycheckSimulation {
+  const without = simulateColumn(inputs, 0, 0, []);
+  const withSimerp = simulateColumn(
+    inputs,
+    inputs.simerp_deduction,
+    inputs.simerp_reimbursement,
+    inputs.after_tax_deductions
+  );
+
+  return {
+    inputs,
+    without,
+    with: withSimerp,
+    gross_tax_savings: roundCents(without.total_taxes - withSimerp.total_taxes),
+    supplemental_benefits: withSimerp.after_tax_total,
+    net_pay_increase: roundCents(withSimerp.net_pay - without.net_pay),
+  };
+}
+
+function isAmount(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Validate representative-employee paycheck inputs.
+ * Returns array of error messages (empty = valid).
+ */
+export function validatePaycheckInputs(input: unknown): string[] {
+  if (!input || typeof input !== "object") return ["Paycheck Example"];
+  const p = input as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (!isAmount(p.gross_pay) || p.gross_pay === 0) {
+    errors.push("Paycheck Gross Pay (must be a positive number)");
+  }
+  if (!PAY_FREQUENCIES.includes(p.pay_frequency as never)) {
+    errors.push("Paycheck Pay Frequency");
+  }
+  if (!FILING_STATUSES.includes(p.filing_status as never)) {
+    errors.push("Paycheck Filing Status");
+  }
+  if (!isStateCode(p.state)) {
+    errors.push("Paycheck State");
+  }
+  if (typeof p.tax_year !== "number" || !Number.isInteger(p.tax_year)) {
+    errors.push("Paycheck Tax Year");
+  }
+  if (!isAmount(p.simerp_deduction)) {
+    errors.push("Paycheck SIMERP Deduction");
+  } else if (isAmount(p.gross_pay) && p.simerp_deduction > p.gross_pay) {
+    errors.push("Paycheck SIMERP Deduction (cannot exceed gross pay)");
+  }
+  if (!isAmount(p.simerp_reimbursement)) {
+    errors.push("Paycheck SIMERP Reimbursement");
+  }
+  if (
+    !Array.isArray(p.after_tax_deductions) ||
+    !p.after_tax_deductions.every(
+      (d) => d && typeof d.label === "string" && isAmount(d.amount)
+    )
+  ) {
+    errors.push("Paycheck After-Tax Deductions");
+  }
+
+  return errors;
+}
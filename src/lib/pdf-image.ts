@@ -0,0 +1,202 @@
+import { deflateSync, inflateSync } from "zlib";
+
+/**
+ * Images for the PDF writer (see src/lib/pdf.ts). JPEGs are embedded as
+ * they are; PNGs are decoded and re-encoded with their transparency as a
+ * separate soft mask, which PDF requires. Other formats (e.g. WebP) can't
+ * be embedded.
+ */
+
+/** An image ready to be written as a PDF image XObject */
+export interface PdfImage {
+  /** Pixels */
+  width: number;
+  height: number;
+  colorSpace: "DeviceRGB" | "DeviceGray";
+  filter: "DCTDecode" | "FlateDecode";
+  data: Buffer;
+  /** Deflated 8-bit alpha channel, or null when fully opaque */
+  alpha: Buffer | null;
+}
+
+/**
+ * PNGs are re-encoded anyway, so larger ones are shrunk to this height.
+ * Logos are printed about 26pt tall, so this keeps them sharp.
+ */
+const MAX_PNG_HEIGHT = 200;
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/** Channels per pixel for each PNG color type */
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/**
+ * Read a PNG or JPEG for embedding. Returns null for other formats and
+ * for variants PDF can't show (interlaced PNGs, CMYK JPEGs).
+ */
+export function readPdfImage(bytes: Uint8Array): PdfImage | null {
+  const buffer = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  try {
+    if (PNG_SIGNATURE.every((b, i) => buffer[i] === b)) return readPng(buffer);
+    if (buffer[0] === 0xff && buffer[1] === 0xd8) return readJpeg(buffer);
+  } catch {
+    // Truncated or corrupt file
+  }
+  return null;
+}
+
+/** JPEG dimensions from its start-of-frame marker; the data is embedded as is */
+function readJpeg(buffer: Buffer): PdfImage | null {
+  let offset = 2;
+  while (offset + 9 < buffer.length) {
+    if (buffer[offset] !== 0xff) return null;
+    const marker = buffer[offset + 1];
+    // SOF0–SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      const components = buffer[offset + 9];
+      if (components !== 1 && components !== 3) return null;
+      return {
+        width: buffer.readUInt16BE(offset + 7),
+        height: buffer.readUInt16BE(offset + 5),
+        colorSpace: components === 1 ? "DeviceGray" : "DeviceRGB",
+        filter: "DCTDecode",
+        data: buffer,
+        alpha: null,
+      };
+    }
+    offset += 2 + buffer.readUInt16BE(offset + 2);
+  }
+  return null;
+}
+
+function readPng(buffer: Buffer): PdfImage | null {
+  let header: Buffer | null = null;
+  let palette: Buffer | null = null;
+  let transparency: Buffer | null = null;
+  const idat: Buffer[] = [];
+
+  for (let offset = 8; offset + 8 <= buffer.length; ) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString("latin1", offset + 4, offset + 8);
+    const data = buffer.subarray(offset + 8, offset + 8 + length);
+    if (type === "IHDR") header = data;
+    else if (type === "PLTE") palette = data;
+    else if (type === "tRNS") transparency = data;
+    else if (type === "IDAT") idat.push(data);
+    else if (type === "IEND") break;
+    offset += 12 + length;
+  }
+
+  if (!header || idat.length === 0) return null;
+  const width = header.readUInt32BE(0);
+  const height = header.readUInt32BE(4);
+  const bitDepth = header[8];
+  const colorType = header[9];
+  const interlaced = header[12] !== 0;
+  const channels = PNG_CHANNELS[colorType];
+
+  if (!channels || interlaced || width === 0 || height === 0) return null;
+  if (colorType === 3 ? !palette : bitDepth !== 8 && bitDepth !== 16) return null;
+
+  const rowBytes = Math.ceil((width * channels * bitDepth) / 8);
+  const pixels = unfilter(inflateSync(Buffer.concat(idat)), height, rowBytes, Math.max(1, (channels * bitDepth) / 8));
+  const sampleBytes = bitDepth / 8;
+
+  // One pixel as [gray or r, g, b, alpha] in 0–255
+  const rgba = (x: number, y: number, out: number[]) => {
+    const row = y * rowBytes;
+    if (colorType === 3) {
+      const bit = x * bitDepth;
+      const index = (pixels[row + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & ((1 << bitDepth) - 1);
+      out[0] = palette![index * 3];
+      out[1] = palette![index * 3 + 1];
+      out[2] = palette![index * 3 + 2];
+      out[3] = transparency && index < transparency.length ? transparency[index] : 255;
+      return;
+    }
+    const at = row + x * channels * sampleBytes;
+    const sample = (channel: number) => pixels[at + channel * sampleBytes];
+    const gray = colorType === 0 || colorType === 4;
+    out[0] = sample(0);
+    out[1] = gray ? out[0] : sample(1);
+    out[2] = gray ? out[0] : sample(2);
+    out[3] = colorType === 4 ? sample(1) : colorType === 6 ? sample(3) : 255;
+  };
+
+  // Shrink by averaging blocks of pixels, weighting colors by their alpha
+  // so transparent pixels don't darken the edges
+  const scale = Math.max(1, Math.ceil(height / MAX_PNG_HEIGHT));
+  const outWidth = Math.ceil(width / scale);
+  const outHeight = Math.ceil(height / scale);
+  const gray = colorType === 0 || colorType === 4;
+  const colorChannels = gray ? 1 : 3;
+  const color = Buffer.alloc(outWidth * outHeight * colorChannels);
+  const alpha = Buffer.alloc(outWidth * outHeight);
+  const pixel = [0, 0, 0, 0];
+  let opaque = true;
+
+  for (let oy = 0; oy < outHeight; oy++) {
+    for (let ox = 0; ox < outWidth; ox++) {
+      let r = 0, g = 0, b = 0, a = 0, count = 0;
+      for (let y = oy * scale; y < Math.min(height, (oy + 1) * scale); y++) {
+        for (let x = ox * scale; x < Math.min(width, (ox + 1) * scale); x++) {
+          rgba(x, y, pixel);
+          r += pixel[0] * pixel[3];
+          g += pixel[1] * pixel[3];
+          b += pixel[2] * pixel[3];
+          a += pixel[3];
+          count++;
+        }
+      }
+      const i = oy * outWidth + ox;
+      const channel = (sum: number) => (a > 0 ? Math.round(sum / a) : 0);
+      if (gray) {
+        color[i] = channel(r);
+      } else {
+        color[i * 3] = channel(r);
+        color[i * 3 + 1] = channel(g);
+        color[i * 3 + 2] = channel(b);
+      }
+      alpha[i] = Math.round(a / count);
+      if (alpha[i] !== 255) opaque = false;
+    }
+  }
+
+  return {
+    width: outWidth,
+    height: outHeight,
+    colorSpace: gray ? "DeviceGray" : "DeviceRGB",
+    filter: "FlateDecode",
+    data: deflateSync(color),
+    alpha: opaque ? null : deflateSync(alpha),
+  };
+}
+
+/** Undo PNG scanline filters; returns the rows without their filter bytes */
+function unfilter(data: Buffer, height: number, rowBytes: number, bytesPerPixel: number): Buffer {
+  const out = Buffer.alloc(height * rowBytes);
+  for (let y = 0; y < height; y++) {
+    const filter = data[y * (rowBytes + 1)];
+    const src = y * (rowBytes + 1) + 1;
+    const row = y * rowBytes;
+    const prev = row - rowBytes;
+    for (let i = 0; i < rowBytes; i++) {
+      const left = i >= bytesPerPixel ? out[row + i - bytesPerPixel] : 0;
+      const up = y > 0 ? out[prev + i] : 0;
+      const upLeft = y > 0 && i >= bytesPerPixel ? out[prev + i - bytesPerPixel] : 0;
+      let predicted = 0;
+      if (filter === 1) predicted = left;
+      else if (filter === 2) predicted = up;
+      else if (filter === 3) predicted = (left + up) >> 1;
+      else if (filter === 4) {
+        const p = left + up - upLeft;
+        const pa = Math.abs(p - left);
+        const pb = Math.abs(p - up);
+        const pc = Math.abs(p - upLeft);
+        predicted = pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+      }
+      out[row + i] = (data[src + i] + predicted) & 0xff;
+    }
+  }
+  return out;
+}
@@ -0,0 +1,363 @@
+import type { PdfImage } from "./pdf-image";
+
+/**
+ * Minimal PDF writer: text in the standard Helvetica fonts, filled
+ * rectangles, lines and images on US Letter pages, with flowing layout and
+ * automatic page breaks. No dependencies and no external renderer, so
+ * documents can be produced anywhere on the server.
+ */
+
+export type PdfFont = "regular" | "bold";
+
+/** "#rrggbb" */
+export type PdfColor = string;
+
+export const PAGE_WIDTH = 612;
+export const PAGE_HEIGHT = 792;
+export const PAGE_MARGIN = 48;
+
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * PAGE_MARGIN;
+/** Space kept free at the bottom of each page for the footer */
+const FOOTER_HEIGHT = 28;
+const LINE_HEIGHT = 1.35;
+
+const FONT_NAMES: Record<PdfFont, string> = { regular: "F1", bold: "F2" };
+
+// Helvetica advance widths (1/1000 em) for ASCII 32–126, from the Adobe AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+/** Non-ASCII characters used in proposals, as WinAnsiEncoding bytes */
+const WIN_ANSI: Record<string, number> = {
+  "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97, "×": 0xd7,
+};
+const WIN_ANSI_WIDTHS: Record<number, number> = {
+  0x91: 222, 0x92: 222, 0x93: 333, 0x94: 333, 0x95: 350, 0x96: 556, 0x97: 1000,
+};
+
+/** WinAnsi byte for a character; unsupported characters become "?" */
+function winAnsiByte(ch: string): number {
+  const code = ch.charCodeAt(0);
+  if (code >= 32 && code <= 126) return code;
+  if (WIN_ANSI[ch] !== undefined) return WIN_ANSI[ch];
+  if (code >= 0xa0 && code <= 0xff) return code;
+  return 0x3f;
+}
+
+/** Width of `text` in points */
+export function textWidth(text: string, size: number, font: PdfFont = "regular"): number {
+  const widths = font === "bold" ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (const ch of text) {
+    const byte = winAnsiByte(ch);
+    total += byte <= 126 ? widths[byte - 32] : WIN_ANSI_WIDTHS[byte] ?? 556;
+  }
+  return (total * size) / 1000;
+}
+
+/**
+ * Break text into lines no wider than `maxWidth`. Explicit newlines are
+ * kept; words longer than a line are split.
+ */
+export function wrapText(text: string, maxWidth: number, size: number, font: PdfFont = "regular"): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size, font) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = word;
+      while (textWidth(line, size, font) > maxWidth && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && textWidth(line.slice(0, cut), size, font) > maxWidth) cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/** PDF literal string, WinAnsi-encoded, with delimiters escaped */
+function pdfString(text: string): string {
+  let out = "(";
+  for (const ch of text) {
+    const byte = winAnsiByte(ch);
+    if (ch === "(" || ch === ")" || ch === "\\") out += `\\${ch}`;
+    else if (byte > 126) out += `\\${byte.toString(8).padStart(3, "0")}`;
+    else out += String.fromCharCode(byte);
+  }
+  return `${out})`;
+}
+
+function rgb(color: PdfColor): string {
+  const hex = color.replace("#", "");
+  return [0, 2, 4]
+    .map((i) => (parseInt(hex.slice(i, i + 2), 16) / 255).toFixed(3))
+    .join(" ");
+}
+
+function num(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+export interface TextOptions {
+  size?: number;
+  font?: PdfFont;
+  color?: PdfColor;
+}
+
+export interface TableColumn {
+  header: string;
+  /** Fraction of the content width */
+  width: number;
+  align?: "left" | "right";
+}
+
+export interface TableRow {
+  cells: string[];
+  font?: PdfFont;
+  /** Background fill */
+  fill?: PdfColor;
+  color?: PdfColor;
+}
+
+export interface PdfLayout {
+  /** Current distance from the top of the page */
+  readonly y: number;
+  /** Wrapped text across the content width */
+  text(text: string, options?: TextOptions & { gap?: number }): void;
+  /**
+   * Filled band across the full page width at the cursor. A band that
+   * opens a page bleeds to the top edge.
+   */
+  band(height: number, fill: PdfColor, draw: (top: number) => void): void;
+  /** Text at an absolute position (top-left origin); the cursor doesn't move */
+  textAt(x: number, top: number, text: string, options?: TextOptions): void;
+  rect(x: number, top: number, width: number, height: number, fill: PdfColor): void;
+  /** Image scaled to the given box (top-left origin); the cursor doesn't move */
+  image(x: number, top: number, width: number, height: number, image: PdfImage): void;
+  /** Table whose header row repeats on every page it spans */
+  table(columns: TableColumn[], rows: TableRow[], options?: { size?: number; headerFill?: PdfColor }): void;
+  space(points: number): void;
+  /** Start a new page unless `height` points still fit on this one */
+  keep(height: number): void;
+  /** Add footers ("Page n of N" on the right) and serialize the document */
+  finish(options?: { footer?: string; title?: string }): Buffer;
+}
+
+/**
+ * Start a document. Content flows top to bottom inside the page margins;
+ * anything that doesn't fit starts a new page.
+ */
+export function createPdfLayout(): PdfLayout {
+  const pages: string[][] = [[]];
+  const images: PdfImage[] = [];
+  let cursor = PAGE_MARGIN;
+  const ops = () => pages[pages.length - 1];
+  const bottom = PAGE_HEIGHT - PAGE_MARGIN - FOOTER_HEIGHT;
+
+  const keep = (height: number) => {
+    if (cursor + height > bottom && ops().length > 0) {
+      pages.push([]);
+      cursor = PAGE_MARGIN;
+    }
+  };
+
+  const rect = (x: number, top: number, width: number, height: number, fill: PdfColor) => {
+    ops().push(`${rgb(fill)} rg ${num(x)} ${num(PAGE_HEIGHT - top - height)} ${num(width)} ${num(height)} re f`);
+  };
+
+  const textAt = (x: number, top: number, text: string, options: TextOptions = {}) => {
+    const size = options.size ?? 10;
+    const baseline = PAGE_HEIGHT - top - size * 0.8;
+    ops().push(
+      `BT ${rgb(options.color ?? "#1f2937")} rg /${FONT_NAMES[options.font ?? "regular"]} ${num(size)} Tf ` +
+        `${num(x)} ${num(baseline)} Td ${pdfString(text)} Tj ET`
+    );
+  };
+
+  return {
+    get y() {
+      return cursor;
+    },
+
+    text(text, options = {}) {
+      const size = options.size ?? 10;
+      const lineHeight = size * LINE_HEIGHT;
+      for (const line of wrapText(text, CONTENT_WIDTH, size, options.font)) {
+        keep(lineHeight);
+        textAt(PAGE_MARGIN, cursor, line, options);
+        cursor += lineHeight;
+      }
+      cursor += options.gap ?? size * 0.5;
+    },
+
+    band(height, fill, draw) {
+      keep(height);
+      const bleed = ops().length === 0 ? cursor : 0;
+      rect(0, cursor - bleed, PAGE_WIDTH, height + bleed, fill);
+      draw(cursor);
+      cursor += height;
+    },
+
+    textAt,
+    rect,
+
+    image(x, top, width, height, image) {
+      if (!images.includes(image)) images.push(image);
+      ops().push(
+        `q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(PAGE_HEIGHT - top - height)} cm /Im${images.indexOf(image) + 1} Do Q`
+      );
+    },
+
+    table(columns, rows, options = {}) {
+      const size = options.size ?? 9;
+      const padding = 5;
+      const lineHeight = size * LINE_HEIGHT;
+      const widths = columns.map((c) => c.width * CONTENT_WIDTH);
+
+      const layoutRow = (cells: string[], font: PdfFont) => {
+        const lines = cells.map((cell, i) => wrapText(cell, widths[i] - 2 * padding, size, font));
+        return { lines, height: Math.max(...lines.map((l) => l.length)) * lineHeight + 2 * padding };
+      };
+
+      const drawRow = (row: ReturnType<typeof layoutRow>, font: PdfFont, color: PdfColor, fill?: PdfColor) => {
+        if (fill) rect(PAGE_MARGIN, cursor, CONTENT_WIDTH, row.height, fill);
+        let x = PAGE_MARGIN;
+        row.lines.forEach((lines, i) => {
+          lines.forEach((line, j) => {
+            const left =
+              columns[i].align === "right"
+                ? x + widths[i] - padding - textWidth(line, size, font)
+                : x + padding;
+            textAt(left, cursor + padding + j * lineHeight, line, { size, font, color });
+          });
+          x += widths[i];
+        });
+        cursor += row.height;
+      };
+
+      const header = layoutRow(columns.map((c) => c.header), "bold");
+      const drawHeader = () => drawRow(header, "bold", "#ffffff", options.headerFill ?? "#0b2043");
+
+      rows.forEach((row, index) => {
+        const font = row.font ?? "regular";
+        const laidOut = layoutRow(row.cells, font);
+        const page = pages.length;
+        // Never leave a header alone at the bottom of a page
+        keep(laidOut.height + (index === 0 ? header.height : 0));
+        if (index === 0 || pages.length !== page) drawHeader();
+        drawRow(laidOut, font, row.color ?? "#374151", row.fill);
+      });
+      cursor += 8;
+    },
+
+    space(points) {
+      cursor += points;
+    },
+
+    keep,
+
+    finish(options = {}) {
+      const size = 8;
+      const rule = PAGE_MARGIN + 14;
+      const contents = pages.map((pageOps, i) => {
+        const pageLabel = `Page ${i + 1} of ${pages.length}`;
+        const footer = [
+          `${rgb("#e5e7eb")} RG 0.5 w ${num(PAGE_MARGIN)} ${rule} m ${num(PAGE_WIDTH - PAGE_MARGIN)} ${rule} l S`,
+          `BT ${rgb("#9ca3af")} rg /F1 ${size} Tf ${num(PAGE_WIDTH - PAGE_MARGIN - textWidth(pageLabel, size))} ${PAGE_MARGIN} Td ${pdfString(pageLabel)} Tj ET`,
+        ];
+        if (options.footer) {
+          footer.push(`BT ${rgb("#9ca3af")} rg /F1 ${size} Tf ${PAGE_MARGIN} ${PAGE_MARGIN} Td ${pdfString(options.footer)} Tj ET`);
+        }
+        return [...pageOps, ...footer].join("\n");
+      });
+      return serializePdf(contents, images, options.title);
+    },
+  };
+}
+
+/** Image XObject dictionary and data; `extra` adds e.g. the soft mask reference */
+function imageObject(image: Pick<PdfImage, "width" | "height" | "filter">, colorSpace: string, data: Buffer, extra = ""): string {
+  return (
+    `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+    `/ColorSpace /${colorSpace} /BitsPerComponent 8 /Filter /${image.filter}${extra} /Length ${data.length} >>\n` +
+    `stream\n${data.toString("latin1")}\nendstream`
+  );
+}
+
+/**
+ * Assemble the document: catalog, page tree, the two fonts, one content
+ * stream per page, the images (each followed by its soft mask, if any),
+ * then the cross-reference table. Everything is written as Latin-1 so
+ * byte offsets line up with string lengths.
+ */
+function serializePdf(contents: string[], images: PdfImage[], title?: string): Buffer {
+  const objects: string[] = [];
+  const add = (body: string) => objects.push(body);
+
+  const pageCount = contents.length;
+  // 1 catalog, 2 page tree, 3–4 fonts, 5 info, then page + content pairs
+  const firstPage = 6;
+  const pageRefs = contents.map((_, i) => `${firstPage + i * 2} 0 R`).join(" ");
+
+  // Every page shares the same image resources
+  const imageRefs: number[] = [];
+  let next = firstPage + pageCount * 2;
+  for (const image of images) {
+    imageRefs.push(next);
+    next += image.alpha ? 2 : 1;
+  }
+  const xObjects = images.length
+    ? ` /XObject << ${imageRefs.map((ref, i) => `/Im${i + 1} ${ref} 0 R`).join(" ")} >>`
+    : "";
+
+  add("<< /Type /Catalog /Pages 2 0 R >>");
+  add(`<< /Type /Pages /Kids [${pageRefs}] /Count ${pageCount} >>`);
+  add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+  add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+  add(`<< /Producer (FirstGen Proposal)${title ? ` /Title ${pdfString(title)}` : ""} >>`);
+  contents.forEach((stream, i) => {
+    add(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >>${xObjects} >> /Contents ${firstPage + i * 2 + 1} 0 R >>`
+    );
+    add(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+  });
+  images.forEach((image, i) => {
+    add(imageObject(image, image.colorSpace, image.data, image.alpha ? ` /SMask ${imageRefs[i] + 1} 0 R` : ""));
+    if (image.alpha) add(imageObject({ ...image, filter: "FlateDecode" }, "DeviceGray", image.alpha));
+  });
+
+  let out = "%PDF-1.4\n%\xe2\xe3\xcf\xd3\n";
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(out.length);
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xref = out.length;
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  out += offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("");
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(out, "latin1");
+}
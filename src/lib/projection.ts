@@ -0,0 +1,133 @@
+import { fromCents, roundCents, sumDollars, toCents } from "./money";
+
+export interface ProjectionAssumptions {
+  /** Annual headcount growth, e.g. 0.05 = 5% (negative for shrinking headcount) */
+  growth_rate: number;
+  /** Share of eligible employees expected to enroll once fully ramped (0–1) */
+  participation_rate: number;
+  /**
+   * Share of the expected participation reached in each year, starting with
+   * year 1. The last value carries forward to later years.
+   */
+  ramp: number[];
+}
+
+/** Years covered by a projection */
+export const PROJECTION_YEARS = 5;
+
+/** Cumulative horizons shown in proposals */
+export const PROJECTION_HORIZONS = [1, 3, 5];
+
+/**
+ * Defaults reproduce the single-year numbers: flat headcount and full
+ * participation from year 1.
+ */
+export const DEFAULT_PROJECTION_ASSUMPTIONS: ProjectionAssumptions = {
+  growth_rate: 0,
+  participation_rate: 1,
+  ramp: [1],
+};
+
+export interface ProjectionYear {
+  /** 1-based year of the program */
+  year: number;
+  /** Eligible headcount after growth */
+  headcount: number;
+  /** Employees enrolled */
+  participants: number;
+  er: number;
+  ee: number;
+  total: number;
+  cumulative_er: number;
+  cumulative_ee: number;
+  cumulative_total: number;
+}
+
+/** Stored in cases.calc_projection */
+export interface SavingsProjection {
+  assumptions: ProjectionAssumptions;
+  years: ProjectionYear[];
+}
+
+/**
+ * Project savings over PROJECTION_YEARS years.
+ * The single-year figures give the per-employee savings; each year grows the
+ * eligible headcount and applies participation × that year's ramp.
+ * Headcount and participants are rounded to whole employees.
+ */
+export function projectSavings(
+  base: { eligible_count: number; calc_er: number; calc_ee: number },
+  assumptions: ProjectionAssumptions
+): SavingsProjection {
+  const perEr = base.eligible_count > 0 ? base.calc_er / base.eligible_count : 0;
+  const perEe = base.eligible_count > 0 ? base.calc_ee / base.eligible_count : 0;
+  const years: ProjectionYear[] = [];
+  // Running totals in cents
+  let cumulativeEr = 0;
+  let cumulativeEe = 0;
+
+  for (let year = 1; year <= PROJECTION_YEARS; year++) {
+    const headcount = Math.round(
+      base.eligible_count * Math.pow(1 + assumptions.growth_rate, year - 1)
+    );
+    const ramp = assumptions.ramp[Math.min(year, assumptions.ramp.length) - 1];
+    const participants = Math.round(headcount * assumptions.participation_rate * ramp);
+    const er = roundCents(perEr * participants);
+    const ee = roundCents(perEe * participants);
+    cumulativeEr += toCents(er);
+    cumulativeEe += toCents(ee);
+    years.push({
+      year,
+      headcount,
+      participants,
+      er,
+      ee,
+      total: sumDollars([er, ee]),
+      cumulative_er: fromCents(cumulativeEr),
+      cumulative_ee: fromCents(cumulativeEe),
+      cumulative_total: fromCents(cumulativeEr + cumulativeEe),
+    });
+  }
+
+  return { assumptions, years };
+}
+
+function isFraction(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 && value <= 1;
+}
+
+/**
+ * Validate projection assumptions.
+ * Returns array of error messages (empty = valid).
+ */
+export function validateProjectionAssumptions(input: unknown): string[] {
+  if (!input || typeof input !== "object") {
+    return ["Projection"];
+  }
+
+  const errors: string[] = [];
+  const p = input as Record<string, unknown>;
+
+  if (
+    typeof p.growth_rate !== "number" ||
+    !Number.isFinite(p.growth_rate) ||
+    p.growth_rate <= -1 ||
+    p.growth_rate > 1
+  ) {
+    errors.push("Projection Growth Rate (must be between -100% and 100%)");
+  }
+  if (!isFraction(p.participation_rate)) {
+    errors.push("Projection Participation (must be between 0 and 100%)");
+  }
+  if (!Array.isArray(p.ramp) || p.ramp.length === 0 || p.ramp.length > PROJECTION_YEARS) {
+    errors.push(`Projection Ramp (must list 1 to ${PROJECTION_YEARS} years)`);
+  } else {
+    p.ramp.forEach((value: unknown, i) => {
+      if (!isFraction(value)) {
+        errors.push(`Projection Ramp year ${i + 1} (must be between 0 and 100%)`);
+      }
+    });
+  }
+
+  return errors;
+}
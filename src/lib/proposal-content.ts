@@ -0,0 +1,42 @@
+import { formatUSD } from "./format";
+import type { PaycheckSimulation } from "./paycheck";
+import { PAY_FREQUENCY_LABELS } from "./tax-tables";
+
+/**
+ * Paycheck example rows shared by the web viewer and the PDF export, so
+ * both documents show the same figures. The proposal copy lives in
+ * templates (see templates.ts).
+ */
+
+/** A USD amount with an explicit "+" when positive */
+export function signedUSD(value: number): string {
+  return value > 0 ? `+${formatUSD(value)}` : formatUSD(value);
+}
+
+export interface PaycheckRow {
+  label: string;
+  without: string;
+  with: string;
+  /** SIMERP line items */
+  highlight?: boolean;
+  /** Subtotals */
+  bold?: boolean;
+}
+
+/** Main rows of the paycheck example table (after-tax sub-rows and net pay are separate) */
+export function paycheckRows(paycheck: PaycheckSimulation): PaycheckRow[] {
+  const payPeriod = PAY_FREQUENCY_LABELS[paycheck.inputs.pay_frequency];
+  const { without, with: withSimerp } = paycheck;
+  return [
+    { label: `${payPeriod} Gross Pay`, without: formatUSD(without.gross_pay), with: formatUSD(withSimerp.gross_pay) },
+    { label: "SIMERP: Pre-Tax Deduction", without: formatUSD(0), with: formatUSD(-withSimerp.simerp_deduction), highlight: true },
+    { label: "Taxable Income", without: formatUSD(without.taxable_income), with: formatUSD(withSimerp.taxable_income) },
+    { label: "Federal Withholding", without: formatUSD(-without.federal_withholding), with: formatUSD(-withSimerp.federal_withholding) },
+    { label: "State Withholding", without: formatUSD(-without.state_withholding), with: formatUSD(-withSimerp.state_withholding) },
+    { label: "Social Security", without: formatUSD(-without.social_security), with: formatUSD(-withSimerp.social_security) },
+    { label: "Medicare", without: formatUSD(-without.medicare), with: formatUSD(-withSimerp.medicare) },
+    { label: "Total Taxes", without: formatUSD(-without.total_taxes), with: formatUSD(-withSimerp.total_taxes), bold: true },
+    { label: "SIMERP: Reimbursement", without: formatUSD(0), with: signedUSD(withSimerp.simerp_reimbursement), highlight: true },
+    { label: "After-Tax Deduction", without: formatUSD(0), with: formatUSD(-withSimerp.after_tax_total), bold: true },
+  ];
+}
@@ -0,0 +1,368 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { type Branding, MAX_LOGO_BYTES } from "./branding";
+import { EXCLUSION_REASON_LABELS } from "./eligibility";
+import { formatUSD } from "./format";
+import { defaultPaycheckInputs, simulatePaycheck } from "./paycheck";
+import { type PdfLayout, type TableRow, PAGE_MARGIN, createPdfLayout } from "./pdf";
+import { type PdfImage, readPdfImage } from "./pdf-image";
+import { PROJECTION_HORIZONS } from "./projection";
+import { paycheckRows, signedUSD } from "./proposal-content";
+import {
+  type TemplateBlock,
+  type TemplateCase,
+  type TemplateContent,
+  type TemplateWidget,
+  plainText,
+  renderTemplate,
+  templateContext,
+} from "./templates";
+
+const MUTED = "#6b7280";
+/** Logo size in the header, in points */
+const LOGO_HEIGHT = 26;
+const LOGO_MAX_WIDTH = 200;
+/** How long to wait for a logo from Storage before printing the name instead */
+const LOGO_TIMEOUT_MS = 5000;
+
+/** Case fields the PDF is rendered from (the same ones the viewer shows) */
+export interface ProposalPdfData extends TemplateCase {
+  calc_explanation: string;
+}
+
+/** Download file name, e.g. "Acme Corp - SIMERP Proposal.pdf" */
+export function proposalPdfFilename(companyName: string, proposalTitle = "SIMERP Proposal"): string {
+  const clean = (value: string) => value.replace(/[^A-Za-z0-9 .&-]+/g, "").replace(/\s+/g, " ").trim();
+  return `${clean(companyName) || "Proposal"} - ${clean(proposalTitle) || "Proposal"}.pdf`;
+}
+
+function subheading(pdf: PdfLayout, title: string, brand: Branding) {
+  pdf.keep(60);
+  pdf.text(title, { size: 10, font: "bold", color: brand.primary_color, gap: 6 });
+}
+
+// ---------------------------------------------------------------------------
+// Widgets — the case's data, placed by the template
+// ---------------------------------------------------------------------------
+
+const WIDGETS: Record<TemplateWidget, (pdf: PdfLayout, data: ProposalPdfData, brand: Branding) => void> = {
+  savings_breakdown(pdf, data, brand) {
+    const inputs = data.calc_inputs;
+    const perW2 = `${formatUSD(inputs.rate_er)} ${inputs.mode === "census" ? "avg. " : ""}per W-2`;
+    const rows: TableRow[] = [
+      { cells: ["Estimated Total Tax Reduction", formatUSD(data.calc_total)], font: "bold" },
+      { cells: [`Employer Net Savings (${perW2})`, formatUSD(data.calc_er)] },
+      { cells: ["Employee Reduction", formatUSD(data.calc_ee)] },
+    ];
+    if (inputs.valuation) {
+      const v = inputs.valuation;
+      rows.push({
+        cells: [
+          `Enterprise Valuation Increase (${formatUSD(v.ebitda_increase)} EBITDA increase × ${v.ebitda_multiple}x multiple${
+            v.multiple_industry ? `, ${v.multiple_industry} average` : ""
+          })`,
+          formatUSD(v.valuation_uplift),
+        ],
+        fill: "#ecfdf5",
+      });
+    }
+    subheading(pdf, "Savings Breakdown", brand);
+    pdf.table(
+      [
+        { header: "Annual Savings", width: 0.72 },
+        { header: "Amount", width: 0.28, align: "right" },
+      ],
+      rows,
+      { size: 10, headerFill: brand.primary_color }
+    );
+  },
+
+  scenarios(pdf, data, brand) {
+    if (!data.calc_scenarios || data.calc_scenarios.length === 0) return;
+    subheading(pdf, "Participation Scenarios", brand);
+    pdf.table(
+      [
+        { header: "Scenario", width: 0.28 },
+        { header: "Enrollment", width: 0.24 },
+        { header: "Total", width: 0.16, align: "right" },
+        { header: "Employer", width: 0.16, align: "right" },
+        { header: "Employee", width: 0.16, align: "right" },
+      ],
+      data.calc_scenarios.map((s) => ({
+        cells: [
+          s.headline ? `${s.name} (headline)` : s.name,
+          `${Math.round(s.participation_rate * 100)}% of ${s.headcount} (${s.participants})`,
+          formatUSD(s.calc_total),
+          formatUSD(s.calc_er),
+          formatUSD(s.calc_ee),
+        ],
+        fill: s.headline ? "#f0f9ff" : undefined,
+      })),
+      { headerFill: brand.primary_color }
+    );
+  },
+
+  projection(pdf, data, brand) {
+    const years = data.calc_projection?.years.filter((y) => PROJECTION_HORIZONS.includes(y.year));
+    if (!years || years.length === 0) return;
+    subheading(pdf, "Cumulative Impact", brand);
+    pdf.table(
+      [
+        { header: "Through", width: 0.25 },
+        { header: "Employer", width: 0.25, align: "right" },
+        { header: "Employee", width: 0.25, align: "right" },
+        { header: "Total", width: 0.25, align: "right" },
+      ],
+      years.map((y) => ({
+        cells: [
+          `Year ${y.year}`,
+          formatUSD(y.cumulative_er),
+          formatUSD(y.cumulative_ee),
+          formatUSD(y.cumulative_total),
+        ],
+      })),
+      { headerFill: brand.primary_color }
+    );
+  },
+
+  paycheck_example(pdf, data, brand) {
+    const paycheck = simulatePaycheck(data.paycheck_inputs ?? defaultPaycheckInputs(data.calc_inputs.tax_year));
+    pdf.table(
+      [
+        { header: "Item", width: 0.5 },
+        { header: "Without", width: 0.25, align: "right" },
+        { header: "With SIMERP", width: 0.25, align: "right" },
+      ],
+      [
+        ...paycheckRows(paycheck).map((row) => ({
+          cells: [row.label, row.without, row.with],
+          font: row.bold || row.highlight ? ("bold" as const) : undefined,
+          fill: row.highlight ? "#eff6ff" : row.bold ? "#f9fafb" : undefined,
+        })),
+        ...paycheck.with.after_tax_deductions.map((sub) => ({
+          cells: [`    ${sub.label}`, "", formatUSD(-sub.amount)],
+          color: MUTED,
+        })),
+        {
+          cells: ["NET TAKE HOME PAY", formatUSD(paycheck.without.net_pay), formatUSD(paycheck.with.net_pay)],
+          font: "bold",
+          fill: brand.primary_color,
+          color: "#ffffff",
+        },
+      ],
+      { headerFill: brand.primary_color }
+    );
+    pdf.table(
+      [
+        { header: "Gross Tax Savings", width: 1 / 3, align: "right" },
+        { header: "Supplemental Benefits", width: 1 / 3, align: "right" },
+        { header: "Net Pay Increase", width: 1 / 3, align: "right" },
+      ],
+      [
+        {
+          cells: [
+            signedUSD(paycheck.gross_tax_savings),
+            formatUSD(-paycheck.supplemental_benefits),
+            signedUSD(paycheck.net_pay_increase),
+          ],
+          font: "bold",
+        },
+      ],
+      { headerFill: brand.accent_color }
+    );
+  },
+
+  calculation_details(pdf, data, brand) {
+    const inputs = data.calc_inputs;
+    const w2 = inputs.w2_count;
+    const eligibility = inputs.eligibility;
+    const excluded = eligibility && eligibility.excluded_count > 0 ? eligibility : null;
+
+    subheading(pdf, "Calculation Details", brand);
+    pdf.text(data.calc_explanation, { size: 9, color: "#374151", gap: 8 });
+    if (excluded) {
+      pdf.table(
+        [
+          { header: `${excluded.excluded_count} of ${w2} employees excluded from the totals`, width: 0.8 },
+          { header: "Count", width: 0.2, align: "right" },
+        ],
+        excluded.exclusions.map((e) => ({ cells: [EXCLUSION_REASON_LABELS[e.reason], String(e.count)] })),
+        { headerFill: MUTED }
+      );
+    }
+    if (inputs.employees && inputs.employees.length > 0) {
+      pdf.table(
+        [
+          { header: "Employee", width: 0.46 },
+          { header: "Wages", width: 0.18, align: "right" },
+          { header: "ER", width: 0.18, align: "right" },
+          { header: "EE", width: 0.18, align: "right" },
+        ],
+        inputs.employees.map((e, i) => ({
+          cells: [
+            `${e.name || `Employee ${i + 1}`}${
+              e.excluded_reason ? ` (excluded: ${EXCLUSION_REASON_LABELS[e.excluded_reason]})` : ""
+            }`,
+            formatUSD(e.annual_wages),
+            formatUSD(e.er),
+            formatUSD(e.ee),
+          ],
+        })),
+        { size: 8, headerFill: brand.primary_color }
+      );
+    }
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Template blocks
+// ---------------------------------------------------------------------------
+
+function renderBlock(pdf: PdfLayout, block: TemplateBlock, data: ProposalPdfData, brand: Branding) {
+  switch (block.type) {
+    case "paragraph":
+      pdf.text(plainText(block.text), { size: 10, color: block.muted ? MUTED : "#374151" });
+      break;
+
+    case "checklist":
+      if (block.title) subheading(pdf, block.title, brand);
+      for (const item of block.items) pdf.text(`•  ${plainText(item)}`, { size: 10, color: "#374151", gap: 3 });
+      pdf.space(6);
+      break;
+
+    case "cards":
+      if (block.title) subheading(pdf, block.title, brand);
+      for (const item of block.items) {
+        if (!item.text) {
+          pdf.text(`•  ${plainText(item.title)}`, { size: 10, color: "#374151", gap: 3 });
+          continue;
+        }
+        pdf.keep(30);
+        pdf.text(plainText(item.title), { size: 10, font: "bold", color: "#1f2937", gap: 1 });
+        pdf.text(plainText(item.text), { size: 9, color: MUTED, gap: 5 });
+      }
+      pdf.space(6);
+      break;
+
+    case "callout":
+      pdf.keep(50);
+      if (block.title) pdf.text(block.title, { size: 10, font: "bold", color: brand.primary_color, gap: 3 });
+      if (block.stat) {
+        pdf.text(`${block.stat.value} — ${block.stat.caption}`, { size: 11, font: "bold", color: brand.accent_color, gap: 4 });
+      }
+      for (const paragraph of block.text.split(/\n\s*\n/)) {
+        pdf.text(plainText(paragraph), { size: 10, color: "#374151" });
+      }
+      pdf.space(4);
+      break;
+
+    case "fine_print":
+      pdf.space(6);
+      if (block.title) pdf.text(block.title.toUpperCase(), { size: 8, font: "bold", color: MUTED, gap: 2 });
+      pdf.text(plainText(block.text), { size: 8, color: MUTED });
+      break;
+
+    case "widget":
+      WIDGETS[block.widget](pdf, data, brand);
+      break;
+  }
+}
+
+/**
+ * The brand's logo for the PDF header: the built-in logo is read from
+ * public/, uploaded ones are fetched from Storage. Returns null when the
+ * brand has no logo or it can't be embedded (e.g. WebP) or loaded, and the
+ * header shows the brand's name instead.
+ */
+export async function loadPdfLogo(brand: Branding): Promise<PdfImage | null> {
+  if (!brand.logo_url) return null;
+  try {
+    let bytes: Uint8Array;
+    if (brand.logo_url.startsWith("/")) {
+      bytes = await readFile(path.join(process.cwd(), "public", path.normalize(brand.logo_url)));
+    } else {
+      const res = await fetch(brand.logo_url, { signal: AbortSignal.timeout(LOGO_TIMEOUT_MS) });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      bytes = new Uint8Array(await res.arrayBuffer());
+    }
+    if (bytes.byteLength > MAX_LOGO_BYTES) throw new Error("logo too large");
+    return readPdfImage(bytes);
+  } catch (err) {
+    console.error(`Failed to load logo ${brand.logo_url}:`, err);
+    return null;
+  }
+}
+
+/**
+ * Render a proposal as a paginated PDF in the owner's branding: the
+ * header (with the logo from loadPdfLogo, else the brand's name), then the
+ * case's template sections in order, with the data widgets (savings
+ * breakdown, paycheck example, …) where the template places them, and the
+ * owner's contact details at the end.
+ */
+export function renderProposalPdf(
+  data: ProposalPdfData,
+  template: TemplateContent,
+  brand: Branding,
+  logo: PdfImage | null = null,
+  generatedAt: Date = new Date()
+): Buffer {
+  const pdf = createPdfLayout();
+  const inputs = data.calc_inputs;
+  const w2 = inputs.w2_count;
+  const eligibility = inputs.eligibility;
+  const excluded = eligibility && eligibility.excluded_count > 0 ? eligibility : null;
+
+  // ---- Header ----
+  // The logo takes the place of the brand's name, like on the viewer
+  const logoOffset = logo ? LOGO_HEIGHT - 10 : 0;
+  pdf.band(92 + logoOffset, brand.primary_color, (top) => {
+    if (logo) {
+      const width = Math.min(LOGO_MAX_WIDTH, (LOGO_HEIGHT * logo.width) / logo.height);
+      pdf.image(PAGE_MARGIN, top, width, (width * logo.height) / logo.width, logo);
+    } else {
+      pdf.textAt(PAGE_MARGIN, top, brand.company_name.toUpperCase(), { size: 9, font: "bold", color: brand.accent_color });
+    }
+    top += logoOffset;
+    pdf.textAt(PAGE_MARGIN, top + 20, brand.proposal_title.toUpperCase(), { size: 8, color: "#cbd5e1" });
+    pdf.textAt(PAGE_MARGIN, top + 32, data.company_name, { size: 20, font: "bold", color: "#ffffff" });
+    const headcount = `${excluded ? `${excluded.eligible_count} eligible of ${w2}` : w2} W-2 Employees`;
+    const states =
+      inputs.state_mix && inputs.state_mix.length > 1 ? ` across ${inputs.state_mix.length} states` : "";
+    pdf.textAt(PAGE_MARGIN, top + 60, `${data.industry}  ·  ${headcount}${states}`, { size: 9, color: "#cbd5e1" });
+  });
+  pdf.space(16);
+
+  // ---- Template sections ----
+  for (const section of renderTemplate(template, templateContext(data)).sections) {
+    pdf.space(10);
+    if (section.eyebrow || section.title || section.subtitle) {
+      pdf.keep(80);
+      if (section.eyebrow) pdf.text(section.eyebrow.toUpperCase(), { size: 8, font: "bold", color: brand.accent_color, gap: 2 });
+      if (section.title) pdf.text(section.title, { size: 14, font: "bold", color: brand.primary_color, gap: 4 });
+      if (section.subtitle) pdf.text(section.subtitle, { size: 9, color: MUTED, gap: 4 });
+      pdf.space(4);
+    }
+    for (const block of section.blocks) renderBlock(pdf, block, data, brand);
+  }
+
+  // ---- Contact ----
+  const contact = [brand.contact_email, brand.contact_phone].filter(Boolean).join(" · ");
+  pdf.space(16);
+  pdf.keep(60);
+  pdf.text(brand.company_name, { size: 9, font: "bold", color: brand.primary_color, gap: 2 });
+  if (contact) pdf.text(contact, { size: 8, color: MUTED, gap: 2 });
+  if (brand.address) pdf.text(brand.address.replace(/\s*\n\s*/g, ", "), { size: 8, color: MUTED, gap: 2 });
+  if (brand.footer_text) pdf.text(brand.footer_text, { size: 8, color: MUTED });
+
+  const generated = generatedAt.toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+  return pdf.finish({
+    title: `${data.company_name} - ${brand.proposal_title}`,
+    footer: `${brand.proposal_title} for ${data.company_name} · Generated ${generated}`,
+  });
+}
@@ -0,0 +1,198 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AcceptanceSummary } from "./acceptance";
+import { type Branding, DEFAULT_BRANDING, loadCaseBranding, loadUserBranding } from "./branding";
+import type { CalculationInputs } from "./calculator";
+import { type LinkAccess, checkLinkAccess } from "./link-access";
+import { parseMoney } from "./money";
+import type { PaycheckInputs } from "./paycheck";
+import type { SavingsProjection } from "./projection";
+import type { ScenarioResult } from "./scenarios";
+import { type CaseStatus, transitionCaseStatus } from "./status";
+import { type TemplateContent, loadCaseTemplate, renderTemplate, templateContext } from "./templates";
+import { type WhatIfRange, supportsWhatIf, whatIfRange } from "./what-if";
+
+/**
+ * Opening a public proposal link. The middleware checks the link once per
+ * request (checkProposalLink) and answers every state but success and
+ * invalid itself, since a page can't set its status code; the page then
+ * loads the proposal without side effects (loadProposalView). The viewer
+ * records the view with a POST to /api/view (recordProposalView).
+ */
+
+/** Request header the middleware passes a checked link to the page in */
+export const PROPOSAL_LINK_HEADER = "x-proposal-link";
+
+/** A proposal as shown to the prospect */
+export interface ProposalViewData {
+  id: string;
+  company_name: string;
+  industry: string;
+  calc_total: number;
+  calc_er: number;
+  calc_ee: number;
+  calc_inputs: CalculationInputs;
+  calc_explanation: string;
+  calc_projection: SavingsProjection | null;
+  calc_scenarios: ScenarioResult[] | null;
+  paycheck_inputs: PaycheckInputs | null;
+  status: CaseStatus;
+  revision: number;
+  acceptance: AcceptanceSummary | null;
+  /** The case's template, already filled in for this case */
+  template: TemplateContent;
+  /** W-2 counts the prospect can try; null = no what-if panel */
+  what_if: WhatIfRange | null;
+}
+
+export type OpenLink = Extract<LinkAccess, { ok: true }>;
+
+export type ProposalLink =
+  | OpenLink
+  /** `branding` is the case owner's once the token checks out */
+  | (Exclude<LinkAccess, { ok: true }> & { branding?: Branding });
+
+export type ProposalLinkState = "success" | Exclude<LinkAccess, { ok: true }>["state"];
+
+/** HTTP status of the viewer page for each link state */
+export const VIEW_STATUS_CODES: Record<ProposalLinkState, number> = {
+  success: 200,
+  invalid: 404,
+  expired: 410,
+  revoked: 410,
+  passcode_required: 401,
+  passcode_incorrect: 401,
+  locked: 429,
+};
+
+/**
+ * The status a case has once the prospect has seen it: the first view
+ * moves a draft or sent proposal to viewed (recordProposalView). The page
+ * renders before the viewer records that view, so it shows this status,
+ * e.g. to offer acceptance on a fresh proposal.
+ */
+export function viewedStatus(status: CaseStatus): CaseStatus {
+  return status === "draft" || status === "sent" ? "viewed" : status;
+}
+
+/**
+ * Check a public link: token, expiry/revocation and passcode (see
+ * checkLinkAccess), with the owner's branding for the screens shown
+ * instead of the proposal. Throws on database errors.
+ */
+export async function checkProposalLink(
+  supabase: SupabaseClient,
+  request: { caseId: string; token: string; passcode?: string; grant?: string },
+  pepper: string
+): Promise<ProposalLink> {
+  const access = await checkLinkAccess(supabase, request, pepper);
+  // Past the token check the link is genuine, so even the passcode and
+  // expiry screens show the owner's brand
+  if (access.ok || access.state === "invalid") return access;
+  return { ...access, branding: await loadCaseBranding(supabase, request.caseId) };
+}
+
+/**
+ * Load a proposal for a link that has been checked: the case with its
+ * current acceptance, rendered template and the owner's branding. Changes
+ * nothing. Returns null when the case is gone; throws on database errors.
+ */
+export async function loadProposalView(
+  supabase: SupabaseClient,
+  caseId: string
+): Promise<{ data: ProposalViewData; branding: Branding } | null> {
+  const { data: caseData, error: caseError } = await supabase
+    .from("cases")
+    .select(
+      "id, company_name, industry, calc_total, calc_er, calc_ee, calc_inputs, calc_explanation, calc_projection, calc_scenarios, paycheck_inputs, status, revision, template_id, template_version_id, user_id, what_if_min_w2, what_if_max_w2"
+    )
+    .eq("id", caseId)
+    .maybeSingle();
+
+  if (caseError) throw caseError;
+  if (!caseData) return null;
+
+  // An accepted proposal shows who accepted this revision instead of the
+  // form; acceptances from before the deal was reopened are superseded
+  const { data: acceptance, error: acceptanceError } = await supabase
+    .from("case_acceptances")
+    .select("signer_name, accepted_at")
+    .eq("case_id", caseId)
+    .eq("revision", caseData.revision)
+    .is("superseded_at", null)
+    .maybeSingle();
+
+  if (acceptanceError) {
+    console.error("Acceptance lookup failed:", acceptanceError);
+  }
+
+  // numeric columns can arrive as strings; use exact-cent numbers
+  const { template_id, template_version_id, user_id, what_if_min_w2, what_if_max_w2, ...data } = caseData;
+  const proposal = {
+    ...data,
+    status: viewedStatus(caseData.status),
+    calc_total: parseMoney(caseData.calc_total),
+    calc_er: parseMoney(caseData.calc_er),
+    calc_ee: parseMoney(caseData.calc_ee),
+  };
+
+  // Proposal copy, filled in for this case
+  const template = await loadCaseTemplate(supabase, { template_id, template_version_id });
+  const branding = user_id ? await loadUserBranding(supabase, user_id) : DEFAULT_BRANDING;
+
+  return {
+    data: {
+      ...proposal,
+      acceptance: acceptance ?? null,
+      template: renderTemplate(template.content, templateContext(proposal)),
+      what_if: supportsWhatIf(caseData.calc_inputs) ? whatIfRange({ what_if_min_w2, what_if_max_w2 }) : null,
+    },
+    branding,
+  };
+}
+
+/**
+ * Record that the prospect viewed the proposal: counts the view (clearing
+ * failed passcode attempts) and moves a draft or sent case to viewed.
+ * Best effort; failures are logged.
+ */
+export async function recordProposalView(supabase: SupabaseClient, access: OpenLink): Promise<void> {
+  const { link } = access;
+
+  const { error: countError } = await supabase
+    .from("case_links")
+    .update({
+      view_count: (link.view_count || 0) + 1,
+      last_viewed_at: new Date().toISOString(),
+      ...access.update,
+    })
+    .eq("id", link.id);
+
+  if (countError) {
+    console.error("Failed to record view:", countError);
+  }
+
+  const { data: caseRow, error: caseError } = await supabase
+    .from("cases")
+    .select("status")
+    .eq("id", link.case_id)
+    .maybeSingle();
+
+  if (caseError) {
+    console.error("Case lookup failed:", caseError);
+    return;
+  }
+
+  // First view of a draft or sent proposal moves it to viewed
+  if (caseRow && viewedStatus(caseRow.status) !== caseRow.status) {
+    try {
+      await transitionCaseStatus(supabase, {
+        caseId: link.case_id,
+        from: caseRow.status,
+        to: viewedStatus(caseRow.status),
+        source: "viewer",
+      });
+    } catch (statusError) {
+      console.error("Failed to mark case viewed:", statusError);
+    }
+  }
+}
@@ -0,0 +1,109 @@
+import { type CalculationResult, calculateSavings, validateInput } from "./calculator";
+import type { CensusEmployee } from "./census";
+import {
+  type EligibilityRules,
+  type ExclusionCounts,
+  DEFAULT_ELIGIBILITY_RULES,
+} from "./eligibility";
+import {
+  type PaycheckInputs,
+  defaultPaycheckInputs,
+  validatePaycheckInputs,
+} from "./paycheck";
+import type { ProjectionAssumptions } from "./projection";
+import type { RateSet } from "./rate-sets";
+import type { ScenarioInput } from "./scenarios";
+import type { StateHeadcount } from "./state-tax";
+import { DEFAULT_EBITDA_MULTIPLE, industryMultiple } from "./valuation";
+
+/** Proposal fields accepted by /api/generate and PATCH /api/cases/:id */
+export interface ProposalRequest {
+  company_name?: string;
+  industry?: string;
+  w2_count?: number;
+  census?: CensusEmployee[];
+  tax_year?: number;
+  paycheck?: PaycheckInputs;
+  state_mix?: StateHeadcount[];
+  eligibility_rules?: EligibilityRules;
+  exclusions?: ExclusionCounts;
+  projection?: ProjectionAssumptions;
+  ebitda_multiple?: number;
+  scenarios?: ScenarioInput[];
+  headline_scenario?: number;
+}
+
+/**
+ * Validate a proposal request: calculator inputs, paycheck inputs and tax year.
+ * Returns array of error messages (empty = valid).
+ */
+export function validateProposalRequest(body: ProposalRequest): string[] {
+  const errors = validateInput({
+    company_name: body.company_name,
+    industry: body.industry,
+    w2_count: body.w2_count,
+    census: body.census,
+    state_mix: body.state_mix,
+    eligibility_rules: body.eligibility_rules ?? DEFAULT_ELIGIBILITY_RULES,
+    exclusions: body.exclusions,
+    projection: body.projection,
+    ebitda_multiple: body.ebitda_multiple,
+    scenarios: body.scenarios,
+    headline_scenario: body.headline_scenario,
+  });
+  if (body.paycheck !== undefined) errors.push(...validatePaycheckInputs(body.paycheck));
+  if (
+    body.tax_year !== undefined &&
+    (typeof body.tax_year !== "number" || !Number.isInteger(body.tax_year))
+  ) {
+    errors.push("Tax Year");
+  }
+  return errors;
+}
+
+/**
+ * Calculate a validated proposal request with the resolved rates.
+ * Without an entered multiple, the industry's default multiple is applied.
+ */
+export function calculateProposal(body: ProposalRequest, rateSet: RateSet): CalculationResult {
+  const eligibility = {
+    rules: body.eligibility_rules ?? DEFAULT_ELIGIBILITY_RULES,
+    exclusions: body.exclusions,
+  };
+  const industryDefault = industryMultiple(body.industry!);
+  const valuation =
+    body.ebitda_multiple !== undefined
+      ? { multiple: body.ebitda_multiple, industry: null }
+      : {
+          multiple: industryDefault?.multiple ?? DEFAULT_EBITDA_MULTIPLE,
+          industry: industryDefault?.industry ?? null,
+        };
+  const scenarios = body.scenarios
+    ? { scenarios: body.scenarios, headline: body.headline_scenario! }
+    : undefined;
+
+  return body.census
+    ? calculateSavings(body.census.length, {
+        census: body.census,
+        rateSet,
+        eligibility,
+        projection: body.projection,
+        valuation,
+        scenarios,
+      })
+    : calculateSavings(body.w2_count!, {
+        rateSet,
+        stateMix: body.state_mix,
+        eligibility,
+        projection: body.projection,
+        valuation,
+        scenarios,
+      });
+}
+
+/** Paycheck inputs to store, pinned to the tax year of the applied rates */
+export function proposalPaycheck(body: ProposalRequest, taxYear: number): PaycheckInputs {
+  return body.paycheck
+    ? { ...body.paycheck, tax_year: taxYear }
+    : defaultPaycheckInputs(taxYear);
+}
@@ -0,0 +1,157 @@
+import { RATE_TOTAL, RATE_ER, RATE_EE } from "./constants";
+import { parseMoney, roundCents, toCents } from "./money";
+
+/** A versioned set of per-W-2 multipliers (row in rate_sets) */
+export interface RateSet {
+  /** null for the built-in fallback rates */
+  id: string | null;
+  tax_year: number;
+  /** ISO date (YYYY-MM-DD) the rates take effect */
+  effective_from: string;
+  /** ISO date (YYYY-MM-DD) the rates stop applying; null = open-ended */
+  effective_to: string | null;
+  rate_total: number;
+  rate_er: number;
+  rate_ee: number;
+  notes: string | null;
+}
+
+/**
+ * Built-in rates used when no rate set exists for the requested year.
+ */
+export function defaultRateSet(taxYear: number): RateSet {
+  return {
+    id: null,
+    tax_year: taxYear,
+    effective_from: `${taxYear}-01-01`,
+    effective_to: null,
+    rate_total: RATE_TOTAL,
+    rate_er: RATE_ER,
+    rate_ee: RATE_EE,
+    notes: null,
+  };
+}
+
+/**
+ * Pick the rate set for a tax year that is in effect on `asOf`.
+ * If none is in effect on that date (e.g. quoting next year in December),
+ * the most recently effective set for the year is used.
+ * Returns null when the year has no rate sets.
+ */
+export function selectRateSet(
+  rateSets: RateSet[],
+  taxYear: number,
+  asOf: Date = new Date()
+): RateSet | null {
+  const day = asOf.toISOString().slice(0, 10);
+  const forYear = rateSets
+    .filter((r) => r.tax_year === taxYear)
+    .sort((a, b) => b.effective_from.localeCompare(a.effective_from));
+
+  const inEffect = forYear.find(
+    (r) => r.effective_from <= day && (!r.effective_to || r.effective_to >= day)
+  );
+  return inEffect ?? forYear[0] ?? null;
+}
+
+/**
+ * Coerce a DB row (numeric columns may arrive as strings) into a RateSet.
+ */
+export function toRateSet(row: Record<string, unknown>): RateSet {
+  return {
+    id: String(row.id),
+    tax_year: Number(row.tax_year),
+    effective_from: String(row.effective_from),
+    effective_to: row.effective_to ? String(row.effective_to) : null,
+    rate_total: parseMoney(row.rate_total),
+    rate_er: parseMoney(row.rate_er),
+    rate_ee: parseMoney(row.rate_ee),
+    notes: row.notes ? String(row.notes) : null,
+  };
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Non-negative dollar amount in whole cents */
+function isRate(value: unknown): value is number {
+  return (
+    typeof value === "number" &&
+    Number.isFinite(value) &&
+    value >= 0 &&
+    roundCents(value) === value
+  );
+}
+
+/**
+ * Validate rate set fields submitted by an admin.
+ * Returns array of error messages (empty = valid).
+ */
+export function validateRateSetInput(input: {
+  tax_year: unknown;
+  effective_from: unknown;
+  effective_to?: unknown;
+  rate_total: unknown;
+  rate_er: unknown;
+  rate_ee: unknown;
+}): string[] {
+  const errors: string[] = [];
+
+  const year = input.tax_year;
+  if (typeof year !== "number" || !Number.isInteger(year) || year < 2000 || year > 2100) {
+    errors.push("Tax Year");
+  }
+
+  if (typeof input.effective_from !== "string" || !ISO_DATE.test(input.effective_from)) {
+    errors.push("Effective From (YYYY-MM-DD)");
+  }
+
+  if (
+    input.effective_to !== undefined &&
+    input.effective_to !== null &&
+    (typeof input.effective_to !== "string" || !ISO_DATE.test(input.effective_to))
+  ) {
+    errors.push("Effective To (YYYY-MM-DD)");
+  } else if (
+    typeof input.effective_to === "string" &&
+    typeof input.effective_from === "string" &&
+    input.effective_to < input.effective_from
+  ) {
+    errors.push("Effective To (must be on or after Effective From)");
+  }
+
+  const { rate_total, rate_er, rate_ee } = input;
+  if (!isRate(rate_total)) errors.push("Total Rate");
+  if (!isRate(rate_er)) errors.push("ER Rate");
+  if (!isRate(rate_ee)) errors.push("EE Rate");
+  if (
+    isRate(rate_total) &&
+    isRate(rate_er) &&
+    isRate(rate_ee) &&
+    toCents(rate_total) !== toCents(rate_er) + toCents(rate_ee)
+  ) {
+    errors.push("Total Rate (must equal ER + EE)");
+  }
+
+  return errors;
+}
+
+/** Fields that define a set's rates; changing them means adding a new set */
+const FIXED_RATE_SET_FIELDS = {
+  tax_year: "Tax Year",
+  effective_from: "Effective From",
+  rate_total: "Total Rate",
+  rate_er: "ER Rate",
+  rate_ee: "EE Rate",
+} as const;
+
+/**
+ * Rate set fields in an update that can't be changed once the set exists.
+ * Cases record the set they were calculated with (calc_inputs.rate_set_id),
+ * so only effective_to and notes are editable. Returns their labels
+ * (empty = allowed).
+ */
+export function fixedRateSetFields(update: Record<string, unknown>): string[] {
+  return (Object.keys(FIXED_RATE_SET_FIELDS) as (keyof typeof FIXED_RATE_SET_FIELDS)[])
+    .filter((field) => update[field] !== undefined)
+    .map((field) => FIXED_RATE_SET_FIELDS[field]);
+}
@@ -0,0 +1,97 @@
+import { type StoredCalculation, replayOptions } from "./audit";
+import type { PaycheckInputs } from "./paycheck";
+import type { ProposalRequest } from "./proposal";
+
+/** A stored case as loaded for editing */
+export interface EditableCase extends StoredCalculation {
+  company_name: string | null;
+  industry: string | null;
+  paycheck_inputs: PaycheckInputs | null;
+}
+
+/** Edits to a case; null clears an optional field */
+export type ProposalPatch = {
+  [K in keyof ProposalRequest]?: ProposalRequest[K] | null;
+};
+
+/**
+ * Rebuild the request that produced a stored case, so an edit can change
+ * some fields and recalculate the rest unchanged.
+ * Scenarios sized to the eligible headcount are left without an override,
+ * so they follow the headcount if it changes.
+ */
+export function requestFromCase(stored: EditableCase): ProposalRequest {
+  const inputs = stored.calc_inputs;
+  const { w2Count, options } = replayOptions(stored);
+  const eligibleCount = inputs.eligibility?.eligible_count ?? w2Count;
+  const valuation = inputs.valuation;
+
+  const request: ProposalRequest = {
+    company_name: stored.company_name ?? undefined,
+    industry: stored.industry ?? undefined,
+    ...(options.census ? { census: options.census } : { w2_count: w2Count }),
+    tax_year: inputs.tax_year,
+    paycheck: stored.paycheck_inputs ?? undefined,
+    state_mix: options.stateMix,
+    eligibility_rules: options.eligibility?.rules,
+    exclusions: options.eligibility?.exclusions,
+    projection: options.projection,
+    ebitda_multiple:
+      valuation && valuation.multiple_industry === null ? valuation.ebitda_multiple : undefined,
+    scenarios: options.scenarios?.scenarios.map(({ headcount, ...s }) =>
+      headcount === eligibleCount ? s : { ...s, headcount }
+    ),
+    headline_scenario: options.scenarios?.headline,
+  };
+
+  return Object.fromEntries(
+    Object.entries(request).filter(([, value]) => value !== undefined)
+  ) as ProposalRequest;
+}
+
+/**
+ * Apply edits to a case's request. Supplying a W-2 count without a census
+ * switches the case to flat mode; supplying a census drops the flat-only
+ * state mix and exclusion headcounts.
+ */
+export function mergeProposalRequest(
+  existing: ProposalRequest,
+  patch: ProposalPatch
+): ProposalRequest {
+  const merged: Record<string, unknown> = { ...existing };
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) delete merged[key];
+    else if (value !== undefined) merged[key] = value;
+  }
+
+  if (patch.w2_count != null && patch.census === undefined) {
+    delete merged.census;
+  }
+  if (patch.census != null) {
+    delete merged.w2_count;
+    if (patch.state_mix === undefined) delete merged.state_mix;
+    if (patch.exclusions === undefined) delete merged.exclusions;
+  }
+
+  return merged as ProposalRequest;
+}
+
+/** Fields a rep can change when duplicating a case */
+export type DuplicateOverrides = Pick<ProposalPatch, "company_name" | "industry" | "tax_year">;
+
+/**
+ * Request for a new case copied from a stored one, with the same
+ * calculation options. The company name defaults to the source's with
+ * " (copy)" appended; null overrides are ignored.
+ */
+export function duplicateRequest(
+  stored: EditableCase,
+  overrides: DuplicateOverrides
+): ProposalRequest {
+  return mergeProposalRequest(requestFromCase(stored), {
+    company_name:
+      overrides.company_name ?? (stored.company_name ? `${stored.company_name} (copy)` : undefined),
+    industry: overrides.industry ?? undefined,
+    tax_year: overrides.tax_year ?? undefined,
+  });
+}
@@ -0,0 +1,130 @@
+import { roundCents, sumDollars } from "./money";
+
+/** A named what-if supplied by the rep */
+export interface ScenarioInput {
+  name: string;
+  /** Share of the headcount expected to enroll (0–1) */
+  participation_rate: number;
+  /** Headcount override, up to the eligible headcount; omitted = the eligible headcount */
+  headcount?: number;
+}
+
+/** Stored in cases.calc_scenarios */
+export interface ScenarioResult {
+  name: string;
+  participation_rate: number;
+  headcount: number;
+  /** Employees enrolled, rounded to whole employees */
+  participants: number;
+  calc_total: number;
+  calc_er: number;
+  calc_ee: number;
+  /** The scenario shown as the proposal's headline number */
+  headline: boolean;
+}
+
+export const MAX_SCENARIOS = 5;
+
+const MAX_SCENARIO_NAME_LENGTH = 40;
+
+/** Starting point offered to reps in the generate form */
+export const DEFAULT_SCENARIOS: ScenarioInput[] = [
+  { name: "Low", participation_rate: 0.5 },
+  { name: "Expected", participation_rate: 0.75 },
+  { name: "High", participation_rate: 1 },
+];
+
+/**
+ * Compute each scenario from the full-participation savings of the
+ * eligible headcount: per-employee savings × participants.
+ */
+export function calculateScenarios(
+  base: { eligible_count: number; calc_er: number; calc_ee: number },
+  scenarios: ScenarioInput[],
+  headlineIndex: number
+): ScenarioResult[] {
+  const perEr = base.eligible_count > 0 ? base.calc_er / base.eligible_count : 0;
+  const perEe = base.eligible_count > 0 ? base.calc_ee / base.eligible_count : 0;
+
+  return scenarios.map((s, i) => {
+    const headcount = s.headcount ?? base.eligible_count;
+    const participants = Math.round(headcount * s.participation_rate);
+    const er = roundCents(perEr * participants);
+    const ee = roundCents(perEe * participants);
+    return {
+      name: s.name.trim(),
+      participation_rate: s.participation_rate,
+      headcount,
+      participants,
+      calc_total: sumDollars([er, ee]),
+      calc_er: er,
+      calc_ee: ee,
+      headline: i === headlineIndex,
+    };
+  });
+}
+
+/**
+ * Validate scenarios and the headline index.
+ * Returns array of error messages (empty = valid).
+ */
+export function validateScenarios(scenarios: unknown, headline: unknown): string[] {
+  if (!Array.isArray(scenarios) || scenarios.length === 0 || scenarios.length > MAX_SCENARIOS) {
+    return [`Scenarios (must list 1 to ${MAX_SCENARIOS} scenarios)`];
+  }
+
+  const errors: string[] = [];
+  const names = new Set<string>();
+
+  scenarios.forEach((row: unknown, i) => {
+    const label = `Scenario ${i + 1}`;
+    const s = (row && typeof row === "object" ? row : {}) as Record<string, unknown>;
+    const name = typeof s.name === "string" ? s.name.trim() : "";
+    if (!name || name.length > MAX_SCENARIO_NAME_LENGTH) {
+      errors.push(`${label} (name is required, up to ${MAX_SCENARIO_NAME_LENGTH} characters)`);
+    } else if (names.has(name.toLowerCase())) {
+      errors.push(`${label} (duplicate name ${name})`);
+    } else {
+      names.add(name.toLowerCase());
+    }
+    if (
+      typeof s.participation_rate !== "number" ||
+      !Number.isFinite(s.participation_rate) ||
+      s.participation_rate <= 0 ||
+      s.participation_rate > 1
+    ) {
+      errors.push(`${label} (participation must be between 0 and 100%)`);
+    }
+    if (
+      s.headcount !== undefined &&
+      (typeof s.headcount !== "number" || !Number.isInteger(s.headcount) || s.headcount <= 0)
+    ) {
+      errors.push(`${label} (headcount must be a positive whole number)`);
+    }
+  });
+
+  if (
+    typeof headline !== "number" ||
+    !Number.isInteger(headline) ||
+    headline < 0 ||
+    headline >= scenarios.length
+  ) {
+    errors.push("Headline Scenario");
+  }
+
+  return errors;
+}
+
+/**
+ * Check headcount overrides against the eligible headcount, so a scenario
+ * can't count employees the eligibility rules exclude. Call once
+ * validateScenarios passes and the eligible count is known.
+ * Returns array of error messages (empty = valid).
+ */
+export function validateScenarioHeadcounts(scenarios: ScenarioInput[], eligibleCount: number): string[] {
+  return scenarios.flatMap((s, i) =>
+    s.headcount !== undefined && s.headcount > eligibleCount
+      ? [`Scenario ${i + 1} (headcount can't exceed the ${eligibleCount} eligible employees)`]
+      : []
+  );
+}
@@ -0,0 +1,156 @@
+export interface StateTaxInfo {
+  code: string;
+  name: string;
+  /**
+   * Approximate effective withholding rate on wages for a typical earner.
+   * 0 for states without a wage income tax.
+   */
+  rate: number;
+}
+
+/**
+ * State income tax withholding rates (50 states + DC).
+ * Flat-tax states use their statutory rate; graduated states use an
+ * approximate effective rate for median wages.
+ */
+export const STATE_TAX_TABLE: Record<string, StateTaxInfo> = {
+  AL: { code: "AL", name: "Alabama", rate: 0.045 },
+  AK: { code: "AK", name: "Alaska", rate: 0 },
+  AZ: { code: "AZ", name: "Arizona", rate: 0.025 },
+  AR: { code: "AR", name: "Arkansas", rate: 0.039 },
+  CA: { code: "CA", name: "California", rate: 0.04 },
+  CO: { code: "CO", name: "Colorado", rate: 0.044 },
+  CT: { code: "CT", name: "Connecticut", rate: 0.05 },
+  DE: { code: "DE", name: "Delaware", rate: 0.05 },
+  DC: { code: "DC", name: "District of Columbia", rate: 0.06 },
+  FL: { code: "FL", name: "Florida", rate: 0 },
+  GA: { code: "GA", name: "Georgia", rate: 0.0519 },
+  HI: { code: "HI", name: "Hawaii", rate: 0.07 },
+  ID: { code: "ID", name: "Idaho", rate: 0.053 },
+  IL: { code: "IL", name: "Illinois", rate: 0.0495 },
+  IN: { code: "IN", name: "Indiana", rate: 0.03 },
+  IA: { code: "IA", name: "Iowa", rate: 0.038 },
+  KS: { code: "KS", name: "Kansas", rate: 0.052 },
+  KY: { code: "KY", name: "Kentucky", rate: 0.04 },
+  LA: { code: "LA", name: "Louisiana", rate: 0.03 },
+  ME: { code: "ME", name: "Maine", rate: 0.0675 },
+  MD: { code: "MD", name: "Maryland", rate: 0.0475 },
+  MA: { code: "MA", name: "Massachusetts", rate: 0.05 },
+  MI: { code: "MI", name: "Michigan", rate: 0.0425 },
+  MN: { code: "MN", name: "Minnesota", rate: 0.068 },
+  MS: { code: "MS", name: "Mississippi", rate: 0.044 },
+  MO: { code: "MO", name: "Missouri", rate: 0.047 },
+  MT: { code: "MT", name: "Montana", rate: 0.059 },
+  NE: { code: "NE", name: "Nebraska", rate: 0.052 },
+  NV: { code: "NV", name: "Nevada", rate: 0 },
+  NH: { code: "NH", name: "New Hampshire", rate: 0 },
+  NJ: { code: "NJ", name: "New Jersey", rate: 0.035 },
+  NM: { code: "NM", name: "New Mexico", rate: 0.049 },
+  NY: { code: "NY", name: "New York", rate: 0.055 },
+  NC: { code: "NC", name: "North Carolina", rate: 0.0425 },
+  ND: { code: "ND", name: "North Dakota", rate: 0.0195 },
+  OH: { code: "OH", name: "Ohio", rate: 0.0275 },
+  OK: { code: "OK", name: "Oklahoma", rate: 0.0475 },
+  OR: { code: "OR", name: "Oregon", rate: 0.0875 },
+  PA: { code: "PA", name: "Pennsylvania", rate: 0.0307 },
+  RI: { code: "RI", name: "Rhode Island", rate: 0.0475 },
+  SC: { code: "SC", name: "South Carolina", rate: 0.062 },
+  SD: { code: "SD", name: "South Dakota", rate: 0 },
+  TN: { code: "TN", name: "Tennessee", rate: 0 },
+  TX: { code: "TX", name: "Texas", rate: 0 },
+  UT: { code: "UT", name: "Utah", rate: 0.0455 },
+  VT: { code: "VT", name: "Vermont", rate: 0.066 },
+  VA: { code: "VA", name: "Virginia", rate: 0.0575 },
+  WA: { code: "WA", name: "Washington", rate: 0 },
+  WV: { code: "WV", name: "West Virginia", rate: 0.0482 },
+  WI: { code: "WI", name: "Wisconsin", rate: 0.053 },
+  WY: { code: "WY", name: "Wyoming", rate: 0 },
+};
+
+/** State codes sorted by state name, for selectors */
+export const STATE_CODES: string[] = Object.values(STATE_TAX_TABLE)
+  .sort((a, b) => a.name.localeCompare(b.name))
+  .map((s) => s.code);
+
+export function isStateCode(code: unknown): code is string {
+  return typeof code === "string" && code in STATE_TAX_TABLE;
+}
+
+/**
+ * Withholding rate for a state code. Throws on an unknown code.
+ */
+export function getStateTaxRate(code: string): number {
+  const info = STATE_TAX_TABLE[code];
+  if (!info) throw new Error(`Unknown state code: ${code}`);
+  return info.rate;
+}
+
+/**
+ * State withholding rate already baked into the flat per-W-2 EE multiplier.
+ * State-aware calculations adjust the EE rate by the difference between
+ * the employee's state and this baseline.
+ */
+export const BASELINE_STATE_RATE = 0.04;
+
+/** Headcount working in one state */
+export interface StateHeadcount {
+  state: string;
+  count: number;
+}
+
+export function hasStateIncomeTax(code: string): boolean {
+  return getStateTaxRate(code) > 0;
+}
+
+/**
+ * Annual state withholding saved on a pre-tax deduction.
+ */
+export function stateWithholdingSavings(code: string, annualDeduction: number): number {
+  return annualDeduction * getStateTaxRate(code);
+}
+
+/**
+ * Adjustment to the flat per-W-2 EE rate for employees in a state,
+ * relative to the baseline rate the multiplier assumes.
+ * Negative for states below the baseline (e.g. no-income-tax states).
+ */
+export function stateEeAdjustment(code: string, annualDeduction: number): number {
+  return annualDeduction * (getStateTaxRate(code) - BASELINE_STATE_RATE);
+}
+
+/**
+ * Validate a headcount split across states against the total W-2 count.
+ * Returns array of error messages (empty = valid).
+ */
+export function validateStateMix(mix: unknown, w2Count: unknown): string[] {
+  if (!Array.isArray(mix) || mix.length === 0) {
+    return ["State Mix (must list at least one state)"];
+  }
+
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  let total = 0;
+
+  mix.forEach((row: unknown, i) => {
+    const label = `State Mix row ${i + 1}`;
+    const r = (row && typeof row === "object" ? row : {}) as Record<string, unknown>;
+    if (!isStateCode(r.state)) {
+      errors.push(`${label} (invalid state)`);
+    } else if (seen.has(r.state)) {
+      errors.push(`${label} (duplicate state ${r.state})`);
+    } else {
+      seen.add(r.state);
+    }
+    if (typeof r.count !== "number" || !Number.isInteger(r.count) || r.count <= 0) {
+      errors.push(`${label} (headcount must be a positive whole number)`);
+    } else {
+      total += r.count;
+    }
+  });
+
+  if (errors.length === 0 && typeof w2Count === "number" && total !== w2Count) {
+    errors.push(`State Mix (headcounts add up to ${total}, expected ${w2Count})`);
+  }
+
+  return errors;
+}
@@ -0,0 +1,103 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type CaseStatus =
+  | "draft"
+  | "sent"
+  | "viewed"
+  | "negotiating"
+  | "accepted"
+  | "declined"
+  | "lost"
+  | "live";
+
+export const CASE_STATUSES: CaseStatus[] = [
+  "draft",
+  "sent",
+  "viewed",
+  "negotiating",
+  "accepted",
+  "declined",
+  "lost",
+  "live",
+];
+
+export const CASE_STATUS_LABELS: Record<CaseStatus, string> = {
+  draft: "Draft",
+  sent: "Sent",
+  viewed: "Viewed",
+  negotiating: "Negotiating",
+  accepted: "Accepted",
+  declined: "Declined",
+  lost: "Lost",
+  live: "Live",
+};
+
+/**
+ * Allowed transitions. Declined and lost deals can be reopened;
+ * live is final. Mirrored by the enforce_case_status_transition trigger
+ * (supabase/migrations/00024_enforce_status_transitions.sql).
+ */
+export const CASE_STATUS_TRANSITIONS: Record<CaseStatus, CaseStatus[]> = {
+  draft: ["sent", "viewed", "lost"],
+  sent: ["viewed", "negotiating", "accepted", "declined", "lost"],
+  viewed: ["negotiating", "accepted", "declined", "lost"],
+  negotiating: ["accepted", "declined", "lost"],
+  accepted: ["live", "negotiating", "lost"],
+  declined: ["negotiating", "lost"],
+  lost: ["negotiating"],
+  live: [],
+};
+
+/** Who made a transition (stored in case_status_history.source) */
+export type StatusChangeSource = "rep" | "viewer" | "system";
+
+export function isCaseStatus(value: unknown): value is CaseStatus {
+  return CASE_STATUSES.includes(value as CaseStatus);
+}
+
+export function canTransition(from: CaseStatus, to: CaseStatus): boolean {
+  return CASE_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/** Statuses only the prospect can move a case to (via /api/accept) */
+export const VIEWER_ONLY_STATUSES: CaseStatus[] = ["accepted"];
+
+/** Transitions a rep can make from the dashboard */
+export function repTransitions(from: CaseStatus): CaseStatus[] {
+  return CASE_STATUS_TRANSITIONS[from].filter((to) => !VIEWER_ONLY_STATUSES.includes(to));
+}
+
+export function canRepTransition(from: CaseStatus, to: CaseStatus): boolean {
+  return repTransitions(from).includes(to);
+}
+
+/**
+ * Move a case to a new status. The database checks the transition and
+ * records it in case_status_history (changed_by is the signed-in user,
+ * if any). Only applies when the case is still in `from`, so concurrent
+ * changes can't skip the state machine. Returns false when the
+ * transition isn't allowed or the case has moved on.
+ */
+export async function transitionCaseStatus(
+  supabase: SupabaseClient,
+  change: {
+    caseId: string;
+    from: CaseStatus;
+    to: CaseStatus;
+    source: StatusChangeSource;
+    note?: string | null;
+  }
+): Promise<boolean> {
+  if (!canTransition(change.from, change.to)) return false;
+
+  const { data: moved, error } = await supabase.rpc("transition_case_status", {
+    p_case_id: change.caseId,
+    p_from: change.from,
+    p_to: change.to,
+    p_source: change.source,
+    p_note: change.note ?? null,
+  });
+
+  if (error) throw error;
+  return moved === true;
+}
@@ -1,5 +1,6 @@
 import { createServerClient } from "@supabase/ssr";
 import { cookies } from "next/headers";
+import type { User } from "@supabase/supabase-js";
 
 /**
  * Server-side Supabase client that reads auth from cookies.
@@ -41,3 +42,11 @@ export async function getAuthUser() {
   } = await supabase.auth.getUser();
   return user;
 }
+
+/**
+ * Whether the user is an admin. The role lives in app_metadata,
+ * which only the service role can write.
+ */
+export function isAdmin(user: User | null): boolean {
+  return user?.app_metadata?.role === "admin";
+}
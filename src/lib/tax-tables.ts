@@ -0,0 +1,192 @@
+/** Filing statuses supported by the withholding calculations */
+export type FilingStatus = "single" | "married_jointly" | "head_of_household";
+
+/** Pay frequencies supported by the withholding calculations */
+export type PayFrequency = "weekly" | "biweekly" | "semimonthly" | "monthly";
+
+export const FILING_STATUSES: FilingStatus[] = [
+  "single",
+  "married_jointly",
+  "head_of_household",
+];
+
+export const PAY_FREQUENCIES: PayFrequency[] = [
+  "weekly",
+  "biweekly",
+  "semimonthly",
+  "monthly",
+];
+
+/** Number of pay periods per year for each pay frequency */
+export const PAY_PERIODS: Record<PayFrequency, number> = {
+  weekly: 52,
+  biweekly: 26,
+  semimonthly: 24,
+  monthly: 12,
+};
+
+export const FILING_STATUS_LABELS: Record<FilingStatus, string> = {
+  single: "Single",
+  married_jointly: "Married Filing Jointly",
+  head_of_household: "Head of Household",
+};
+
+export const PAY_FREQUENCY_LABELS: Record<PayFrequency, string> = {
+  weekly: "Weekly",
+  biweekly: "Bi-weekly",
+  semimonthly: "Semi-monthly",
+  monthly: "Monthly",
+};
+
+export interface TaxBracket {
+  /** Upper bound of the bracket (taxable income); null = no upper bound */
+  up_to: number | null;
+  rate: number;
+}
+
+export interface FederalTaxTable {
+  tax_year: number;
+  /** Social Security wage base — wages above this are not subject to SS tax */
+  ss_wage_base: number;
+  /** Social Security rate (each of employer and employee) */
+  ss_rate: number;
+  /** Medicare rate (each of employer and employee) */
+  medicare_rate: number;
+  standard_deduction: Record<FilingStatus, number>;
+  brackets: Record<FilingStatus, TaxBracket[]>;
+}
+
+/**
+ * Federal payroll tax parameters by tax year.
+ * Source: IRS Rev. Proc. inflation adjustments and SSA wage base announcements.
+ */
+export const FEDERAL_TAX_TABLES: Record<number, FederalTaxTable> = {
+  2025: {
+    tax_year: 2025,
+    ss_wage_base: 176100,
+    ss_rate: 0.062,
+    medicare_rate: 0.0145,
+    standard_deduction: {
+      single: 15750,
+      married_jointly: 31500,
+      head_of_household: 23625,
+    },
+    brackets: {
+      single: [
+        { up_to: 11925, rate: 0.1 },
+        { up_to: 48475, rate: 0.12 },
+        { up_to: 103350, rate: 0.22 },
+        { up_to: 197300, rate: 0.24 },
+        { up_to: 250525, rate: 0.32 },
+        { up_to: 626350, rate: 0.35 },
+        { up_to: null, rate: 0.37 },
+      ],
+      married_jointly: [
+        { up_to: 23850, rate: 0.1 },
+        { up_to: 96950, rate: 0.12 },
+        { up_to: 206700, rate: 0.22 },
+        { up_to: 394600, rate: 0.24 },
+        { up_to: 501050, rate: 0.32 },
+        { up_to: 751600, rate: 0.35 },
+        { up_to: null, rate: 0.37 },
+      ],
+      head_of_household: [
+        { up_to: 17000, rate: 0.1 },
+        { up_to: 64850, rate: 0.12 },
+        { up_to: 103350, rate: 0.22 },
+        { up_to: 197300, rate: 0.24 },
+        { up_to: 250500, rate: 0.32 },
+        { up_to: 626350, rate: 0.35 },
+        { up_to: null, rate: 0.37 },
+      ],
+    },
+  },
+  2026: {
+    tax_year: 2026,
+    ss_wage_base: 184500,
+    ss_rate: 0.062,
+    medicare_rate: 0.0145,
+    standard_deduction: {
+      single: 16100,
+      married_jointly: 32200,
+      head_of_household: 24150,
+    },
+    brackets: {
+      single: [
+        { up_to: 12400, rate: 0.1 },
+        { up_to: 50400, rate: 0.12 },
+        { up_to: 105700, rate: 0.22 },
+        { up_to: 201775, rate: 0.24 },
+        { up_to: 256225, rate: 0.32 },
+        { up_to: 640600, rate: 0.35 },
+        { up_to: null, rate: 0.37 },
+      ],
+      married_jointly: [
+        { up_to: 24800, rate: 0.1 },
+        { up_to: 100800, rate: 0.12 },
+        { up_to: 211400, rate: 0.22 },
+        { up_to: 403550, rate: 0.24 },
+        { up_to: 512450, rate: 0.32 },
+        { up_to: 768700, rate: 0.35 },
+        { up_to: null, rate: 0.37 },
+      ],
+      head_of_household: [
+        { up_to: 17700, rate: 0.1 },
+        { up_to: 67450, rate: 0.12 },
+        { up_to: 105700, rate: 0.22 },
+        { up_to: 201750, rate: 0.24 },
+        { up_to: 256200, rate: 0.32 },
+        { up_to: 640600, rate: 0.35 },
+        { up_to: null, rate: 0.37 },
+      ],
+    },
+  },
+};
+
+/**
+ * Get the federal tax table for a tax year.
+ * Falls back to the latest table at or before the year, or the earliest
+ * table if the year predates all of them.
+ */
+export function getFederalTaxTable(taxYear: number): FederalTaxTable {
+  const years = Object.keys(FEDERAL_TAX_TABLES)
+    .map(Number)
+    .sort((a, b) => a - b);
+  const match = years.filter((y) => y <= taxYear).pop() ?? years[0];
+  return FEDERAL_TAX_TABLES[match];
+}
+
+/**
+ * Annual federal income tax on wages using the annualized percentage method
+ * (wages less the standard deduction, taxed through the brackets).
+ */
+export function federalIncomeTax(
+  annualWages: number,
+  filingStatus: FilingStatus,
+  table: FederalTaxTable
+): number {
+  const taxable = Math.max(0, annualWages - table.standard_deduction[filingStatus]);
+  let tax = 0;
+  let lower = 0;
+  for (const bracket of table.brackets[filingStatus]) {
+    const upper = bracket.up_to ?? Infinity;
+    if (taxable <= lower) break;
+    tax += (Math.min(taxable, upper) - lower) * bracket.rate;
+    lower = upper;
+  }
+  return tax;
+}
+
+/**
+ * Social Security tax (one side) on annual wages, capped at the wage base.
+ */
+export function socialSecurityTax(annualWages: number, table: FederalTaxTable): number {
+  return Math.min(Math.max(0, annualWages), table.ss_wage_base) * table.ss_rate;
+}
+
+/**
+ * Medicare tax (one side) on annual wages. No wage cap.
+ */
+export function medicareTax(annualWages: number, table: FederalTaxTable): number {
+  return Math.max(0, annualWages) * table.medicare_rate;
+}
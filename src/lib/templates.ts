@@ -0,0 +1,663 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { CalculationInputs } from "./calculator";
+import { formatUSD } from "./format";
+import { type PaycheckInputs, defaultPaycheckInputs } from "./paycheck";
+import type { SavingsProjection } from "./projection";
+import type { ScenarioResult } from "./scenarios";
+import { STATE_TAX_TABLE } from "./state-tax";
+import { FILING_STATUS_LABELS, PAY_FREQUENCY_LABELS } from "./tax-tables";
+
+export const MAX_TEMPLATE_NAME_LENGTH = 120;
+export const MAX_TEMPLATE_DESCRIPTION_LENGTH = 500;
+export const MAX_TEMPLATE_SECTIONS = 30;
+export const MAX_TEMPLATE_BLOCKS = 30;
+/** Per text field (paragraphs, list items, card text) */
+export const MAX_TEMPLATE_TEXT_LENGTH = 5000;
+
+/** Case data a section or block can depend on; hidden when the case doesn't have it */
+export type TemplateCondition = "valuation" | "scenarios" | "projection" | "census";
+
+export const TEMPLATE_CONDITIONS: TemplateCondition[] = ["valuation", "scenarios", "projection", "census"];
+
+/** Data-driven parts of the proposal, placed by the template but rendered from the case */
+export type TemplateWidget =
+  | "savings_breakdown"
+  | "scenarios"
+  | "projection"
+  | "paycheck_example"
+  | "calculation_details";
+
+export const TEMPLATE_WIDGETS: TemplateWidget[] = [
+  "savings_breakdown",
+  "scenarios",
+  "projection",
+  "paycheck_example",
+  "calculation_details",
+];
+
+export type TemplateTone = "emerald" | "sky" | "gray";
+
+export const TEMPLATE_TONES: TemplateTone[] = ["emerald", "sky", "gray"];
+
+/**
+ * Text fields may use `{{variable}}` placeholders and `**bold**`.
+ */
+export type TemplateBlock = { when?: TemplateCondition } & (
+  | { type: "paragraph"; text: string; muted?: boolean }
+  | { type: "checklist"; title?: string; items: string[]; tone?: TemplateTone }
+  | { type: "cards"; title?: string; columns?: number; items: { title: string; text?: string }[] }
+  | {
+      type: "callout";
+      title?: string;
+      /** Paragraphs separated by blank lines */
+      text: string;
+      tone?: TemplateTone;
+      stat?: { value: string; caption: string };
+    }
+  | { type: "fine_print"; title?: string; text: string }
+  | { type: "widget"; widget: TemplateWidget }
+);
+
+export type TemplateBlockType = TemplateBlock["type"];
+
+export const TEMPLATE_BLOCK_TYPES: TemplateBlockType[] = [
+  "paragraph",
+  "checklist",
+  "cards",
+  "callout",
+  "fine_print",
+  "widget",
+];
+
+export interface TemplateSection {
+  eyebrow?: string;
+  title?: string;
+  subtitle?: string;
+  when?: TemplateCondition;
+  blocks: TemplateBlock[];
+}
+
+/** Stored in proposal_templates.content */
+export interface TemplateContent {
+  sections: TemplateSection[];
+}
+
+/** proposal_templates row */
+export interface ProposalTemplate {
+  /** null = the built-in DEFAULT_TEMPLATE */
+  id: string | null;
+  name: string;
+  description: string | null;
+  is_default: boolean;
+  content: TemplateContent;
+}
+
+export const TEMPLATE_VARIABLES = {
+  company_name: "Company name",
+  industry: "Industry",
+  w2_count: "W-2 employees",
+  eligible_count: "Eligible employees",
+  tax_year: "Tax year",
+  calc_total: "Total tax reduction",
+  calc_er: "Employer net savings",
+  calc_ee: "Employee reduction",
+  rate_er: "Employer savings per W-2",
+  rate_ee: "Employee reduction per W-2",
+  ebitda_multiple: "EBITDA multiple",
+  ebitda_increase: "EBITDA increase",
+  valuation_uplift: "Enterprise valuation increase",
+  pay_period: "Paycheck example pay period",
+  filing_status: "Paycheck example filing status",
+  paycheck_state: "Paycheck example state",
+} as const;
+
+export type TemplateVariable = keyof typeof TEMPLATE_VARIABLES;
+
+/** Values for a case's variables and which conditions hold */
+export interface TemplateContext {
+  variables: Record<TemplateVariable, string>;
+  conditions: Record<TemplateCondition, boolean>;
+}
+
+/** Case fields templates are rendered from */
+export interface TemplateCase {
+  company_name: string;
+  industry: string;
+  calc_total: number;
+  calc_er: number;
+  calc_ee: number;
+  calc_inputs: CalculationInputs;
+  calc_scenarios: ScenarioResult[] | null;
+  calc_projection?: SavingsProjection | null;
+  paycheck_inputs: PaycheckInputs | null;
+}
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** A well-formed proposal_templates id */
+export function isTemplateId(value: unknown): value is string {
+  return typeof value === "string" && UUID_PATTERN.test(value);
+}
+
+/**
+ * The proposal copy as it shipped before templates existed, seeded as the
+ * default template (00023_seed_default_template.sql; keep them in sync).
+ * Used when a case has no template and none is marked default, or a
+ * template's content is invalid.
+ */
+export const DEFAULT_TEMPLATE_CONTENT: TemplateContent = {
+  sections: [
+    {
+      eyebrow: "Overview",
+      title: "What is SIMERP?",
+      subtitle: "A proven program offers employees access to affordable coverage.",
+      blocks: [
+        {
+          type: "paragraph",
+          text:
+            "A **Self Insured Medical Expense Reimbursement Plan (SIMERP)** is an employer-sponsored " +
+            "workplace program that allows employees to supplement their benefits with zero net " +
+            "out-of-pocket costs. SIMERP reduces business payroll costs by up to **$1,186 per W-2 " +
+            "employee**, and results in an increase to the bottom line of the organization.",
+        },
+        {
+          type: "paragraph",
+          muted: true,
+          text:
+            "The program is derived from the IRC & Affordable Care Act, established during the ACA era. " +
+            "It is centered around the government's focus on establishing a healthier, more productive workforce.",
+        },
+        {
+          type: "checklist",
+          title: "Benefit to the Employer",
+          tone: "emerald",
+          items: [
+            "No out-of-pocket cost + average **$1,186** in net EBITDA increase per employee per year",
+            "Increase in business profitability & valuation by directly decreasing payroll expenses",
+            "Increased employee satisfaction & retention",
+          ],
+        },
+        {
+          type: "checklist",
+          title: "Benefit to the Employee",
+          tone: "sky",
+          items: [
+            "Increased benefits at **$0 out-of-pocket cost** — health insurance, life insurance & more, extending to family",
+            "Increase in take-home pay",
+            "Increased satisfaction with employer and benefits plan",
+          ],
+        },
+      ],
+    },
+    {
+      eyebrow: "What Your Team Gets",
+      title: "Employee Benefits",
+      subtitle: "Healthcare and telehealth — all at $0 out-of-pocket cost.",
+      blocks: [
+        {
+          type: "cards",
+          title: "MEC Services (In-Person)",
+          columns: 3,
+          items: [
+            { title: "**$0 Copay** Primary Care", text: "Preventive visits with your primary care physician" },
+            { title: "**$0 Copay** Generic Rx", text: "2,900 common generic prescriptions covered at $0" },
+            {
+              title: "**$0 Copay** Hospital Bill Advocacy",
+              text: "Technology & financial assistance to reduce or erase hospital bills",
+            },
+          ],
+        },
+        {
+          type: "cards",
+          title: "Telehealth Services (Covers up to 6 Dependents)",
+          columns: 2,
+          items: [
+            { title: "**$0 Copay** Unlimited Virtual Urgent Care Visits" },
+            { title: "**$0 Copay** Unlimited Virtual Primary Care Visits" },
+            { title: "**$0 Copay** Unlimited Virtual Counseling Sessions" },
+            { title: "**$0 Copay** 1 Comprehensive Lab Per Year" },
+          ],
+        },
+        {
+          type: "callout",
+          title: "+ Additional Voluntary Benefits",
+          tone: "sky",
+          text: "**Voluntary benefits of your choice**",
+        },
+      ],
+    },
+    {
+      eyebrow: "Your Bottom Line",
+      title: "Employer Benefit",
+      subtitle: "How SIMERP directly reduces payroll costs and increases profitability.",
+      blocks: [
+        {
+          type: "callout",
+          title: "Reduce Employee Turnover",
+          tone: "emerald",
+          text:
+            "With rising healthcare costs, it's often not financially feasible for employers to offer " +
+            "benefits. This program is a great solution to reduce turnover, increase retention, & provide " +
+            "benefits at zero net out-of-pocket cost.",
+        },
+        {
+          type: "callout",
+          tone: "emerald",
+          stat: { value: "$1,186/yr", caption: "Avg. Employer Tax Savings Per Employee, Per Year" },
+          text:
+            "The net savings stem from contributing less to FICA taxes due to the taxable income of " +
+            "employees being a lesser amount. Your FICA rate of 7.65% remains the same, but on a lowered " +
+            "taxable income, creating a delta in tax savings.\n\n" +
+            "The savings also directly increase your **EBITDA & enterprise valuation** by decreasing " +
+            "operating expenses. Made possible through the Affordable Care Act, Section 125, Section 213(d) " +
+            "& Section 105 of the Internal Revenue Code.",
+        },
+        {
+          type: "paragraph",
+          when: "valuation",
+          text:
+            "At a **{{ebitda_multiple}}x EBITDA multiple**, your {{ebitda_increase}} in annual savings adds " +
+            "an estimated **{{valuation_uplift}}** to enterprise value.",
+        },
+        {
+          type: "callout",
+          title: "Does This Impact Current Benefits?",
+          tone: "gray",
+          text:
+            "This does not conflict with any current benefits in place & does not affect or replace " +
+            "anything — it simply stacks on top. Implementation is simple, our team does all the heavy " +
+            "lifting. Live within 60 days.",
+        },
+      ],
+    },
+    {
+      eyebrow: "See It In Action",
+      title: "Paycheck Example",
+      subtitle:
+        "Illustrative {{pay_period}} paycheck for a representative employee ({{filing_status}}, " +
+        "{{paycheck_state}}) showing how take-home pay increases.",
+      blocks: [{ type: "widget", widget: "paycheck_example" }],
+    },
+    {
+      eyebrow: "Legal Foundation",
+      title: "Compliance & Tax Codes",
+      blocks: [
+        {
+          type: "paragraph",
+          muted: true,
+          text:
+            "The Plan is a Self-Insured Medical Reimbursement Plan (SIMERP) purposely created, thoroughly " +
+            "researched, and compliant with IRC 213(d), 106(a), 105(b), 1.105-II(i), and 104(a)(3) codes, " +
+            "and all applicable IRS memos, ERISA regulations, HIPAA, and the ACA.",
+        },
+        {
+          type: "cards",
+          columns: 4,
+          items: [
+            { title: "Wellness", text: "IRC §106(a), §213(d), §105(b), ERISA, HIPAA, ACA" },
+            { title: "Medical", text: "IRC §213(d), ACA" },
+            { title: "Pre-Tax", text: "IRC §106(a), §213(d), §125" },
+            { title: "Post-Tax", text: "IRC §105(b), §213(d), 1.105-11(i), 104(a)(3)" },
+          ],
+        },
+      ],
+    },
+    { blocks: [{ type: "widget", widget: "savings_breakdown" }] },
+    { when: "scenarios", blocks: [{ type: "widget", widget: "scenarios" }] },
+    { when: "projection", blocks: [{ type: "widget", widget: "projection" }] },
+    {
+      blocks: [
+        { type: "widget", widget: "calculation_details" },
+        {
+          type: "fine_print",
+          title: "Disclaimer",
+          text:
+            "All figures are estimates only. In particular, the EBITDA multiple and resulting valuation " +
+            "increase are illustrative and can change materially based on market conditions and " +
+            "transaction specifics. This is not financial, tax, or legal advice. Consult your advisors.",
+        },
+      ],
+    },
+  ],
+};
+
+export const DEFAULT_TEMPLATE: ProposalTemplate = {
+  id: null,
+  name: "Standard SIMERP proposal",
+  description: "Built-in copy",
+  is_default: true,
+  content: DEFAULT_TEMPLATE_CONTENT,
+};
+
+/**
+ * Variable values and conditions for a case. Money is formatted as USD;
+ * valuation variables are empty when the case has no valuation.
+ */
+export function templateContext(data: TemplateCase): TemplateContext {
+  const inputs = data.calc_inputs;
+  const valuation = inputs.valuation;
+  const paycheck = data.paycheck_inputs ?? defaultPaycheckInputs(inputs.tax_year);
+
+  return {
+    variables: {
+      company_name: data.company_name,
+      industry: data.industry,
+      w2_count: String(inputs.w2_count),
+      eligible_count: String(inputs.eligibility?.eligible_count ?? inputs.w2_count),
+      tax_year: String(inputs.tax_year),
+      calc_total: formatUSD(data.calc_total),
+      calc_er: formatUSD(data.calc_er),
+      calc_ee: formatUSD(data.calc_ee),
+      rate_er: formatUSD(inputs.rate_er),
+      rate_ee: formatUSD(inputs.rate_ee),
+      ebitda_multiple: valuation ? String(valuation.ebitda_multiple) : "",
+      ebitda_increase: valuation ? formatUSD(valuation.ebitda_increase) : "",
+      valuation_uplift: valuation ? formatUSD(valuation.valuation_uplift) : "",
+      pay_period: PAY_FREQUENCY_LABELS[paycheck.pay_frequency].toLowerCase(),
+      filing_status: FILING_STATUS_LABELS[paycheck.filing_status],
+      paycheck_state: STATE_TAX_TABLE[paycheck.state]?.name ?? paycheck.state,
+    },
+    conditions: {
+      valuation: !!valuation,
+      scenarios: !!data.calc_scenarios && data.calc_scenarios.length > 0,
+      projection: !!data.calc_projection,
+      census: inputs.mode === "census",
+    },
+  };
+}
+
+/** Replace `{{variable}}` placeholders; unknown names are left as written */
+export function fillVariables(text: string, variables: Record<string, string>): string {
+  return text.replace(VARIABLE_PATTERN, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : match
+  );
+}
+
+/** Split `**bold**` markup into runs */
+export function textRuns(text: string): { text: string; bold: boolean }[] {
+  return text
+    .split(/(\*\*[^*]+\*\*)/)
+    .filter(Boolean)
+    .map((part) =>
+      part.startsWith("**") && part.endsWith("**") && part.length > 4
+        ? { text: part.slice(2, -2), bold: true }
+        : { text: part, bold: false }
+    );
+}
+
+/** Text with `**bold**` markup removed */
+export function plainText(text: string): string {
+  return textRuns(text).map((r) => r.text).join("");
+}
+
+function fillBlock(block: TemplateBlock, variables: Record<string, string>): TemplateBlock {
+  const fill = (text: string) => fillVariables(text, variables);
+  const fillOptional = (text?: string) => (text === undefined ? undefined : fill(text));
+  switch (block.type) {
+    case "paragraph":
+      return { ...block, text: fill(block.text) };
+    case "checklist":
+      return { ...block, title: fillOptional(block.title), items: block.items.map(fill) };
+    case "cards":
+      return {
+        ...block,
+        title: fillOptional(block.title),
+        items: block.items.map((item) => ({ title: fill(item.title), text: fillOptional(item.text) })),
+      };
+    case "callout":
+      return {
+        ...block,
+        title: fillOptional(block.title),
+        text: fill(block.text),
+        stat: block.stat && { value: fill(block.stat.value), caption: fill(block.stat.caption) },
+      };
+    case "fine_print":
+      return { ...block, title: fillOptional(block.title), text: fill(block.text) };
+    case "widget":
+      return block;
+  }
+}
+
+/**
+ * Resolve a template for one case: drop sections and blocks whose
+ * condition doesn't hold and fill in variables.
+ */
+export function renderTemplate(content: TemplateContent, context: TemplateContext): TemplateContent {
+  const visible = <T extends { when?: TemplateCondition }>(item: T) =>
+    !item.when || context.conditions[item.when];
+
+  return {
+    sections: content.sections.filter(visible).map((section) => ({
+      ...section,
+      eyebrow: section.eyebrow && fillVariables(section.eyebrow, context.variables),
+      title: section.title && fillVariables(section.title, context.variables),
+      subtitle: section.subtitle && fillVariables(section.subtitle, context.variables),
+      blocks: section.blocks.filter(visible).map((block) => fillBlock(block, context.variables)),
+    })),
+  };
+}
+
+function isText(value: unknown, required: boolean): boolean {
+  if (value === undefined) return !required;
+  return typeof value === "string" && (!required || value.trim().length > 0) && value.length <= MAX_TEMPLATE_TEXT_LENGTH;
+}
+
+function isOneOf<T extends string>(value: unknown, options: readonly T[]): value is T {
+  return typeof value === "string" && (options as readonly string[]).includes(value);
+}
+
+/** Names used in `{{…}}` placeholders that aren't template variables */
+export function unknownVariables(text: string): string[] {
+  return [...text.matchAll(VARIABLE_PATTERN)]
+    .map((m) => m[1])
+    .filter((name) => !Object.prototype.hasOwnProperty.call(TEMPLATE_VARIABLES, name));
+}
+
+function blockErrors(block: unknown): string[] {
+  if (!block || typeof block !== "object") return ["type"];
+  const b = block as Record<string, unknown>;
+  const errors: string[] = [];
+  if (b.when !== undefined && !isOneOf(b.when, TEMPLATE_CONDITIONS)) errors.push("condition");
+  if (b.tone !== undefined && !isOneOf(b.tone, TEMPLATE_TONES)) errors.push("tone");
+  if (!isText(b.title, false)) errors.push("title");
+
+  const isItems = (items: unknown): items is unknown[] =>
+    Array.isArray(items) && items.length > 0 && items.length <= MAX_TEMPLATE_BLOCKS;
+
+  switch (b.type) {
+    case "paragraph":
+    case "fine_print":
+      if (!isText(b.text, true)) errors.push("text");
+      break;
+    case "checklist":
+      if (!isItems(b.items) || !b.items.every((item) => isText(item, true))) errors.push("items");
+      break;
+    case "cards":
+      if (
+        b.columns !== undefined &&
+        !(typeof b.columns === "number" && Number.isInteger(b.columns) && b.columns >= 1 && b.columns <= 4)
+      ) {
+        errors.push("columns");
+      }
+      if (
+        !isItems(b.items) ||
+        !b.items.every((item) => {
+          const i = item as Record<string, unknown> | null;
+          return !!i && typeof i === "object" && isText(i.title, true) && isText(i.text, false);
+        })
+      ) {
+        errors.push("items");
+      }
+      break;
+    case "callout": {
+      if (!isText(b.text, true)) errors.push("text");
+      const stat = b.stat as Record<string, unknown> | undefined;
+      if (stat !== undefined && (!stat || !isText(stat.value, true) || !isText(stat.caption, true))) {
+        errors.push("stat");
+      }
+      break;
+    }
+    case "widget":
+      if (!isOneOf(b.widget, TEMPLATE_WIDGETS)) errors.push("widget");
+      break;
+    default:
+      errors.push("type");
+  }
+  return errors;
+}
+
+/** Every text field in a template, for placeholder checks */
+function templateStrings(content: TemplateContent): string[] {
+  return content.sections.flatMap((section) => [
+    section.eyebrow ?? "",
+    section.title ?? "",
+    section.subtitle ?? "",
+    ...section.blocks.flatMap((block) => {
+      switch (block.type) {
+        case "paragraph":
+          return [block.text];
+        case "fine_print":
+          return [block.title ?? "", block.text];
+        case "checklist":
+          return [block.title ?? "", ...block.items];
+        case "cards":
+          return [block.title ?? "", ...block.items.flatMap((i) => [i.title, i.text ?? ""])];
+        case "callout":
+          return [block.title ?? "", block.text, block.stat?.value ?? "", block.stat?.caption ?? ""];
+        case "widget":
+          return [];
+      }
+    }),
+  ]);
+}
+
+/**
+ * Validate template content: known block types, widgets and conditions,
+ * text within limits and only known `{{variables}}`.
+ * Returns array of error messages (empty = valid).
+ */
+export function validateTemplateContent(content: unknown): string[] {
+  const sections = (content as { sections?: unknown } | null)?.sections;
+  if (!Array.isArray(sections) || sections.length === 0 || sections.length > MAX_TEMPLATE_SECTIONS) {
+    return ["Sections"];
+  }
+
+  const errors: string[] = [];
+  sections.forEach((section: unknown, i) => {
+    const label = `Section ${i + 1}`;
+    const s = section as Record<string, unknown> | null;
+    if (!s || typeof s !== "object") {
+      errors.push(label);
+      return;
+    }
+    for (const field of ["eyebrow", "title", "subtitle"] as const) {
+      if (!isText(s[field], false)) errors.push(`${label} ${field}`);
+    }
+    if (s.when !== undefined && !isOneOf(s.when, TEMPLATE_CONDITIONS)) errors.push(`${label} condition`);
+    if (!Array.isArray(s.blocks) || s.blocks.length === 0 || s.blocks.length > MAX_TEMPLATE_BLOCKS) {
+      errors.push(`${label} blocks`);
+      return;
+    }
+    s.blocks.forEach((block: unknown, j) => {
+      for (const field of blockErrors(block)) errors.push(`${label} block ${j + 1} ${field}`);
+    });
+  });
+
+  if (errors.length === 0) {
+    const unknown = new Set(templateStrings(content as TemplateContent).flatMap(unknownVariables));
+    for (const name of unknown) errors.push(`Unknown variable {{${name}}}`);
+  }
+  return errors;
+}
+
+/**
+ * Validate template fields submitted by an admin.
+ * Returns array of error messages (empty = valid).
+ */
+export function validateTemplateInput(input: {
+  name?: unknown;
+  description?: unknown;
+  content?: unknown;
+  is_default?: unknown;
+}): string[] {
+  const errors: string[] = [];
+  if (typeof input.name !== "string" || !input.name.trim() || input.name.length > MAX_TEMPLATE_NAME_LENGTH) {
+    errors.push("Name");
+  }
+  if (
+    input.description !== undefined &&
+    input.description !== null &&
+    (typeof input.description !== "string" || input.description.length > MAX_TEMPLATE_DESCRIPTION_LENGTH)
+  ) {
+    errors.push("Description");
+  }
+  if (input.is_default !== undefined && typeof input.is_default !== "boolean") errors.push("Default");
+  errors.push(...validateTemplateContent(input.content));
+  return errors;
+}
+
+/**
+ * Coerce a proposal_templates row into a template. Content that no longer
+ * validates (e.g. edited by hand in the database) falls back to the
+ * built-in copy rather than breaking the proposal.
+ */
+export function toTemplate(row: Record<string, unknown>): ProposalTemplate {
+  const invalid = validateTemplateContent(row.content);
+  if (invalid.length > 0) {
+    console.error(`Template ${row.id} has invalid content: ${invalid.join(", ")}`);
+  }
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    description: (row.description as string | null) ?? null,
+    is_default: row.is_default === true,
+    content: invalid.length > 0 ? DEFAULT_TEMPLATE_CONTENT : (row.content as TemplateContent),
+  };
+}
+
+/** A template as pinned to a case (proposal_template_versions row) */
+export interface CaseTemplate extends ProposalTemplate {
+  /** null when the case isn't pinned to a version, e.g. the built-in copy */
+  version_id: string | null;
+}
+
+/**
+ * Load the template a case uses: the version it is pinned to, else its
+ * chosen template, else the one marked default, else the built-in copy.
+ * Pinned versions never change, so a sent or accepted proposal keeps its
+ * wording when the template is edited. Throws on database errors.
+ */
+export async function loadCaseTemplate(
+  supabase: SupabaseClient,
+  caseRow: { template_id: string | null; template_version_id: string | null }
+): Promise<CaseTemplate> {
+  if (caseRow.template_version_id) {
+    const { data, error } = await supabase
+      .from("proposal_template_versions")
+      .select("id, content, proposal_templates(id, name, description, is_default)")
+      .eq("id", caseRow.template_version_id)
+      .maybeSingle();
+
+    if (error) throw error;
+    const template = data?.proposal_templates as unknown as Record<string, unknown> | null;
+    if (data && template) {
+      return { ...toTemplate({ ...template, content: data.content }), version_id: data.id };
+    }
+  }
+
+  const query = supabase.from("proposal_templates").select("id, name, description, is_default, content");
+  const { data, error } = await (caseRow.template_id
+    ? query.eq("id", caseRow.template_id)
+    : query.eq("is_default", true)
+  ).maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    return caseRow.template_id
+      ? loadCaseTemplate(supabase, { template_id: null, template_version_id: null })
+      : { ...DEFAULT_TEMPLATE, version_id: null };
+  }
+  return { ...toTemplate(data), version_id: null };
+}
@@ -0,0 +1,102 @@
+import { roundCents } from "./money";
+
+export interface IndustryMultiple {
+  industry: string;
+  /**
+   * Lower-case word stems matched at the start of a word in the
+   * rep-entered industry ("account" matches "accounting"). A trailing
+   * space requires the whole word ("tech " doesn't match "technical").
+   */
+  keywords: string[];
+  multiple: number;
+}
+
+/**
+ * Illustrative EBITDA multiples for lower-middle-market businesses.
+ * Used as the default when the rep doesn't enter a multiple.
+ */
+export const INDUSTRY_EBITDA_MULTIPLES: IndustryMultiple[] = [
+  { industry: "Manufacturing", keywords: ["manufactur", "fabricat", "machin"], multiple: 6 },
+  { industry: "Construction", keywords: ["construct", "contractor", "roofing", "plumb", "electric"], multiple: 4.5 },
+  { industry: "Healthcare", keywords: ["health", "medical", "dental", "clinic", "home care"], multiple: 7 },
+  { industry: "Professional Services", keywords: ["professional", "consult", "account", "legal", "engineering"], multiple: 5.5 },
+  { industry: "Technology", keywords: ["tech ", "technolog", "software", "saas", "it services"], multiple: 8 },
+  { industry: "Transportation & Logistics", keywords: ["transport", "logistic", "trucking", "freight"], multiple: 5 },
+  { industry: "Wholesale & Distribution", keywords: ["wholesale", "distribut"], multiple: 5.5 },
+  { industry: "Retail", keywords: ["retail", "store"], multiple: 4.5 },
+  { industry: "Restaurants & Hospitality", keywords: ["restaurant", "hospitality", "hotel", "food"], multiple: 4 },
+  { industry: "Staffing", keywords: ["staffing", "recruit"], multiple: 5 },
+];
+
+/** Multiple used when the industry doesn't match any default */
+export const DEFAULT_EBITDA_MULTIPLE = 5;
+
+export const MAX_EBITDA_MULTIPLE = 50;
+
+/** Stored in calc_inputs.valuation */
+export interface ValuationUplift {
+  ebitda_multiple: number;
+  /** Industry whose default multiple was applied; null = entered by the rep */
+  multiple_industry: string | null;
+  /** Annual EBITDA increase (the employer net savings) */
+  ebitda_increase: number;
+  /** Enterprise value increase = EBITDA increase × multiple */
+  valuation_uplift: number;
+}
+
+/**
+ * Default multiple for a free-text industry: an industry name as offered
+ * in the generate form, else matched by keyword. When keywords from
+ * several industries match, the one matching furthest right wins, since
+ * the last word usually names the business ("Technical staffing" is
+ * staffing, "Accounting software" is software).
+ */
+export function industryMultiple(industry: string): IndustryMultiple | null {
+  const value = industry.trim().toLowerCase();
+  if (!value) return null;
+
+  const named = INDUSTRY_EBITDA_MULTIPLES.find((m) => m.industry.toLowerCase() === value);
+  if (named) return named;
+
+  const words = value.split(/[^a-z0-9]+/).filter(Boolean);
+  let best: { match: IndustryMultiple; position: number } | null = null;
+  for (const match of INDUSTRY_EBITDA_MULTIPLES) {
+    for (let position = words.length - 1; position >= 0; position--) {
+      const rest = `${words.slice(position).join(" ")} `;
+      if (match.keywords.some((k) => rest.startsWith(k))) {
+        if (!best || position > best.position) best = { match, position };
+        break;
+      }
+    }
+  }
+  return best?.match ?? null;
+}
+
+export function defaultEbitdaMultiple(industry: string): number {
+  return industryMultiple(industry)?.multiple ?? DEFAULT_EBITDA_MULTIPLE;
+}
+
+/**
+ * Valuation uplift from the employer's annual net savings.
+ */
+export function calculateValuationUplift(
+  calcEr: number,
+  multiple: number,
+  multipleIndustry: string | null = null
+): ValuationUplift {
+  return {
+    ebitda_multiple: multiple,
+    multiple_industry: multipleIndustry,
+    ebitda_increase: calcEr,
+    valuation_uplift: roundCents(calcEr * multiple),
+  };
+}
+
+export function isValidEbitdaMultiple(value: unknown): value is number {
+  return (
+    typeof value === "number" &&
+    Number.isFinite(value) &&
+    value > 0 &&
+    value <= MAX_EBITDA_MULTIPLE
+  );
+}
@@ -0,0 +1,164 @@
+import { type StoredCalculation, replayOptions } from "./audit";
+import { type CalculationInputs, calculateSavings } from "./calculator";
+import { flatEligibility } from "./eligibility";
+import type { StateHeadcount } from "./state-tax";
+
+/**
+ * What-if panel on the proposal page: the prospect tries other W-2 counts
+ * and sees the savings recomputed with the case's own rates and options.
+ * The proposal's figures are never changed; each adjustment is recorded
+ * as a case event for the rep.
+ */
+
+/** Largest W-2 count a rep can let the prospect explore */
+export const MAX_WHAT_IF_W2 = 100000;
+
+/** W-2 counts the prospect can choose from; null on a case = panel off */
+export interface WhatIfRange {
+  min_w2: number;
+  max_w2: number;
+}
+
+/** Calculation columns the what-if figures are recomputed from */
+export type WhatIfCase = Pick<StoredCalculation, "calc_inputs" | "calc_projection" | "calc_scenarios">;
+
+/** Recorded in case_events.details */
+export interface WhatIfResult {
+  w2_count: number;
+  eligible_count: number;
+  calc_total: number;
+  calc_er: number;
+  calc_ee: number;
+  /** Enterprise valuation uplift, when the proposal shows one */
+  valuation_uplift: number | null;
+}
+
+/** Only headcount-based proposals can be explored; a census fixes the employees */
+export function supportsWhatIf(inputs: CalculationInputs | null): boolean {
+  return inputs?.mode === "flat";
+}
+
+/** The range stored on a cases row, or null when the panel is off */
+export function whatIfRange(row: { what_if_min_w2: number | null; what_if_max_w2: number | null }): WhatIfRange | null {
+  return row.what_if_min_w2 !== null && row.what_if_max_w2 !== null
+    ? { min_w2: row.what_if_min_w2, max_w2: row.what_if_max_w2 }
+    : null;
+}
+
+/**
+ * Validate a what-if range set by the rep for a case. The range must
+ * include the proposal's own W-2 count and always leave someone eligible.
+ * Returns array of error messages (empty = valid).
+ */
+export function validateWhatIfRange(range: unknown, inputs: CalculationInputs): string[] {
+  if (!supportsWhatIf(inputs)) {
+    return ["What-If (only available for proposals based on a W-2 count)"];
+  }
+  if (!range || typeof range !== "object") {
+    return ["What-If Range"];
+  }
+
+  const errors: string[] = [];
+  const r = range as Record<string, unknown>;
+  const lowest = lowestWhatIfW2(inputs);
+  const isCount = (value: unknown): value is number =>
+    typeof value === "number" && Number.isInteger(value);
+
+  if (!isCount(r.min_w2) || r.min_w2 < lowest || r.min_w2 > inputs.w2_count) {
+    errors.push(`What-If Minimum W-2 Count (${lowest} to ${inputs.w2_count})`);
+  }
+  if (!isCount(r.max_w2) || r.max_w2 < inputs.w2_count || r.max_w2 > MAX_WHAT_IF_W2) {
+    errors.push(`What-If Maximum W-2 Count (${inputs.w2_count} to ${MAX_WHAT_IF_W2})`);
+  }
+  return errors;
+}
+
+/** Smallest W-2 count that leaves someone eligible after the case's exclusions */
+export function lowestWhatIfW2(inputs: CalculationInputs): number {
+  return (inputs.eligibility?.excluded_count ?? 0) + 1;
+}
+
+/**
+ * Whether the prospect may try a W-2 count: inside the rep's range and
+ * leaving someone eligible, even if the range was stored for other inputs.
+ */
+export function isWithinWhatIfRange(
+  range: WhatIfRange,
+  inputs: CalculationInputs,
+  w2Count: unknown
+): w2Count is number {
+  return (
+    typeof w2Count === "number" &&
+    Number.isInteger(w2Count) &&
+    w2Count >= range.min_w2 &&
+    w2Count <= range.max_w2 &&
+    w2Count >= lowestWhatIfW2(inputs)
+  );
+}
+
+/**
+ * Resize a state headcount split to a new total, keeping each state's
+ * share: rounded down, then the remaining employees go to the states with
+ * the largest fractions. States left with nobody are dropped.
+ */
+export function scaleStateMix(mix: StateHeadcount[], total: number): StateHeadcount[] {
+  const current = mix.reduce((sum, s) => sum + s.count, 0);
+  if (current === 0) return [];
+
+  const shares = mix.map((s, i) => {
+    const exact = (s.count * total) / current;
+    return { i, count: Math.floor(exact), fraction: exact - Math.floor(exact) };
+  });
+  let remaining = total - shares.reduce((sum, s) => sum + s.count, 0);
+  for (const share of [...shares].sort((a, b) => b.fraction - a.fraction || a.i - b.i)) {
+    if (remaining === 0) break;
+    share.count += 1;
+    remaining -= 1;
+  }
+
+  return shares
+    .filter((s) => s.count > 0)
+    .map((s) => ({ state: mix[s.i].state, count: s.count }));
+}
+
+/**
+ * Recompute a headcount-based case for another W-2 count with the same
+ * rates, exclusions, state split (resized), projection, multiple and
+ * scenarios. Scenarios sized to the eligible headcount follow it; other
+ * headcount overrides are capped at it. A count that leaves nobody
+ * eligible saves nothing.
+ * Pure function — runs both in the browser and in /api/what-if.
+ */
+export function calculateWhatIf(stored: WhatIfCase, w2Count: number): WhatIfResult {
+  const inputs = stored.calc_inputs;
+  const { w2Count: proposalCount, options } = replayOptions(stored);
+  const proposalEligible = inputs.eligibility?.eligible_count ?? proposalCount;
+  const eligible = options.eligibility
+    ? flatEligibility(w2Count, options.eligibility.exclusions ?? {}, options.eligibility.rules).eligible_count
+    : w2Count;
+
+  if (eligible <= 0) {
+    return { w2_count: w2Count, eligible_count: 0, calc_total: 0, calc_er: 0, calc_ee: 0, valuation_uplift: null };
+  }
+
+  const result = calculateSavings(w2Count, {
+    ...options,
+    census: undefined,
+    stateMix: options.stateMix ? scaleStateMix(options.stateMix, eligible) : undefined,
+    scenarios: options.scenarios && {
+      ...options.scenarios,
+      scenarios: options.scenarios.scenarios.map(({ headcount, ...s }) =>
+        headcount === proposalEligible ? s : { ...s, headcount: headcount && Math.min(headcount, eligible) }
+      ),
+    },
+  });
+
+  return {
+    w2_count: w2Count,
+    eligible_count: eligible,
+    calc_total: result.calc_total,
+    calc_er: result.calc_er,
+    calc_ee: result.calc_ee,
+    valuation_uplift: result.calc_inputs.valuation?.valuation_uplift ?? null,
+  };
+}
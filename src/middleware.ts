@@ -1,12 +1,23 @@
 import { createServerClient } from "@supabase/ssr";
 import { NextResponse, type NextRequest } from "next/server";
+import { getSupabaseServiceClient } from "@/lib/supabase";
+import { PASSCODE_GRANT_COOKIE_OPTIONS, passcodeGrantCookie } from "@/lib/link-access";
+import { type LinkStateScreen, renderLinkStatePage } from "@/lib/link-state-page";
+import { issuePasscodeGrant } from "@/lib/passcode";
+import {
+  type ProposalLink,
+  PROPOSAL_LINK_HEADER,
+  VIEW_STATUS_CODES,
+  checkProposalLink,
+} from "@/lib/proposal-view";
 
 /**
  * Middleware: refreshes Supabase auth session on every request
  * and redirects unauthenticated users away from protected routes.
+ * Public proposal links are checked here (see proposalResponse).
  */
 
-const PROTECTED_ROUTES = ["/dashboard", "/generate"];
+const PROTECTED_ROUTES = ["/dashboard", "/generate", "/admin"];
 const AUTH_ROUTES = ["/login"];
 
 export async function middleware(request: NextRequest) {
@@ -49,10 +60,102 @@ export async function middleware(request: NextRequest) {
     return NextResponse.redirect(new URL("/dashboard", request.url));
   }
 
+  const proposal = pathname.match(/^\/cases\/([^/]+)$/);
+  if (proposal) {
+    const viewer = await proposalResponse(request, proposal[1]);
+    response.cookies.getAll().forEach((cookie) => viewer.cookies.set(cookie));
+    viewer.headers.set("Cache-Control", "no-store");
+    return viewer;
+  }
+
   return response;
 }
 
+/**
+ * Public proposal pages. The link is checked here, once per request, and
+ * every state but success and invalid is answered here with its own
+ * status code (410 expired, 401 passcode, ...), since a page can't set
+ * one. A working link continues to the page with the checked link in
+ * request headers, replacing anything the client sent; an invalid one
+ * continues without them and the page answers 404. The passcode form
+ * posts back to the same URL; a correct passcode is exchanged for a
+ * short-lived HttpOnly grant cookie, which the page's API calls carry
+ * instead of the passcode.
+ */
+async function proposalResponse(request: NextRequest, caseId: string): Promise<NextResponse> {
+  const headers = new Headers(request.headers);
+  headers.delete(PROPOSAL_LINK_HEADER);
+
+  const token = request.nextUrl.searchParams.get("t");
+  const passcode = request.method === "POST" ? await postedPasscode(request) : undefined;
+  const grant = request.cookies.get(passcodeGrantCookie(caseId))?.value;
+  const checked = token ? await checkProposal(caseId, token, passcode, grant) : null;
+  const link: ProposalLink | null = token ? (checked?.link ?? null) : { ok: false, state: "invalid" };
+
+  if (link?.ok) {
+    headers.set(PROPOSAL_LINK_HEADER, link.link.id);
+  }
+  if (link?.ok || link?.state === "invalid") {
+    const next = NextResponse.next({ request: { headers } });
+    if (checked?.grant) {
+      next.cookies.set(passcodeGrantCookie(caseId), checked.grant, PASSCODE_GRANT_COOKIE_OPTIONS);
+    }
+    return next;
+  }
+
+  const screen: LinkStateScreen = link ?? { ok: false, state: "error" };
+  return new NextResponse(renderLinkStatePage(screen), {
+    status: link ? VIEW_STATUS_CODES[link.state] : 500,
+    headers: { "Content-Type": "text/html; charset=utf-8" },
+  });
+}
+
+/** The passcode from the passcode form, if one was entered */
+async function postedPasscode(request: NextRequest): Promise<string | undefined> {
+  try {
+    const passcode = (await request.formData()).get("passcode");
+    return typeof passcode === "string" && passcode ? passcode : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * null when the link can't be checked. `grant` is set when a passcode was
+ * entered and accepted.
+ */
+async function checkProposal(
+  caseId: string,
+  token: string,
+  passcode: string | undefined,
+  grant: string | undefined
+): Promise<{ link: ProposalLink; grant: string | null } | null> {
+  const pepper = process.env.LINK_PEPPER;
+  if (!pepper) {
+    console.error("LINK_PEPPER is not set");
+    return null;
+  }
+
+  try {
+    const supabase = getSupabaseServiceClient();
+    const link = await checkProposalLink(supabase, { caseId, token, passcode, grant }, pepper);
+    // A correct passcode clears the failed attempts
+    if (link.ok && link.update) {
+      await supabase.from("case_links").update(link.update).eq("id", link.link.id);
+    }
+    return {
+      link,
+      grant: link.ok && passcode && link.update ? issuePasscodeGrant(link.link, pepper) : null,
+    };
+  } catch (err) {
+    console.error("Proposal link check failed:", err);
+    return null;
+  }
+}
+
 export const config = {
+  // Link checks hash tokens with Node's crypto
+  runtime: "nodejs",
   matcher: [
     /*
      * Match all request paths except:
@@ -0,0 +1,66 @@
+-- Migration: Versioned rate tables per tax year
+-- Per-W-2 multipliers move from hardcoded constants into admin-managed rows
+-- so old proposals stay reproducible after rates change.
+
+-- ============================================================
+-- Table: rate_sets
+-- ============================================================
+CREATE TABLE rate_sets (
+  id             uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tax_year       int NOT NULL,
+
+  -- Date range the rates apply to (effective_to NULL = open-ended)
+  effective_from date NOT NULL,
+  effective_to   date,
+
+  -- Per-W-2 multipliers
+  rate_total     numeric NOT NULL,
+  rate_er        numeric NOT NULL,
+  rate_ee        numeric NOT NULL,
+
+  notes          text,
+  created_by     uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+
+  created_at     timestamptz NOT NULL DEFAULT now(),
+  updated_at     timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT rate_sets_total_check CHECK (rate_total = rate_er + rate_ee),
+  CONSTRAINT rate_sets_dates_check CHECK (effective_to IS NULL OR effective_to >= effective_from)
+);
+
+CREATE INDEX idx_rate_sets_tax_year ON rate_sets(tax_year);
+
+CREATE TRIGGER trg_rate_sets_updated_at
+  BEFORE UPDATE ON rate_sets
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================
+-- Row Level Security
+-- Any signed-in rep can read rates; only admins can change them.
+-- Admins are users with app_metadata.role = 'admin' (set server-side).
+-- ============================================================
+ALTER TABLE rate_sets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view rate sets"
+  ON rate_sets FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can insert rate sets"
+  ON rate_sets FOR INSERT
+  TO authenticated
+  WITH CHECK ((auth.jwt() -> 'app_metadata' ->> 'role') = 'admin');
+
+CREATE POLICY "Admins can update rate sets"
+  ON rate_sets FOR UPDATE
+  TO authenticated
+  USING ((auth.jwt() -> 'app_metadata' ->> 'role') = 'admin');
+
+-- ============================================================
+-- Seed: the rates previously hardcoded in constants.ts
+-- ============================================================
+INSERT INTO rate_sets (tax_year, effective_from, effective_to, rate_total, rate_er, rate_ee, notes)
+VALUES
+  (2025, '2025-01-01', '2025-12-31', 3356, 1186, 2170, 'Initial rates (migrated from constants)'),
+  (2026, '2026-01-01', '2026-12-31', 3356, 1186, 2170, 'Initial rates (migrated from constants)');
@@ -0,0 +1,5 @@
+-- Migration: Representative-employee paycheck example
+-- Stores the inputs the viewer uses to simulate the "See It In Action"
+-- paycheck table (gross pay, frequency, filing status, state, SIMERP amounts).
+
+ALTER TABLE cases ADD COLUMN paycheck_inputs jsonb;
@@ -0,0 +1,5 @@
+-- Migration: Multi-year savings projection
+-- Stores the growth/participation assumptions and the year-by-year
+-- projection computed alongside calc_total.
+
+ALTER TABLE cases ADD COLUMN calc_projection jsonb;
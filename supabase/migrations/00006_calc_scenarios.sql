@@ -0,0 +1,5 @@
+-- Migration: Participation scenarios
+-- Stores the named low/expected/high scenarios computed with the case.
+-- calc_total/calc_er/calc_ee hold the scenario marked as the headline.
+
+ALTER TABLE cases ADD COLUMN calc_scenarios jsonb;
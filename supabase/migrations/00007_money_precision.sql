@@ -0,0 +1,29 @@
+-- Migration: Exact-cent money columns
+-- Money was stored as untyped numeric; pin it to cents so the database
+-- can't hold fractions of a cent, and enforce total = ER + EE.
+
+-- ============================================================
+-- 1. cases: round existing values and fix the scale
+-- ============================================================
+ALTER TABLE cases
+  ALTER COLUMN calc_total TYPE numeric(14,2) USING round(calc_total, 2),
+  ALTER COLUMN calc_er    TYPE numeric(14,2) USING round(calc_er, 2),
+  ALTER COLUMN calc_ee    TYPE numeric(14,2) USING round(calc_ee, 2);
+
+-- Older rows computed with floats may be a cent off; recompute the total
+UPDATE cases
+SET calc_total = calc_er + calc_ee
+WHERE calc_total IS DISTINCT FROM calc_er + calc_ee
+  AND calc_er IS NOT NULL
+  AND calc_ee IS NOT NULL;
+
+ALTER TABLE cases ADD CONSTRAINT cases_calc_total_check
+  CHECK (calc_total = calc_er + calc_ee);
+
+-- ============================================================
+-- 2. rate_sets: per-W-2 multipliers are money too
+-- ============================================================
+ALTER TABLE rate_sets
+  ALTER COLUMN rate_total TYPE numeric(14,2) USING round(rate_total, 2),
+  ALTER COLUMN rate_er    TYPE numeric(14,2) USING round(rate_er, 2),
+  ALTER COLUMN rate_ee    TYPE numeric(14,2) USING round(rate_ee, 2);
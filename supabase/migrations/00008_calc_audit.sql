@@ -0,0 +1,6 @@
+-- Migration: Calculation audit trail
+-- Structured calculation steps and the engine version that produced them,
+-- so a stored case can be replayed and verified figure by figure.
+
+ALTER TABLE cases ADD COLUMN calc_steps jsonb;
+ALTER TABLE cases ADD COLUMN engine_version text;
@@ -0,0 +1,58 @@
+-- Migration: Case revisions
+-- Reps can edit and regenerate a case in place. Before each edit the
+-- case's current values are copied into case_revisions, so every earlier
+-- version of the proposal stays on record. Links keep pointing at the case,
+-- which always holds the latest revision.
+
+-- ============================================================
+-- 1. cases: current revision number (1 = as first generated)
+-- ============================================================
+ALTER TABLE cases ADD COLUMN revision int NOT NULL DEFAULT 1;
+
+-- ============================================================
+-- 2. Table: case_revisions
+-- One row per superseded revision of a case
+-- ============================================================
+CREATE TABLE case_revisions (
+  id                uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_id           uuid NOT NULL REFERENCES cases(id) ON DELETE CASCADE,
+  revision          int NOT NULL,
+
+  -- Snapshot of the case as it was in this revision
+  company_name      text,
+  industry          text,
+  calc_total        numeric(14,2),
+  calc_er           numeric(14,2),
+  calc_ee           numeric(14,2),
+  calc_inputs       jsonb,
+  calc_explanation  text,
+  calc_steps        jsonb,
+  calc_projection   jsonb,
+  calc_scenarios    jsonb,
+  engine_version    text,
+  paycheck_inputs   jsonb,
+  last_generated_at timestamptz,
+
+  -- Who replaced this revision, and when
+  revised_by        uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at        timestamptz NOT NULL DEFAULT now(),
+
+  -- Also guards against two concurrent edits of the same revision
+  CONSTRAINT case_revisions_case_revision_key UNIQUE (case_id, revision)
+);
+
+-- ============================================================
+-- 3. Row Level Security
+-- Revisions are append-only: owners can read and add, never change.
+-- ============================================================
+ALTER TABLE case_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view revisions of their own cases"
+  ON case_revisions FOR SELECT
+  TO authenticated
+  USING (case_id IN (SELECT id FROM cases WHERE user_id = auth.uid()));
+
+CREATE POLICY "Users can insert revisions of their own cases"
+  ON case_revisions FOR INSERT
+  TO authenticated
+  WITH CHECK (case_id IN (SELECT id FROM cases WHERE user_id = auth.uid()));
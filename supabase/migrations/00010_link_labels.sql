@@ -0,0 +1,9 @@
+-- Migration: Labeled links
+-- A case can have several links, one per recipient (e.g. "CFO – Jane"),
+-- each with its own token, expiry and view analytics. The link created
+-- with the case has no label.
+
+ALTER TABLE case_links ADD COLUMN label text;
+
+ALTER TABLE case_links ADD CONSTRAINT case_links_label_check
+  CHECK (label IS NULL OR char_length(label) BETWEEN 1 AND 60);
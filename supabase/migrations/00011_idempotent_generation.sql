@@ -0,0 +1,16 @@
+-- Migration: Idempotent proposal generation
+-- /api/generate returns the original case instead of inserting again when
+-- a request repeats an Idempotency-Key, or when the same input is
+-- submitted twice within a short window (double-clicks, retries).
+
+ALTER TABLE cases ADD COLUMN idempotency_key text;
+-- Peppered hash of the request body that created the case
+ALTER TABLE cases ADD COLUMN input_hash text;
+
+-- One case per key per user; also settles concurrent retries
+CREATE UNIQUE INDEX idx_cases_user_idempotency_key
+  ON cases(user_id, idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
+
+CREATE INDEX idx_cases_user_input_hash
+  ON cases(user_id, input_hash, last_generated_at);
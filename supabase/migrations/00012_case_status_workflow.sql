@@ -0,0 +1,58 @@
+-- Migration: Case status workflow
+-- cases.status follows a defined state machine (see src/lib/status.ts):
+-- draft, sent, viewed, negotiating, accepted, declined, lost, live.
+-- Every change is recorded in case_status_history.
+
+-- ============================================================
+-- 1. cases.status: map legacy values and constrain
+-- ============================================================
+UPDATE cases SET status = 'draft'
+WHERE status IS NULL OR status IN ('pending', 'generated');
+
+-- Cases whose link has been opened have already been viewed
+UPDATE cases SET status = 'viewed'
+WHERE status = 'draft'
+  AND id IN (SELECT case_id FROM case_links WHERE view_count > 0);
+
+ALTER TABLE cases ALTER COLUMN status SET DEFAULT 'draft';
+ALTER TABLE cases ALTER COLUMN status SET NOT NULL;
+ALTER TABLE cases ADD CONSTRAINT cases_status_check CHECK (
+  status IN ('draft', 'sent', 'viewed', 'negotiating', 'accepted', 'declined', 'lost', 'live')
+);
+
+-- ============================================================
+-- 2. Table: case_status_history
+-- One row per status change
+-- ============================================================
+CREATE TABLE case_status_history (
+  id          uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_id     uuid NOT NULL REFERENCES cases(id) ON DELETE CASCADE,
+  from_status text NOT NULL,
+  to_status   text NOT NULL,
+
+  -- rep = dashboard, viewer = the prospect's actions, system = automatic
+  source      text NOT NULL CHECK (source IN ('rep', 'viewer', 'system')),
+  changed_by  uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  note        text,
+
+  created_at  timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_case_status_history_case_id ON case_status_history(case_id, created_at);
+
+-- ============================================================
+-- 3. Row Level Security
+-- Owners can read and add history; viewer-driven changes use the
+-- service role.
+-- ============================================================
+ALTER TABLE case_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view status history of their own cases"
+  ON case_status_history FOR SELECT
+  TO authenticated
+  USING (case_id IN (SELECT id FROM cases WHERE user_id = auth.uid()));
+
+CREATE POLICY "Users can insert status history of their own cases"
+  ON case_status_history FOR INSERT
+  TO authenticated
+  WITH CHECK (case_id IN (SELECT id FROM cases WHERE user_id = auth.uid()));
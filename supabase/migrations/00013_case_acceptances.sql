@@ -0,0 +1,43 @@
+-- Migration: Proposal acceptance
+-- A prospect accepts a proposal from its shared link by entering their
+-- details, typing a signature and agreeing to the terms. The calculation
+-- they saw is stored alongside, so the signed certificate can always be
+-- reproduced even if the case is edited later.
+
+-- ============================================================
+-- 1. Table: case_acceptances
+-- At most one acceptance per case
+-- ============================================================
+CREATE TABLE case_acceptances (
+  id            uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_id       uuid NOT NULL UNIQUE REFERENCES cases(id) ON DELETE CASCADE,
+  link_id       uuid REFERENCES case_links(id) ON DELETE SET NULL,
+
+  signer_name   text NOT NULL,
+  signer_title  text NOT NULL,
+  signer_email  text NOT NULL,
+  signature     text NOT NULL,
+  terms_version text NOT NULL,
+
+  -- Peppered SHA-256 of the client IP; the raw IP is never stored
+  ip_hash       text,
+  user_agent    text,
+
+  -- Proposal as shown (see CalculationSnapshot in src/lib/certificate.ts)
+  calc_snapshot jsonb NOT NULL,
+  snapshot_hash text NOT NULL,
+
+  accepted_at   timestamptz NOT NULL DEFAULT now()
+);
+
+-- ============================================================
+-- 2. Row Level Security
+-- Owners can read acceptances; they are only written by the
+-- public accept endpoint using the service role.
+-- ============================================================
+ALTER TABLE case_acceptances ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view acceptances of their own cases"
+  ON case_acceptances FOR SELECT
+  TO authenticated
+  USING (case_id IN (SELECT id FROM cases WHERE user_id = auth.uid()));
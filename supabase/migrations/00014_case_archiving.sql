@@ -0,0 +1,18 @@
+-- Migration: Archive and soft-delete cases
+-- Archived cases leave the main dashboard list; deleted cases go to the
+-- trash and are purged by /api/cron/purge-deleted after the retention
+-- period (DELETED_CASE_RETENTION_DAYS). Both revoke the case's links.
+
+-- ============================================================
+-- 1. cases: archive and delete timestamps
+-- ============================================================
+ALTER TABLE cases ADD COLUMN archived_at timestamptz;
+ALTER TABLE cases ADD COLUMN deleted_at  timestamptz;
+
+-- Dashboard lists filter on both; purge scans deleted_at
+CREATE INDEX idx_cases_user_archive ON cases(user_id, deleted_at, archived_at, created_at DESC);
+CREATE INDEX idx_cases_deleted_at ON cases(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Purging deletes the case row; links, revisions, status history and
+-- acceptances go with it via ON DELETE CASCADE. No DELETE policy is
+-- added: only the service role purges.
@@ -0,0 +1,10 @@
+-- Migration: Duplicate cases
+-- A case copied from another records where it came from. The copy keeps
+-- working if the source is later purged.
+
+-- ============================================================
+-- 1. cases.source_case_id
+-- ============================================================
+ALTER TABLE cases ADD COLUMN source_case_id uuid REFERENCES cases(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_cases_source_case_id ON cases(source_case_id) WHERE source_case_id IS NOT NULL;
@@ -0,0 +1,9 @@
+-- Migration: PDF downloads per link
+-- Prospects can download the proposal as a PDF through their link
+-- (POST /api/pdf). Downloads are counted on the link like views.
+
+-- ============================================================
+-- 1. case_links: download tracking
+-- ============================================================
+ALTER TABLE case_links ADD COLUMN download_count integer NOT NULL DEFAULT 0;
+ALTER TABLE case_links ADD COLUMN last_downloaded_at timestamptz;
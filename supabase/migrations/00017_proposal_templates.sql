@@ -0,0 +1,62 @@
+-- Migration: Proposal content templates
+-- Proposal copy (overview, benefit lists, compliance codes, disclaimer)
+-- moves from the viewer's JSX into admin-managed templates: ordered
+-- sections of blocks with {{variables}} filled in per case. Data views
+-- (savings breakdown, paycheck example, …) are placed as widget blocks.
+-- With no template chosen and none marked default, the built-in copy in
+-- src/lib/templates.ts is used.
+
+-- ============================================================
+-- 1. Table: proposal_templates
+-- ============================================================
+CREATE TABLE proposal_templates (
+  id          uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name        text NOT NULL,
+  description text,
+
+  -- { "sections": [ { "eyebrow", "title", "subtitle", "when", "blocks": [...] } ] }
+  content     jsonb NOT NULL,
+
+  -- Used for cases without a template of their own
+  is_default  boolean NOT NULL DEFAULT false,
+
+  created_by  uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at  timestamptz NOT NULL DEFAULT now(),
+  updated_at  timestamptz NOT NULL DEFAULT now()
+);
+
+-- At most one default
+CREATE UNIQUE INDEX idx_proposal_templates_default ON proposal_templates(is_default) WHERE is_default;
+
+CREATE TRIGGER trg_proposal_templates_updated_at
+  BEFORE UPDATE ON proposal_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================
+-- 2. cases.template_id
+-- ============================================================
+ALTER TABLE cases ADD COLUMN template_id uuid REFERENCES proposal_templates(id) ON DELETE SET NULL;
+
+-- ============================================================
+-- Row Level Security
+-- Any signed-in rep can read templates to pick one; only admins
+-- (app_metadata.role = 'admin') can change them. Public viewers read
+-- them through the service role.
+-- ============================================================
+ALTER TABLE proposal_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view proposal templates"
+  ON proposal_templates FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can insert proposal templates"
+  ON proposal_templates FOR INSERT
+  TO authenticated
+  WITH CHECK ((auth.jwt() -> 'app_metadata' ->> 'role') = 'admin');
+
+CREATE POLICY "Admins can update proposal templates"
+  ON proposal_templates FOR UPDATE
+  TO authenticated
+  USING ((auth.jwt() -> 'app_metadata' ->> 'role') = 'admin');
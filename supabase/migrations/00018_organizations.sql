@@ -0,0 +1,105 @@
+-- Migration: Organizations and white-label branding
+-- Partner brokers send proposals under their own brand. Each rep belongs
+-- to at most one organization; the viewer, PDF export and dashboard use
+-- the branding of the case owner's organization, falling back to the
+-- built-in First Gen branding in src/lib/branding.ts.
+
+-- ============================================================
+-- 1. Table: organizations
+-- ============================================================
+CREATE TABLE organizations (
+  id             uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name           text NOT NULL,
+
+  -- Eyebrow over the prospect's name; NULL = "SIMERP Proposal"
+  proposal_title text,
+
+  -- Object path in the public "branding" bucket
+  logo_path      text,
+
+  primary_color  text NOT NULL DEFAULT '#0b2043' CHECK (primary_color ~* '^#[0-9a-f]{6}$'),
+  accent_color   text NOT NULL DEFAULT '#38b6ff' CHECK (accent_color ~* '^#[0-9a-f]{6}$'),
+
+  contact_email  text,
+  contact_phone  text,
+  address        text,
+  footer_text    text,
+
+  created_at     timestamptz NOT NULL DEFAULT now(),
+  updated_at     timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER trg_organizations_updated_at
+  BEFORE UPDATE ON organizations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================
+-- 2. Table: organization_members (one organization per user)
+-- ============================================================
+CREATE TABLE organization_members (
+  user_id         uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+
+  -- The user's email when added, for listing members without the auth API
+  email           text NOT NULL,
+
+  created_at      timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_organization_members_org ON organization_members(organization_id);
+
+-- ============================================================
+-- 3. Storage bucket for logos (public read; uploads go through
+--    the admin API with the service role)
+-- ============================================================
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('branding', 'branding', true)
+ON CONFLICT (id) DO NOTHING;
+
+-- ============================================================
+-- Row Level Security
+-- Reps can read their own membership and organization; only admins
+-- (app_metadata.role = 'admin') manage them. Public viewers read
+-- branding through the service role.
+-- ============================================================
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organization"
+  ON organizations FOR SELECT
+  TO authenticated
+  USING (
+    id IN (SELECT organization_id FROM organization_members WHERE user_id = auth.uid())
+    OR (auth.jwt() -> 'app_metadata' ->> 'role') = 'admin'
+  );
+
+CREATE POLICY "Admins can insert organizations"
+  ON organizations FOR INSERT
+  TO authenticated
+  WITH CHECK ((auth.jwt() -> 'app_metadata' ->> 'role') = 'admin');
+
+CREATE POLICY "Admins can update organizations"
+  ON organizations FOR UPDATE
+  TO authenticated
+  USING ((auth.jwt() -> 'app_metadata' ->> 'role') = 'admin');
+
+CREATE POLICY "Users can view their own membership"
+  ON organization_members FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() OR (auth.jwt() -> 'app_metadata' ->> 'role') = 'admin');
+
+CREATE POLICY "Admins can insert organization members"
+  ON organization_members FOR INSERT
+  TO authenticated
+  WITH CHECK ((auth.jwt() -> 'app_metadata' ->> 'role') = 'admin');
+
+CREATE POLICY "Admins can update organization members"
+  ON organization_members FOR UPDATE
+  TO authenticated
+  USING ((auth.jwt() -> 'app_metadata' ->> 'role') = 'admin');
+
+CREATE POLICY "Admins can delete organization members"
+  ON organization_members FOR DELETE
+  TO authenticated
+  USING ((auth.jwt() -> 'app_metadata' ->> 'role') = 'admin');
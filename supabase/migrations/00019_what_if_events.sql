@@ -0,0 +1,44 @@
+-- Migration: What-if panel and engagement events
+-- Reps can let prospects try other W-2 counts on the proposal page, within
+-- a range set per case (see src/lib/what-if.ts). The proposal's figures
+-- never change; each adjustment is recorded in case_events for the rep.
+
+-- ============================================================
+-- 1. cases: what-if range (both NULL = panel off)
+-- ============================================================
+ALTER TABLE cases ADD COLUMN what_if_min_w2 integer;
+ALTER TABLE cases ADD COLUMN what_if_max_w2 integer;
+ALTER TABLE cases ADD CONSTRAINT cases_what_if_range_check CHECK (
+  (what_if_min_w2 IS NULL AND what_if_max_w2 IS NULL)
+  OR (what_if_min_w2 >= 1 AND what_if_max_w2 >= what_if_min_w2)
+);
+
+-- ============================================================
+-- 2. Table: case_events
+-- Prospect activity on a proposal link, newest read first
+-- ============================================================
+CREATE TABLE case_events (
+  id          uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_id     uuid NOT NULL REFERENCES cases(id) ON DELETE CASCADE,
+  link_id     uuid REFERENCES case_links(id) ON DELETE SET NULL,
+
+  -- what_if = the prospect recomputed the savings for another W-2 count
+  event_type  text NOT NULL CHECK (event_type IN ('what_if')),
+  details     jsonb NOT NULL DEFAULT '{}'::jsonb,
+
+  created_at  timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_case_events_case_id ON case_events(case_id, created_at DESC);
+
+-- ============================================================
+-- 3. Row Level Security
+-- Owners can read their cases' events; prospects' events are recorded
+-- with the service role.
+-- ============================================================
+ALTER TABLE case_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view events of their own cases"
+  ON case_events FOR SELECT
+  TO authenticated
+  USING (case_id IN (SELECT id FROM cases WHERE user_id = auth.uid()));
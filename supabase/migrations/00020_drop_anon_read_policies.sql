@@ -0,0 +1,10 @@
+-- Migration: Drop public read access to cases and links
+-- 00002 let the anon role read every row of cases and case_links, so
+-- anyone with the public anon key could read all proposals (census
+-- wages, passcode-protected figures) and link passcode hashes directly.
+-- The viewer and the public APIs (/api/validate, /api/pdf, /api/accept,
+-- /api/what-if) check the token and passcode themselves and read with
+-- the service role, so nothing needs these policies.
+
+DROP POLICY IF EXISTS "Anyone can read case_links by token_hash" ON case_links;
+DROP POLICY IF EXISTS "Anyone can read case data via anon" ON cases;
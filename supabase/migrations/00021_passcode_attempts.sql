@@ -0,0 +1,57 @@
+-- Migration: Atomic passcode attempts
+-- Wrong passcodes used to be counted by reading attempt_count and writing
+-- back attempt_count + 1, so parallel guesses all wrote the same count and
+-- a burst of requests got far more than MAX_PASSCODE_ATTEMPTS tries.
+-- An attempt is now claimed in the database before the passcode is
+-- compared (see checkLinkAccess in src/lib/link-access.ts).
+
+-- ============================================================
+-- claim_passcode_attempt
+-- Counts one attempt on a link, under a row lock so concurrent attempts
+-- queue. The attempt that reaches p_max_attempts locks the link for
+-- p_lockout_minutes (and starts a fresh count) but may still be checked;
+-- attempts while the link is locked are refused and not counted.
+-- Returns no row for an unknown link.
+-- ============================================================
+CREATE OR REPLACE FUNCTION claim_passcode_attempt(
+  p_link_id         uuid,
+  p_max_attempts    integer,
+  p_lockout_minutes integer
+)
+RETURNS TABLE (allowed boolean, attempts integer, lockout_ends_at timestamptz) AS $$
+DECLARE
+  current_count integer;
+  current_lock  timestamptz;
+BEGIN
+  SELECT l.attempt_count, l.locked_until
+  INTO current_count, current_lock
+  FROM case_links l
+  WHERE l.id = p_link_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF current_lock IS NOT NULL AND current_lock > now() THEN
+    RETURN QUERY SELECT false, current_count, current_lock;
+    RETURN;
+  END IF;
+
+  current_count := current_count + 1;
+  IF current_count >= p_max_attempts THEN
+    current_lock := now() + make_interval(mins => p_lockout_minutes);
+    UPDATE case_links SET attempt_count = 0, locked_until = current_lock WHERE id = p_link_id;
+  ELSE
+    current_lock := NULL;
+    UPDATE case_links SET attempt_count = current_count WHERE id = p_link_id;
+  END IF;
+
+  RETURN QUERY SELECT true, current_count, current_lock;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the server (service role) claims attempts; anyone else could lock
+-- links they don't hold
+REVOKE EXECUTE ON FUNCTION claim_passcode_attempt(uuid, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_passcode_attempt(uuid, integer, integer) TO service_role;
@@ -0,0 +1,49 @@
+-- Migration: One acceptance per round of negotiation
+-- case_acceptances allowed one row per case, but an accepted or lost deal
+-- can be reopened (accepted → negotiating, lost → negotiating), after which
+-- the prospect could never accept again and the viewer kept showing the
+-- old acceptance. Reopening now supersedes the acceptance; it is kept for
+-- the record, and the case can be accepted again.
+
+-- ============================================================
+-- 1. case_acceptances: revision accepted, superseded_at
+-- ============================================================
+ALTER TABLE case_acceptances ADD COLUMN revision integer;
+UPDATE case_acceptances SET revision = (calc_snapshot ->> 'revision')::integer;
+ALTER TABLE case_acceptances ALTER COLUMN revision SET NOT NULL;
+
+-- Set when the case is reopened; NULL = the case's current acceptance
+ALTER TABLE case_acceptances ADD COLUMN superseded_at timestamptz;
+
+UPDATE case_acceptances a
+SET superseded_at = now()
+FROM cases c
+WHERE c.id = a.case_id AND c.status NOT IN ('accepted', 'live');
+
+-- ============================================================
+-- 2. At most one current acceptance per case
+-- ============================================================
+ALTER TABLE case_acceptances DROP CONSTRAINT case_acceptances_case_id_key;
+
+CREATE UNIQUE INDEX idx_case_acceptances_current
+  ON case_acceptances(case_id)
+  WHERE superseded_at IS NULL;
+
+-- ============================================================
+-- Trigger: supersede the acceptance when an accepted case is reopened
+-- ============================================================
+CREATE OR REPLACE FUNCTION supersede_case_acceptance()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE case_acceptances
+  SET superseded_at = now()
+  WHERE case_id = NEW.id AND superseded_at IS NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_cases_supersede_acceptance
+  AFTER UPDATE OF status ON cases
+  FOR EACH ROW
+  WHEN (OLD.status IN ('accepted', 'live') AND NEW.status NOT IN ('accepted', 'live'))
+  EXECUTE FUNCTION supersede_case_acceptance();
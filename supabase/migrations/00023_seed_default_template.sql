@@ -0,0 +1,222 @@
+-- Migration: Seed the default proposal template
+-- The standard proposal copy only existed in code (DEFAULT_TEMPLATE_CONTENT
+-- in src/lib/templates.ts), so admins had nothing to start from or edit in
+-- the template manager. It is now stored as a template and marked default
+-- unless an admin has already chosen one. The copy in code stays as a
+-- fallback for when no default exists or a template's content is invalid;
+-- keep the two in sync (src/lib/__tests__/templates.test.ts checks this).
+
+INSERT INTO proposal_templates (name, description, content, is_default)
+SELECT
+  'Standard SIMERP proposal',
+  'The proposal copy as it shipped before templates existed',
+  $template$
+{
+  "sections": [
+    {
+      "eyebrow": "Overview",
+      "title": "What is SIMERP?",
+      "subtitle": "A proven program offers employees access to affordable coverage.",
+      "blocks": [
+        {
+          "type": "paragraph",
+          "text": "A **Self Insured Medical Expense Reimbursement Plan (SIMERP)** is an employer-sponsored workplace program that allows employees to supplement their benefits with zero net out-of-pocket costs. SIMERP reduces business payroll costs by up to **$1,186 per W-2 employee**, and results in an increase to the bottom line of the organization."
+        },
+        {
+          "type": "paragraph",
+          "muted": true,
+          "text": "The program is derived from the IRC & Affordable Care Act, established during the ACA era. It is centered around the government's focus on establishing a healthier, more productive workforce."
+        },
+        {
+          "type": "checklist",
+          "title": "Benefit to the Employer",
+          "tone": "emerald",
+          "items": [
+            "No out-of-pocket cost + average **$1,186** in net EBITDA increase per employee per year",
+            "Increase in business profitability & valuation by directly decreasing payroll expenses",
+            "Increased employee satisfaction & retention"
+          ]
+        },
+        {
+          "type": "checklist",
+          "title": "Benefit to the Employee",
+          "tone": "sky",
+          "items": [
+            "Increased benefits at **$0 out-of-pocket cost** — health insurance, life insurance & more, extending to family",
+            "Increase in take-home pay",
+            "Increased satisfaction with employer and benefits plan"
+          ]
+        }
+      ]
+    },
+    {
+      "eyebrow": "What Your Team Gets",
+      "title": "Employee Benefits",
+      "subtitle": "Healthcare and telehealth — all at $0 out-of-pocket cost.",
+      "blocks": [
+        {
+          "type": "cards",
+          "title": "MEC Services (In-Person)",
+          "columns": 3,
+          "items": [
+            {
+              "title": "**$0 Copay** Primary Care",
+              "text": "Preventive visits with your primary care physician"
+            },
+            {
+              "title": "**$0 Copay** Generic Rx",
+              "text": "2,900 common generic prescriptions covered at $0"
+            },
+            {
+              "title": "**$0 Copay** Hospital Bill Advocacy",
+              "text": "Technology & financial assistance to reduce or erase hospital bills"
+            }
+          ]
+        },
+        {
+          "type": "cards",
+          "title": "Telehealth Services (Covers up to 6 Dependents)",
+          "columns": 2,
+          "items": [
+            {
+              "title": "**$0 Copay** Unlimited Virtual Urgent Care Visits"
+            },
+            {
+              "title": "**$0 Copay** Unlimited Virtual Primary Care Visits"
+            },
+            {
+              "title": "**$0 Copay** Unlimited Virtual Counseling Sessions"
+            },
+            {
+              "title": "**$0 Copay** 1 Comprehensive Lab Per Year"
+            }
+          ]
+        },
+        {
+          "type": "callout",
+          "title": "+ Additional Voluntary Benefits",
+          "tone": "sky",
+          "text": "**Voluntary benefits of your choice**"
+        }
+      ]
+    },
+    {
+      "eyebrow": "Your Bottom Line",
+      "title": "Employer Benefit",
+      "subtitle": "How SIMERP directly reduces payroll costs and increases profitability.",
+      "blocks": [
+        {
+          "type": "callout",
+          "title": "Reduce Employee Turnover",
+          "tone": "emerald",
+          "text": "With rising healthcare costs, it's often not financially feasible for employers to offer benefits. This program is a great solution to reduce turnover, increase retention, & provide benefits at zero net out-of-pocket cost."
+        },
+        {
+          "type": "callout",
+          "tone": "emerald",
+          "stat": {
+            "value": "$1,186/yr",
+            "caption": "Avg. Employer Tax Savings Per Employee, Per Year"
+          },
+          "text": "The net savings stem from contributing less to FICA taxes due to the taxable income of employees being a lesser amount. Your FICA rate of 7.65% remains the same, but on a lowered taxable income, creating a delta in tax savings.\n\nThe savings also directly increase your **EBITDA & enterprise valuation** by decreasing operating expenses. Made possible through the Affordable Care Act, Section 125, Section 213(d) & Section 105 of the Internal Revenue Code."
+        },
+        {
+          "type": "paragraph",
+          "when": "valuation",
+          "text": "At a **{{ebitda_multiple}}x EBITDA multiple**, your {{ebitda_increase}} in annual savings adds an estimated **{{valuation_uplift}}** to enterprise value."
+        },
+        {
+          "type": "callout",
+          "title": "Does This Impact Current Benefits?",
+          "tone": "gray",
+          "text": "This does not conflict with any current benefits in place & does not affect or replace anything — it simply stacks on top. Implementation is simple, our team does all the heavy lifting. Live within 60 days."
+        }
+      ]
+    },
+    {
+      "eyebrow": "See It In Action",
+      "title": "Paycheck Example",
+      "subtitle": "Illustrative {{pay_period}} paycheck for a representative employee ({{filing_status}}, {{paycheck_state}}) showing how take-home pay increases.",
+      "blocks": [
+        {
+          "type": "widget",
+          "widget": "paycheck_example"
+        }
+      ]
+    },
+    {
+      "eyebrow": "Legal Foundation",
+      "title": "Compliance & Tax Codes",
+      "blocks": [
+        {
+          "type": "paragraph",
+          "muted": true,
+          "text": "The Plan is a Self-Insured Medical Reimbursement Plan (SIMERP) purposely created, thoroughly researched, and compliant with IRC 213(d), 106(a), 105(b), 1.105-II(i), and 104(a)(3) codes, and all applicable IRS memos, ERISA regulations, HIPAA, and the ACA."
+        },
+        {
+          "type": "cards",
+          "columns": 4,
+          "items": [
+            {
+              "title": "Wellness",
+              "text": "IRC §106(a), §213(d), §105(b), ERISA, HIPAA, ACA"
+            },
+            {
+              "title": "Medical",
+              "text": "IRC §213(d), ACA"
+            },
+            {
+              "title": "Pre-Tax",
+              "text": "IRC §106(a), §213(d), §125"
+            },
+            {
+              "title": "Post-Tax",
+              "text": "IRC §105(b), §213(d), 1.105-11(i), 104(a)(3)"
+            }
+          ]
+        }
+      ]
+    },
+    {
+      "blocks": [
+        {
+          "type": "widget",
+          "widget": "savings_breakdown"
+        }
+      ]
+    },
+    {
+      "when": "scenarios",
+      "blocks": [
+        {
+          "type": "widget",
+          "widget": "scenarios"
+        }
+      ]
+    },
+    {
+      "when": "projection",
+      "blocks": [
+        {
+          "type": "widget",
+          "widget": "projection"
+        }
+      ]
+    },
+    {
+      "blocks": [
+        {
+          "type": "widget",
+          "widget": "calculation_details"
+        },
+        {
+          "type": "fine_print",
+          "title": "Disclaimer",
+          "text": "All figures are estimates only. In particular, the EBITDA multiple and resulting valuation increase are illustrative and can change materially based on market conditions and transaction specifics. This is not financial, tax, or legal advice. Consult your advisors."
+        }
+      ]
+    }
+  ]
+}
+$template$::jsonb,
+  NOT EXISTS (SELECT 1 FROM proposal_templates WHERE is_default);
@@ -0,0 +1,101 @@
+-- Migration: Enforce the case status workflow in the database
+-- Transitions were only checked by /api/cases/[id]/status, but the
+-- "Users can update own cases" policy let an owner UPDATE cases.status
+-- directly to any value, and owners could insert their own
+-- case_status_history rows. A trigger now rejects transitions outside
+-- CASE_STATUS_TRANSITIONS (src/lib/status.ts) and writes the history row
+-- itself; a case only becomes accepted through the accept flow, which
+-- records a case_acceptances row first.
+
+-- ============================================================
+-- 1. History is written by the trigger only
+-- ============================================================
+DROP POLICY IF EXISTS "Users can insert status history of their own cases" ON case_status_history;
+
+-- ============================================================
+-- 2. Trigger: check the transition and record it
+-- Signed-in users are reps. The server (service role) passes the source
+-- and note through transition_case_status below; anything else it does
+-- is recorded as a system change.
+-- ============================================================
+CREATE OR REPLACE FUNCTION enforce_case_status_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+  allowed       text[];
+  change_source text;
+  change_note   text;
+BEGIN
+  allowed := CASE OLD.status
+    WHEN 'draft'       THEN ARRAY['sent', 'viewed', 'lost']
+    WHEN 'sent'        THEN ARRAY['viewed', 'negotiating', 'accepted', 'declined', 'lost']
+    WHEN 'viewed'      THEN ARRAY['negotiating', 'accepted', 'declined', 'lost']
+    WHEN 'negotiating' THEN ARRAY['accepted', 'declined', 'lost']
+    WHEN 'accepted'    THEN ARRAY['live', 'negotiating', 'lost']
+    WHEN 'declined'    THEN ARRAY['negotiating', 'lost']
+    WHEN 'lost'        THEN ARRAY['negotiating']
+    ELSE ARRAY[]::text[]
+  END;
+
+  IF NOT (NEW.status = ANY (allowed)) THEN
+    RAISE EXCEPTION 'Cannot change case status from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Only the accept flow moves a case to accepted, after recording the
+  -- prospect's signature
+  IF NEW.status = 'accepted' AND NOT EXISTS (
+    SELECT 1 FROM case_acceptances
+    WHERE case_id = NEW.id AND superseded_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'A case can only be accepted by the prospect'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF auth.uid() IS NOT NULL THEN
+    change_source := 'rep';
+  ELSE
+    change_source := COALESCE(NULLIF(current_setting('app.status_source', true), ''), 'system');
+  END IF;
+  change_note := NULLIF(current_setting('app.status_note', true), '');
+
+  INSERT INTO case_status_history (case_id, from_status, to_status, source, changed_by, note)
+  VALUES (NEW.id, OLD.status, NEW.status, change_source, auth.uid(), change_note);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trg_cases_enforce_status_transition
+  BEFORE UPDATE OF status ON cases
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION enforce_case_status_transition();
+
+-- ============================================================
+-- transition_case_status
+-- Moves a case from p_from to p_to, passing the source and note to the
+-- trigger. Runs with the caller's rights, so owners can only move their
+-- own cases and their changes are always recorded as the rep's.
+-- Returns false when the case is no longer in p_from.
+-- ============================================================
+CREATE OR REPLACE FUNCTION transition_case_status(
+  p_case_id uuid,
+  p_from    text,
+  p_to      text,
+  p_source  text DEFAULT NULL,
+  p_note    text DEFAULT NULL
+)
+RETURNS boolean AS $$
+BEGIN
+  PERFORM set_config('app.status_source', COALESCE(p_source, ''), true);
+  PERFORM set_config('app.status_note', COALESCE(p_note, ''), true);
+
+  UPDATE cases SET status = p_to
+  WHERE id = p_case_id AND status = p_from;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION transition_case_status(uuid, text, text, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION transition_case_status(uuid, text, text, text, text) TO authenticated, service_role;
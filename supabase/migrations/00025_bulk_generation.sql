@@ -0,0 +1,35 @@
+-- Migration: Bulk generation in one transaction
+-- /api/generate/bulk inserted the cases and then their links in two
+-- calls; when the links failed, its cleanup delete was silently dropped
+-- by RLS (there is no DELETE policy on cases) and every row was left
+-- behind as a draft case without a link.
+
+-- ============================================================
+-- create_bulk_cases
+-- Inserts the cases and their links together: either every row is
+-- created or none is. p_cases and p_links are arrays of row objects as
+-- built by the bulk route. Runs with the caller's rights, so the insert
+-- policies on cases and case_links still apply.
+-- ============================================================
+CREATE OR REPLACE FUNCTION create_bulk_cases(p_cases jsonb, p_links jsonb)
+RETURNS void AS $$
+BEGIN
+  INSERT INTO cases (
+    id, user_id, company_name, industry, status,
+    calc_total, calc_er, calc_ee, calc_inputs, calc_explanation, calc_steps,
+    engine_version, calc_projection, calc_scenarios, paycheck_inputs, last_generated_at
+  )
+  SELECT
+    id, user_id, company_name, industry, status,
+    calc_total, calc_er, calc_ee, calc_inputs, calc_explanation, calc_steps,
+    engine_version, calc_projection, calc_scenarios, paycheck_inputs, last_generated_at
+  FROM jsonb_populate_recordset(NULL::cases, p_cases);
+
+  INSERT INTO case_links (case_id, token_hash, passcode_hash, expires_at, shareable_url)
+  SELECT case_id, token_hash, passcode_hash, expires_at, shareable_url
+  FROM jsonb_populate_recordset(NULL::case_links, p_links);
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION create_bulk_cases(jsonb, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_bulk_cases(jsonb, jsonb) TO authenticated;
@@ -0,0 +1,27 @@
+-- Migration: Immutable rate sets
+-- Cases record the rate set they were calculated with
+-- (calc_inputs.rate_set_id), but admins could overwrite a set's rates in
+-- place, after which the recorded id no longer described the numbers.
+-- Once a set exists only its end date and notes can change; new rates
+-- are added as a new set.
+
+CREATE OR REPLACE FUNCTION prevent_rate_set_rate_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.tax_year IS DISTINCT FROM OLD.tax_year
+    OR NEW.effective_from IS DISTINCT FROM OLD.effective_from
+    OR NEW.rate_total IS DISTINCT FROM OLD.rate_total
+    OR NEW.rate_er IS DISTINCT FROM OLD.rate_er
+    OR NEW.rate_ee IS DISTINCT FROM OLD.rate_ee
+  THEN
+    RAISE EXCEPTION 'Rate set rates cannot be changed; add a new rate set instead'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_rate_sets_immutable_rates
+  BEFORE UPDATE ON rate_sets
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_rate_set_rate_changes();
@@ -0,0 +1,125 @@
+-- Migration: Versioned proposal templates
+-- Templates were edited in place and cases read them live, so changing
+-- the disclaimer or compliance copy rewrote proposals that were already
+-- sent or accepted. Every content change now adds an immutable version,
+-- and a case is pinned to the version current when it was generated,
+-- edited or given a template. Making a template the default is a single
+-- transaction (make_default_template), so a failed write can't leave no
+-- default at all.
+
+-- ============================================================
+-- 1. Table: proposal_template_versions
+-- proposal_templates.content stays the latest copy, for editing
+-- ============================================================
+CREATE TABLE proposal_template_versions (
+  id          uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id uuid NOT NULL REFERENCES proposal_templates(id) ON DELETE CASCADE,
+  version     integer NOT NULL,
+  content     jsonb NOT NULL,
+  created_by  uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at  timestamptz NOT NULL DEFAULT now(),
+
+  UNIQUE (template_id, version)
+);
+
+INSERT INTO proposal_template_versions (template_id, version, content, created_by, created_at)
+SELECT id, 1, content, created_by, updated_at
+FROM proposal_templates;
+
+-- ============================================================
+-- 2. Trigger: record a version whenever a template's content changes
+-- ============================================================
+CREATE OR REPLACE FUNCTION record_proposal_template_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO proposal_template_versions (template_id, version, content, created_by)
+  SELECT NEW.id, COALESCE(MAX(version), 0) + 1, NEW.content, auth.uid()
+  FROM proposal_template_versions
+  WHERE template_id = NEW.id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trg_proposal_templates_version_insert
+  AFTER INSERT ON proposal_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION record_proposal_template_version();
+
+CREATE TRIGGER trg_proposal_templates_version_update
+  AFTER UPDATE OF content ON proposal_templates
+  FOR EACH ROW
+  WHEN (OLD.content IS DISTINCT FROM NEW.content)
+  EXECUTE FUNCTION record_proposal_template_version();
+
+-- ============================================================
+-- 3. cases.template_version_id
+-- Pinned when a case is created, regenerated (revision changes) or
+-- given a template: the latest version of its template, or of the
+-- default when it has none. NULL = the built-in copy.
+-- ============================================================
+ALTER TABLE cases ADD COLUMN template_version_id uuid
+  REFERENCES proposal_template_versions(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION pin_case_template_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT v.id INTO NEW.template_version_id
+  FROM proposal_template_versions v
+  JOIN proposal_templates t ON t.id = v.template_id
+  WHERE CASE WHEN NEW.template_id IS NOT NULL THEN t.id = NEW.template_id ELSE t.is_default END
+  ORDER BY v.version DESC
+  LIMIT 1;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trg_cases_pin_template_version
+  BEFORE INSERT OR UPDATE OF template_id, revision ON cases
+  FOR EACH ROW
+  EXECUTE FUNCTION pin_case_template_version();
+
+-- Existing cases keep the wording they show today
+UPDATE cases c
+SET template_version_id = (
+  SELECT v.id
+  FROM proposal_template_versions v
+  JOIN proposal_templates t ON t.id = v.template_id
+  WHERE CASE WHEN c.template_id IS NOT NULL THEN t.id = c.template_id ELSE t.is_default END
+  ORDER BY v.version DESC
+  LIMIT 1
+);
+
+-- ============================================================
+-- 4. make_default_template
+-- Clears the old default and sets the new one in one transaction.
+-- Runs with the caller's rights (admins only, via the update policy).
+-- ============================================================
+CREATE OR REPLACE FUNCTION make_default_template(p_template_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE proposal_templates SET is_default = false
+  WHERE is_default AND id <> p_template_id;
+
+  UPDATE proposal_templates SET is_default = true
+  WHERE id = p_template_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Template % not found', p_template_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION make_default_template(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION make_default_template(uuid) TO authenticated;
+
+-- ============================================================
+-- Row Level Security
+-- Versions are written by the trigger only. Public viewers read them
+-- through the service role.
+-- ============================================================
+ALTER TABLE proposal_template_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view proposal template versions"
+  ON proposal_template_versions FOR SELECT
+  TO authenticated
+  USING (true);
@@ -0,0 +1,37 @@
+-- Migration: Duplicate a case in one transaction
+-- /api/cases/[id]/duplicate inserted the new case and then its link in
+-- two calls; when the link failed, its cleanup delete was silently
+-- dropped by RLS (there is no DELETE policy on cases) and the copy was
+-- left behind as a draft case without a link.
+
+-- ============================================================
+-- create_duplicate_case
+-- Inserts the copy and its link together. Unlike create_bulk_cases it
+-- carries the source case, template and what-if range over. Runs with
+-- the caller's rights, so the insert policies on cases and case_links
+-- still apply.
+-- ============================================================
+CREATE OR REPLACE FUNCTION create_duplicate_case(p_case jsonb, p_link jsonb)
+RETURNS void AS $$
+BEGIN
+  INSERT INTO cases (
+    id, user_id, company_name, industry, status,
+    calc_total, calc_er, calc_ee, calc_inputs, calc_explanation, calc_steps,
+    engine_version, calc_projection, calc_scenarios, paycheck_inputs, last_generated_at,
+    source_case_id, template_id, what_if_min_w2, what_if_max_w2
+  )
+  SELECT
+    id, user_id, company_name, industry, status,
+    calc_total, calc_er, calc_ee, calc_inputs, calc_explanation, calc_steps,
+    engine_version, calc_projection, calc_scenarios, paycheck_inputs, last_generated_at,
+    source_case_id, template_id, what_if_min_w2, what_if_max_w2
+  FROM jsonb_populate_record(NULL::cases, p_case);
+
+  INSERT INTO case_links (case_id, token_hash, passcode_hash, expires_at, shareable_url)
+  SELECT case_id, token_hash, passcode_hash, expires_at, shareable_url
+  FROM jsonb_populate_record(NULL::case_links, p_link);
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION create_duplicate_case(jsonb, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_duplicate_case(jsonb, jsonb) TO authenticated;